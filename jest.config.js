@@ -0,0 +1,10 @@
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+  transform: {
+    '^.+\\.[tj]s$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }]
+  },
+  // @noble/secp256k1 only ships ES modules
+  transformIgnorePatterns: ['/node_modules/(?!@noble/secp256k1/)']
+};
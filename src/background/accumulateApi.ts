@@ -0,0 +1,110 @@
+/**
+ * Certen Key Vault - Accumulate API
+ *
+ * Minimal read-only client for the Accumulate v3 JSON-RPC API, used to find
+ * which keys of a restored wallet have been used on the network. Only
+ * public data (account URLs and public keys) is ever sent.
+ */
+
+import { KeyType } from '../shared/types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const REQUEST_TIMEOUT = 10 * 1000;
+
+// JSON-RPC error code for a missing record (-33000 - HTTP status)
+const NOT_FOUND_CODE = -33404;
+
+// Signature types used in key page entries
+const SIGNATURE_TYPES: Partial<Record<KeyType, string>> = {
+  ed25519: 'ed25519',
+  secp256k1: 'eth'
+};
+
+// =============================================================================
+// AccumulateApi Class
+// =============================================================================
+
+export class AccumulateApi {
+  private nextId = 1;
+
+  /**
+   * @param endpoint - Node base URL (see NETWORKS in shared/constants)
+   */
+  constructor(private endpoint: string) {}
+
+  /**
+   * Checks whether an account (e.g. a lite identity) exists on the network.
+   * Lite identities are created by their first transaction, so existing
+   * means the key has history.
+   */
+  async accountExists(url: string): Promise<boolean> {
+    const { found } = await this.query({ scope: url });
+    return found;
+  }
+
+  /**
+   * Finds the key pages of a key book (or of every key book of an ADI) that
+   * list `publicKey`.
+   *
+   * @returns Key page URLs (empty if the key type cannot sign key pages)
+   */
+  async findKeyPages(scope: string, publicKey: string, type: KeyType): Promise<string[]> {
+    const signatureType = SIGNATURE_TYPES[type];
+    if (!signatureType) {
+      return [];
+    }
+
+    const { result } = await this.query({
+      scope,
+      query: { queryType: 'publicKeySearch', publicKey, type: signatureType }
+    });
+    const records: any[] = result?.records || [];
+    return records
+      .map(record => record?.value?.signer)
+      .filter((signer): signer is string => typeof signer === 'string');
+  }
+
+  // ===========================================================================
+  // Transport
+  // ===========================================================================
+
+  /**
+   * Runs a v3 `query` call. A missing record is not an error.
+   *
+   * @throws Error if the node cannot be reached or rejects the query
+   */
+  private async query(params: Record<string, unknown>): Promise<{ found: boolean; result?: any }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.endpoint.replace(/\/+$/, '')}/v3`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: this.nextId++, method: 'query', params }),
+        signal: controller.signal
+      });
+    } catch (error) {
+      throw new Error(controller.signal.aborted ? 'Accumulate node did not respond' : 'Could not reach the Accumulate node');
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Accumulate node returned HTTP ${response.status}`);
+    }
+
+    const body = await response.json();
+    if (body.error) {
+      if (body.error.code === NOT_FOUND_CODE || /not found/i.test(body.error.message || '')) {
+        return { found: false };
+      }
+      throw new Error(body.error.message || 'Accumulate query failed');
+    }
+    return { found: true, result: body.result };
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Certen Key Vault - Audit Records
+ *
+ * Builds audit log records for finished sign requests: which key signed
+ * (or would have signed) which hash for which site, with a short decoded
+ * description of the request. Private key and recovery phrase exports are
+ * recorded as well. Records are stored by KeyStore.recordAudit().
+ */
+
+import { SignRequest, SignatureResult, AuditRecord, AuditOutcome, SignRequestStatus, StoredKey } from '../shared/types';
+import { toHex, fromHex, generateUUID } from '../vault/crypto';
+import { hashTypedData } from '../vault/eip712';
+import { hashEthSignedMessage } from '../vault/secp256k1';
+import { getTransactionSigningHash } from '../vault/evmTransaction';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const OUTCOMES: Partial<Record<SignRequestStatus, AuditOutcome>> = {
+  completed: 'approved',
+  rejected: 'rejected',
+  error: 'error',
+  expired: 'expired'
+};
+
+// =============================================================================
+// Record Building
+// =============================================================================
+
+/**
+ * Builds the audit record for a finished sign request.
+ *
+ * @returns null if the request has not finished
+ */
+export function buildSignAuditRecord(request: SignRequest, keyName?: string): AuditRecord | null {
+  const outcome = OUTCOMES[request.status];
+  if (!outcome) {
+    return null;
+  }
+
+  let signedHash: string | undefined;
+  try {
+    signedHash = getSignedHash(request);
+  } catch {
+    // Malformed request data - record it without a hash
+  }
+
+  return {
+    timestamp: request.updatedAt,
+    outcome,
+    origin: request.origin,
+    method: request.type,
+    requestId: request.id,
+    keyId: request.keyId,
+    keyName,
+    signedHash,
+    summary: summarizeSignRequest(request),
+    error: request.error
+  };
+}
+
+/**
+ * Builds the audit record for a private key export from the popup.
+ *
+ * @param formatName - Display name of the export format
+ */
+export function buildKeyExportAuditRecord(key: StoredKey, formatName: string): AuditRecord {
+  return {
+    timestamp: Date.now(),
+    outcome: 'exported',
+    origin: chrome.runtime.getURL('').replace(/\/$/, ''),
+    method: 'key_export',
+    requestId: generateUUID(),
+    keyId: key.id,
+    keyName: key.name,
+    summary: `Exported ${key.type} private key as ${formatName}`
+  };
+}
+
+/**
+ * Builds the audit record for revealing the recovery phrase in the popup.
+ */
+export function buildMnemonicExportAuditRecord(): AuditRecord {
+  return {
+    timestamp: Date.now(),
+    outcome: 'exported',
+    origin: chrome.runtime.getURL('').replace(/\/$/, ''),
+    method: 'key_export',
+    requestId: generateUUID(),
+    summary: 'Revealed the recovery phrase'
+  };
+}
+
+/**
+ * The hash the request asks to sign (lowercase hex, no 0x). For a signed
+ * Accumulate signature object this is the dataForSignature that was signed;
+ * unsigned Accumulate requests record the transaction hash.
+ */
+function getSignedHash(request: SignRequest): string | undefined {
+  const data = request.data;
+  let hash: string | undefined;
+
+  switch (data.kind) {
+    case 'acc_transaction':
+    case 'acc_pending_transaction':
+      hash = (request.result as SignatureResult | undefined)?.dataForSignature || data.transactionHash;
+      break;
+    case 'acc_hash':
+    case 'eth_hash':
+    case 'bls_hash':
+      hash = data.hash;
+      break;
+    case 'eth_personal_message':
+      hash = toHex(hashEthSignedMessage(data.isHex ? fromHex(data.message) : data.message));
+      break;
+    case 'eth_typed_data':
+      hash = toHex(hashTypedData(data.typedData));
+      break;
+    case 'eth_transaction':
+      hash = toHex(getTransactionSigningHash(data.transaction));
+      break;
+    case 'certen_intent':
+      hash = data.intentHash;
+      break;
+    case 'certen_user_operation':
+      hash = data.userOpHash;
+      break;
+  }
+
+  return hash ? hash.replace(/^0x/, '').toLowerCase() : undefined;
+}
+
+/**
+ * One-line description of a sign request, built from the decoded request
+ * where the vault decoded it and from the site's description otherwise.
+ */
+export function summarizeSignRequest(request: SignRequest): string {
+  const data = request.data;
+
+  switch (data.kind) {
+    case 'acc_transaction':
+    case 'acc_pending_transaction':
+      if (data.decoded && data.decoded.length > 0) {
+        return data.decoded.map(field => `${field.label}: ${field.value}`).join('; ');
+      }
+      return `${data.humanReadable?.action || 'Transaction'} (unverified)`;
+
+    case 'eth_transaction': {
+      const tx = data.transaction;
+      const target = data.decodedCall
+        ? `${data.decodedCall.contract}.${data.decodedCall.functionName}(${data.decodedCall.args.map(a => a.value).join(', ')})`
+        : tx.to ? `to ${tx.to}` : 'contract creation';
+      return `Chain ${tx.chainId}: ${target}, value ${BigInt(tx.value).toString()} wei, nonce ${BigInt(tx.nonce).toString()}`;
+    }
+
+    case 'eth_typed_data':
+      return `${data.typedData.primaryType}${data.typedData.domain.name ? ` for ${data.typedData.domain.name}` : ''}`;
+
+    case 'eth_personal_message':
+      return `Personal message: ${data.humanReadable?.memo || data.message.slice(0, 100)}`;
+
+    case 'certen_intent':
+      return `${data.actionType} ${data.amount} on ${data.targetChain || 'n/a'} to ${data.targetAddress || 'n/a'} ` +
+        `for ${data.adiUrl} (nonce ${data.nonce})`;
+
+    case 'certen_user_operation': {
+      const calls = data.calls.map(call => `${call.contract}.${call.functionName}`).join(', ');
+      return `Chain ${data.chainId}: UserOperation from ${data.userOperation.sender}${calls ? ` calling ${calls}` : ''}`;
+    }
+
+    default:
+      return data.humanReadable?.action
+        ? `${data.humanReadable.action}${data.humanReadable.memo ? `: ${data.humanReadable.memo}` : ''}`
+        : 'Raw hash';
+  }
+}
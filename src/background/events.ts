@@ -0,0 +1,73 @@
+/**
+ * Certen Key Vault - Provider Events
+ *
+ * Sends CERTEN_EVENT messages to the content scripts of open tabs. Each event
+ * is addressed to one origin and delivered only to frames of that origin;
+ * content scripts also drop events for other origins.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ProviderEventType =
+  | 'accountsChanged'
+  | 'networkChanged'
+  | 'chainChanged'
+  | 'lock'
+  | 'disconnect';
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/**
+ * Sends an event to every frame of `origin` in open tabs. Frames are matched
+ * by URL here, so other sites' renderers never receive another origin's
+ * event data.
+ */
+export async function sendProviderEvent(
+  origin: string,
+  event: ProviderEventType,
+  data: unknown
+): Promise<void> {
+  let tabs: chrome.tabs.Tab[];
+  try {
+    tabs = await chrome.tabs.query({});
+  } catch (error) {
+    console.error('[Events] Failed to query tabs:', error);
+    return;
+  }
+
+  const message = { type: 'CERTEN_EVENT', origin, event, data };
+
+  await Promise.all(tabs.map(async (tab) => {
+    if (tab.id === undefined) return;
+    const tabId = tab.id;
+
+    let frames: chrome.webNavigation.GetAllFrameResultDetails[] | null;
+    try {
+      frames = await chrome.webNavigation.getAllFrames({ tabId });
+    } catch {
+      return;
+    }
+
+    await Promise.all((frames || [])
+      .filter(frame => originOf(frame.url) === origin)
+      .map(async (frame) => {
+        try {
+          await chrome.tabs.sendMessage(tabId, message, { frameId: frame.frameId });
+        } catch {
+          // Frame has no content script (e.g. still loading) - ignore
+        }
+      }));
+  }));
+}
+
+function originOf(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
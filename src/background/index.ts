@@ -4,14 +4,38 @@
  * Main entry point for the extension's background script.
  * Handles:
  * - Message routing from content scripts and popup
- * - Vault session management
- * - Auto-lock timer
+ * - Vault session management (restored after service worker restarts)
+ * - Auto-lock timer, idle/screen lock and last-window-closed locking
  * - Badge updates
  */
 
 import { messageRouter } from './messageRouter';
 import { keyStore } from '../vault/keyStore';
 import { signRequestQueue } from './signRequestQueue';
+import { settingsStore } from './settings';
+import { restrictSessionAccess } from '../vault/session';
+
+// =============================================================================
+// Session Restore
+// =============================================================================
+
+/**
+ * MV3 service workers are stopped when idle. Restore the unlocked vault and
+ * in-flight sign requests from chrome.storage.session before handling messages.
+ * The auto-lock timeout is applied first so an expired session is not
+ * restored.
+ */
+const sessionReady: Promise<void> = restrictSessionAccess()
+  .then(() => settingsStore.get())
+  .then(settings => keyStore.setAutoLockTimeout(settings.autoLockTimeout))
+  .then(() => Promise.all([
+    keyStore.restoreSession(),
+    signRequestQueue.restore()
+  ]))
+  .then(() => undefined)
+  .catch(error => {
+    console.error('[Background] Failed to restore session:', error);
+  });
 
 // =============================================================================
 // Message Handler
@@ -21,10 +45,12 @@ import { signRequestQueue } from './signRequestQueue';
  * Main message listener for all extension communication.
  */
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  // Handle message asynchronously
-  messageRouter.handleMessage(message, sender)
+  // Handle message asynchronously, once the session is restored
+  sessionReady
+    .then(() => messageRouter.handleMessage(message, sender))
     .then(response => {
       sendResponse(response);
+      updateBadge(keyStore.isUnlocked());
     })
     .catch(error => {
       console.error('[Background] Message handling error:', error);
@@ -56,8 +82,10 @@ chrome.action.onClicked.addListener(async () => {
 // Check vault status every minute
 chrome.alarms.create('checkAutoLock', { periodInMinutes: 1 });
 
-chrome.alarms.onAlarm.addListener((alarm) => {
+chrome.alarms.onAlarm.addListener(async (alarm) => {
   if (alarm.name === 'checkAutoLock') {
+    await sessionReady;
+
     // isUnlocked() internally handles auto-lock timeout
     const isUnlocked = keyStore.isUnlocked();
 
@@ -66,12 +94,69 @@ chrome.alarms.onAlarm.addListener((alarm) => {
   }
 });
 
-// Cleanup old sign requests every 5 minutes
-chrome.alarms.create('cleanupRequests', { periodInMinutes: 5 });
+// Apply a changed timeout to the current session
+settingsStore.onChange((settings, changed) => {
+  if (changed.includes('autoLockTimeout')) {
+    keyStore.setAutoLockTimeout(settings.autoLockTimeout);
+  }
+});
+
+// Show the locked badge as soon as the vault locks (timeout, idle, last window)
+keyStore.onLock(() => updateBadge(false));
+
+// =============================================================================
+// Idle and Window Auto-Lock
+// =============================================================================
+
+/**
+ * Applies the idle detection interval from the settings.
+ */
+function applyIdleInterval(idleLockTimeout: number): void {
+  chrome.idle.setDetectionInterval(Math.round(idleLockTimeout / 1000));
+}
 
-chrome.alarms.onAlarm.addListener((alarm) => {
+sessionReady
+  .then(() => settingsStore.get())
+  .then(settings => applyIdleInterval(settings.idleLockTimeout));
+
+settingsStore.onChange((settings, changed) => {
+  if (changed.includes('idleLockTimeout')) {
+    applyIdleInterval(settings.idleLockTimeout);
+  }
+});
+
+// Lock when the screen locks or the system has been idle for idleLockTimeout
+chrome.idle.onStateChanged.addListener(async (state) => {
+  if (state === 'active') {
+    return;
+  }
+
+  await sessionReady;
+  const settings = await settingsStore.get();
+  if (settings.lockOnIdle && keyStore.isUnlocked()) {
+    console.log(`[Background] System is ${state}, locking vault`);
+    keyStore.lock();
+  }
+});
+
+// Lock when the last browser window closes (the browser may keep running)
+chrome.windows.onRemoved.addListener(async () => {
+  await sessionReady;
+  const [windows, settings] = await Promise.all([chrome.windows.getAll(), settingsStore.get()]);
+  if (windows.length === 0 && settings.lockOnWindowClose && keyStore.isUnlocked()) {
+    console.log('[Background] Last window closed, locking vault');
+    keyStore.lock();
+  }
+});
+
+// Expire overdue sign requests (notifying the requester) every minute
+chrome.alarms.create('cleanupRequests', { periodInMinutes: 1 });
+
+chrome.alarms.onAlarm.addListener(async (alarm) => {
   if (alarm.name === 'cleanupRequests') {
+    await sessionReady;
     signRequestQueue.cleanup();
+    updateBadge(keyStore.isUnlocked());
   }
 });
 
@@ -83,7 +168,7 @@ chrome.alarms.onAlarm.addListener((alarm) => {
  * Updates the extension badge based on vault status.
  */
 function updateBadge(isUnlocked: boolean): void {
-  const pendingCount = signRequestQueue.getPendingCount();
+  const pendingCount = messageRouter.getPendingApprovalCount();
 
   if (pendingCount > 0) {
     // Show pending count
@@ -91,14 +176,20 @@ function updateBadge(isUnlocked: boolean): void {
     chrome.action.setBadgeBackgroundColor({ color: '#FF6B6B' });
   } else if (isUnlocked) {
     // Show unlocked indicator
-    chrome.action.setBadgeText({ text: '' });
+    chrome.action.setBadgeText({ text: '●' });
+    chrome.action.setBadgeBackgroundColor({ color: '#22C55E' });
   } else {
     // Show locked indicator
-    chrome.action.setBadgeText({ text: '' });
+    chrome.action.setBadgeText({ text: '●' });
     chrome.action.setBadgeBackgroundColor({ color: '#888888' });
   }
+
+  chrome.action.setTitle({ title: `Certen Key Vault (${isUnlocked ? 'unlocked' : 'locked'})` });
 }
 
+// Keep the pending count live as requests arrive and are answered
+messageRouter.onApprovalsChanged(() => updateBadge(keyStore.isUnlocked()));
+
 // =============================================================================
 // Installation Handler
 // =============================================================================
@@ -140,7 +231,7 @@ chrome.runtime.onStartup.addListener(() => {
 console.log('[Certen Key Vault] Background service worker initialized');
 
 // Update badge on load
-keyStore.isInitialized().then(async (initialized) => {
+sessionReady.then(() => keyStore.isInitialized()).then(async (initialized) => {
   if (initialized) {
     updateBadge(keyStore.isUnlocked());
   } else {
@@ -7,8 +7,12 @@
 
 import { KeyStore, keyStore } from '../vault/keyStore';
 import { SignRequestQueue, signRequestQueue } from './signRequestQueue';
-import { signED25519, signED25519Hex, fromHex, toHex } from '../vault';
-import { signSecp256k1, signSecp256k1Hex } from '../vault/secp256k1';
+import { PermissionStore, permissionStore, getMethodGroup } from './permissions';
+import { sendProviderEvent, ProviderEventType } from './events';
+import { buildSignAuditRecord, buildKeyExportAuditRecord, buildMnemonicExportAuditRecord } from './auditLog';
+import { verifyAuditLog, auditLogToCsv, auditLogToJson } from '../vault/audit';
+import { signED25519Hex, fromHex, toHex, benchmarkKdf } from '../vault';
+import { signSecp256k1Hex } from '../vault/secp256k1';
 import { signBLS12381Hex } from '../vault/bls12381';
 import {
   SignRequest,
@@ -18,13 +22,60 @@ import {
   AccSignHashData,
   EthSignHashData,
   EthSignPersonalMessageData,
+  EthSignTypedDataData,
+  EthSignTransactionData,
+  HumanReadableTransaction,
+  TypedData,
+  EvmTransaction,
+  DecodedCall,
+  UserOperation,
+  CertenUserOperationData,
   CertenIntentData,
   BlsSignHashData,
   CertenAccount,
-  SignatureResult
+  SignatureResult,
+  StoredKey,
+  PermissionGroup,
+  AccumulateTransaction,
+  AccumulateSignatureObject,
+  KdfAlgorithm,
+  KdfParams,
+  KeyType,
+  NetworkId,
+  DerivationOptions,
+  DiscoveredKey
 } from '../shared/types';
 import { signEthPersonalMessage } from '../vault/secp256k1';
-import { DEFAULT_NETWORK } from '../shared/constants';
+import { signTypedData, parseTypedData, getTypedDataChainId } from '../vault/eip712';
+import { getChainContracts, ERC4337_ENTRYPOINT } from '../config/contracts';
+import { checksumAddress, predictCertenAccountForChain } from '../vault/create2';
+import { parseEvmTransaction, signEvmTransaction, SignedEvmTransaction } from '../vault/evmTransaction';
+import { decodeCertenCall } from '../vault/abi';
+import { CertenIntent, parseCertenIntent, hashCertenIntent, isIntentExpired } from '../vault/intent';
+import {
+  parseUserOperation,
+  getUserOperationHash,
+  signUserOperationHash,
+  buildCertenInitCode,
+  summarizeUserOperationCall
+} from '../vault/userOperation';
+import {
+  verifyTransaction,
+  hashTransaction,
+  describeTransaction,
+  computeDataForSignature,
+  buildED25519Signature,
+  buildEnvelope,
+  SignatureMetadata
+} from '../vault/accumulate';
+import { SettingsStore, settingsStore, SettingsUpdate } from './settings';
+import { AccumulateApi } from './accumulateApi';
+import { detectKeyFormat, keyImportNeedsPassword, parseImportedKey, KEY_IMPORT_FORMAT_NAMES } from '../vault/keyImport';
+import { exportKey, KeyExportFormat, KEY_EXPORT_FORMAT_NAMES } from '../vault/keyExport';
+import {
+  SESSION_KEY_APPROVAL_WINDOW,
+  NETWORKS
+} from '../shared/constants';
 import {
   validateMnemonic,
   deriveED25519FromMnemonic,
@@ -44,30 +95,81 @@ const SIGN_METHODS = new Set([
   'eth_signHash',
   'eth_signTypedData',
   'eth_signPersonalMessage',
+  'eth_signTransaction',
   'certen_signIntent',
-  'bls_signHash'
+  'certen_signUserOperation',
+  'bls_signHash',
+  'personal_sign',
+  'eth_signTypedData_v4'
 ]);
 
-// Methods that require connection
-// NOTE: Signing methods are NOT included here because:
-// 1. The popup approval dialog is the real security gate
-// 2. connectedSites is in-memory and lost when service worker restarts
-// 3. Users would get confusing "not connected" errors after browser restart
-const CONNECTION_REQUIRED_METHODS = new Set([
-  'acc_sendTokens',
-  'acc_addCredits',
-  'certen_bridgeToEVM'
-]);
+// Curve that signs each request kind, for suggesting the default key.
+// Intents can be signed with either ED25519 or secp256k1.
+const SIGN_KEY_TYPES: Partial<Record<SignRequestData['kind'], KeyType>> = {
+  acc_transaction: 'ed25519',
+  acc_pending_transaction: 'ed25519',
+  acc_hash: 'ed25519',
+  eth_hash: 'secp256k1',
+  eth_personal_message: 'secp256k1',
+  eth_typed_data: 'secp256k1',
+  eth_transaction: 'secp256k1',
+  certen_user_operation: 'secp256k1',
+  bls_hash: 'bls12381'
+};
 
-// =============================================================================
-// State
-// =============================================================================
+/**
+ * Whether a request asks to sign something the vault could not decode or
+ * verify: a raw hash, or an Accumulate transaction whose hash did not
+ * match its body.
+ */
+function isBlindSignRequest(data: SignRequestData): boolean {
+  switch (data.kind) {
+    case 'acc_hash':
+    case 'eth_hash':
+    case 'bls_hash':
+      return true;
+    case 'acc_transaction':
+    case 'acc_pending_transaction':
+      return !data.verified;
+    default:
+      return false;
+  }
+}
 
-// Connected sites
-const connectedSites = new Map<string, boolean>();
+// How long a key selection request waits for the user
+const KEY_SELECTION_TIMEOUT = 5 * 60 * 1000;
+
+// Key discovery: unused keys to scan past the last used one, and limits
+const DEFAULT_DISCOVERY_GAP = 5;
+const MAX_DISCOVERY_GAP = 20;
+const MAX_DISCOVERED_KEYS = 100;              // Per key type
+
+const KEY_TYPE_NAMES: Record<KeyType, string> = {
+  ed25519: 'Accumulate Key',
+  secp256k1: 'Ethereum Key',
+  bls12381: 'BLS Key'
+};
+
+// Popup messages that count as user activity and postpone auto-lock
+const ACTIVITY_MESSAGES = new Set([
+  'SESSION_ACTIVITY',
+  'APPROVE_SIGN_REQUEST',
+  'REJECT_SIGN_REQUEST',
+  'APPROVE_CONNECTION',
+  'REJECT_CONNECTION',
+  'COMPLETE_KEY_SELECTION',
+  'REJECT_KEY_SELECTION',
+  'REJECT_ORIGIN_REQUESTS'
+]);
 
-// Current network
-let currentNetwork: 'mainnet' | 'testnet' | 'devnet' = DEFAULT_NETWORK as 'mainnet' | 'testnet' | 'devnet';
+/**
+ * The page-side identity of an RPC call. The content script resends a call
+ * with `reattach` set when the worker restarted before answering it.
+ */
+interface RpcClient {
+  id?: string;
+  reattach?: boolean;
+}
 
 // =============================================================================
 // Message Router Class
@@ -76,10 +178,41 @@ let currentNetwork: 'mainnet' | 'testnet' | 'devnet' = DEFAULT_NETWORK as 'mainn
 export class MessageRouter {
   private keyStore: KeyStore;
   private signQueue: SignRequestQueue;
-
-  constructor(ks: KeyStore = keyStore, sq: SignRequestQueue = signRequestQueue) {
+  private permissions: PermissionStore;
+  private settings: SettingsStore;
+  private approvalListeners: Array<() => void> = [];
+
+  constructor(
+    ks: KeyStore = keyStore,
+    sq: SignRequestQueue = signRequestQueue,
+    ps: PermissionStore = permissionStore,
+    st: SettingsStore = settingsStore
+  ) {
     this.keyStore = ks;
     this.signQueue = sq;
+    this.permissions = ps;
+    this.settings = st;
+
+    // Tell connected sites when the vault locks (manually or by auto-lock)
+    this.keyStore.onLock(() => {
+      this.notifyLocked().catch(err => console.error('[MessageRouter] Failed to send lock event:', err));
+    });
+
+    // Keep the approval inbox and badge count live
+    this.signQueue.onChange(() => this.notifyApprovalsChanged());
+
+    // Record every approval, rejection, error and expiry in the audit log
+    this.signQueue.onFinish((request) => {
+      this.recordSignRequest(request).catch(err => console.error('[MessageRouter] Failed to record audit entry:', err));
+    });
+
+    // Tell connected sites when the Accumulate network changes
+    this.settings.onChange((settings, changed) => {
+      if (changed.includes('network')) {
+        this.broadcastEvent('networkChanged', { network: settings.network })
+          .catch(err => console.error('[MessageRouter] Failed to send network event:', err));
+      }
+    });
   }
 
   /**
@@ -91,11 +224,18 @@ export class MessageRouter {
   ): Promise<any> {
     const { type } = message;
 
+    if (ACTIVITY_MESSAGES.has(type) && isExtensionPage(sender)) {
+      this.keyStore.refreshSession();
+    }
+
     try {
       switch (type) {
         case 'PING':
           return { pong: true };
 
+        case 'SESSION_ACTIVITY':
+          return { isUnlocked: this.keyStore.isUnlocked() };
+
         case 'CERTEN_RPC_REQUEST':
           return this.handleRPCRequest(message, sender);
 
@@ -104,11 +244,20 @@ export class MessageRouter {
           return this.getVaultStatus();
 
         case 'VAULT_INITIALIZE':
-          return this.initializeVault(message.password, message.mnemonic);
+          return this.initializeVault(message.password, message.mnemonic, message.kdfParams, message.passphrase);
+
+        case 'BENCHMARK_KDF':
+          return this.benchmarkKdf(message.algorithm, message.targetMs);
 
         case 'VAULT_UNLOCK':
           return this.unlockVault(message.password);
 
+        case 'GET_UNLOCK_STATUS':
+          return { status: await this.keyStore.getUnlockStatus() };
+
+        case 'SET_WIPE_POLICY':
+          return this.setWipePolicy(message.wipeAfterFailures);
+
         case 'VAULT_LOCK':
           return this.lockVault();
 
@@ -122,14 +271,49 @@ export class MessageRouter {
         case 'GENERATE_KEY':
           return this.generateKey(message.keyType, message.name);
 
+        // Wallet branches (BIP-39 passphrases)
+        case 'GET_WALLETS':
+          return this.getWallets();
+
+        case 'ADD_WALLET':
+          return this.addWallet(message.name, message.passphrase);
+
+        case 'SWITCH_WALLET':
+          return this.switchWallet(message.walletId);
+
+        case 'REMOVE_WALLET':
+          return this.removeWallet(message.walletId);
+
         case 'DERIVE_KEY':
-          return this.deriveKey(message.keyType, message.name);
+          return this.deriveKey(message.keyType, message.name, {
+            account: message.account,
+            index: message.index,
+            path: message.path
+          });
 
         case 'IMPORT_KEY':
           return this.importKey(message.keyType, message.privateKey, message.name);
 
+        case 'IMPORT_KEY_DATA':
+          return this.importKeyData(message.data, message.password, message.keyType, message.name);
+
+        case 'ADD_WATCH_ONLY_KEY':
+          return this.addWatchOnlyKey(message.keyType, message.publicKey, message.name);
+
         case 'IMPORT_MNEMONIC':
-          return this.importFromMnemonic(message.mnemonic, message.keyType, message.name);
+          return this.importFromMnemonic(message.mnemonic, message.keyType, message.name, message.passphrase);
+
+        // Key discovery (restoring from a recovery phrase)
+        case 'DISCOVER_KEYS':
+          return this.discoverKeys({
+            gap: message.gap,
+            keyTypes: message.keyTypes,
+            useNetwork: message.useNetwork,
+            keyBooks: message.keyBooks
+          });
+
+        case 'IMPORT_DISCOVERED_KEYS':
+          return this.importDiscoveredKeys(message.keys);
 
         case 'REMOVE_KEY':
           return this.removeKey(message.keyId);
@@ -139,7 +323,7 @@ export class MessageRouter {
 
         // Sign request operations
         case 'GET_PENDING_SIGN_REQUEST':
-          return this.getPendingSignRequest();
+          return this.getPendingSignRequest(message.requestId);
 
         case 'APPROVE_SIGN_REQUEST':
           return this.approveSignRequest(message.requestId, message.keyId);
@@ -147,9 +331,26 @@ export class MessageRouter {
         case 'REJECT_SIGN_REQUEST':
           return this.rejectSignRequest(message.requestId, message.reason);
 
+        // Connection operations
+        case 'GET_PENDING_CONNECTION':
+          return { connection: this.getPendingConnection() };
+
+        case 'APPROVE_CONNECTION':
+          return this.approveConnection(message.requestId, message.keyIds, message.methodGroups);
+
+        case 'REJECT_CONNECTION':
+          return this.rejectConnection(message.requestId, message.reason);
+
+        // Site permissions
+        case 'GET_PERMISSIONS':
+          return { permissions: await this.permissions.getAll() };
+
+        case 'REVOKE_PERMISSION':
+          return this.revokePermission(message.origin);
+
         // Key selection operations
         case 'GET_PENDING_KEY_SELECTION':
-          return { selection: this.getPendingKeySelection() };
+          return { selection: await this.getPendingKeySelection(message.requestId) };
 
         case 'COMPLETE_KEY_SELECTION':
           return this.completeKeySelection(message.requestId, message.keyId);
@@ -157,20 +358,43 @@ export class MessageRouter {
         case 'REJECT_KEY_SELECTION':
           return this.rejectKeySelection(message.requestId, message.reason);
 
+        // Audit log
+        case 'GET_AUDIT_LOG':
+          return this.getAuditLog();
+
+        case 'EXPORT_AUDIT_LOG':
+          return this.exportAuditLog(message.format);
+
+        // Approval inbox
+        case 'GET_PENDING_APPROVALS':
+          return this.getPendingApprovals();
+
+        case 'REJECT_ORIGIN_REQUESTS':
+          return this.rejectOriginRequests(message.origin, message.reason);
+
         // Settings
+        case 'GET_SETTINGS':
+          return { settings: await this.settings.get() };
+
+        case 'UPDATE_SETTINGS':
+          return this.updateSettings(message.settings);
+
         case 'GET_NETWORK':
-          return { network: currentNetwork };
+          return { network: (await this.settings.get()).network };
 
         case 'SET_NETWORK':
-          currentNetwork = message.network;
-          return { success: true };
+          return this.setNetwork(message.network);
 
         // Secret export (for Settings page)
         case 'GET_MNEMONIC':
-          return this.getMnemonic();
+          return this.getMnemonic(message.password);
 
+        // Deprecated: use EXPORT_KEY with format 'hex'
         case 'GET_KEY_WITH_PRIVATE':
-          return this.getKeyWithPrivate(message.keyId);
+          return this.getKeyWithPrivate(message.keyId, message.password);
+
+        case 'EXPORT_KEY':
+          return this.exportKey(message.keyId, message.format, message.password, message.exportPassword);
 
         default:
           throw new Error(`Unknown message type: ${type}`);
@@ -194,13 +418,22 @@ export class MessageRouter {
     sender: chrome.runtime.MessageSender
   ): Promise<any> {
     const { method, params, origin } = message;
+    const client: RpcClient = { id: message.id, reattach: message.reattach === true };
 
-    // Check if connection is required
-    if (CONNECTION_REQUIRED_METHODS.has(method)) {
-      if (!this.isConnected(origin)) {
-        return {
-          error: { code: 4100, message: 'Not connected. Please call connect() first.' }
-        };
+    // Only sign requests are kept across restarts; anything else must be retried
+    if (client.reattach && !SIGN_METHODS.has(method)) {
+      return {
+        error: { code: -32603, message: 'Request was interrupted by an extension restart. Please retry.' }
+      };
+    }
+
+    // Check the origin's permission for the method's group
+    // ('accounts' methods return an empty list instead of failing)
+    const group = getMethodGroup(method);
+    if (group && group !== 'accounts') {
+      const denied = await this.checkPermission(origin, group);
+      if (denied) {
+        return denied;
       }
     }
 
@@ -222,7 +455,7 @@ export class MessageRouter {
           return this.handleConnect(origin);
 
         case 'acc_getAccounts':
-          return this.handleGetAccounts();
+          return this.handleGetAccounts(origin);
 
         case 'acc_disconnect':
           return this.handleDisconnect(origin);
@@ -234,8 +467,34 @@ export class MessageRouter {
         case 'eth_signHash':
         case 'eth_signPersonalMessage':
         case 'certen_signIntent':
+        case 'certen_signUserOperation':
         case 'bls_signHash':
-          return this.handleSignRequest(method, params[0], origin);
+          return this.handleSignRequest(method, params[0], origin, client);
+
+        case 'eth_signTypedData':
+          return this.handleSignRequest(method, this.normalizeTypedDataParams(params), origin, client);
+
+        case 'eth_signTransaction':
+          return this.handleEthSignTransaction(params, origin, client);
+
+        // EIP-1193 provider (window.ethereum)
+        case 'eth_requestAccounts':
+          return this.handleEthRequestAccounts(origin);
+
+        case 'eth_accounts':
+          return this.handleEthAccounts(origin);
+
+        case 'eth_chainId':
+          return { result: '0x' + (await this.getEvmChainId(origin)).toString(16) };
+
+        case 'wallet_switchEthereumChain':
+          return this.handleSwitchEthereumChain(origin, params[0] as { chainId?: string });
+
+        case 'personal_sign':
+          return this.handleEthPersonalSign(params, origin, client);
+
+        case 'eth_signTypedData_v4':
+          return this.handleEthSignTypedDataV4(params, origin, client);
 
         // Query (no approval needed)
         case 'acc_queryAccount':
@@ -251,7 +510,7 @@ export class MessageRouter {
             publicKey?: string;
             keyId?: string;
             metadata: { keyPageUrl?: string; [key: string]: unknown };
-          });
+          }, origin);
 
         // Key selection (opens popup for user to choose a key)
         case 'acc_selectKey':
@@ -291,47 +550,406 @@ export class MessageRouter {
       return { result: { accounts: [], connected: false, needsUnlock: true } };
     }
 
-    // Mark site as connected
-    connectedSites.set(origin, true);
-
-    // Get accounts
-    const accounts = this.getAccountsForConnection();
+    // Sites that were already granted access reconnect without a prompt
+    if (!await this.permissions.get(origin)) {
+      const approval = await this.requestConnectionApproval(origin);
+      if (approval.error) {
+        return approval;
+      }
+    }
 
     return {
       result: {
-        accounts,
+        accounts: await this.getAccountsForConnection(origin),
         connected: true,
-        network: currentNetwork
+        network: (await this.settings.get()).network
       }
     };
   }
 
-  private handleGetAccounts(): any {
+  private async handleGetAccounts(origin: string): Promise<any> {
     if (!this.keyStore.isUnlocked()) {
       return { result: [] };
     }
-    return { result: this.getAccountsForConnection() };
+    return { result: await this.getAccountsForConnection(origin) };
   }
 
-  private handleDisconnect(origin: string): any {
-    connectedSites.delete(origin);
+  private async handleDisconnect(origin: string): Promise<any> {
+    if (await this.permissions.revoke(origin)) {
+      await sendProviderEvent(origin, 'disconnect', {});
+    }
     return { result: { success: true } };
   }
 
-  private isConnected(origin: string): boolean {
-    return connectedSites.get(origin) === true;
+  /**
+   * Returns an error response if the origin may not call methods in `group`.
+   */
+  private async checkPermission(
+    origin: string,
+    group: PermissionGroup
+  ): Promise<{ error: { code: number; message: string } } | null> {
+    const permission = await this.permissions.get(origin);
+    if (!permission) {
+      return { error: { code: 4100, message: 'Not connected. Please call connect() first.' } };
+    }
+    if (!permission.methodGroups.includes(group)) {
+      return { error: { code: 4100, message: `This site has not been granted "${group}" permission` } };
+    }
+    return null;
+  }
+
+  /**
+   * Keys the origin was granted (keys removed from the vault are skipped).
+   */
+  private async getPermittedKeys(origin: string): Promise<StoredKey[]> {
+    const permission = await this.permissions.get(origin);
+    if (!permission) {
+      return [];
+    }
+    return this.keyStore.getAllKeys().filter(key => permission.keyIds.includes(key.id));
   }
 
-  private getAccountsForConnection(): CertenAccount[] {
-    const keys = this.keyStore.getAllKeys();
+  private async getAccountsForConnection(origin: string): Promise<CertenAccount[]> {
+    const keys = await this.getPermittedKeys(origin);
     return keys.map(key => ({
       url: key.metadata.accumulateUrl || key.metadata.evmAddress || '',
       type: key.type === 'ed25519' ? 'lite' as const : 'evm' as const,
       publicKey: key.publicKey,
-      name: key.name
+      name: key.name,
+      ...(key.watchOnly && { watchOnly: true })
     }));
   }
 
+  // ===========================================================================
+  // Connection Approval
+  // ===========================================================================
+
+  // Pending connection requests
+  private pendingConnections = new Map<string, {
+    origin: string;
+    resolve: (result: any) => void;
+  }>();
+
+  /**
+   * Opens the connection prompt, where the user picks which keys and method
+   * groups to share with the origin. Resolves once the user decides.
+   */
+  private requestConnectionApproval(origin: string): Promise<any> {
+    const requestId = `connect_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    // Add to pending BEFORE opening popup to avoid race condition
+    return new Promise((resolve) => {
+      this.pendingConnections.set(requestId, { origin, resolve });
+
+      this.openPopup('connect').catch(err => {
+        console.error('[MessageRouter] Failed to open connection popup:', err);
+        this.pendingConnections.delete(requestId);
+        resolve({ error: { code: -32603, message: 'Failed to open connection popup' } });
+      });
+
+      // Timeout after 5 minutes
+      setTimeout(() => {
+        if (this.pendingConnections.has(requestId)) {
+          this.pendingConnections.delete(requestId);
+          resolve({ error: { code: 4001, message: 'Connection request timeout' } });
+        }
+      }, 300000);
+    });
+  }
+
+  getPendingConnection(): { requestId: string; origin: string } | null {
+    const entry = this.pendingConnections.entries().next().value;
+    if (entry) {
+      const [requestId, data] = entry;
+      return { requestId, origin: data.origin };
+    }
+    return null;
+  }
+
+  async approveConnection(requestId: string, keyIds: string[], methodGroups: PermissionGroup[]): Promise<any> {
+    const pending = this.pendingConnections.get(requestId);
+    if (!pending) {
+      return { error: { code: -32600, message: 'Connection request not found' } };
+    }
+
+    if (!this.keyStore.isUnlocked()) {
+      return { error: { code: 4100, message: 'Vault is locked' } };
+    }
+
+    if (!Array.isArray(keyIds) || keyIds.length === 0) {
+      return { error: { code: -32602, message: 'Select at least one key to share' } };
+    }
+    if (keyIds.some(id => !this.keyStore.getKey(id))) {
+      return { error: { code: -32602, message: 'Key not found' } };
+    }
+
+    const permission = await this.permissions.grant(pending.origin, keyIds, methodGroups || []);
+
+    this.pendingConnections.delete(requestId);
+    pending.resolve({ result: permission });
+
+    // Other tabs of the same site pick up the new accounts
+    await this.notifyAccountsChanged([pending.origin]);
+
+    return { success: true, permission };
+  }
+
+  rejectConnection(requestId: string, reason: string): any {
+    const pending = this.pendingConnections.get(requestId);
+    if (!pending) {
+      return { error: { code: -32600, message: 'Connection request not found' } };
+    }
+
+    this.pendingConnections.delete(requestId);
+    pending.resolve({ error: { code: 4001, message: reason || 'User rejected the connection request' } });
+
+    return { success: true };
+  }
+
+  private async revokePermission(origin: string): Promise<any> {
+    const revoked = await this.permissions.revoke(origin);
+    if (revoked) {
+      await sendProviderEvent(origin, 'disconnect', {});
+    }
+    return { success: revoked, error: revoked ? undefined : 'Site is not connected' };
+  }
+
+  // ===========================================================================
+  // EIP-1193 Provider
+  // ===========================================================================
+
+  private async handleEthRequestAccounts(origin: string): Promise<any> {
+    const response = await this.handleConnect(origin);
+    if (!response.result?.connected) {
+      return {
+        error: {
+          code: 4100,
+          message: response.result?.needsSetup ? 'Vault is not set up' : 'Vault is locked. Please unlock first.'
+        }
+      };
+    }
+    return { result: await this.getEvmAddresses(origin) };
+  }
+
+  private async handleEthAccounts(origin: string): Promise<any> {
+    if (!this.keyStore.isUnlocked()) {
+      return { result: [] };
+    }
+    return { result: await this.getEvmAddresses(origin) };
+  }
+
+  /**
+   * EVM addresses the site may use. Watch-only keys are left out: EIP-1193
+   * accounts are the ones the wallet can sign for.
+   */
+  private async getEvmAddresses(origin: string): Promise<string[]> {
+    return (await this.getPermittedKeys(origin))
+      .filter(key => key.type === 'secp256k1' && key.metadata.evmAddress && !key.watchOnly)
+      .map(key => checksumAddress(key.metadata.evmAddress!));
+  }
+
+  /**
+   * The origin's active chain, or the default chain from Settings.
+   */
+  private async getEvmChainId(origin: string): Promise<number> {
+    const settings = await this.settings.get();
+    return settings.siteChainIds[origin] ?? settings.defaultEvmChainId;
+  }
+
+  /**
+   * Switches the origin's active chain. Only chains in CERTEN_CONTRACTS are allowed.
+   */
+  private async handleSwitchEthereumChain(origin: string, params: { chainId?: string }): Promise<any> {
+    let chainId: number;
+    try {
+      chainId = Number(BigInt(params?.chainId ?? ''));
+    } catch {
+      return { error: { code: -32602, message: `Invalid chainId: ${params?.chainId}` } };
+    }
+
+    if (!getChainContracts(chainId)) {
+      return { error: { code: 4902, message: `Unrecognized chain ID: ${params.chainId}` } };
+    }
+
+    if (await this.getEvmChainId(origin) !== chainId) {
+      await this.settings.update(current => ({
+        siteChainIds: { ...current.siteChainIds, [origin]: chainId }
+      }));
+      await sendProviderEvent(origin, 'chainChanged', { chainId: '0x' + chainId.toString(16) });
+    }
+    return { result: null };
+  }
+
+  /**
+   * personal_sign: params are [message, address], message usually 0x-hex.
+   */
+  private async handleEthPersonalSign(params: unknown[], origin: string, client?: RpcClient): Promise<any> {
+    const [message, address] = params as [string, string];
+    if (typeof message !== 'string' || typeof address !== 'string') {
+      return { error: { code: -32602, message: 'personal_sign expects [message, address]' } };
+    }
+
+    const isHex = /^0x([0-9a-fA-F]{2})*$/.test(message);
+    const displayMessage = isHex ? decodeUtf8OrHex(message) : message;
+
+    return this.unwrapSignature(await this.handleSignRequest('eth_signPersonalMessage', {
+      message,
+      isHex,
+      address,
+      humanReadable: {
+        action: 'Sign Personal Message',
+        memo: displayMessage.slice(0, 100) + (displayMessage.length > 100 ? '...' : '')
+      }
+    }, origin, client));
+  }
+
+  /**
+   * eth_signTypedData_v4: params are [address, typedData]. The domain chainId
+   * must match the origin's active chain.
+   */
+  private async handleEthSignTypedDataV4(params: unknown[], origin: string, client?: RpcClient): Promise<any> {
+    const data = this.normalizeTypedDataParams(params);
+
+    try {
+      const chainId = getTypedDataChainId(parseTypedData(data.typedData));
+      const activeChainId = await this.getEvmChainId(origin);
+      if (chainId !== undefined && chainId !== activeChainId) {
+        return {
+          error: {
+            code: -32602,
+            message: `Typed data chainId ${chainId} does not match the active chain ${activeChainId}`
+          }
+        };
+      }
+    } catch {
+      // Parse errors are reported by handleSignRequest
+    }
+
+    return this.unwrapSignature(await this.handleSignRequest('eth_signTypedData', data, origin, client));
+  }
+
+  /**
+   * eth_signTransaction accepts the vault form [{ address, transaction }],
+   * which returns the full SignatureResult, or the EIP-1193 form [{ from, ... }],
+   * which returns only the raw signed transaction.
+   */
+  private async handleEthSignTransaction(params: unknown[], origin: string, client?: RpcClient): Promise<any> {
+    const request = (params[0] || {}) as any;
+    const isVaultForm = request.transaction !== undefined;
+    const txRequest = isVaultForm ? request.transaction : request;
+
+    const response = await this.handleSignRequest('eth_signTransaction', {
+      address: request.address || txRequest?.from || '',
+      transaction: txRequest,
+      humanReadable: request.humanReadable
+    }, origin, client);
+
+    if (!isVaultForm && response?.result?.rawTransaction) {
+      return { result: response.result.rawTransaction };
+    }
+    return response;
+  }
+
+  /**
+   * Builds a certen_signUserOperation request: normalizes the op, checks the
+   * EntryPoint and chain, verifies an undeployed sender against the predicted
+   * Certen account (optionally filling initCode) and computes userOpHash.
+   */
+  private buildUserOperationRequest(
+    data: any,
+    origin: string,
+    activeChainId: number
+  ): CertenUserOperationData | { error: { code: number; message: string } } {
+    const invalid = (message: string) => ({ error: { code: -32602, message } });
+
+    let op: UserOperation;
+    try {
+      op = parseUserOperation(data.userOperation || data.userOp);
+    } catch (error) {
+      return invalid(`Invalid UserOperation: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+
+    const entryPoint = data.entryPoint || ERC4337_ENTRYPOINT;
+    if (entryPoint.toLowerCase() !== ERC4337_ENTRYPOINT.toLowerCase()) {
+      return invalid(`Unsupported EntryPoint: ${entryPoint}`);
+    }
+
+    const chainId = data.chainId !== undefined ? Number(data.chainId) : activeChainId;
+    if (!getChainContracts(chainId)) {
+      return invalid(`Unsupported chainId: ${data.chainId}`);
+    }
+
+    const ownerKey = data.owner ? this.keyStore.findKeyByEvmAddress(data.owner) : undefined;
+    if (!ownerKey || ownerKey.type !== 'secp256k1') {
+      return invalid(`No secp256k1 key for owner: ${data.owner || '(none)'}`);
+    }
+    if (ownerKey.watchOnly) {
+      return invalid(`Owner key "${ownerKey.name}" is watch-only and cannot sign`);
+    }
+
+    // Counterfactual sender: must be the Certen account predicted for this owner.
+    // Any initCode or fill-in request is checked, whatever the site says about deployment.
+    let counterfactual: CertenUserOperationData['counterfactual'];
+    if (op.initCode !== '0x' || data.fillInitCode || data.deployed === false) {
+      if (!data.adiUrl) {
+        return invalid('adiUrl is required for an undeployed sender');
+      }
+
+      const predictedAddress = predictCertenAccountForChain(data.adiUrl, ownerKey.publicKey, chainId);
+      const expectedInitCode = buildCertenInitCode(data.adiUrl, ownerKey.publicKey, chainId);
+      if (!predictedAddress || !expectedInitCode) {
+        return invalid(`Certen account prediction is not available on chain ${chainId}`);
+      }
+      if (predictedAddress.toLowerCase() !== op.sender.toLowerCase()) {
+        return invalid(`Sender ${op.sender} does not match the predicted Certen account ${predictedAddress}`);
+      }
+
+      let initCodeFilled = false;
+      if (op.initCode === '0x' && data.fillInitCode) {
+        op = { ...op, initCode: expectedInitCode };
+        initCodeFilled = true;
+      } else if (op.initCode !== '0x' && !hexEquals(op.initCode, expectedInitCode)) {
+        return invalid('initCode does not deploy the predicted Certen account');
+      }
+
+      counterfactual = { adiUrl: data.adiUrl, predictedAddress, initCodeFilled };
+    }
+
+    const userOpHash = getUserOperationHash(op, entryPoint, chainId);
+    if (data.userOpHash && !hexEquals(data.userOpHash, userOpHash)) {
+      return invalid(`userOpHash mismatch: expected ${userOpHash}, got ${data.userOpHash}`);
+    }
+
+    let calls: DecodedCall[];
+    try {
+      calls = summarizeUserOperationCall(op, chainId);
+    } catch (error) {
+      return invalid(`Malformed callData: ${error instanceof Error ? error.message : 'decode error'}`);
+    }
+
+    return {
+      kind: 'certen_user_operation',
+      owner: data.owner,
+      chainId,
+      entryPoint,
+      userOperation: op,
+      userOpHash,
+      calls,
+      counterfactual,
+      humanReadable: data.humanReadable
+    };
+  }
+
+  /**
+   * EIP-1193 signing methods return the bare signature hex.
+   */
+  private unwrapSignature(response: any): any {
+    if (response?.result?.signature) {
+      return { result: response.result.signature };
+    }
+    return response;
+  }
+
   // ===========================================================================
   // Sign Request Handling
   // ===========================================================================
@@ -339,41 +957,97 @@ export class MessageRouter {
   private async handleSignRequest(
     method: string,
     data: any,
-    origin: string
+    origin: string,
+    client?: RpcClient
   ): Promise<any> {
+    // Re-attach to a request created before the worker restarted
+    if (client?.reattach) {
+      const existing = client.id ? this.signQueue.findByClientId(origin, client.id) : undefined;
+      if (!existing) {
+        return {
+          error: { code: -32603, message: 'Sign request was lost when the extension restarted. Please retry.' }
+        };
+      }
+      return this.waitForSignRequest(existing.id);
+    }
+
     // Create sign request data based on method
     let signData: SignRequestData;
 
     switch (method) {
-      case 'acc_signTransaction':
+      case 'acc_signTransaction': {
+        if (!this.isValidSignatureFormat(data.format)) {
+          return { error: { code: -32602, message: `Invalid format: ${data.format}` } };
+        }
+        if (!this.isValidDelegatorList(data.delegators)) {
+          return { error: { code: -32602, message: 'delegators must be a list of acc:// URLs' } };
+        }
+
+        const verified = this.verifyAccumulateTransaction(data);
+        if ('error' in verified) {
+          return verified;
+        }
+
         signData = {
           kind: 'acc_transaction',
-          principal: data.principal || '',
+          principal: verified.transaction?.header.principal || data.principal || '',
           signerUrl: data.signer || data.signerUrl || '',
           signerVersion: data.signerVersion,
-          transactionHash: data.transactionHash || data.hash || '',
-          transactionType: data.transactionType,
+          transactionHash: verified.hash,
+          transactionType: verified.transaction?.body.type || data.transactionType,
+          delegators: data.delegators,
+          timestamp: data.timestamp,
+          format: data.format,
+          transaction: verified.transaction,
+          decoded: verified.transaction && describeTransaction(verified.transaction),
+          verified: !!verified.transaction,
           humanReadable: data.humanReadable
         } as AccSignTransactionData;
         break;
+      }
+
+      case 'acc_signPendingTransaction': {
+        if (!this.isValidSignatureFormat(data.format)) {
+          return { error: { code: -32602, message: `Invalid format: ${data.format}` } };
+        }
+        if (!this.isValidDelegatorList(data.delegators)) {
+          return { error: { code: -32602, message: 'delegators must be a list of acc:// URLs' } };
+        }
+
+        const verified = this.verifyAccumulateTransaction(data);
+        if ('error' in verified) {
+          return verified;
+        }
 
-      case 'acc_signPendingTransaction':
         signData = {
           kind: 'acc_pending_transaction',
-          transactionHash: data.transactionHash || data.hash || '',
-          dataForSignature: data.dataForSignature,  // Complete hash to sign
+          transactionHash: verified.hash,
+          dataForSignature: data.dataForSignature,  // Checked against the local computation on approval
           signerUrl: data.signer || data.signerUrl || '',
           signerVersion: data.signerVersion || 1,
           timestamp: data.timestamp,
           delegators: data.delegators,
+          format: data.format,
+          transaction: verified.transaction,
+          decoded: verified.transaction && describeTransaction(verified.transaction),
+          verified: !!verified.transaction,
           humanReadable: data.humanReadable || {
             action: 'Sign Pending Transaction',
             memo: `Sign pending transaction with ${data.signer || data.signerUrl || 'key'}`
           }
         } as AccSignPendingTransactionData;
         break;
+      }
 
       case 'acc_signHash':
+        if (data.format && data.format !== 'signature') {
+          return {
+            error: {
+              code: -32602,
+              message: 'Signature objects require a transaction hash; use acc_signTransaction'
+            }
+          };
+        }
         signData = {
           kind: 'acc_hash',
           hash: data.hash || '',
@@ -395,6 +1069,7 @@ export class MessageRouter {
         signData = {
           kind: 'eth_personal_message',
           message: data.message || '',
+          isHex: data.isHex === true,
           address: data.address || '',
           humanReadable: data.humanReadable || {
             action: 'Sign Personal Message',
@@ -403,18 +1078,124 @@ export class MessageRouter {
         } as EthSignPersonalMessageData;
         break;
 
-      case 'certen_signIntent':
-        signData = {
-          kind: 'certen_intent',
-          intentId: data.intentId || '',
-          adiUrl: data.adiUrl || '',
-          actionType: data.actionType || '',
-          description: data.description || '',
-          targetChain: data.targetChain,
-          targetAddress: data.targetAddress,
-          amount: data.amount
+      case 'eth_signTypedData': {
+        let typedData;
+        try {
+          typedData = parseTypedData(data.typedData);
+        } catch (error) {
+          return {
+            error: {
+              code: -32602,
+              message: `Invalid typed data: ${error instanceof Error ? error.message : 'parse error'}`
+            }
+          };
+        }
+
+        if (typeof data.address !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(data.address)) {
+          return { error: { code: -32602, message: 'Typed data signing requires the signer address' } };
+        }
+
+        // Only allow domains bound to a chain we know about
+        const chainId = getTypedDataChainId(typedData);
+        if (chainId !== undefined && !getChainContracts(chainId)) {
+          return { error: { code: -32602, message: `Unsupported chainId in typed data domain: ${chainId}` } };
+        }
+
+        signData = {
+          kind: 'eth_typed_data',
+          address: data.address,
+          typedData,
+          humanReadable: data.humanReadable || {
+            action: `Sign ${typedData.primaryType}`,
+            memo: typedData.domain.name ? `Domain: ${typedData.domain.name}` : undefined
+          }
+        } as EthSignTypedDataData;
+        break;
+      }
+
+      case 'eth_signTransaction': {
+        let transaction: EvmTransaction;
+        try {
+          transaction = parseEvmTransaction(data.transaction, await this.getEvmChainId(origin));
+        } catch (error) {
+          return {
+            error: {
+              code: -32602,
+              message: `Invalid transaction: ${error instanceof Error ? error.message : 'parse error'}`
+            }
+          };
+        }
+
+        // EIP-155 binding: only chains we know about
+        if (!getChainContracts(transaction.chainId)) {
+          return { error: { code: -32602, message: `Unsupported chainId: ${transaction.chainId}` } };
+        }
+
+        if (!data.address || !this.keyStore.findKeyByEvmAddress(data.address)) {
+          return { error: { code: -32602, message: `No secp256k1 key for address: ${data.address || '(none)'}` } };
+        }
+
+        let decodedCall: DecodedCall | undefined;
+        try {
+          decodedCall = decodeCertenCall(transaction.chainId, transaction.to, transaction.data);
+        } catch (error) {
+          return {
+            error: {
+              code: -32602,
+              message: `Malformed calldata for Certen contract: ${error instanceof Error ? error.message : 'decode error'}`
+            }
+          };
+        }
+
+        signData = {
+          kind: 'eth_transaction',
+          address: data.address,
+          transaction,
+          decodedCall,
+          humanReadable: data.humanReadable || {
+            action: decodedCall ? `Call ${decodedCall.functionName}` : (transaction.to ? 'Send Transaction' : 'Deploy Contract'),
+            to: transaction.to
+          }
+        } as EthSignTransactionData;
+        break;
+      }
+
+      case 'certen_signUserOperation': {
+        const built = this.buildUserOperationRequest(data || {}, origin, await this.getEvmChainId(origin));
+        if ('error' in built) {
+          return built;
+        }
+        signData = built;
+        break;
+      }
+
+      case 'certen_signIntent': {
+        let intent: CertenIntent;
+        try {
+          intent = parseCertenIntent(data);
+        } catch (error) {
+          return { error: { code: -32602, message: error instanceof Error ? error.message : 'Invalid intent' } };
+        }
+        if (isIntentExpired(intent)) {
+          return { error: { code: -32602, message: 'Intent has expired' } };
+        }
+
+        const intentHash = hashCertenIntent(intent);
+        if (data.intentHash && !hexEquals(data.intentHash, intentHash)) {
+          return {
+            error: { code: -32602, message: `intentHash mismatch: expected ${intentHash}, got ${data.intentHash}` }
+          };
+        }
+
+        signData = {
+          kind: 'certen_intent',
+          intentId: data.intentId || '',
+          description: data.description || '',
+          ...intent,
+          intentHash
         } as CertenIntentData;
         break;
+      }
 
       case 'bls_signHash':
         signData = {
@@ -428,21 +1209,35 @@ export class MessageRouter {
         return { error: { code: -32601, message: `Unknown sign method: ${method}` } };
     }
 
+    // Refuse requests the vault cannot verify when blind signing is blocked
+    if (isBlindSignRequest(signData) && (await this.settings.get()).blindSigning === 'block') {
+      return { error: { code: 4100, message: 'Blind signing is disabled in Certen Key Vault settings' } };
+    }
+
     // Add to queue
     const requestId = this.signQueue.add(
       method as SignRequest['type'],
       signData,
-      origin
+      origin,
+      client?.id
     );
 
     // Open approval popup
     await this.openPopup('approve');
 
-    // Wait for approval/rejection
+    return this.waitForSignRequest(requestId);
+  }
+
+  /**
+   * Waits for a queued request to finish. Rejected and expired requests
+   * report 4001; signing failures report an internal error.
+   */
+  private waitForSignRequest(requestId: string): Promise<any> {
     return new Promise((resolve) => {
       this.signQueue.onComplete(requestId, (result, error) => {
         if (error) {
-          resolve({ error: { code: 4001, message: error } });
+          const status = this.signQueue.get(requestId)?.status;
+          resolve({ error: { code: status === 'error' ? -32603 : 4001, message: error } });
         } else {
           resolve({ result });
         }
@@ -450,16 +1245,49 @@ export class MessageRouter {
     });
   }
 
+  /**
+   * Normalizes eth_signTypedData params.
+   * Accepts the wallet-standard form [address, typedData] as well as
+   * the vault form [{ address, typedData, humanReadable }].
+   */
+  private normalizeTypedDataParams(params: unknown[]): {
+    address: string;
+    typedData: TypedData | string;
+    humanReadable?: HumanReadableTransaction;
+  } {
+    if (typeof params[0] === 'string') {
+      return { address: params[0], typedData: params[1] as TypedData | string };
+    }
+
+    const request = (params[0] || {}) as Record<string, unknown>;
+    return {
+      address: typeof request.address === 'string' ? request.address : '',
+      typedData: request.typedData as TypedData | string,
+      humanReadable: request.humanReadable as HumanReadableTransaction | undefined
+    };
+  }
+
   // ===========================================================================
   // Sign Request Approval/Rejection
   // ===========================================================================
 
-  private getPendingSignRequest(): any {
-    const request = this.signQueue.getNext();
+  /**
+   * Gets a pending sign request for the approval screen: the given one,
+   * or the oldest.
+   */
+  private async getPendingSignRequest(requestId?: string): Promise<any> {
+    const request = requestId
+      ? this.signQueue.getPending().find(r => r.id === requestId)
+      : this.signQueue.getNext();
     if (!request) {
       return { request: null };
     }
 
+    // Only keys shared with the requesting site can sign (watch-only keys never)
+    const allowedKeyIds = (await this.getPermittedKeys(request.origin))
+      .filter(key => !key.watchOnly)
+      .map(key => key.id);
+
     // Suggest a key based on the request
     let suggestedKeyId: string | undefined;
 
@@ -484,13 +1312,6 @@ export class MessageRouter {
         }
         suggestedKeyId = key?.id;
       }
-      // If no key found by URL, suggest first ED25519 key
-      if (!suggestedKeyId) {
-        const ed25519Keys = this.keyStore.getKeysByType('ed25519');
-        if (ed25519Keys.length > 0) {
-          suggestedKeyId = ed25519Keys[0].id;
-        }
-      }
     } else if (request.data.kind === 'eth_hash') {
       const data = request.data as EthSignHashData;
       if (data.address) {
@@ -503,15 +1324,31 @@ export class MessageRouter {
         const key = this.keyStore.findKeyByEvmAddress(data.address);
         suggestedKeyId = key?.id;
       }
-    } else if (request.data.kind === 'bls_hash') {
-      // For BLS, try to find a BLS key - just suggest the first one
-      const blsKeys = this.keyStore.getKeysByType('bls12381');
-      if (blsKeys.length > 0) {
-        suggestedKeyId = blsKeys[0].id;
+    } else if (request.data.kind === 'eth_typed_data') {
+      const data = request.data as EthSignTypedDataData;
+      if (data.address) {
+        const key = this.keyStore.findKeyByEvmAddress(data.address);
+        suggestedKeyId = key?.id;
       }
+    } else if (request.data.kind === 'eth_transaction') {
+      const data = request.data as EthSignTransactionData;
+      suggestedKeyId = this.keyStore.findKeyByEvmAddress(data.address)?.id;
+    } else if (request.data.kind === 'certen_user_operation') {
+      const data = request.data as CertenUserOperationData;
+      suggestedKeyId = this.keyStore.findKeyByEvmAddress(data.owner)?.id;
     }
 
-    return { request, suggestedKeyId };
+    if (suggestedKeyId && !allowedKeyIds.includes(suggestedKeyId)) {
+      suggestedKeyId = undefined;
+    }
+
+    // Otherwise suggest the default key for the request's curve
+    const keyType = SIGN_KEY_TYPES[request.data.kind];
+    if (!suggestedKeyId && keyType) {
+      suggestedKeyId = await this.getDefaultKeyId(keyType, allowedKeyIds);
+    }
+
+    return { request, suggestedKeyId, allowedKeyIds };
   }
 
   private async approveSignRequest(requestId: string, keyId: string): Promise<any> {
@@ -524,14 +1361,35 @@ export class MessageRouter {
       return { error: { code: -32600, message: 'Request not found' } };
     }
 
+    if (request.status === 'pending' && request.expiresAt <= Date.now()) {
+      this.signQueue.expire(requestId);
+    }
+    if (request.status !== 'pending') {
+      return { error: { code: -32600, message: `Request is no longer pending (${request.status})` } };
+    }
+
     const key = this.keyStore.getKey(keyId);
     if (!key) {
       return { error: { code: -32600, message: 'Key not found' } };
     }
 
+    if (!await this.permissions.hasKey(request.origin, key.id)) {
+      return { error: { code: 4100, message: `Key "${key.name}" is not shared with ${request.origin}` } };
+    }
+
+    if (key.watchOnly) {
+      return { error: { code: 4100, message: `Key "${key.name}" is watch-only and cannot sign` } };
+    }
+
+    this.signQueue.approve(requestId, key.id);
+
     try {
       let signature: string;
       let timestampUsed: number | undefined;
+      let accSignature: AccumulateSignatureObject | undefined;
+      let evmSigned: SignedEvmTransaction | undefined;
+      let userOpResult: Pick<SignatureResult, 'userOpHash' | 'userOperation'> | undefined;
+      let dataForSignature: string | undefined;
 
       // Handle personal message signing separately (EIP-191)
       if (request.data.kind === 'eth_personal_message') {
@@ -541,10 +1399,80 @@ export class MessageRouter {
           throw new Error('Personal message signing requires a secp256k1 key');
         }
 
+        // The requested address's key signs; a different selected key is refused
+        const signerKey = this.keyStore.findKeyByEvmAddress(data.address);
+        if (!signerKey || signerKey.id !== key.id) {
+          throw new Error('Selected key does not match the personal message signer address');
+        }
+
         // Sign using EIP-191 personal_sign
         const privateKeyBytes = fromHex(key.privateKey);
-        const signatureBytes = await signEthPersonalMessage(data.message, privateKeyBytes);
+        const message = data.isHex ? fromHex(data.message) : data.message;
+        const signatureBytes = await signEthPersonalMessage(message, privateKeyBytes);
         signature = '0x' + toHex(signatureBytes);
+      } else if (request.data.kind === 'eth_typed_data') {
+        const data = request.data as EthSignTypedDataData;
+
+        // The requested address's key signs; a different selected key is refused
+        const signerKey = this.keyStore.findKeyByEvmAddress(data.address);
+        if (!signerKey || signerKey.type !== 'secp256k1' || signerKey.id !== key.id) {
+          throw new Error('Selected key does not match the typed data signer address');
+        }
+
+        // Sign the EIP-712 digest computed locally from the full payload
+        const signatureBytes = await signTypedData(data.typedData, fromHex(key.privateKey));
+        signature = '0x' + toHex(signatureBytes);
+      } else if (request.data.kind === 'certen_user_operation') {
+        const data = request.data as CertenUserOperationData;
+
+        const ownerKey = this.keyStore.findKeyByEvmAddress(data.owner);
+        if (!ownerKey || ownerKey.type !== 'secp256k1' || ownerKey.id !== key.id) {
+          throw new Error('Selected key does not match the UserOperation owner');
+        }
+
+        // Recompute the hash from the stored op before signing
+        if (getUserOperationHash(data.userOperation, data.entryPoint, data.chainId) !== data.userOpHash) {
+          throw new Error('userOpHash does not match the UserOperation');
+        }
+
+        signature = '0x' + toHex(await signUserOperationHash(data.userOpHash, fromHex(ownerKey.privateKey)));
+        userOpResult = {
+          userOpHash: data.userOpHash,
+          userOperation: { ...data.userOperation, signature }
+        };
+      } else if (request.data.kind === 'eth_transaction') {
+        const data = request.data as EthSignTransactionData;
+
+        // The sender's key signs; a different selected key is refused
+        const senderKey = this.keyStore.findKeyByEvmAddress(data.address);
+        if (!senderKey || senderKey.type !== 'secp256k1') {
+          throw new Error(`No secp256k1 key for address ${data.address}`);
+        }
+        if (senderKey.id !== key.id) {
+          throw new Error('Selected key does not match the transaction sender');
+        }
+
+        const signed = await signEvmTransaction(data.transaction, fromHex(senderKey.privateKey));
+        signature = signed.signature;
+        evmSigned = signed;
+      } else if (request.data.kind === 'acc_transaction' && (request.data.format || 'signature') !== 'signature') {
+        // Signature object requested - sign dataForSignature as Accumulate does
+        const data = request.data as AccSignTransactionData;
+
+        if (key.type !== 'ed25519') {
+          throw new Error('Accumulate signature objects require an ED25519 key');
+        }
+
+        if (data.transaction) {
+          this.assertTransactionHash(data.transaction, data.transactionHash);
+        }
+
+        const meta = this.resolveSignatureMetadata(key, data);
+        timestampUsed = meta.timestamp;
+
+        dataForSignature = computeDataForSignature(data.transactionHash, meta);
+        signature = signED25519Hex(dataForSignature, key.privateKey);
+        accSignature = buildED25519Signature(meta, signature, data.transactionHash);
       } else if (request.data.kind === 'acc_pending_transaction') {
         // Handle pending transaction signing - compute dataForSignature properly
         const data = request.data as AccSignPendingTransactionData;
@@ -553,52 +1481,60 @@ export class MessageRouter {
           throw new Error('Pending transaction signing requires an ED25519 key');
         }
 
+        if (data.transaction) {
+          this.assertTransactionHash(data.transaction, data.transactionHash);
+        }
+
         // Use timestamp from request (should match what api-bridge used)
-        const timestamp = data.timestamp || (Date.now() * 1000);
-        timestampUsed = timestamp;
+        const meta = this.resolveSignatureMetadata(key, data);
+        timestampUsed = meta.timestamp;
 
-        let hashToSign: string;
+        // Compute dataForSignature locally from the signer metadata (including delegation)
+        const hashToSign = computeDataForSignature(data.transactionHash, meta);
 
-        if (data.dataForSignature) {
-          // If api-bridge provided the complete dataForSignature, use it directly
-          // This is the preferred path - api-bridge uses SDK's encode function
-          hashToSign = data.dataForSignature;
-          console.log('[MessageRouter] Using dataForSignature from api-bridge');
-        } else {
-          // Fallback: compute dataForSignature locally (may have encoding mismatch)
-          console.warn('[MessageRouter] No dataForSignature provided, computing locally (may fail)');
-          hashToSign = await this.computeDataForSignature(
-            data.transactionHash,
-            data.signerUrl,
-            data.signerVersion || 1,
-            timestamp
-          );
+        if (data.dataForSignature && !hexEquals(data.dataForSignature, hashToSign)) {
+          throw new Error('dataForSignature does not match the locally computed signing hash');
         }
 
         // Sign the hash directly
+        dataForSignature = hashToSign;
         signature = signED25519Hex(hashToSign, key.privateKey);
+        accSignature = buildED25519Signature(meta, signature, data.transactionHash);
 
         console.log('[MessageRouter] Signed pending transaction:', {
           txHash: data.transactionHash.substring(0, 16) + '...',
           dataForSignature: hashToSign.substring(0, 16) + '...',
-          signerUrl: data.signerUrl,
-          timestamp,
-          usedApiDataForSignature: !!data.dataForSignature,
+          signer: meta.signer,
+          timestamp: meta.timestamp,
+          verified: !!data.transaction,
           signatureLength: signature.length
         });
       } else {
         // Get the hash to sign for other request types
         let hash: string;
         if (request.data.kind === 'acc_transaction') {
-          hash = (request.data as AccSignTransactionData).transactionHash;
+          const data = request.data as AccSignTransactionData;
+          if (data.transaction) {
+            this.assertTransactionHash(data.transaction, data.transactionHash);
+          }
+          hash = data.transactionHash;
         } else if (request.data.kind === 'acc_hash') {
           hash = (request.data as AccSignHashData).hash;
         } else if (request.data.kind === 'eth_hash') {
           hash = (request.data as EthSignHashData).hash;
         } else if (request.data.kind === 'certen_intent') {
-          // For intents, we might need to compute a hash from the data
-          // For now, use intentId as placeholder
-          hash = (request.data as CertenIntentData).intentId;
+          // Re-derive the hash from the intent fields; intentId is never signed
+          const data = request.data as CertenIntentData;
+          if (key.type !== 'ed25519' && key.type !== 'secp256k1') {
+            throw new Error('Intent signing requires an ED25519 or secp256k1 key');
+          }
+          if (isIntentExpired(data)) {
+            throw new Error('Intent has expired');
+          }
+          hash = hashCertenIntent(data);
+          if (hash !== data.intentHash) {
+            throw new Error('Intent hash does not match the intent fields');
+          }
         } else if (request.data.kind === 'bls_hash') {
           hash = (request.data as BlsSignHashData).hash;
         } else {
@@ -624,6 +1560,32 @@ export class MessageRouter {
         timestamp: timestampUsed
       };
 
+      if (evmSigned) {
+        result.rawTransaction = evmSigned.rawTransaction;
+        result.transactionHash = evmSigned.transactionHash;
+      }
+
+      if (userOpResult) {
+        Object.assign(result, userOpResult);
+      }
+
+      if (dataForSignature) {
+        result.dataForSignature = dataForSignature;
+      }
+
+      if (request.data.kind === 'certen_intent') {
+        result.intentHash = request.data.intentHash;
+      }
+
+      // Attach the full signature object or envelope when requested
+      if (accSignature && (request.data.kind === 'acc_transaction' || request.data.kind === 'acc_pending_transaction')) {
+        if (request.data.format === 'object') {
+          result.accumulateSignature = accSignature;
+        } else if (request.data.format === 'envelope') {
+          result.envelope = buildEnvelope([accSignature], request.data.transactionHash, request.data.transaction);
+        }
+      }
+
       // Complete the request
       this.signQueue.complete(requestId, result);
 
@@ -640,6 +1602,14 @@ export class MessageRouter {
   }
 
   private rejectSignRequest(requestId: string, reason: string): any {
+    const request = this.signQueue.get(requestId);
+    if (!request) {
+      return { error: { code: -32600, message: 'Request not found' } };
+    }
+    if (request.status !== 'pending') {
+      return { error: { code: -32600, message: `Request is no longer pending (${request.status})` } };
+    }
+
     this.signQueue.reject(requestId, reason || 'User rejected');
     return { success: true };
   }
@@ -653,23 +1623,30 @@ export class MessageRouter {
     const isUnlocked = this.keyStore.isUnlocked();
     const hasMnemonic = isUnlocked ? this.keyStore.hasMnemonic() : false;
     const keyCount = isUnlocked ? this.keyStore.getAllKeys().length : 0;
+    const activeWallet = isUnlocked ? this.keyStore.getWallets().find(w => w.active) : undefined;
 
     return {
       isInitialized,
       isUnlocked,
       hasMnemonic,
       keyCount,
-      network: currentNetwork
+      network: (await this.settings.get()).network,
+      walletName: activeWallet?.name
     };
   }
 
-  private async initializeVault(password: string, mnemonic?: string): Promise<any> {
+  private async initializeVault(
+    password: string,
+    mnemonic?: string,
+    kdfParams?: KdfParams,
+    passphrase?: string
+  ): Promise<any> {
     try {
       if (mnemonic) {
-        const savedMnemonic = await this.keyStore.initializeWithMnemonic(password, mnemonic);
+        const savedMnemonic = await this.keyStore.initializeWithMnemonic(password, mnemonic, kdfParams, passphrase);
         return { success: true, mnemonic: savedMnemonic };
       } else {
-        const savedMnemonic = await this.keyStore.initializeWithMnemonic(password);
+        const savedMnemonic = await this.keyStore.initializeWithMnemonic(password, undefined, kdfParams, passphrase);
         return { success: true, mnemonic: savedMnemonic };
       }
     } catch (error) {
@@ -680,14 +1657,64 @@ export class MessageRouter {
     }
   }
 
+  /**
+   * Picks KDF parameters for a new vault that fit the target unlock time
+   * on this device (measured here, where unlock runs).
+   */
+  private async benchmarkKdf(algorithm: KdfAlgorithm, targetMs?: number): Promise<any> {
+    if (algorithm !== 'argon2id' && algorithm !== 'scrypt') {
+      return { error: { code: -32602, message: 'KDF must be argon2id or scrypt' } };
+    }
+    if (targetMs !== undefined && !(targetMs >= 100 && targetMs <= 10000)) {
+      return { error: { code: -32602, message: 'Target unlock time must be 100-10000 ms' } };
+    }
+
+    try {
+      return await benchmarkKdf(algorithm, targetMs);
+    } catch (error) {
+      return {
+        error: {
+          code: -32603,
+          message: error instanceof Error ? error.message : 'KDF benchmark failed'
+        }
+      };
+    }
+  }
+
   private async unlockVault(password: string): Promise<any> {
+    // Connected sites, to disconnect them if this attempt erases the vault
+    const wasInitialized = await this.keyStore.isInitialized();
+    const origins = (await this.permissions.getAll()).map(p => p.origin);
+
     try {
       await this.keyStore.unlock(password);
+      await this.notifyAccountsChanged();
       return { success: true };
     } catch (error) {
+      const wiped = wasInitialized && !(await this.keyStore.isInitialized());
+      if (wiped) {
+        this.permissions.clearCache();
+        this.settings.clearCache();
+        await Promise.all(origins.map(origin => sendProviderEvent(origin, 'disconnect', {})));
+      }
+
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unlock failed'
+        error: error instanceof Error ? error.message : 'Unlock failed',
+        wiped,
+        status: await this.keyStore.getUnlockStatus()
+      };
+    }
+  }
+
+  private async setWipePolicy(wipeAfterFailures: number | null): Promise<any> {
+    try {
+      await this.keyStore.setWipeAfterFailures(wipeAfterFailures ?? null);
+      return { success: true, status: await this.keyStore.getUnlockStatus() };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update wipe policy'
       };
     }
   }
@@ -699,7 +1726,11 @@ export class MessageRouter {
 
   private async resetVault(): Promise<any> {
     try {
+      const origins = (await this.permissions.getAll()).map(p => p.origin);
       await this.keyStore.reset();
+      this.permissions.clearCache();
+      this.settings.clearCache();
+      await Promise.all(origins.map(origin => sendProviderEvent(origin, 'disconnect', {})));
       return { success: true };
     } catch (error) {
       return {
@@ -709,6 +1740,51 @@ export class MessageRouter {
     }
   }
 
+  // ===========================================================================
+  // Settings
+  // ===========================================================================
+
+  /**
+   * Applies a settings update from the popup. Requires an unlocked vault,
+   * since settings include security policies.
+   */
+  private async updateSettings(update: SettingsUpdate): Promise<any> {
+    if (!this.keyStore.isUnlocked()) {
+      return { success: false, error: 'Vault is locked' };
+    }
+
+    try {
+      return { success: true, settings: await this.settings.update(update || {}) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update settings'
+      };
+    }
+  }
+
+  private async setNetwork(network: NetworkId): Promise<any> {
+    try {
+      await this.settings.update({ network });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to set network'
+      };
+    }
+  }
+
+  /**
+   * The preferred key of a type for a site: the default key from Settings
+   * if the site may use it, otherwise the first such key it may use.
+   */
+  private async getDefaultKeyId(type: KeyType, allowedKeyIds: string[]): Promise<string | undefined> {
+    const candidates = this.keyStore.getKeysByType(type).filter(key => allowedKeyIds.includes(key.id));
+    const defaultKeyId = (await this.settings.get()).defaultKeys[type];
+    return candidates.find(key => key.id === defaultKeyId)?.id ?? candidates[0]?.id;
+  }
+
   // ===========================================================================
   // Key Operations
   // ===========================================================================
@@ -737,10 +1813,14 @@ export class MessageRouter {
     }
   }
 
-  private async deriveKey(keyType: string, name: string): Promise<any> {
-    console.log('[MessageRouter] deriveKey called:', { keyType, name });
+  private async deriveKey(keyType: string, name: string, options: DerivationOptions = {}): Promise<any> {
+    console.log('[MessageRouter] deriveKey called:', { keyType, name, options });
+    if (options.path !== undefined && typeof options.path !== 'string') {
+      return { success: false, error: 'Derivation path must be a string' };
+    }
+
     try {
-      const key = await this.keyStore.deriveKeyFromMnemonic(keyType as 'ed25519' | 'secp256k1' | 'bls12381', name);
+      const key = await this.keyStore.deriveKeyFromMnemonic(keyType as 'ed25519' | 'secp256k1' | 'bls12381', name, options);
       console.log('[MessageRouter] Key derived successfully:', key.id);
       return { success: true, key };
     } catch (error) {
@@ -764,7 +1844,66 @@ export class MessageRouter {
     }
   }
 
-  private async importFromMnemonic(mnemonic: string, keyType: string, name: string): Promise<any> {
+  /**
+   * Imports a key exported by another tool: keystore V3 JSON, Solana keypair
+   * file or base58 secret, PKCS#8 / EC PEM, or hex. Encrypted formats without
+   * a password return `needsPassword` so the popup can ask for it.
+   */
+  private async importKeyData(data: string, password: string | undefined, keyType: string | undefined, name: string): Promise<any> {
+    if (typeof data !== 'string' || !data.trim()) {
+      return { success: false, error: 'Key data is required' };
+    }
+
+    const format = detectKeyFormat(data);
+    if (!format) {
+      return { success: false, error: 'Unrecognized key format' };
+    }
+    if (keyImportNeedsPassword(format) && !password) {
+      return {
+        success: false,
+        needsPassword: true,
+        format,
+        error: `Enter the password of this ${KEY_IMPORT_FORMAT_NAMES[format]}`
+      };
+    }
+
+    try {
+      const parsed = await parseImportedKey(data, {
+        password,
+        keyType: keyType as 'ed25519' | 'secp256k1' | 'bls12381' | undefined
+      });
+      const key = await this.keyStore.importKey(
+        parsed.type,
+        parsed.privateKeyHex,
+        name || `Imported ${KEY_TYPE_NAMES[parsed.type]}`
+      );
+      return { success: true, key, format };
+    } catch (error) {
+      return {
+        success: false,
+        format,
+        error: error instanceof Error ? error.message : 'Key import failed'
+      };
+    }
+  }
+
+  private async addWatchOnlyKey(keyType: string, publicKey: string, name: string): Promise<any> {
+    if (typeof publicKey !== 'string' || !publicKey) {
+      return { success: false, error: 'Public key is required' };
+    }
+
+    try {
+      const key = await this.keyStore.addWatchOnlyKey(keyType as 'ed25519' | 'secp256k1' | 'bls12381', publicKey, name);
+      return { success: true, key };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add watch-only key'
+      };
+    }
+  }
+
+  private async importFromMnemonic(mnemonic: string, keyType: string, name: string, passphrase: string = ''): Promise<any> {
     try {
       // Validate mnemonic
       if (!validateMnemonic(mnemonic)) {
@@ -775,14 +1914,14 @@ export class MessageRouter {
       let privateKeyHex: string;
 
       if (keyType === 'ed25519') {
-        const derived = deriveED25519FromMnemonic(mnemonic, 0);
+        const derived = deriveED25519FromMnemonic(mnemonic, 0, 0, passphrase);
         // ED25519 private key is 64 bytes (seed + public key), but we store just the 32-byte seed
         privateKeyHex = toHex(derived.seed);
       } else if (keyType === 'secp256k1') {
-        const derived = deriveSecp256k1FromMnemonic(mnemonic, 0);
+        const derived = deriveSecp256k1FromMnemonic(mnemonic, 0, 0, false, passphrase);
         privateKeyHex = toHex(derived.privateKey);
       } else if (keyType === 'bls12381') {
-        const derived = deriveBLS12381FromMnemonic(mnemonic, 0);
+        const derived = deriveBLS12381FromMnemonic(mnemonic, 0, 0, passphrase);
         privateKeyHex = toHex(derived.privateKey);
       } else {
         return { success: false, error: `Unsupported key type: ${keyType}` };
@@ -799,9 +1938,234 @@ export class MessageRouter {
     }
   }
 
+  // ===========================================================================
+  // Key Discovery
+  // ===========================================================================
+
+  /**
+   * Scans the active wallet's recovery phrase for keys. Derives `gap` keys
+   * per type and keeps extending the scan until `gap` unused keys follow
+   * the last used one. A key is used if it is already in the wallet or,
+   * with `useNetwork`, if Accumulate has its lite identity or lists it on a
+   * page of one of `keyBooks`. Network failures end the network checks but
+   * still return the local results.
+   */
+  private async discoverKeys(options: {
+    gap?: number;
+    keyTypes?: KeyType[];
+    useNetwork?: boolean;
+    keyBooks?: string[];
+  }): Promise<any> {
+    if (!this.keyStore.isUnlocked()) {
+      return { error: { code: 4100, message: 'Vault is locked' } };
+    }
+
+    const gap = options.gap ?? DEFAULT_DISCOVERY_GAP;
+    if (!Number.isInteger(gap) || gap < 1 || gap > MAX_DISCOVERY_GAP) {
+      return { error: { code: -32602, message: `Gap must be between 1 and ${MAX_DISCOVERY_GAP}` } };
+    }
+    const keyTypes = options.keyTypes ?? ['ed25519', 'secp256k1'];
+    if (!Array.isArray(keyTypes) || keyTypes.length === 0 || keyTypes.some(type => !(type in KEY_TYPE_NAMES))) {
+      return { error: { code: -32602, message: 'Invalid key types' } };
+    }
+    const keyBooks = options.keyBooks ?? [];
+    if (!Array.isArray(keyBooks) || keyBooks.some(book => typeof book !== 'string' || !book.startsWith('acc://'))) {
+      return { error: { code: -32602, message: 'Key books must be acc:// URLs' } };
+    }
+
+    const endpoint = options.useNetwork ? NETWORKS[(await this.settings.get()).network].accumulate : '';
+    const api = endpoint ? new AccumulateApi(endpoint) : null;
+    const checked = new Map<string, { hasHistory?: boolean; keyPageUrl?: string }>();
+    let networkError: string | undefined;
+
+    const counts: Partial<Record<KeyType, number>> = {};
+    for (const type of keyTypes) {
+      counts[type] = gap;
+    }
+
+    try {
+      for (;;) {
+        const keys = await this.keyStore.discoverKeys(counts);
+
+        if (api && !networkError) {
+          try {
+            await this.checkDiscoveredKeys(api, keys.filter(k => !checked.has(k.path)), keyBooks, checked);
+          } catch (error) {
+            networkError = error instanceof Error ? error.message : 'Network check failed';
+          }
+        }
+        for (const key of keys) {
+          const result = checked.get(key.path);
+          key.hasHistory = result?.hasHistory;
+          key.keyPageUrl = result?.keyPageUrl ?? key.keyPageUrl;
+        }
+
+        // Extend any type whose used keys reach into the last `gap` keys
+        let extended = false;
+        for (const type of keyTypes) {
+          const used = keys.filter(k => k.type === type && (k.existingKeyId || k.hasHistory)).map(k => k.index);
+          const needed = Math.min(Math.max(-1, ...used) + 1 + gap, MAX_DISCOVERED_KEYS);
+          if (needed > counts[type]!) {
+            counts[type] = needed;
+            extended = true;
+          }
+        }
+
+        if (!extended) {
+          return { keys, networkChecked: !!api && !networkError, networkError };
+        }
+      }
+    } catch (error) {
+      return {
+        error: {
+          code: -32603,
+          message: error instanceof Error ? error.message : 'Key discovery failed'
+        }
+      };
+    }
+  }
+
+  /**
+   * Looks up each key on Accumulate: ED25519 lite identities, and key pages
+   * of the given key books. Keys that cannot be looked up stay unchecked.
+   */
+  private async checkDiscoveredKeys(
+    api: AccumulateApi,
+    keys: DiscoveredKey[],
+    keyBooks: string[],
+    checked: Map<string, { hasHistory?: boolean; keyPageUrl?: string }>
+  ): Promise<void> {
+    for (const key of keys) {
+      // secp256k1 keys have no lite identity to look up; BLS keys neither
+      const checkable = key.type === 'ed25519' || (key.type === 'secp256k1' && keyBooks.length > 0);
+      if (!checkable) {
+        continue;
+      }
+
+      const hasLiteIdentity = key.type === 'ed25519' && await api.accountExists(key.address);
+      let keyPageUrl: string | undefined;
+      for (const keyBook of keyBooks) {
+        [keyPageUrl] = await api.findKeyPages(keyBook, key.publicKey, key.type);
+        if (keyPageUrl) {
+          break;
+        }
+      }
+
+      checked.set(key.path, { hasHistory: hasLiteIdentity || !!keyPageUrl, keyPageUrl });
+    }
+  }
+
+  /**
+   * Adds the chosen discovered keys to the active wallet. Each key is
+   * derived again from its path; keys that fail are reported and skipped.
+   */
+  private async importDiscoveredKeys(
+    keys: { type: KeyType; path: string; index?: number; keyPageUrl?: string }[]
+  ): Promise<any> {
+    if (!Array.isArray(keys) || keys.length === 0) {
+      return { success: false, error: 'No keys selected' };
+    }
+
+    const imported: StoredKey[] = [];
+    const errors: string[] = [];
+    for (const entry of keys) {
+      try {
+        if (!(entry?.type in KEY_TYPE_NAMES) || typeof entry.path !== 'string') {
+          throw new Error('Invalid key');
+        }
+        const name = `${KEY_TYPE_NAMES[entry.type]} ${Number.isInteger(entry.index) ? entry.index! + 1 : imported.length + 1}`;
+        const key = await this.keyStore.deriveKeyFromMnemonic(entry.type, name, { path: entry.path });
+
+        if (typeof entry.keyPageUrl === 'string' && entry.keyPageUrl.startsWith('acc://')) {
+          await this.keyStore.updateKey(key.id, { metadata: { keyPageUrl: entry.keyPageUrl } });
+          key.metadata.keyPageUrl = entry.keyPageUrl;
+        }
+        imported.push(key);
+      } catch (error) {
+        errors.push(`${entry?.path}: ${error instanceof Error ? error.message : 'Import failed'}`);
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      keys: imported,
+      error: errors.length > 0 ? errors.join('; ') : undefined
+    };
+  }
+
+  // ===========================================================================
+  // Wallet Branches
+  // ===========================================================================
+
+  private getWallets(): any {
+    if (!this.keyStore.isUnlocked()) {
+      return { error: { code: 4100, message: 'Vault is locked' } };
+    }
+    return { wallets: this.keyStore.getWallets() };
+  }
+
+  private async addWallet(name: string, passphrase: string): Promise<any> {
+    if (typeof passphrase !== 'string') {
+      return { success: false, error: 'Passphrase is required' };
+    }
+
+    try {
+      const wallet = await this.keyStore.addWallet(name, passphrase);
+      await this.notifyAccountsChanged();
+      return { success: true, wallet };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add wallet'
+      };
+    }
+  }
+
+  /**
+   * Switches the active wallet. Connected sites only see keys of the active
+   * wallet, so their accounts change with it.
+   */
+  private async switchWallet(walletId: string): Promise<any> {
+    try {
+      await this.keyStore.switchWallet(walletId);
+      await this.notifyAccountsChanged();
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to switch wallet'
+      };
+    }
+  }
+
+  private async removeWallet(walletId: string): Promise<any> {
+    try {
+      const removedKeyIds = await this.keyStore.removeWallet(walletId);
+      await this.settings.update(current => ({
+        defaultKeys: Object.fromEntries(
+          Object.entries(current.defaultKeys).filter(([, id]) => !removedKeyIds.includes(id!))
+        )
+      }));
+      for (const keyId of removedKeyIds) {
+        await this.permissions.removeKey(keyId);
+      }
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove wallet'
+      };
+    }
+  }
+
   private async removeKey(keyId: string): Promise<any> {
     try {
       await this.keyStore.removeKey(keyId);
+      await this.settings.update(current => ({
+        defaultKeys: Object.fromEntries(Object.entries(current.defaultKeys).filter(([, id]) => id !== keyId))
+      }));
+      const affected = await this.permissions.removeKey(keyId);
+      await this.notifyAccountsChanged(affected);
       return { success: true };
     } catch (error) {
       return {
@@ -834,7 +2198,7 @@ export class MessageRouter {
     publicKey?: string;
     keyId?: string;
     metadata: { keyPageUrl?: string; [key: string]: unknown };
-  }): Promise<any> {
+  }, origin: string): Promise<any> {
     if (!this.keyStore.isUnlocked()) {
       return { error: { code: 4100, message: 'Vault is locked' } };
     }
@@ -856,6 +2220,10 @@ export class MessageRouter {
         return { error: { code: -32600, message: 'Must provide keyId or publicKey' } };
       }
 
+      if (!await this.permissions.hasKey(origin, keyId)) {
+        return { error: { code: 4100, message: 'Key is not shared with this site' } };
+      }
+
       await this.keyStore.updateKey(keyId, { metadata: params.metadata });
       return { result: { success: true, keyId } };
     } catch (error) {
@@ -872,7 +2240,11 @@ export class MessageRouter {
   // Secret Export (for Settings page)
   // ===========================================================================
 
-  private getMnemonic(): any {
+  /**
+   * Reveals the recovery phrase after re-checking the vault password, and
+   * records it in the audit log like a key export.
+   */
+  private async getMnemonic(password: string): Promise<any> {
     if (!this.keyStore.isUnlocked()) {
       return { error: { message: 'Vault is locked' } };
     }
@@ -881,11 +2253,48 @@ export class MessageRouter {
     if (!mnemonic) {
       return { error: { message: 'No mnemonic stored in vault' } };
     }
+    if (typeof password !== 'string' || !password) {
+      return { error: { message: 'Enter your vault password to show the recovery phrase' } };
+    }
+
+    try {
+      await this.keyStore.verifyPassword(password);
+      await this.keyStore.recordAudit(buildMnemonicExportAuditRecord());
+    } catch (error) {
+      return {
+        error: {
+          message: error instanceof Error ? error.message : 'Password check failed'
+        }
+      };
+    }
 
     return { mnemonic };
   }
 
-  private getKeyWithPrivate(keyId: string): any {
+  /**
+   * Deprecated alias of EXPORT_KEY with format 'hex' that keeps the old
+   * `{ key }` response. Like every export it needs the vault password and
+   * is recorded in the audit log.
+   */
+  private async getKeyWithPrivate(keyId: string, password: string): Promise<any> {
+    const exported = await this.exportKey(keyId, 'hex', password);
+    if (exported.error) {
+      return exported;
+    }
+    return { key: this.keyStore.getKey(keyId) };
+  }
+
+  /**
+   * Exports a private key after re-checking the vault password. Keystore
+   * formats are encrypted with `exportPassword`. Every export is recorded in
+   * the audit log before the key is returned.
+   */
+  private async exportKey(
+    keyId: string,
+    format: KeyExportFormat,
+    password: string,
+    exportPassword?: string
+  ): Promise<any> {
     if (!this.keyStore.isUnlocked()) {
       return { error: { message: 'Vault is locked' } };
     }
@@ -894,8 +2303,28 @@ export class MessageRouter {
     if (!key) {
       return { error: { message: 'Key not found' } };
     }
+    if (key.watchOnly) {
+      return { error: { message: 'Watch-only keys have no private key' } };
+    }
+    if (!(format in KEY_EXPORT_FORMAT_NAMES)) {
+      return { error: { message: `Unsupported export format: ${format}` } };
+    }
+    if (typeof password !== 'string' || !password) {
+      return { error: { message: 'Enter your vault password to export a key' } };
+    }
 
-    return { key };
+    try {
+      await this.keyStore.verifyPassword(password);
+      const file = await exportKey(key, format, exportPassword);
+      await this.keyStore.recordAudit(buildKeyExportAuditRecord(key, KEY_EXPORT_FORMAT_NAMES[format]));
+      return { ...file, format };
+    } catch (error) {
+      return {
+        error: {
+          message: error instanceof Error ? error.message : 'Key export failed'
+        }
+      };
+    }
   }
 
   // ===========================================================================
@@ -907,6 +2336,7 @@ export class MessageRouter {
     keyType?: 'ed25519' | 'secp256k1' | 'bls12381';
     purpose?: string;
     origin: string;
+    createdAt: number;
     resolve: (result: any) => void;
     reject: (error: any) => void;
   }>();
@@ -926,10 +2356,9 @@ export class MessageRouter {
       return { error: { code: 4100, message: 'Vault is locked. Please unlock first.' } };
     }
 
-    // Get available keys
-    const allKeys = params.keyType
-      ? this.keyStore.getKeysByType(params.keyType)
-      : this.keyStore.getAllKeys();
+    // Get available keys (only those shared with the site)
+    const allKeys = (await this.getPermittedKeys(origin))
+      .filter(key => !params.keyType || key.type === params.keyType);
 
     if (allKeys.length === 0) {
       return { error: { code: -32600, message: 'No keys available in vault' } };
@@ -944,14 +2373,17 @@ export class MessageRouter {
       this.pendingKeySelections.set(requestId, {
         ...params,
         origin,
+        createdAt: Date.now(),
         resolve,
         reject
       });
+      this.keySelectionsChanged();
 
       // Then open popup for user to select key
       this.openPopup('select').catch(err => {
         console.error('[MessageRouter] Failed to open key selection popup:', err);
         this.pendingKeySelections.delete(requestId);
+        this.keySelectionsChanged();
         resolve({ error: { code: -32603, message: 'Failed to open key selection popup' } });
       });
 
@@ -959,17 +2391,31 @@ export class MessageRouter {
       setTimeout(() => {
         if (this.pendingKeySelections.has(requestId)) {
           this.pendingKeySelections.delete(requestId);
+          this.keySelectionsChanged();
           resolve({ error: { code: 4001, message: 'Key selection timeout' } });
         }
-      }, 300000);
+      }, KEY_SELECTION_TIMEOUT);
     });
   }
 
-  getPendingKeySelection(): { requestId: string; keyType?: string; purpose?: string; origin: string } | null {
-    const entry = this.pendingKeySelections.entries().next().value;
+  async getPendingKeySelection(requestId?: string): Promise<{
+    requestId: string;
+    keyType?: string;
+    purpose?: string;
+    origin: string;
+    allowedKeyIds: string[];
+    defaultKeyId?: string;
+  } | null> {
+    const entry = requestId
+      ? (this.pendingKeySelections.has(requestId)
+        ? [requestId, this.pendingKeySelections.get(requestId)!] as const
+        : undefined)
+      : this.pendingKeySelections.entries().next().value;
     if (entry) {
       const [requestId, data] = entry;
-      return { requestId, keyType: data.keyType, purpose: data.purpose, origin: data.origin };
+      const allowedKeyIds = (await this.getPermittedKeys(data.origin)).map(key => key.id);
+      const defaultKeyId = data.keyType ? await this.getDefaultKeyId(data.keyType as KeyType, allowedKeyIds) : undefined;
+      return { requestId, keyType: data.keyType, purpose: data.purpose, origin: data.origin, allowedKeyIds, defaultKeyId };
     }
     return null;
   }
@@ -989,6 +2435,10 @@ export class MessageRouter {
       return { error: { code: -32600, message: 'Key not found' } };
     }
 
+    if (!await this.permissions.hasKey(pending.origin, key.id)) {
+      return { error: { code: 4100, message: 'Key is not shared with this site' } };
+    }
+
     // Compute SHA-256 hash of public key
     const publicKeyHash = await this.computePublicKeyHash(key.publicKey);
 
@@ -999,10 +2449,12 @@ export class MessageRouter {
       keyName: key.name,
       keyType: key.type,
       accumulateUrl: key.metadata.accumulateUrl,
-      evmAddress: key.metadata.evmAddress
+      evmAddress: key.metadata.evmAddress,
+      watchOnly: key.watchOnly === true
     };
 
     this.pendingKeySelections.delete(requestId);
+    this.keySelectionsChanged();
     pending.resolve({ result });
 
     return { success: true, result };
@@ -1015,11 +2467,95 @@ export class MessageRouter {
     }
 
     this.pendingKeySelections.delete(requestId);
+    this.keySelectionsChanged();
     pending.resolve({ error: { code: 4001, message: reason || 'User rejected key selection' } });
 
     return { success: true };
   }
 
+  /**
+   * Updates the approval window after key selections change. Selections are
+   * not persisted: the requester's promise does not survive a service worker
+   * restart, so a restored selection could never be answered.
+   */
+  private keySelectionsChanged(): void {
+    this.notifyApprovalsChanged();
+  }
+
+  // ===========================================================================
+  // Approval Inbox
+  // ===========================================================================
+
+  /**
+   * Lists every pending sign request and key selection, oldest first.
+   */
+  private getPendingApprovals(): any {
+    const signRequests = this.signQueue.getPending();
+    const keySelections = Array.from(this.pendingKeySelections.entries())
+      .map(([requestId, data]) => ({
+        requestId,
+        keyType: data.keyType,
+        purpose: data.purpose,
+        origin: data.origin,
+        createdAt: data.createdAt
+      }))
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    return { signRequests, keySelections, count: signRequests.length + keySelections.length };
+  }
+
+  /**
+   * Number of requests waiting in the approval inbox.
+   */
+  getPendingApprovalCount(): number {
+    return this.signQueue.getPendingCount() + this.pendingKeySelections.size;
+  }
+
+  /**
+   * Registers a listener called whenever the approval inbox changes.
+   */
+  onApprovalsChanged(listener: () => void): void {
+    this.approvalListeners.push(listener);
+  }
+
+  /**
+   * Rejects every pending sign request and key selection from an origin.
+   */
+  private rejectOriginRequests(origin: string, reason?: string): any {
+    const message = reason || 'User rejected all requests from this site';
+    let rejected = 0;
+
+    for (const request of this.signQueue.getPending()) {
+      if (request.origin === origin) {
+        this.signQueue.reject(request.id, message);
+        rejected++;
+      }
+    }
+
+    for (const [requestId, pending] of Array.from(this.pendingKeySelections.entries())) {
+      if (pending.origin === origin) {
+        this.rejectKeySelection(requestId, message);
+        rejected++;
+      }
+    }
+
+    return { success: true, rejected };
+  }
+
+  /**
+   * Tells open popup pages (the inbox) and listeners that the pending
+   * requests changed.
+   */
+  private notifyApprovalsChanged(): void {
+    for (const listener of this.approvalListeners) {
+      listener();
+    }
+    chrome.runtime.sendMessage({ type: 'APPROVALS_CHANGED', count: this.getPendingApprovalCount() })
+      .catch(() => {
+        // No popup page open - ignore
+      });
+  }
+
   private async computePublicKeyHash(publicKeyHex: string): Promise<string> {
     // Convert hex to bytes
     const publicKeyBytes = new Uint8Array(
@@ -1036,93 +2572,193 @@ export class MessageRouter {
       .join('');
   }
 
+  // ===========================================================================
+  // Accumulate Transactions
+  // ===========================================================================
+
   /**
-   * Compute dataForSignature for Accumulate pending transaction signing.
-   *
-   * According to the Accumulate protocol, the signature is computed over:
-   * dataForSignature = SHA256(transactionHash + metadataHash)
-   *
-   * Where metadataHash = SHA256(signerUrlBytes + signerVersionLE + timestampLE)
-   *
-   * This is based on how the Accumulate SDK computes tx.dataForSignature(sigInfo)
-   *
-   * @param transactionHash - 64-char hex string (32 bytes)
-   * @param signerUrl - The key page URL (e.g., acc://adi.acme/book/1)
-   * @param signerVersion - Key page version (uint64)
-   * @param timestamp - Microseconds timestamp (uint64)
-   * @returns Hex-encoded dataForSignature hash (64 chars)
+   * Decodes the transaction supplied with an acc_* request and recomputes its hash.
+   * If the dApp also supplied a transactionHash it must match the local hash.
+   * Requests without a transaction fall back to the supplied hash (unverified).
    */
-  private async computeDataForSignature(
-    transactionHash: string,
-    signerUrl: string,
-    signerVersion: number,
-    timestamp: number
-  ): Promise<string> {
-    // Convert transaction hash from hex to bytes (32 bytes)
-    const txHashBytes = new Uint8Array(
-      transactionHash.replace(/^0x/, '').match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || []
+  private verifyAccumulateTransaction(
+    data: any
+  ): { hash: string; transaction?: AccumulateTransaction } | { error: { code: number; message: string } } {
+    const suppliedHash: string = data.transactionHash || data.hash || '';
+
+    if (data.transaction === undefined || data.transaction === null) {
+      return { hash: suppliedHash };
+    }
+
+    let verified;
+    try {
+      verified = verifyTransaction(data.transaction);
+    } catch (error) {
+      return {
+        error: {
+          code: -32602,
+          message: `Invalid transaction: ${error instanceof Error ? error.message : 'decode error'}`
+        }
+      };
+    }
+
+    if (suppliedHash && !hexEquals(suppliedHash, verified.hash)) {
+      return {
+        error: {
+          code: -32602,
+          message: `Transaction hash mismatch: expected ${verified.hash}, got ${suppliedHash}`
+        }
+      };
+    }
+
+    return { hash: verified.hash, transaction: verified.transaction };
+  }
+
+  private isValidSignatureFormat(format: unknown): boolean {
+    return format === undefined || format === 'signature' || format === 'object' || format === 'envelope';
+  }
+
+  private isValidDelegatorList(delegators: unknown): boolean {
+    return delegators === undefined || (
+      Array.isArray(delegators) &&
+      delegators.every(d => typeof d === 'string' && d.toLowerCase().startsWith('acc://'))
     );
+  }
 
-    // Encode signer URL as length-prefixed bytes (varint + UTF8)
-    const signerUrlBytes = new TextEncoder().encode(signerUrl);
-    const signerUrlLengthVarint = this.encodeVarint(signerUrlBytes.length);
-    const signerUrlEncoded = new Uint8Array([...signerUrlLengthVarint, ...signerUrlBytes]);
-
-    // Encode signer version as 8-byte little-endian uint64
-    const signerVersionBytes = new Uint8Array(8);
-    const versionView = new DataView(signerVersionBytes.buffer);
-    // JavaScript numbers are doubles, but for version we can safely use BigInt
-    versionView.setBigUint64(0, BigInt(signerVersion), true); // true = little endian
-
-    // Encode timestamp as 8-byte little-endian uint64
-    const timestampBytes = new Uint8Array(8);
-    const timestampView = new DataView(timestampBytes.buffer);
-    timestampView.setBigUint64(0, BigInt(timestamp), true); // true = little endian
-
-    // Compute metadataHash = SHA256(signerUrlEncoded + signerVersionBytes + timestampBytes)
-    const metadataBytes = new Uint8Array([
-      ...signerUrlEncoded,
-      ...signerVersionBytes,
-      ...timestampBytes
-    ]);
-    const metadataHashBuffer = await crypto.subtle.digest('SHA-256', metadataBytes);
-    const metadataHash = new Uint8Array(metadataHashBuffer);
-
-    // Compute dataForSignature = SHA256(transactionHash + metadataHash)
-    const dataForSignatureInput = new Uint8Array([...txHashBytes, ...metadataHash]);
-    const dataForSignatureBuffer = await crypto.subtle.digest('SHA-256', dataForSignatureInput);
-    const dataForSignatureBytes = new Uint8Array(dataForSignatureBuffer);
-
-    // Convert to hex string
-    return Array.from(dataForSignatureBytes)
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
+  /**
+   * Resolves the signer metadata actually used for an Accumulate signature.
+   * Lite signers always sign as the lite identity at version 1; otherwise the
+   * requested signer (or the key's key page) and version are used.
+   */
+  private resolveSignatureMetadata(
+    key: StoredKey,
+    data: AccSignTransactionData | AccSignPendingTransactionData
+  ): SignatureMetadata {
+    const liteIdentity = key.metadata.accumulateUrl;
+    let signer = data.signerUrl || key.metadata.keyPageUrl || liteIdentity || '';
+    let version = data.signerVersion || 1;
+
+    if (liteIdentity) {
+      const normalized = signer.toLowerCase();
+      const lite = liteIdentity.toLowerCase();
+      if (normalized === lite || normalized.startsWith(lite + '/')) {
+        signer = liteIdentity;
+        version = 1;
+      }
+    }
+
+    if (!signer) {
+      throw new Error('No signer URL available for this key');
+    }
+
+    return {
+      publicKey: key.publicKey,
+      signer,
+      signerVersion: version,
+      timestamp: data.timestamp || (Date.now() * 1000),
+      delegators: data.delegators?.length ? data.delegators : undefined
+    };
   }
 
   /**
-   * Encode a number as a varint (variable-length integer).
-   * Used for length-prefixed encoding in Accumulate protocol.
+   * Re-checks a stored transaction against the hash about to be signed.
    */
-  private encodeVarint(value: number): Uint8Array {
-    const bytes: number[] = [];
-    while (value > 0x7f) {
-      bytes.push((value & 0x7f) | 0x80);
-      value >>>= 7;
+  private assertTransactionHash(transaction: AccumulateTransaction, transactionHash: string): void {
+    if (!hexEquals(toHex(hashTransaction(transaction)), transactionHash)) {
+      throw new Error('Transaction hash does not match the decoded transaction');
+    }
+  }
+
+  // ===========================================================================
+  // Audit Log
+  // ===========================================================================
+
+  private async recordSignRequest(request: SignRequest): Promise<void> {
+    const keyName = request.keyId && this.keyStore.isUnlocked()
+      ? this.keyStore.getKey(request.keyId)?.name
+      : undefined;
+
+    const record = buildSignAuditRecord(request, keyName);
+    if (record) {
+      await this.keyStore.recordAudit(record);
+    }
+  }
+
+  private getAuditLog(): any {
+    if (!this.keyStore.isUnlocked()) {
+      return { error: { message: 'Vault is locked' } };
     }
-    bytes.push(value);
-    return new Uint8Array(bytes);
+
+    const entries = this.keyStore.getAuditLog();
+    return { entries, verification: verifyAuditLog(entries) };
+  }
+
+  private exportAuditLog(format: 'csv' | 'json'): any {
+    if (!this.keyStore.isUnlocked()) {
+      return { error: { message: 'Vault is locked' } };
+    }
+
+    const entries = this.keyStore.getAuditLog();
+    const date = new Date().toISOString().slice(0, 10);
+
+    if (format === 'csv') {
+      return { content: auditLogToCsv(entries), filename: `certen-audit-${date}.csv`, mimeType: 'text/csv' };
+    }
+    return { content: auditLogToJson(entries), filename: `certen-audit-${date}.json`, mimeType: 'application/json' };
+  }
+
+  // ===========================================================================
+  // Provider Events
+  // ===========================================================================
+
+  /**
+   * Sends an event to every connected site.
+   */
+  private async broadcastEvent(event: ProviderEventType, data: unknown): Promise<void> {
+    const origins = (await this.permissions.getAll()).map(p => p.origin);
+    await Promise.all(origins.map(origin => sendProviderEvent(origin, event, data)));
+  }
+
+  /**
+   * Sends each site the accounts it can see (empty while locked).
+   *
+   * @param origins - Sites to notify (defaults to all connected sites)
+   */
+  private async notifyAccountsChanged(origins?: string[]): Promise<void> {
+    const targets = origins ?? (await this.permissions.getAll()).map(p => p.origin);
+    const unlocked = this.keyStore.isUnlocked();
+
+    await Promise.all(targets.map(async (origin) => {
+      await sendProviderEvent(origin, 'accountsChanged', {
+        accounts: unlocked ? await this.getAccountsForConnection(origin) : [],
+        evmAccounts: unlocked ? await this.getEvmAddresses(origin) : []
+      });
+    }));
+  }
+
+  private async notifyLocked(): Promise<void> {
+    await this.broadcastEvent('lock', {});
+    await this.notifyAccountsChanged();
   }
 
   // ===========================================================================
   // Popup Management
   // ===========================================================================
 
-  private async openPopup(mode: 'setup' | 'unlock' | 'approve' | 'select' | 'default' = 'default'): Promise<void> {
+  private async openPopup(
+    mode: 'setup' | 'unlock' | 'approve' | 'select' | 'connect' | 'default' = 'default'
+  ): Promise<void> {
+    // Sign requests and key selections share one approval window (the inbox)
+    if (mode === 'select' || mode === 'approve') {
+      await this.openApprovalWindow();
+      return;
+    }
+
     const url = chrome.runtime.getURL(`popup.html?mode=${mode}`);
 
     // For modes that need specific handling, always create a window
     // chrome.action.openPopup() doesn't support passing URL parameters
-    if (mode === 'select' || mode === 'approve') {
+    if (mode === 'connect') {
       await chrome.windows.create({
         url,
         type: 'popup',
@@ -1147,6 +2783,61 @@ export class MessageRouter {
       });
     }
   }
+
+  /**
+   * Focuses the approval window if it is still open, otherwise opens a new
+   * one on the inbox. The window ID is kept in session storage so it is
+   * reused across service worker restarts.
+   */
+  private async openApprovalWindow(): Promise<void> {
+    const stored = await chrome.storage.session.get(SESSION_KEY_APPROVAL_WINDOW);
+    const windowId: number | undefined = stored[SESSION_KEY_APPROVAL_WINDOW];
+
+    if (windowId !== undefined) {
+      try {
+        await chrome.windows.update(windowId, { focused: true, drawAttention: true });
+        return;
+      } catch {
+        // Window was closed - open a new one
+      }
+    }
+
+    const created = await chrome.windows.create({
+      url: chrome.runtime.getURL('popup.html?mode=inbox'),
+      type: 'popup',
+      width: 400,
+      height: 600,
+      focused: true
+    });
+
+    if (created?.id !== undefined) {
+      await chrome.storage.session.set({ [SESSION_KEY_APPROVAL_WINDOW]: created.id });
+    }
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function decodeUtf8OrHex(hex: string): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(fromHex(hex));
+  } catch {
+    return hex;
+  }
+}
+
+function hexEquals(a: string, b: string): boolean {
+  return a.replace(/^0x/, '').toLowerCase() === b.replace(/^0x/, '').toLowerCase();
+}
+
+/**
+ * True for messages from the extension's own pages (popup, approval
+ * window), as opposed to content scripts.
+ */
+function isExtensionPage(sender: chrome.runtime.MessageSender): boolean {
+  return sender.id === chrome.runtime.id && !!sender.url?.startsWith(chrome.runtime.getURL(''));
 }
 
 // =============================================================================
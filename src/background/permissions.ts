@@ -0,0 +1,180 @@
+/**
+ * Certen Key Vault - Site Permissions
+ *
+ * Persists per-origin connection permissions in chrome.storage.local so they
+ * survive service worker restarts. Each origin is granted a set of keys and
+ * method groups when the user approves its connection request.
+ */
+
+import { SitePermission, PermissionGroup } from '../shared/types';
+import { STORAGE_KEY_PERMISSIONS } from '../shared/constants';
+
+// =============================================================================
+// Method Groups
+// =============================================================================
+
+/**
+ * Method group required by each RPC method. Methods not listed here
+ * (connect, disconnect, chain queries) need no permission.
+ */
+const METHOD_GROUPS: Record<string, PermissionGroup> = {
+  // Accounts
+  acc_getAccounts: 'accounts',
+  eth_accounts: 'accounts',
+
+  // Signing
+  acc_signTransaction: 'sign',
+  acc_signPendingTransaction: 'sign',
+  acc_signHash: 'sign',
+  eth_signHash: 'sign',
+  eth_signTypedData: 'sign',
+  eth_signPersonalMessage: 'sign',
+  eth_signTransaction: 'sign',
+  certen_signIntent: 'sign',
+  certen_signUserOperation: 'sign',
+  bls_signHash: 'sign',
+  personal_sign: 'sign',
+  eth_signTypedData_v4: 'sign',
+
+  // Key access
+  acc_selectKey: 'keys',
+  acc_updateKeyMetadata: 'keys',
+
+  // Operations
+  acc_sendTokens: 'operations',
+  acc_addCredits: 'operations',
+  certen_bridgeToEVM: 'operations'
+};
+
+export const PERMISSION_GROUPS: PermissionGroup[] = ['accounts', 'sign', 'keys', 'operations'];
+
+/**
+ * Returns the method group an RPC method belongs to, if any.
+ */
+export function getMethodGroup(method: string): PermissionGroup | undefined {
+  return METHOD_GROUPS[method];
+}
+
+// =============================================================================
+// PermissionStore Class
+// =============================================================================
+
+export class PermissionStore {
+  private permissions: Map<string, SitePermission> | null = null;
+
+  /**
+   * Loads permissions from storage (once per worker lifetime).
+   */
+  private async load(): Promise<Map<string, SitePermission>> {
+    if (!this.permissions) {
+      const result = await chrome.storage.local.get(STORAGE_KEY_PERMISSIONS);
+      const stored: SitePermission[] = result[STORAGE_KEY_PERMISSIONS] || [];
+      this.permissions = new Map(stored.map(p => [p.origin, p]));
+    }
+    return this.permissions;
+  }
+
+  private async save(): Promise<void> {
+    const permissions = await this.load();
+    await chrome.storage.local.set({ [STORAGE_KEY_PERMISSIONS]: Array.from(permissions.values()) });
+  }
+
+  /**
+   * Gets the permission granted to an origin.
+   */
+  async get(origin: string): Promise<SitePermission | undefined> {
+    return (await this.load()).get(origin);
+  }
+
+  /**
+   * Gets all permissions, most recently granted first.
+   */
+  async getAll(): Promise<SitePermission[]> {
+    return Array.from((await this.load()).values())
+      .sort((a, b) => b.grantedAt - a.grantedAt);
+  }
+
+  /**
+   * Checks whether an origin has been granted a method group.
+   */
+  async hasGroup(origin: string, group: PermissionGroup): Promise<boolean> {
+    const permission = await this.get(origin);
+    return !!permission && permission.methodGroups.includes(group);
+  }
+
+  /**
+   * Checks whether a key is shared with an origin.
+   */
+  async hasKey(origin: string, keyId: string): Promise<boolean> {
+    const permission = await this.get(origin);
+    return !!permission && permission.keyIds.includes(keyId);
+  }
+
+  /**
+   * Grants (or replaces) an origin's permission.
+   */
+  async grant(origin: string, keyIds: string[], methodGroups: PermissionGroup[]): Promise<SitePermission> {
+    const permissions = await this.load();
+
+    // 'accounts' is implied by any connection
+    const groups = PERMISSION_GROUPS.filter(g => g === 'accounts' || methodGroups.includes(g));
+
+    const permission: SitePermission = {
+      origin,
+      keyIds: Array.from(new Set(keyIds)),
+      methodGroups: groups,
+      grantedAt: Date.now()
+    };
+
+    permissions.set(origin, permission);
+    await this.save();
+    return permission;
+  }
+
+  /**
+   * Revokes an origin's permission.
+   *
+   * @returns true if the origin had a permission
+   */
+  async revoke(origin: string): Promise<boolean> {
+    const permissions = await this.load();
+    const existed = permissions.delete(origin);
+    if (existed) {
+      await this.save();
+    }
+    return existed;
+  }
+
+  /**
+   * Removes a deleted key from every origin's permission.
+   *
+   * @returns Origins the key was shared with
+   */
+  async removeKey(keyId: string): Promise<string[]> {
+    const permissions = await this.load();
+    const affected: string[] = [];
+    for (const permission of permissions.values()) {
+      if (permission.keyIds.includes(keyId)) {
+        permission.keyIds = permission.keyIds.filter(id => id !== keyId);
+        affected.push(permission.origin);
+      }
+    }
+    if (affected.length > 0) {
+      await this.save();
+    }
+    return affected;
+  }
+
+  /**
+   * Drops the in-memory cache (e.g. after the vault is reset).
+   */
+  clearCache(): void {
+    this.permissions = null;
+  }
+}
+
+// =============================================================================
+// Singleton Instance
+// =============================================================================
+
+export const permissionStore = new PermissionStore();
@@ -0,0 +1,249 @@
+/**
+ * Certen Key Vault - Settings
+ *
+ * User preferences persisted in chrome.storage.local under
+ * STORAGE_KEY_SETTINGS. Values are validated on update; stored values that
+ * no longer validate fall back to their defaults. Listeners are told which
+ * settings changed so the rest of the background can react (auto-lock,
+ * network change events).
+ */
+
+import { Settings, UiPreferences, NetworkId, BlindSigningPolicy, KeyType } from '../shared/types';
+import {
+  STORAGE_KEY_SETTINGS,
+  DEFAULT_NETWORK,
+  DEFAULT_AUTO_LOCK_TIMEOUT,
+  DEFAULT_IDLE_LOCK_TIMEOUT,
+  DEFAULT_EVM_CHAIN_ID,
+  NETWORKS
+} from '../shared/constants';
+import { getChainContracts } from '../config/contracts';
+
+// =============================================================================
+// Defaults and Limits
+// =============================================================================
+
+export const DEFAULT_SETTINGS: Settings = {
+  network: DEFAULT_NETWORK as NetworkId,
+  autoLockTimeout: DEFAULT_AUTO_LOCK_TIMEOUT,
+  lockOnIdle: true,
+  idleLockTimeout: DEFAULT_IDLE_LOCK_TIMEOUT,
+  lockOnWindowClose: true,
+  blindSigning: 'warn',
+  defaultKeys: {},
+  defaultEvmChainId: DEFAULT_EVM_CHAIN_ID,
+  siteChainIds: {},
+  ui: {
+    openInboxOnStart: true,
+    showMultiChainAddresses: true
+  }
+};
+
+export const MIN_AUTO_LOCK_TIMEOUT = 60 * 1000;             // 1 minute
+export const MAX_AUTO_LOCK_TIMEOUT = 24 * 60 * 60 * 1000;   // 24 hours
+export const MIN_IDLE_LOCK_TIMEOUT = 60 * 1000;             // 1 minute
+export const MAX_IDLE_LOCK_TIMEOUT = 4 * 60 * 60 * 1000;    // 4 hours
+
+const BLIND_SIGNING_POLICIES: BlindSigningPolicy[] = ['warn', 'block'];
+const KEY_TYPES: KeyType[] = ['ed25519', 'secp256k1', 'bls12381'];
+
+/**
+ * A partial update. `ui` is merged; every other field is replaced.
+ */
+export type SettingsUpdate = Partial<Omit<Settings, 'ui'>> & { ui?: Partial<UiPreferences> };
+
+export type SettingsListener = (settings: Settings, changed: (keyof Settings)[]) => void;
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validators per setting. Each throws with a user-facing message.
+ */
+const VALIDATORS: { [K in keyof Settings]: (value: unknown) => void } = {
+  network: (value) => {
+    if (typeof value !== 'string' || !(value in NETWORKS)) {
+      throw new Error(`Unknown network: ${value}`);
+    }
+  },
+  autoLockTimeout: (value) => {
+    if (!Number.isInteger(value) || (value as number) < MIN_AUTO_LOCK_TIMEOUT || (value as number) > MAX_AUTO_LOCK_TIMEOUT) {
+      throw new Error('Auto-lock timeout must be between 1 minute and 24 hours');
+    }
+  },
+  lockOnIdle: (value) => {
+    if (typeof value !== 'boolean') {
+      throw new Error('lockOnIdle must be true or false');
+    }
+  },
+  idleLockTimeout: (value) => {
+    if (!Number.isInteger(value) || (value as number) < MIN_IDLE_LOCK_TIMEOUT || (value as number) > MAX_IDLE_LOCK_TIMEOUT) {
+      throw new Error('Idle timeout must be between 1 minute and 4 hours');
+    }
+  },
+  lockOnWindowClose: (value) => {
+    if (typeof value !== 'boolean') {
+      throw new Error('lockOnWindowClose must be true or false');
+    }
+  },
+  blindSigning: (value) => {
+    if (!BLIND_SIGNING_POLICIES.includes(value as BlindSigningPolicy)) {
+      throw new Error(`Blind signing policy must be one of: ${BLIND_SIGNING_POLICIES.join(', ')}`);
+    }
+  },
+  defaultKeys: (value) => {
+    if (!isRecord(value)) {
+      throw new Error('defaultKeys must be an object');
+    }
+    for (const [type, keyId] of Object.entries(value)) {
+      if (!KEY_TYPES.includes(type as KeyType) || typeof keyId !== 'string') {
+        throw new Error(`Invalid default key for ${type}`);
+      }
+    }
+  },
+  defaultEvmChainId: (value) => {
+    if (!Number.isInteger(value) || !getChainContracts(value as number)) {
+      throw new Error(`Unsupported EVM chain: ${value}`);
+    }
+  },
+  siteChainIds: (value) => {
+    if (!isRecord(value)) {
+      throw new Error('siteChainIds must be an object');
+    }
+    for (const [origin, chainId] of Object.entries(value)) {
+      if (!Number.isInteger(chainId) || !getChainContracts(chainId as number)) {
+        throw new Error(`Unsupported EVM chain for ${origin}: ${chainId}`);
+      }
+    }
+  },
+  ui: (value) => {
+    if (!isRecord(value)) {
+      throw new Error('ui must be an object');
+    }
+    for (const name of Object.keys(DEFAULT_SETTINGS.ui) as (keyof UiPreferences)[]) {
+      if (typeof value[name] !== 'boolean') {
+        throw new Error(`ui.${name} must be true or false`);
+      }
+    }
+  }
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Sets one setting; callers validate the value with VALIDATORS first.
+ */
+function assign<K extends keyof Settings>(target: Settings, name: K, value: Settings[K]): void {
+  target[name] = value;
+}
+
+// =============================================================================
+// SettingsStore Class
+// =============================================================================
+
+export class SettingsStore {
+  private settings: Settings | null = null;
+  private listeners: SettingsListener[] = [];
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Returns the current settings (loaded once, then cached).
+   */
+  async get(): Promise<Settings> {
+    if (!this.settings) {
+      const result = await chrome.storage.local.get(STORAGE_KEY_SETTINGS);
+      this.settings = sanitize(result[STORAGE_KEY_SETTINGS]);
+    }
+    return this.settings;
+  }
+
+  /**
+   * Validates and applies a partial update, persists it and notifies
+   * listeners of the settings that changed. Updates are applied one at a
+   * time; pass a function to build the update from the latest settings.
+   *
+   * @throws Error if a field is unknown or invalid (nothing is applied)
+   */
+  update(update: SettingsUpdate | ((current: Settings) => SettingsUpdate)): Promise<Settings> {
+    const run = this.pending.then(() => this.apply(update));
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  private async apply(input: SettingsUpdate | ((current: Settings) => SettingsUpdate)): Promise<Settings> {
+    const current = await this.get();
+    const update = typeof input === 'function' ? input(current) : input;
+    const next: Settings = { ...current };
+
+    for (const name of Object.keys(update) as (keyof Settings)[]) {
+      if (!(name in VALIDATORS)) {
+        throw new Error(`Unknown setting: ${name}`);
+      }
+      const value = name === 'ui' ? { ...current.ui, ...update.ui } : update[name];
+      VALIDATORS[name](value);
+      assign(next, name, value as Settings[typeof name]);
+    }
+
+    const changed = (Object.keys(next) as (keyof Settings)[])
+      .filter(name => JSON.stringify(next[name]) !== JSON.stringify(current[name]));
+    if (changed.length === 0) {
+      return current;
+    }
+
+    await chrome.storage.local.set({ [STORAGE_KEY_SETTINGS]: next });
+    this.settings = next;
+
+    for (const listener of this.listeners) {
+      listener(next, changed);
+    }
+    return next;
+  }
+
+  /**
+   * Registers a listener called after settings change.
+   */
+  onChange(listener: SettingsListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Drops the in-memory cache (e.g. after the vault is reset).
+   */
+  clearCache(): void {
+    this.settings = null;
+  }
+}
+
+/**
+ * Fills in defaults for missing settings and replaces invalid ones.
+ */
+function sanitize(stored: unknown): Settings {
+  const settings: Settings = { ...DEFAULT_SETTINGS, ui: { ...DEFAULT_SETTINGS.ui } };
+  if (!isRecord(stored)) {
+    return settings;
+  }
+
+  for (const name of Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]) {
+    if (stored[name] === undefined) {
+      continue;
+    }
+
+    const value = name === 'ui' && isRecord(stored.ui) ? { ...DEFAULT_SETTINGS.ui, ...stored.ui } : stored[name];
+    try {
+      VALIDATORS[name](value);
+      assign(settings, name, value as Settings[typeof name]);
+    } catch (error) {
+      console.warn(`[Settings] Ignoring invalid stored ${name}:`, error);
+    }
+  }
+  return settings;
+}
+
+// =============================================================================
+// Singleton Instance
+// =============================================================================
+
+export const settingsStore = new SettingsStore();
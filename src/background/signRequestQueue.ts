@@ -2,10 +2,23 @@
  * Certen Key Vault - Sign Request Queue
  *
  * Manages pending signature requests that require user approval.
+ * Requests are mirrored to chrome.storage.session with their status, so they
+ * survive service worker restarts: the popup can still approve them and the
+ * requesting page can re-attach to them by its request ID.
  */
 
 import { SignRequest, SignRequestStatus, SignRequestData } from '../shared/types';
 import { generateUUID } from '../vault/crypto';
+import { SESSION_KEY_SIGN_REQUESTS } from '../shared/constants';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const SIGN_REQUEST_TTL = 5 * 60 * 1000;      // Pending requests expire after 5 minutes
+const FINISHED_REQUEST_RETENTION = 2 * 60 * 1000;    // Keep results around for re-attaching
+
+const FINAL_STATUSES: SignRequestStatus[] = ['completed', 'rejected', 'error', 'expired'];
 
 // =============================================================================
 // Types
@@ -22,6 +35,8 @@ interface RequestCallbacks {
 export class SignRequestQueue {
   private requests: Map<string, SignRequest> = new Map();
   private callbacks: Map<string, RequestCallbacks> = new Map();
+  private changeListeners: Array<() => void> = [];
+  private finishListeners: Array<(request: SignRequest) => void> = [];
 
   /**
    * Adds a new sign request to the queue.
@@ -29,25 +44,36 @@ export class SignRequestQueue {
    * @param type - Request type
    * @param data - Request data
    * @param origin - Requesting website origin
+   * @param clientRequestId - ID the page used for the RPC call
    * @returns Request ID
    */
   add(
     type: SignRequest['type'],
     data: SignRequestData,
-    origin: string
+    origin: string,
+    clientRequestId?: string
   ): string {
     const id = generateUUID();
+    const now = Date.now();
 
     const request: SignRequest = {
       id,
       type,
       origin,
-      timestamp: Date.now(),
+      clientRequestId,
+      timestamp: now,
+      expiresAt: now + SIGN_REQUEST_TTL,
+      updatedAt: now,
       data,
       status: 'pending'
     };
 
     this.requests.set(id, request);
+    this.changed();
+
+    // Expire on time while the worker is alive; the cleanup alarm covers restarts
+    setTimeout(() => this.cleanup(), SIGN_REQUEST_TTL + 1000);
+
     return id;
   }
 
@@ -59,23 +85,31 @@ export class SignRequestQueue {
   }
 
   /**
-   * Gets the next pending request.
+   * Finds the request a page created with the given RPC request ID.
    */
-  getNext(): SignRequest | undefined {
+  findByClientId(origin: string, clientRequestId: string): SignRequest | undefined {
     for (const request of this.requests.values()) {
-      if (request.status === 'pending') {
+      if (request.origin === origin && request.clientRequestId === clientRequestId) {
         return request;
       }
     }
     return undefined;
   }
 
+  /**
+   * Gets the next pending request.
+   */
+  getNext(): SignRequest | undefined {
+    return this.getPending()[0];
+  }
+
   /**
    * Gets all pending requests.
    */
   getPending(): SignRequest[] {
+    const now = Date.now();
     return Array.from(this.requests.values())
-      .filter(r => r.status === 'pending')
+      .filter(r => r.status === 'pending' && r.expiresAt > now)
       .sort((a, b) => a.timestamp - b.timestamp);
   }
 
@@ -83,9 +117,14 @@ export class SignRequestQueue {
    * Gets the count of pending requests.
    */
   getPendingCount(): number {
-    return Array.from(this.requests.values())
-      .filter(r => r.status === 'pending')
-      .length;
+    return this.getPending().length;
+  }
+
+  /**
+   * Checks whether a request has reached a final status.
+   */
+  isFinished(request: SignRequest): boolean {
+    return FINAL_STATUSES.includes(request.status);
   }
 
   /**
@@ -95,16 +134,35 @@ export class SignRequestQueue {
     const request = this.requests.get(requestId);
     if (request) {
       request.status = status;
+      request.updatedAt = Date.now();
+      this.changed();
     }
   }
 
+  /**
+   * Marks a request as approved with the chosen key (signing in progress).
+   */
+  approve(requestId: string, keyId: string): void {
+    const request = this.requests.get(requestId);
+    if (request) {
+      request.keyId = keyId;
+    }
+    this.updateStatus(requestId, 'approved');
+  }
+
   /**
    * Registers a callback to be called when the request completes.
+   * If the request has already finished, the callback is called immediately.
    */
   onComplete(
     requestId: string,
     callback: (result: unknown, error?: string) => void
   ): void {
+    const request = this.requests.get(requestId);
+    if (request && this.isFinished(request)) {
+      callback(request.result, request.error);
+      return;
+    }
     this.callbacks.set(requestId, { onComplete: callback });
   }
 
@@ -112,62 +170,28 @@ export class SignRequestQueue {
    * Completes a request successfully with a result.
    */
   complete(requestId: string, result: unknown): void {
-    const request = this.requests.get(requestId);
-    if (request) {
-      request.status = 'completed';
-    }
-
-    const callbacks = this.callbacks.get(requestId);
-    if (callbacks) {
-      callbacks.onComplete(result);
-      this.callbacks.delete(requestId);
-    }
-
-    // Clean up completed request after a delay
-    setTimeout(() => {
-      this.requests.delete(requestId);
-    }, 5000);
+    this.finish(requestId, 'completed', result);
   }
 
   /**
    * Rejects a request with an error.
    */
   reject(requestId: string, reason: string): void {
-    const request = this.requests.get(requestId);
-    if (request) {
-      request.status = 'rejected';
-    }
-
-    const callbacks = this.callbacks.get(requestId);
-    if (callbacks) {
-      callbacks.onComplete(undefined, reason);
-      this.callbacks.delete(requestId);
-    }
-
-    // Clean up rejected request after a delay
-    setTimeout(() => {
-      this.requests.delete(requestId);
-    }, 5000);
+    this.finish(requestId, 'rejected', undefined, reason);
   }
 
   /**
    * Marks a request as errored.
    */
   error(requestId: string, errorMessage: string): void {
-    const request = this.requests.get(requestId);
-    if (request) {
-      request.status = 'error';
-    }
-
-    const callbacks = this.callbacks.get(requestId);
-    if (callbacks) {
-      callbacks.onComplete(undefined, errorMessage);
-      this.callbacks.delete(requestId);
-    }
+    this.finish(requestId, 'error', undefined, errorMessage);
+  }
 
-    setTimeout(() => {
-      this.requests.delete(requestId);
-    }, 5000);
+  /**
+   * Marks a pending request as expired and tells the requester.
+   */
+  expire(requestId: string): void {
+    this.finish(requestId, 'expired', undefined, 'Request expired before it was approved');
   }
 
   /**
@@ -176,6 +200,7 @@ export class SignRequestQueue {
   remove(requestId: string): void {
     this.requests.delete(requestId);
     this.callbacks.delete(requestId);
+    this.changed();
   }
 
   /**
@@ -190,24 +215,123 @@ export class SignRequestQueue {
     }
     this.requests.clear();
     this.callbacks.clear();
+    this.changed();
   }
 
   /**
-   * Cleans up old requests (older than timeout).
+   * Applies the expiry policy: pending requests past their deadline expire
+   * (notifying the requester), and finished requests are dropped once the
+   * re-attach window has passed.
    */
-  cleanup(timeoutMs: number = 300000): void {
-    const now = Date.now();
+  cleanup(now: number = Date.now()): void {
+    let removed = false;
     for (const [id, request] of this.requests) {
-      if (now - request.timestamp > timeoutMs) {
-        if (request.status === 'pending') {
-          this.reject(id, 'Request timeout');
-        } else {
-          this.requests.delete(id);
-          this.callbacks.delete(id);
+      if (request.status === 'pending' && request.expiresAt <= now) {
+        this.expire(id);
+      } else if (this.isFinished(request) && now - request.updatedAt > FINISHED_REQUEST_RETENTION) {
+        this.requests.delete(id);
+        this.callbacks.delete(id);
+        removed = true;
+      }
+    }
+    if (removed) {
+      this.changed();
+    }
+  }
+
+  /**
+   * Moves a request to a final status and calls its callback.
+   */
+  private finish(
+    requestId: string,
+    status: SignRequestStatus,
+    result?: unknown,
+    error?: string
+  ): void {
+    const request = this.requests.get(requestId);
+    if (request) {
+      request.status = status;
+      request.updatedAt = Date.now();
+      request.result = result;
+      request.error = error;
+      this.changed();
+
+      for (const listener of this.finishListeners) {
+        listener(request);
+      }
+    }
+
+    const callbacks = this.callbacks.get(requestId);
+    if (callbacks) {
+      callbacks.onComplete(result, error);
+      this.callbacks.delete(requestId);
+    }
+  }
+
+  /**
+   * Registers a listener called whenever a request is added, changes status
+   * or is removed.
+   */
+  onChange(listener: () => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Registers a listener called once for each request that reaches a final
+   * status (completed, rejected, error or expired).
+   */
+  onFinish(listener: (request: SignRequest) => void): void {
+    this.finishListeners.push(listener);
+  }
+
+  // ===========================================================================
+  // Persistence
+  // ===========================================================================
+
+  /**
+   * Restores requests saved before a service worker restart. Requesters
+   * re-attach with onComplete(); a request that was mid-signing when the
+   * worker stopped is marked as errored.
+   */
+  async restore(): Promise<void> {
+    try {
+      const result = await chrome.storage.session.get(SESSION_KEY_SIGN_REQUESTS);
+      const stored: SignRequest[] = result[SESSION_KEY_SIGN_REQUESTS] || [];
+      for (const request of stored) {
+        if (!this.requests.has(request.id)) {
+          this.requests.set(request.id, request);
+        }
+        if (request.status === 'approved') {
+          this.error(request.id, 'Signing was interrupted by an extension restart');
         }
       }
+      this.cleanup();
+      console.log(`[SignRequestQueue] Restored ${this.getPendingCount()} pending request(s)`);
+    } catch (error) {
+      console.error('[SignRequestQueue] Failed to restore requests:', error);
     }
   }
+
+  /**
+   * Persists the queue and notifies change listeners.
+   */
+  private changed(): void {
+    this.persist();
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Mirrors the queue to session storage.
+   */
+  private persist(): void {
+    chrome.storage.session
+      .set({ [SESSION_KEY_SIGN_REQUESTS]: Array.from(this.requests.values()) })
+      .catch(error => {
+        console.error('[SignRequestQueue] Failed to persist requests:', error);
+      });
+  }
 }
 
 // =============================================================================
@@ -0,0 +1,96 @@
+/**
+ * Certen Protocol Contract ABIs
+ *
+ * Function signatures of the Certen contracts whose calldata the vault decodes
+ * on the approval screen. Selectors are computed from these signatures, so
+ * keep them in sync with the deployed contracts.
+ */
+
+import { ChainContracts } from './contracts';
+
+export interface AbiParameter {
+  name: string;
+  type: string;              // Solidity type (e.g. 'address', 'uint256', 'bytes32[]')
+}
+
+export interface AbiFunction {
+  name: string;
+  inputs: AbiParameter[];
+}
+
+/**
+ * Known functions by contract role (matches the keys of ChainContracts).
+ */
+export const CERTEN_ABIS: Partial<Record<keyof ChainContracts, AbiFunction[]>> = {
+  // CertenAnchorV3
+  anchor: [
+    {
+      name: 'createAnchor',
+      inputs: [
+        { name: 'bundleId', type: 'bytes32' },
+        { name: 'merkleRoot', type: 'bytes32' },
+        { name: 'operationCommitment', type: 'bytes32' },
+        { name: 'crossChainCommitment', type: 'bytes32' },
+        { name: 'governanceRoot', type: 'bytes32' },
+        { name: 'accumulateBlockHeight', type: 'uint256' }
+      ]
+    },
+    {
+      name: 'executeProof',
+      inputs: [
+        { name: 'bundleId', type: 'bytes32' },
+        { name: 'proof', type: 'bytes' }
+      ]
+    },
+    {
+      name: 'addValidator',
+      inputs: [{ name: 'validator', type: 'address' }]
+    },
+    {
+      name: 'removeValidator',
+      inputs: [{ name: 'validator', type: 'address' }]
+    }
+  ],
+
+  // CertenAccountFactory
+  accountFactory: [
+    {
+      name: 'createAccount',
+      inputs: [
+        { name: 'adiUrl', type: 'string' },
+        { name: 'ownerPubKey', type: 'bytes' },
+        { name: 'salt', type: 'bytes32' }
+      ]
+    },
+    {
+      name: 'getAddress',
+      inputs: [
+        { name: 'adiUrl', type: 'string' },
+        { name: 'ownerPubKey', type: 'bytes' },
+        { name: 'salt', type: 'bytes32' }
+      ]
+    }
+  ]
+};
+
+/**
+ * CertenAccountV2 (ERC-4337 account) execution functions, used to summarize
+ * UserOperation callData.
+ */
+export const CERTEN_ACCOUNT_ABI: AbiFunction[] = [
+  {
+    name: 'execute',
+    inputs: [
+      { name: 'dest', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'func', type: 'bytes' }
+    ]
+  },
+  {
+    name: 'executeBatch',
+    inputs: [
+      { name: 'dest', type: 'address[]' },
+      { name: 'func', type: 'bytes[]' }
+    ]
+  }
+];
@@ -59,13 +59,7 @@ window.addEventListener('message', async (event) => {
 
   try {
     // Forward to background service worker
-    const response = await chrome.runtime.sendMessage({
-      type: 'CERTEN_RPC_REQUEST',
-      id,
-      method,
-      params,
-      origin: window.location.origin
-    });
+    const response = await forwardRequest(id, method, params);
 
     // Send response back to page
     window.postMessage({
@@ -87,6 +81,29 @@ window.addEventListener('message', async (event) => {
   }
 });
 
+/**
+ * Sends an RPC request to the background service worker. If the worker is
+ * stopped before it answers (MV3 workers are restarted when idle), the request
+ * is resent once with `reattach` set, so the restarted worker re-attaches it
+ * to the sign request it already queued instead of creating a new one.
+ */
+async function forwardRequest(id: string, method: string, params: unknown): Promise<any> {
+  const request = {
+    type: 'CERTEN_RPC_REQUEST',
+    id,
+    method,
+    params,
+    origin: window.location.origin
+  };
+
+  try {
+    return await chrome.runtime.sendMessage(request);
+  } catch (error) {
+    console.warn('[Certen Content Script] Request interrupted, re-attaching:', error);
+    return chrome.runtime.sendMessage({ ...request, reattach: true });
+  }
+}
+
 // =============================================================================
 // Message Relay: Background -> Page
 // =============================================================================
@@ -94,9 +111,10 @@ window.addEventListener('message', async (event) => {
 /**
  * Handles messages from the background service worker.
  * Used to broadcast events to the page (e.g., accountsChanged).
+ * Events are addressed to one origin; events for other origins are dropped.
  */
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  if (message.type === 'CERTEN_EVENT') {
+  if (message.type === 'CERTEN_EVENT' && message.origin === window.location.origin) {
     // Forward event to page
     window.postMessage({
       type: 'CERTEN_EVENT',
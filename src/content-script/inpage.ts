@@ -51,13 +51,13 @@ function sendRequest(method: string, params: unknown[] = []): Promise<unknown> {
       params
     }, '*');
 
-    // Timeout after 5 minutes
+    // Timeout after 6 minutes (backstop; the vault expires requests after 5)
     setTimeout(() => {
       if (pendingRequests.has(id)) {
         pendingRequests.delete(id);
         reject(new Error('Request timeout'));
       }
-    }, 300000);
+    }, 360000);
   });
 }
 
@@ -139,11 +139,25 @@ const certenProvider = {
   // Signing Methods
   // ==========================================================================
 
+  /**
+   * Signs an Accumulate transaction.
+   *
+   * @param txData.transaction - Full transaction ({ header, body } JSON or hex-encoded binary).
+   *   When supplied, the vault recomputes the hash and shows the decoded body for approval.
+   * @param txData.transactionHash - Expected hash; signing is refused if it does not match
+   * @param txData.format - 'object' or 'envelope' to receive a ready-to-submit Accumulate
+   *   signature (dataForSignature is then signed using the signer, version and timestamp)
+   */
   async signTransaction(txData: {
-    principal: string;
+    principal?: string;
     signer?: string;
     body?: unknown;
+    transaction?: unknown;
     transactionHash?: string;
+    signerVersion?: number;
+    delegators?: string[];
+    timestamp?: number;
+    format?: 'signature' | 'object' | 'envelope';
     humanReadable?: {
       action: string;
       from?: string;
@@ -151,23 +165,38 @@ const certenProvider = {
       amount?: string;
       memo?: string;
     };
-  }): Promise<{ signature: string; publicKey: string }> {
+  }): Promise<{ signature: string; publicKey: string; timestamp?: number; accumulateSignature?: unknown; envelope?: unknown }> {
     return sendRequest('acc_signTransaction', [txData]) as Promise<{
       signature: string;
       publicKey: string;
+      timestamp?: number;
+      accumulateSignature?: unknown;
+      envelope?: unknown;
     }>;
   },
 
+  /**
+   * Signs a cross-chain intent. The vault hashes the canonical encoding of
+   * the intent fields (see README) and signs that hash with the selected
+   * ED25519 or secp256k1 key; intentId is only a reference for the dApp.
+   *
+   * @returns The signature, public key and the intent hash that was signed
+   */
   async signTransactionIntent(intentData: {
     adiUrl: string;
-    transaction: unknown;
-    signer: string;
-    actionType?: string;
+    actionType: string;
+    nonce: number | string;
+    expiry: number;
+    targetChain?: string;
+    targetAddress?: string;
+    amount?: string;
+    intentId?: string;
     description?: string;
-  }): Promise<{ signature: string; publicKey: string }> {
+  }): Promise<{ signature: string; publicKey: string; intentHash: string }> {
     return sendRequest('certen_signIntent', [intentData]) as Promise<{
       signature: string;
       publicKey: string;
+      intentHash: string;
     }>;
   },
 
@@ -186,22 +215,27 @@ const certenProvider = {
   /**
    * Signs a pending transaction for multi-sig approval.
    *
-   * @param params.transactionHash - The 64-char hex transaction hash (for display)
-   * @param params.dataForSignature - The complete hash to sign (computed by api-bridge)
+   * @param params.transactionHash - The 64-char hex transaction hash
+   * @param params.transaction - Full transaction (JSON or hex binary) to verify the hash against
+   * @param params.dataForSignature - Expected signing hash; refused if it differs from the local computation
    * @param params.signer - The key page URL (e.g., acc://adi.acme/book/1)
    * @param params.signerVersion - Key page version (default: 1)
    * @param params.timestamp - Microseconds timestamp (must match api-bridge)
-   * @param params.delegators - Optional delegation chain
+   * @param params.delegators - Optional delegation chain (first delegator innermost);
+   *   the signing hash and returned signature object are wrapped accordingly
+   * @param params.format - 'object' or 'envelope' to receive a ready-to-submit Accumulate signature
    * @param params.humanReadable - Human-readable description for the approval popup
    * @returns The signature, public key, and timestamp used during signing
    */
   async signPendingTransaction(params: {
-    transactionHash: string;
+    transactionHash?: string;
+    transaction?: unknown;
     dataForSignature?: string;
     signer: string;
     signerVersion?: number;
     timestamp?: number;
     delegators?: string[];
+    format?: 'signature' | 'object' | 'envelope';
     humanReadable?: {
       action: string;
       from?: string;
@@ -209,11 +243,13 @@ const certenProvider = {
       description?: string;
       [key: string]: unknown;
     };
-  }): Promise<{ signature: string; publicKey: string; timestamp?: number }> {
+  }): Promise<{ signature: string; publicKey: string; timestamp?: number; accumulateSignature?: unknown; envelope?: unknown }> {
     return sendRequest('acc_signPendingTransaction', [params]) as Promise<{
       signature: string;
       publicKey: string;
       timestamp?: number;
+      accumulateSignature?: unknown;
+      envelope?: unknown;
     }>;
   },
 
@@ -242,6 +278,94 @@ const certenProvider = {
     }>;
   },
 
+  /**
+   * Signs EIP-712 typed data (eth_signTypedData v4).
+   * The vault computes the digest itself from the full payload.
+   *
+   * @param typedData - EIP-712 payload with types, primaryType, domain and message
+   * @param address - The EVM address that should sign (must match a secp256k1 key)
+   * @returns The signature and public key
+   */
+  async signTypedData(
+    typedData: {
+      types: Record<string, { name: string; type: string }[]>;
+      primaryType: string;
+      domain: Record<string, unknown>;
+      message: Record<string, unknown>;
+    },
+    address: string
+  ): Promise<{ signature: string; publicKey: string }> {
+    return sendRequest('eth_signTypedData', [{ address, typedData }]) as Promise<{
+      signature: string;
+      publicKey: string;
+    }>;
+  },
+
+  /**
+   * Signs an EVM transaction (legacy, EIP-2930 or EIP-1559).
+   * The vault RLP-encodes it with EIP-155 chain binding and signs with the
+   * secp256k1 key for `address`.
+   *
+   * @param transaction - Unsigned transaction ({ to, value, data, gas, nonce, chainId, ... })
+   * @param address - Sender address (must match a secp256k1 key)
+   * @returns The raw signed transaction, its hash, signature and public key
+   */
+  async signEvmTransaction(
+    transaction: {
+      type?: number | string;
+      chainId?: number | string;
+      nonce: number | string;
+      to?: string;
+      value?: number | string;
+      data?: string;
+      gas: number | string;
+      gasPrice?: number | string;
+      maxFeePerGas?: number | string;
+      maxPriorityFeePerGas?: number | string;
+      accessList?: { address: string; storageKeys: string[] }[];
+    },
+    address: string
+  ): Promise<{ rawTransaction: string; transactionHash: string; signature: string; publicKey: string }> {
+    return sendRequest('eth_signTransaction', [{ address, transaction }]) as Promise<{
+      rawTransaction: string;
+      transactionHash: string;
+      signature: string;
+      publicKey: string;
+    }>;
+  },
+
+  /**
+   * Signs an ERC-4337 UserOperation for a Certen account (EntryPoint v0.6).
+   * The vault computes userOpHash itself. For an undeployed sender, pass
+   * `adiUrl` so the sender can be checked against the predicted Certen
+   * account; `fillInitCode` lets the vault add the factory initCode.
+   *
+   * @param request.userOperation - Unsigned UserOperation (signature is ignored)
+   * @param request.owner - Owner address (must match a secp256k1 key)
+   * @returns The signature, userOpHash and the UserOperation with signature set
+   */
+  async signUserOperation(request: {
+    userOperation: Record<string, unknown>;
+    owner: string;
+    chainId?: number;
+    entryPoint?: string;
+    adiUrl?: string;
+    deployed?: boolean;
+    fillInitCode?: boolean;
+  }): Promise<{
+    signature: string;
+    publicKey: string;
+    userOpHash: string;
+    userOperation: Record<string, string>;
+  }> {
+    return sendRequest('certen_signUserOperation', [request]) as Promise<{
+      signature: string;
+      publicKey: string;
+      userOpHash: string;
+      userOperation: Record<string, string>;
+    }>;
+  },
+
   // ==========================================================================
   // Key Selection
   // ==========================================================================
@@ -382,6 +506,161 @@ const certenProvider = {
   }
 };
 
+// =============================================================================
+// window.ethereum Provider (EIP-1193)
+// =============================================================================
+
+// Methods exposed to EVM tooling; everything else is refused
+const ETHEREUM_METHODS = new Set([
+  'eth_requestAccounts',
+  'eth_accounts',
+  'eth_chainId',
+  'wallet_switchEthereumChain',
+  'personal_sign',
+  'eth_signTypedData_v4',
+  'eth_signTransaction'
+]);
+
+// EVM provider state
+let ethAccounts: string[] = [];
+let ethChainId: string | null = null;
+
+const ethereumEventHandlers = new Map<string, Set<(...args: unknown[]) => void>>();
+
+function emitEthereumEvent(eventName: string, payload: unknown): void {
+  const handlers = ethereumEventHandlers.get(eventName);
+  if (handlers) {
+    handlers.forEach(handler => {
+      try {
+        handler(payload);
+      } catch (e) {
+        console.error('[Certen] Ethereum event handler error:', e);
+      }
+    });
+  }
+}
+
+function setEthAccounts(next: string[]): void {
+  const changed = next.length !== ethAccounts.length ||
+    next.some((address, i) => address.toLowerCase() !== ethAccounts[i]?.toLowerCase());
+  ethAccounts = next;
+  if (changed) {
+    emitEthereumEvent('accountsChanged', [...ethAccounts]);
+  }
+}
+
+function setEthChainId(next: string): void {
+  const previous = ethChainId;
+  ethChainId = next;
+  if (previous === null) {
+    emitEthereumEvent('connect', { chainId: next });
+  } else if (previous !== next) {
+    emitEthereumEvent('chainChanged', next);
+  }
+}
+
+/**
+ * Maps extension events onto the standard EIP-1193 events.
+ */
+function handleEthereumEvent(eventType: string, data: any): void {
+  if (eventType === 'accountsChanged') {
+    const evmAccounts = data?.evmAccounts as string[] | undefined;
+    setEthAccounts(evmAccounts ?? ((data?.accounts || []) as CertenAccount[])
+      .filter(a => a.type === 'evm')
+      .map(a => a.url));
+  } else if (eventType === 'lock') {
+    setEthAccounts([]);
+  } else if (eventType === 'chainChanged' && data?.chainId) {
+    setEthChainId(data.chainId);
+  } else if (eventType === 'disconnect') {
+    setEthAccounts([]);
+    emitEthereumEvent('disconnect', Object.assign(new Error('Disconnected'), { code: 4900 }));
+  }
+}
+
+interface EthereumProvider {
+  isCerten: boolean;
+  request(args: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<unknown>;
+  isConnected(): boolean;
+  on(eventName: string, handler: (...args: unknown[]) => void): EthereumProvider;
+  removeListener(eventName: string, handler: (...args: unknown[]) => void): EthereumProvider;
+}
+
+// This file is a classic script, so the declaration merges into the global Window
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+interface Window {
+  certen?: typeof certenProvider;
+  accumulate?: typeof certenProvider;
+  ethereum?: EthereumProvider;
+}
+
+const ethereumProvider: EthereumProvider = {
+  isCerten: true,
+
+  async request(args: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<unknown> {
+    if (!args || typeof args.method !== 'string') {
+      throw Object.assign(new Error('Invalid request'), { code: -32600 });
+    }
+    if (!ETHEREUM_METHODS.has(args.method)) {
+      throw Object.assign(new Error(`Unsupported method: ${args.method}`), { code: 4200 });
+    }
+
+    const params = Array.isArray(args.params) ? args.params : (args.params ? [args.params] : []);
+    const result = await sendRequest(args.method, params);
+
+    if (args.method === 'eth_requestAccounts' || args.method === 'eth_accounts') {
+      setEthAccounts(result as string[]);
+    } else if (args.method === 'eth_chainId') {
+      setEthChainId(result as string);
+    } else if (args.method === 'wallet_switchEthereumChain') {
+      setEthChainId('0x' + BigInt((params[0] as { chainId: string }).chainId).toString(16));
+    }
+
+    return result;
+  },
+
+  isConnected(): boolean {
+    return ethChainId !== null;
+  },
+
+  on(eventName: string, handler: (...args: unknown[]) => void): EthereumProvider {
+    if (!ethereumEventHandlers.has(eventName)) {
+      ethereumEventHandlers.set(eventName, new Set());
+    }
+    ethereumEventHandlers.get(eventName)!.add(handler);
+    return ethereumProvider;
+  },
+
+  removeListener(eventName: string, handler: (...args: unknown[]) => void): EthereumProvider {
+    ethereumEventHandlers.get(eventName)?.delete(handler);
+    return ethereumProvider;
+  }
+};
+
+// =============================================================================
+// EIP-6963 Provider Announcement
+// =============================================================================
+
+const PROVIDER_ICON = 'data:image/svg+xml;base64,' + btoa(
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32">' +
+  '<rect width="32" height="32" rx="8" fill="#6366f1"/>' +
+  '<path d="M21 11.5a7 7 0 1 0 0 9" stroke="#fff" stroke-width="3" fill="none" stroke-linecap="round"/>' +
+  '</svg>'
+);
+
+const providerInfo = Object.freeze({
+  uuid: crypto.randomUUID(),
+  name: 'Certen Key Vault',
+  icon: PROVIDER_ICON,
+  rdns: 'io.certen.vault'
+});
+
+function announceProvider(): void {
+  window.dispatchEvent(new CustomEvent('eip6963:announceProvider', {
+    detail: Object.freeze({ info: providerInfo, provider: ethereumProvider })
+  }));
+}
+
 // =============================================================================
 // Message Handling
 // =============================================================================
@@ -398,7 +677,8 @@ window.addEventListener('message', (event) => {
     if (pending) {
       pendingRequests.delete(id);
       if (error) {
-        pending.reject(new Error(error.message || 'Unknown error'));
+        // Keep the RPC error code (EIP-1193 ProviderRpcError)
+        pending.reject(Object.assign(new Error(error.message || 'Unknown error'), { code: error.code }));
       } else {
         pending.resolve(result);
       }
@@ -413,12 +693,15 @@ window.addEventListener('message', (event) => {
       isConnected = accounts.length > 0;
     } else if (eventType === 'networkChanged') {
       currentNetwork = data?.network || 'testnet';
+    } else if (eventType === 'lock') {
+      accounts = [];
     } else if (eventType === 'disconnect') {
       isConnected = false;
       accounts = [];
     }
 
     emitEvent(eventType, data);
+    handleEthereumEvent(eventType, data);
   }
 });
 
@@ -430,10 +713,21 @@ window.addEventListener('message', (event) => {
 Object.freeze(certenProvider);
 
 // Inject into window
-(window as any).certen = certenProvider;
+window.certen = certenProvider;
 
 // Also expose as accumulate for compatibility
-(window as any).accumulate = certenProvider;
+window.accumulate = certenProvider;
+
+// EVM provider: announce via EIP-6963, and take window.ethereum only if unclaimed
+Object.freeze(ethereumProvider);
+if (!window.ethereum) {
+  window.ethereum = ethereumProvider;
+}
+window.addEventListener('eip6963:requestProvider', announceProvider);
+announceProvider();
+
+// Resolve the initial chain so 'connect' is emitted
+ethereumProvider.request({ method: 'eth_chainId' }).catch(() => undefined);
 
 // Announce provider is ready
 window.dispatchEvent(new CustomEvent('certen#initialized'));
@@ -8,12 +8,19 @@ import Unlock from './pages/Unlock';
 import KeyList from './pages/KeyList';
 import SignApproval from './pages/SignApproval';
 import KeySelection from './pages/KeySelection';
+import ConnectApproval from './pages/ConnectApproval';
+import ConnectedSites from './pages/ConnectedSites';
+import ApprovalInbox, { InboxRequestKind } from './pages/ApprovalInbox';
+import Activity from './pages/Activity';
+import Settings from './pages/Settings';
+import Discovery from './pages/Discovery';
+import { UiPreferences } from '../shared/types';
 
 // =============================================================================
 // Types
 // =============================================================================
 
-type AppMode = 'loading' | 'setup' | 'unlock' | 'main' | 'approve' | 'select';
+type AppMode = 'loading' | 'setup' | 'unlock' | 'main' | 'approve' | 'select' | 'connect' | 'sites' | 'inbox' | 'activity' | 'settings' | 'discovery';
 
 interface VaultStatus {
   isInitialized: boolean;
@@ -21,10 +28,14 @@ interface VaultStatus {
   hasMnemonic: boolean;
   keyCount: number;
   network: string;
+  walletName?: string;
 }
 
+// Minimum time between activity reports to the background
+const ACTIVITY_REPORT_INTERVAL = 30 * 1000;
+
 interface AppProps {
-  initialMode?: 'setup' | 'unlock' | 'approve' | 'select' | null;
+  initialMode?: 'setup' | 'unlock' | 'approve' | 'select' | 'connect' | 'inbox' | null;
 }
 
 // =============================================================================
@@ -35,16 +46,49 @@ const App: React.FC<AppProps> = ({ initialMode }) => {
   const [mode, setMode] = useState<AppMode>('loading');
   const [vaultStatus, setVaultStatus] = useState<VaultStatus | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [inboxDismissed, setInboxDismissed] = useState(false);
+  const [uiPreferences, setUiPreferences] = useState<UiPreferences | null>(null);
+  // Request opened from the inbox (approve/select modes)
+  const [activeRequestId, setActiveRequestId] = useState<string | undefined>();
 
-  // Load vault status on mount
+  // Load vault status on mount and track the pending request count
   useEffect(() => {
     loadVaultStatus();
+    loadUiPreferences();
+
+    const listener = (message: { type?: string; count?: number }) => {
+      if (message?.type === 'APPROVALS_CHANGED') {
+        setPendingCount(message.count || 0);
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
   }, []);
 
-  // Check for pending sign requests when in main mode
+  // Report clicks and key presses so an active user is not auto-locked
   useEffect(() => {
-    if (mode === 'main') {
-      checkPendingSignRequests();
+    let lastReport = 0;
+    const reportActivity = () => {
+      if (Date.now() - lastReport < ACTIVITY_REPORT_INTERVAL) {
+        return;
+      }
+      lastReport = Date.now();
+      chrome.runtime.sendMessage({ type: 'SESSION_ACTIVITY' }).catch(() => undefined);
+    };
+
+    document.addEventListener('pointerdown', reportActivity);
+    document.addEventListener('keydown', reportActivity);
+    return () => {
+      document.removeEventListener('pointerdown', reportActivity);
+      document.removeEventListener('keydown', reportActivity);
+    };
+  }, []);
+
+  // Check for pending requests when in main mode (until the inbox is dismissed)
+  useEffect(() => {
+    if (mode === 'main' && !inboxDismissed) {
+      checkPendingApprovals();
     }
   }, [mode]);
 
@@ -67,6 +111,10 @@ const App: React.FC<AppProps> = ({ initialMode }) => {
         setMode('approve');
       } else if (initialMode === 'select') {
         setMode('select');
+      } else if (initialMode === 'connect') {
+        setMode('connect');
+      } else if (initialMode === 'inbox' && response.isUnlocked) {
+        setMode('inbox');
       } else if (!response.isInitialized) {
         setMode('setup');
       } else if (!response.isUnlocked) {
@@ -83,13 +131,31 @@ const App: React.FC<AppProps> = ({ initialMode }) => {
   };
 
   /**
-   * Checks for pending sign requests.
+   * Loads the popup preferences from the settings.
    */
-  const checkPendingSignRequests = async () => {
+  const loadUiPreferences = async (): Promise<UiPreferences | null> => {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GET_PENDING_SIGN_REQUEST' });
-      if (response.request) {
-        setMode('approve');
+      const response = await chrome.runtime.sendMessage({ type: 'GET_SETTINGS' });
+      if (response.settings) {
+        setUiPreferences(response.settings.ui);
+        return response.settings.ui;
+      }
+    } catch (err) {
+      console.error('Failed to load settings:', err);
+    }
+    return null;
+  };
+
+  /**
+   * Checks for pending sign requests and key selections.
+   */
+  const checkPendingApprovals = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_PENDING_APPROVALS' });
+      setPendingCount(response.count || 0);
+      const ui = uiPreferences || await loadUiPreferences();
+      if (response.count > 0 && ui?.openInboxOnStart !== false) {
+        setMode('inbox');
       }
     } catch (err) {
       console.error('Failed to check pending requests:', err);
@@ -109,8 +175,8 @@ const App: React.FC<AppProps> = ({ initialMode }) => {
    */
   const handleUnlockSuccess = () => {
     loadVaultStatus();
-    checkPendingSignRequests().then(() => {
-      if (mode !== 'approve') {
+    checkPendingApprovals().then(() => {
+      if (mode !== 'inbox') {
         setMode('main');
       }
     });
@@ -128,14 +194,44 @@ const App: React.FC<AppProps> = ({ initialMode }) => {
    * Handles sign request completion.
    */
   const handleSignComplete = () => {
+    // Requests opened from the inbox return to it
+    if (activeRequestId) {
+      closeRequest();
+      return;
+    }
+
     // Check for more pending requests
-    checkPendingSignRequests().then(() => {
-      if (mode !== 'approve') {
+    checkPendingApprovals().then(() => {
+      if (mode !== 'inbox') {
         setMode('main');
       }
     });
   };
 
+  /**
+   * Opens a request from the inbox.
+   */
+  const openRequest = (kind: InboxRequestKind, requestId: string) => {
+    setActiveRequestId(requestId);
+    setMode(kind === 'sign' ? 'approve' : 'select');
+  };
+
+  /**
+   * Returns from a request to the inbox.
+   */
+  const closeRequest = () => {
+    setActiveRequestId(undefined);
+    setMode('inbox');
+  };
+
+  /**
+   * Leaves the inbox for the key list.
+   */
+  const dismissInbox = () => {
+    setInboxDismissed(true);
+    setMode('main');
+  };
+
   // ===========================================================================
   // Render
   // ===========================================================================
@@ -179,19 +275,65 @@ const App: React.FC<AppProps> = ({ initialMode }) => {
     case 'approve':
       return (
         <SignApproval
+          requestId={activeRequestId}
           onComplete={handleSignComplete}
-          onCancel={() => setMode('main')}
+          onCancel={activeRequestId ? closeRequest : () => setMode('main')}
         />
       );
 
     case 'select':
       return (
         <KeySelection
+          requestId={activeRequestId}
+          onComplete={activeRequestId ? closeRequest : () => setMode('main')}
+          onCancel={activeRequestId ? closeRequest : () => setMode('main')}
+        />
+      );
+
+    case 'connect':
+      return (
+        <ConnectApproval
           onComplete={() => setMode('main')}
           onCancel={() => setMode('main')}
         />
       );
 
+    case 'sites':
+      return <ConnectedSites onBack={() => setMode('main')} />;
+
+    case 'activity':
+      return <Activity onBack={() => setMode('main')} />;
+
+    case 'settings':
+      return (
+        <Settings
+          onBack={() => {
+            loadVaultStatus();
+            loadUiPreferences();
+            setMode('main');
+          }}
+        />
+      );
+
+    case 'discovery':
+      return (
+        <Discovery
+          onDone={() => {
+            loadVaultStatus();
+            setMode('main');
+          }}
+        />
+      );
+
+    case 'inbox':
+      return (
+        <ApprovalInbox
+          closeWhenEmpty={initialMode === 'inbox'}
+          onOpenRequest={openRequest}
+          onBack={dismissInbox}
+        />
+      );
+
     case 'main':
     default:
       return (
@@ -199,6 +341,13 @@ const App: React.FC<AppProps> = ({ initialMode }) => {
           vaultStatus={vaultStatus!}
           onLock={handleLock}
           onRefresh={loadVaultStatus}
+          onOpenSites={() => setMode('sites')}
+          pendingCount={pendingCount}
+          onOpenInbox={() => setMode('inbox')}
+          onOpenActivity={() => setMode('activity')}
+          onOpenSettings={() => setMode('settings')}
+          onOpenDiscovery={() => setMode('discovery')}
+          showMultiChainAddresses={uiPreferences?.showMultiChainAddresses !== false}
         />
       );
   }
@@ -0,0 +1,256 @@
+/**
+ * Certen Key Vault - Activity Page
+ *
+ * Shows the signing audit log (newest first, including private key exports)
+ * with filters, the result of verifying its hash chain, and CSV/JSON export.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { AuditEntry, AuditOutcome } from '../../shared/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ActivityProps {
+  onBack: () => void;
+}
+
+interface Filters {
+  origin: string;
+  keyId: string;
+  outcome: '' | AuditOutcome;
+  method: string;
+}
+
+const OUTCOME_BADGES: Record<AuditOutcome, { label: string; className: string }> = {
+  approved: { label: 'Signed', className: 'card-badge success' },
+  rejected: { label: 'Rejected', className: 'card-badge secondary' },
+  error: { label: 'Error', className: 'card-badge warning' },
+  expired: { label: 'Expired', className: 'card-badge secondary' },
+  exported: { label: 'Key Exported', className: 'card-badge warning' }
+};
+
+const EMPTY_FILTERS: Filters = { origin: '', keyId: '', outcome: '', method: '' };
+
+// =============================================================================
+// Activity Component
+// =============================================================================
+
+const Activity: React.FC<ActivityProps> = ({ onBack }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [verification, setVerification] = useState<{ valid: boolean; brokenAt?: number } | null>(null);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAuditLog();
+  }, []);
+
+  const loadAuditLog = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_AUDIT_LOG' });
+      if (response.error) {
+        setError(response.error.message);
+      } else {
+        setEntries(response.entries || []);
+        setVerification(response.verification || null);
+      }
+    } catch (err) {
+      console.error('Failed to load activity:', err);
+      setError('Failed to load activity');
+    }
+    setLoading(false);
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    setExporting(true);
+    setError(null);
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'EXPORT_AUDIT_LOG', format });
+      if (response.error) {
+        setError(response.error.message);
+      } else {
+        const url = URL.createObjectURL(new Blob([response.content], { type: response.mimeType }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = response.filename;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+    } catch (err) {
+      setError('Failed to export activity');
+    }
+
+    setExporting(false);
+  };
+
+  const setFilter = (name: keyof Filters, value: string) => {
+    setFilters({ ...filters, [name]: value });
+  };
+
+  const truncate = (str: string, length: number = 24): string => {
+    if (!str) return '';
+    if (str.length <= length) return str;
+    return `${str.slice(0, length / 2)}...${str.slice(-length / 2)}`;
+  };
+
+  const unique = (values: (string | undefined)[]): string[] => {
+    return Array.from(new Set(values.filter((v): v is string => !!v))).sort();
+  };
+
+  const origins = unique(entries.map(e => e.origin));
+  const methods = unique(entries.map(e => e.method));
+  const keyOptions = unique(entries.map(e => e.keyId)).map(keyId => ({
+    keyId,
+    name: entries.find(e => e.keyId === keyId && e.keyName)?.keyName || truncate(keyId, 12)
+  }));
+
+  const filtered = entries
+    .filter(e => !filters.origin || e.origin === filters.origin)
+    .filter(e => !filters.keyId || e.keyId === filters.keyId)
+    .filter(e => !filters.outcome || e.outcome === filters.outcome)
+    .filter(e => !filters.method || e.method === filters.method)
+    .slice()
+    .reverse();
+
+  // ===========================================================================
+  // Render
+  // ===========================================================================
+
+  return (
+    <div className="app-container">
+      <header className="header">
+        <div className="header-title">
+          <span>📜</span>
+          <h1>Activity</h1>
+        </div>
+        <div className="header-actions">
+          <button className="btn-icon" onClick={onBack} title="Back">
+            ✕
+          </button>
+        </div>
+      </header>
+
+      <div className="content">
+        {error && <p className="form-error mb-16">{error}</p>}
+
+        {loading ? (
+          <div className="loading">
+            <div className="spinner" />
+          </div>
+        ) : (
+          <>
+            {/* Chain verification and export */}
+            <div className="card">
+              <div className="card-header">
+                <span className="card-title">{entries.length} entries</span>
+                {verification && (verification.valid ? (
+                  <span className="card-badge success">✓ Hash chain intact</span>
+                ) : (
+                  <span className="card-badge warning">⚠ Chain broken at #{verification.brokenAt}</span>
+                ))}
+              </div>
+              <div className="flex gap-8">
+                <button
+                  className="btn btn-secondary btn-small"
+                  onClick={() => handleExport('csv')}
+                  disabled={exporting || entries.length === 0}
+                >
+                  Export CSV
+                </button>
+                <button
+                  className="btn btn-secondary btn-small"
+                  onClick={() => handleExport('json')}
+                  disabled={exporting || entries.length === 0}
+                >
+                  Export JSON
+                </button>
+              </div>
+            </div>
+
+            {/* Filters */}
+            <div className="form-group">
+              <select className="form-input mb-8" value={filters.origin} onChange={(e) => setFilter('origin', e.target.value)}>
+                <option value="">All sites</option>
+                {origins.map(origin => <option key={origin} value={origin}>{origin}</option>)}
+              </select>
+              <select className="form-input mb-8" value={filters.keyId} onChange={(e) => setFilter('keyId', e.target.value)}>
+                <option value="">All keys</option>
+                {keyOptions.map(k => <option key={k.keyId} value={k.keyId}>{k.name}</option>)}
+              </select>
+              <div className="flex gap-8">
+                <select className="form-input" value={filters.outcome} onChange={(e) => setFilter('outcome', e.target.value)}>
+                  <option value="">All outcomes</option>
+                  {(Object.keys(OUTCOME_BADGES) as AuditOutcome[]).map(outcome => (
+                    <option key={outcome} value={outcome}>{OUTCOME_BADGES[outcome].label}</option>
+                  ))}
+                </select>
+                <select className="form-input" value={filters.method} onChange={(e) => setFilter('method', e.target.value)}>
+                  <option value="">All methods</option>
+                  {methods.map(method => <option key={method} value={method}>{method}</option>)}
+                </select>
+              </div>
+            </div>
+
+            {/* Entries */}
+            {filtered.length === 0 ? (
+              <div className="empty-state">
+                <div className="empty-state-icon">📜</div>
+                <p>{entries.length === 0 ? 'No signing activity yet' : 'No entries match the filters'}</p>
+              </div>
+            ) : (
+              filtered.map((entry) => (
+                <div key={entry.id} className="card" onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}>
+                  <div className="card-header">
+                    <span className="card-title truncate">{entry.origin}</span>
+                    <span className={OUTCOME_BADGES[entry.outcome].className}>{OUTCOME_BADGES[entry.outcome].label}</span>
+                  </div>
+                  <div className="inbox-item-meta">
+                    #{entry.sequence} · {new Date(entry.timestamp).toLocaleString()} · {entry.method}
+                  </div>
+                  <div className="inbox-item-title mt-8">{entry.summary}</div>
+
+                  {expandedId === entry.id && (
+                    <div className="approval-details mt-8">
+                      <div className="detail-row">
+                        <span className="detail-label">Key</span>
+                        <span className="detail-value">{entry.keyName || (entry.keyId ? truncate(entry.keyId) : 'None')}</span>
+                      </div>
+                      {entry.signedHash && (
+                        <div className="detail-row">
+                          <span className="detail-label">Hash</span>
+                          <span className="detail-value" title={entry.signedHash}>{truncate(entry.signedHash, 30)}</span>
+                        </div>
+                      )}
+                      {entry.error && (
+                        <div className="detail-row">
+                          <span className="detail-label">Reason</span>
+                          <span className="detail-value">{entry.error}</span>
+                        </div>
+                      )}
+                      <div className="detail-row">
+                        <span className="detail-label">Entry Hash</span>
+                        <span className="detail-value" title={entry.entryHash}>{truncate(entry.entryHash, 30)}</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </>
+        )}
+      </div>
+
+      <footer className="footer">
+        Stored encrypted in your vault
+      </footer>
+    </div>
+  );
+};
+
+export default Activity;
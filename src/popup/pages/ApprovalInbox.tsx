@@ -0,0 +1,279 @@
+/**
+ * Certen Key Vault - Approval Inbox Page
+ *
+ * Lists every pending sign request and key selection, grouped by origin.
+ * Each request can be reviewed (and approved) or rejected, and all requests
+ * from a site can be rejected at once. The list updates live as requests
+ * arrive and are answered.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { SignRequest, SignRequestType } from '../../shared/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type InboxRequestKind = 'sign' | 'select';
+
+interface ApprovalInboxProps {
+  closeWhenEmpty: boolean;            // Close the approval window once everything is answered
+  onOpenRequest: (kind: InboxRequestKind, requestId: string) => void;
+  onBack: () => void;
+}
+
+interface PendingKeySelection {
+  requestId: string;
+  keyType?: string;
+  purpose?: string;
+  origin: string;
+  createdAt: number;
+}
+
+interface InboxItem {
+  kind: InboxRequestKind;
+  id: string;
+  title: string;
+  summary?: string;
+  timestamp: number;
+}
+
+const REQUEST_LABELS: Record<SignRequestType, string> = {
+  acc_signTransaction: 'Accumulate Transaction',
+  acc_signPendingTransaction: 'Pending Transaction',
+  acc_signHash: 'Accumulate Hash',
+  eth_signHash: 'Ethereum Hash',
+  eth_signTypedData: 'Typed Data',
+  eth_signPersonalMessage: 'Personal Message',
+  eth_signTransaction: 'EVM Transaction',
+  certen_signIntent: 'Certen Intent',
+  certen_signUserOperation: 'UserOperation',
+  bls_signHash: 'BLS Hash'
+};
+
+// =============================================================================
+// ApprovalInbox Component
+// =============================================================================
+
+const ApprovalInbox: React.FC<ApprovalInboxProps> = ({ closeWhenEmpty, onOpenRequest, onBack }) => {
+  const [signRequests, setSignRequests] = useState<SignRequest[]>([]);
+  const [keySelections, setKeySelections] = useState<PendingKeySelection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load on mount and reload whenever the background reports a change
+  useEffect(() => {
+    loadApprovals();
+
+    const listener = (message: { type?: string }) => {
+      if (message?.type === 'APPROVALS_CHANGED') {
+        loadApprovals();
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, []);
+
+  const loadApprovals = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_PENDING_APPROVALS' });
+      if (response.error) {
+        setError(response.error.message);
+      } else {
+        setSignRequests(response.signRequests || []);
+        setKeySelections(response.keySelections || []);
+        if (response.count === 0 && closeWhenEmpty) {
+          window.close();
+        }
+      }
+    } catch (err) {
+      console.error('Failed to load pending requests:', err);
+      setError('Failed to load pending requests');
+    }
+    setLoading(false);
+  };
+
+  const handleReject = async (item: InboxItem) => {
+    setBusy(item.id);
+    setError(null);
+
+    try {
+      const response = await chrome.runtime.sendMessage(item.kind === 'sign'
+        ? { type: 'REJECT_SIGN_REQUEST', requestId: item.id, reason: 'User rejected' }
+        : { type: 'REJECT_KEY_SELECTION', requestId: item.id, reason: 'User cancelled' });
+      if (response.error) {
+        setError(response.error.message || 'Failed to reject');
+      }
+    } catch (err) {
+      setError('Failed to reject');
+    }
+
+    setBusy(null);
+    loadApprovals();
+  };
+
+  const handleRejectAll = async (origin: string) => {
+    setBusy(origin);
+    setError(null);
+
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'REJECT_ORIGIN_REQUESTS',
+        origin,
+        reason: 'User rejected all requests from this site'
+      });
+    } catch (err) {
+      setError('Failed to reject requests');
+    }
+
+    setBusy(null);
+    loadApprovals();
+  };
+
+  const truncate = (str: string, length: number = 24): string => {
+    if (!str) return '';
+    if (str.length <= length) return str;
+    return `${str.slice(0, length / 2)}...${str.slice(-length / 2)}`;
+  };
+
+  // Short description of what a sign request asks for
+  const getSummary = (request: SignRequest): string | undefined => {
+    const data = request.data as any;
+    if (data.humanReadable?.action) {
+      return data.humanReadable.action;
+    }
+
+    switch (data.kind) {
+      case 'acc_transaction':
+        return data.transactionType;
+      case 'eth_transaction':
+        return data.decodedCall
+          ? `${data.decodedCall.contract}.${data.decodedCall.functionName}`
+          : data.transaction.to ? `To ${truncate(data.transaction.to)}` : 'Contract creation';
+      case 'eth_typed_data':
+        return data.typedData.primaryType;
+      case 'certen_intent':
+        return data.description || data.actionType;
+      case 'certen_user_operation':
+        return data.calls.length > 0
+          ? data.calls.map((call: any) => call.functionName).join(', ')
+          : `Sender ${truncate(data.userOperation.sender)}`;
+      default:
+        return undefined;
+    }
+  };
+
+  // Group requests by origin, oldest first within each group
+  const getGroups = (): [string, InboxItem[]][] => {
+    const groups = new Map<string, InboxItem[]>();
+    const add = (origin: string, item: InboxItem) => {
+      groups.set(origin, [...(groups.get(origin) || []), item]);
+    };
+
+    for (const request of signRequests) {
+      add(request.origin, {
+        kind: 'sign',
+        id: request.id,
+        title: REQUEST_LABELS[request.type] || request.type,
+        summary: getSummary(request),
+        timestamp: request.timestamp
+      });
+    }
+
+    for (const selection of keySelections) {
+      add(selection.origin, {
+        kind: 'select',
+        id: selection.requestId,
+        title: 'Key Selection',
+        summary: selection.purpose || (selection.keyType && `${selection.keyType.toUpperCase()} key`),
+        timestamp: selection.createdAt
+      });
+    }
+
+    return Array.from(groups.entries()).map(([origin, items]) => (
+      [origin, items.sort((a, b) => a.timestamp - b.timestamp)] as [string, InboxItem[]]
+    ));
+  };
+
+  // ===========================================================================
+  // Render
+  // ===========================================================================
+
+  const count = signRequests.length + keySelections.length;
+
+  return (
+    <div className="app-container">
+      <header className="header">
+        <div className="header-title">
+          <span>📥</span>
+          <h1>Pending Requests</h1>
+          {count > 0 && <span className="card-badge">{count}</span>}
+        </div>
+        <div className="header-actions">
+          <button className="btn-icon" onClick={onBack} title="Back">
+            ✕
+          </button>
+        </div>
+      </header>
+
+      <div className="content">
+        {error && <p className="form-error mb-16">{error}</p>}
+
+        {loading ? (
+          <div className="loading">
+            <div className="spinner" />
+          </div>
+        ) : count === 0 ? (
+          <div className="empty-state">
+            <div className="empty-state-icon">✓</div>
+            <p>No pending requests</p>
+          </div>
+        ) : (
+          getGroups().map(([origin, items]) => (
+            <div key={origin} className="card">
+              <div className="card-header">
+                <span className="card-title truncate">{origin}</span>
+                <button
+                  className="btn btn-danger btn-small"
+                  onClick={() => handleRejectAll(origin)}
+                  disabled={busy === origin}
+                >
+                  {items.length > 1 ? `Reject all (${items.length})` : 'Reject'}
+                </button>
+              </div>
+              {items.map((item) => (
+                <div key={item.id} className="inbox-item">
+                  <div className="inbox-item-info" onClick={() => onOpenRequest(item.kind, item.id)}>
+                    <div className="inbox-item-title">{item.title}</div>
+                    {item.summary && <div className="inbox-item-meta truncate">{item.summary}</div>}
+                    <div className="inbox-item-meta">{new Date(item.timestamp).toLocaleTimeString()}</div>
+                  </div>
+                  <button
+                    className="btn btn-secondary btn-small"
+                    onClick={() => handleReject(item)}
+                    disabled={busy === item.id}
+                  >
+                    Reject
+                  </button>
+                  <button
+                    className="btn btn-primary btn-small"
+                    onClick={() => onOpenRequest(item.kind, item.id)}
+                  >
+                    Review
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+
+      <footer className="footer">
+        Review each request before approving
+      </footer>
+    </div>
+  );
+};
+
+export default ApprovalInbox;
@@ -0,0 +1,264 @@
+/**
+ * Certen Key Vault - Connect Approval Page
+ *
+ * Lets the user choose which keys and method groups to share with a site
+ * that calls connect().
+ */
+
+import React, { useState, useEffect } from 'react';
+import { StoredKey, PermissionGroup } from '../../shared/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ConnectApprovalProps {
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+interface PendingConnection {
+  requestId: string;
+  origin: string;
+}
+
+// Groups the user can toggle ('accounts' is always granted)
+const GROUP_OPTIONS: { group: PermissionGroup; label: string; description: string }[] = [
+  { group: 'sign', label: 'Request signatures', description: 'Ask you to approve signatures with the shared keys' },
+  { group: 'keys', label: 'Key access', description: 'Ask you to pick a key and update its key page metadata' },
+  { group: 'operations', label: 'Operations', description: 'Request token transfers, credits and bridging' }
+];
+
+// =============================================================================
+// ConnectApproval Component
+// =============================================================================
+
+const ConnectApproval: React.FC<ConnectApprovalProps> = ({ onComplete, onCancel }) => {
+  const [connection, setConnection] = useState<PendingConnection | null>(null);
+  const [keys, setKeys] = useState<StoredKey[]>([]);
+  const [selectedKeyIds, setSelectedKeyIds] = useState<string[]>([]);
+  const [groups, setGroups] = useState<PermissionGroup[]>(['sign']);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load pending connection and keys on mount
+  useEffect(() => {
+    loadConnectionAndKeys();
+  }, []);
+
+  const loadConnectionAndKeys = async () => {
+    try {
+      const connectionResponse = await chrome.runtime.sendMessage({ type: 'GET_PENDING_CONNECTION' });
+      if (!connectionResponse.connection) {
+        onCancel();
+        return;
+      }
+      setConnection(connectionResponse.connection);
+
+      const keysResponse = await chrome.runtime.sendMessage({ type: 'GET_KEYS' });
+      if (keysResponse.keys) {
+        setKeys(keysResponse.keys);
+      }
+    } catch (err) {
+      console.error('Failed to load connection request:', err);
+      setError('Failed to load connection request');
+    }
+    setLoading(false);
+  };
+
+  const toggleKey = (keyId: string) => {
+    setSelectedKeyIds(selectedKeyIds.includes(keyId)
+      ? selectedKeyIds.filter(id => id !== keyId)
+      : [...selectedKeyIds, keyId]);
+  };
+
+  const toggleGroup = (group: PermissionGroup) => {
+    setGroups(groups.includes(group) ? groups.filter(g => g !== group) : [...groups, group]);
+  };
+
+  const handleConnect = async () => {
+    if (!connection || selectedKeyIds.length === 0) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'APPROVE_CONNECTION',
+        requestId: connection.requestId,
+        keyIds: selectedKeyIds,
+        methodGroups: groups
+      });
+
+      if (response.success) {
+        window.close();
+        onComplete();
+      } else {
+        setError(response.error?.message || 'Failed to connect');
+        setSubmitting(false);
+      }
+    } catch (err) {
+      setError('Failed to connect');
+      setSubmitting(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (connection) {
+      try {
+        await chrome.runtime.sendMessage({
+          type: 'REJECT_CONNECTION',
+          requestId: connection.requestId,
+          reason: 'User rejected the connection request'
+        });
+      } catch (err) {
+        console.error('Failed to reject:', err);
+      }
+    }
+    window.close();
+    onCancel();
+  };
+
+  const truncate = (str: string, length: number = 24): string => {
+    if (!str) return '';
+    if (str.length <= length) return str;
+    return `${str.slice(0, length / 2)}...${str.slice(-length / 2)}`;
+  };
+
+  // ===========================================================================
+  // Render
+  // ===========================================================================
+
+  if (loading) {
+    return (
+      <div className="app-container">
+        <div className="content">
+          <div className="loading">
+            <div className="spinner" />
+            <p className="mt-16">Loading request...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!connection) {
+    return (
+      <div className="app-container">
+        <div className="content">
+          <div className="empty-state">
+            <div className="empty-state-icon">⚠️</div>
+            <p>{error || 'No pending connection request'}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="app-container">
+      <header className="header">
+        <div className="header-title">
+          <span>🔗</span>
+          <h1>Connection Request</h1>
+        </div>
+      </header>
+
+      <div className="content">
+        <div className="approval-container">
+          <div className="approval-origin">
+            <strong>{connection.origin}</strong> wants to connect to your vault
+          </div>
+
+          {/* Keys */}
+          <div className="form-group">
+            <label className="form-label">Share these keys:</label>
+            {keys.length === 0 ? (
+              <div className="empty-state" style={{ padding: '16px' }}>
+                <p>No keys in vault</p>
+                <p className="form-hint">Add a key before connecting</p>
+              </div>
+            ) : (
+              <div className="key-list">
+                {keys.map((key) => {
+                  const isSelected = selectedKeyIds.includes(key.id);
+                  return (
+                    <div
+                      key={key.id}
+                      className={`key-card ${isSelected ? 'selected' : ''}`}
+                      onClick={() => toggleKey(key.id)}
+                    >
+                      <div className="key-icon">
+                        {key.type === 'ed25519' ? '🌐' : key.type === 'secp256k1' ? '💎' : '🔐'}
+                      </div>
+                      <div className="key-info">
+                        <div className="key-name">
+                          {key.name}
+                          {key.watchOnly && <span className="card-badge secondary">Watch-only</span>}
+                        </div>
+                        <div className="key-address">
+                          {truncate(key.metadata.accumulateUrl || key.metadata.evmAddress || key.metadata.blsPublicKey || key.publicKey)}
+                        </div>
+                      </div>
+                      {isSelected && (
+                        <span style={{ color: '#22c55e' }}>✓</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Method groups */}
+          <div className="form-group">
+            <label className="form-label">Allow this site to:</label>
+            <div className="detail-row">
+              <span className="detail-label">See the shared accounts</span>
+              <span className="detail-value">Always</span>
+            </div>
+            {GROUP_OPTIONS.map((option) => (
+              <label key={option.group} className="detail-row" style={{ cursor: 'pointer' }}>
+                <span>
+                  <span className="detail-label">{option.label}</span>
+                  <p className="form-hint">{option.description}</p>
+                </span>
+                <input
+                  type="checkbox"
+                  checked={groups.includes(option.group)}
+                  onChange={() => toggleGroup(option.group)}
+                />
+              </label>
+            ))}
+          </div>
+
+          {error && <p className="form-error mb-16">{error}</p>}
+
+          <div className="approval-actions">
+            <button
+              className="btn btn-secondary"
+              onClick={handleReject}
+              disabled={submitting}
+            >
+              Reject
+            </button>
+            <button
+              className="btn btn-primary"
+              onClick={handleConnect}
+              disabled={submitting || selectedKeyIds.length === 0}
+            >
+              {submitting ? 'Connecting...' : 'Connect'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <footer className="footer">
+        Only connect to sites you trust
+      </footer>
+    </div>
+  );
+};
+
+export default ConnectApproval;
@@ -0,0 +1,154 @@
+/**
+ * Certen Key Vault - Connected Sites Page
+ *
+ * Lists the sites that have been granted access, with the keys and method
+ * groups each can use, and lets the user revoke them.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { StoredKey, SitePermission, PermissionGroup } from '../../shared/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ConnectedSitesProps {
+  onBack: () => void;
+}
+
+const GROUP_LABELS: Record<PermissionGroup, string> = {
+  accounts: 'Accounts',
+  sign: 'Signing',
+  keys: 'Key access',
+  operations: 'Operations'
+};
+
+// =============================================================================
+// ConnectedSites Component
+// =============================================================================
+
+const ConnectedSites: React.FC<ConnectedSitesProps> = ({ onBack }) => {
+  const [permissions, setPermissions] = useState<SitePermission[]>([]);
+  const [keys, setKeys] = useState<StoredKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPermissions();
+  }, []);
+
+  const loadPermissions = async () => {
+    try {
+      const [permissionsResponse, keysResponse] = await Promise.all([
+        chrome.runtime.sendMessage({ type: 'GET_PERMISSIONS' }),
+        chrome.runtime.sendMessage({ type: 'GET_KEYS' })
+      ]);
+      setPermissions(permissionsResponse.permissions || []);
+      setKeys(keysResponse.keys || []);
+    } catch (err) {
+      console.error('Failed to load connected sites:', err);
+      setError('Failed to load connected sites');
+    }
+    setLoading(false);
+  };
+
+  const handleRevoke = async (origin: string) => {
+    setRevoking(origin);
+    setError(null);
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'REVOKE_PERMISSION', origin });
+      if (response.success) {
+        setPermissions(permissions.filter(p => p.origin !== origin));
+      } else {
+        setError(response.error || 'Failed to revoke');
+      }
+    } catch (err) {
+      setError('Failed to revoke');
+    }
+
+    setRevoking(null);
+  };
+
+  const getKeyName = (keyId: string): string => {
+    return keys.find(k => k.id === keyId)?.name || 'Removed key';
+  };
+
+  // ===========================================================================
+  // Render
+  // ===========================================================================
+
+  return (
+    <div className="app-container">
+      <header className="header">
+        <div className="header-title">
+          <span>🔗</span>
+          <h1>Connected Sites</h1>
+        </div>
+        <div className="header-actions">
+          <button className="btn-icon" onClick={onBack} title="Back">
+            ✕
+          </button>
+        </div>
+      </header>
+
+      <div className="content">
+        {error && <p className="form-error mb-16">{error}</p>}
+
+        {loading ? (
+          <div className="loading">
+            <div className="spinner" />
+          </div>
+        ) : permissions.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-state-icon">🔗</div>
+            <p>No connected sites</p>
+            <p className="form-hint mt-8">Sites you connect to will appear here</p>
+          </div>
+        ) : (
+          permissions.map((permission) => (
+            <div key={permission.origin} className="card">
+              <div className="card-header">
+                <span className="card-title truncate">{permission.origin}</span>
+                <button
+                  className="btn btn-danger btn-small"
+                  onClick={() => handleRevoke(permission.origin)}
+                  disabled={revoking === permission.origin}
+                >
+                  {revoking === permission.origin ? 'Revoking...' : 'Revoke'}
+                </button>
+              </div>
+              <div className="approval-details">
+                <div className="detail-row">
+                  <span className="detail-label">Connected</span>
+                  <span className="detail-value">{new Date(permission.grantedAt).toLocaleString()}</span>
+                </div>
+                <div className="detail-row">
+                  <span className="detail-label">Allowed</span>
+                  <span className="detail-value">
+                    {permission.methodGroups.map(g => GROUP_LABELS[g]).join(', ')}
+                  </span>
+                </div>
+                <div className="detail-row">
+                  <span className="detail-label">Keys</span>
+                  <span className="detail-value">
+                    {permission.keyIds.length === 0
+                      ? 'None'
+                      : permission.keyIds.map(getKeyName).join(', ')}
+                  </span>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <footer className="footer">
+        Revoked sites must connect again
+      </footer>
+    </div>
+  );
+};
+
+export default ConnectedSites;
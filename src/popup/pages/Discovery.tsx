@@ -0,0 +1,300 @@
+/**
+ * Certen Key Vault - Key Discovery Page
+ *
+ * Scans the recovery phrase of the active wallet for keys the user had
+ * before restoring. Keys already in the wallet are marked; with the network
+ * check on, Accumulate is asked which keys have lite identities or key
+ * pages. The user picks which keys to add.
+ */
+
+import React, { useState } from 'react';
+import { DiscoveredKey, KeyType } from '../../shared/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface DiscoveryProps {
+  onDone: () => void;
+  restoring?: boolean;                // Shown right after restoring a vault
+}
+
+const KEY_TYPE_LABELS: Record<KeyType, string> = {
+  ed25519: 'ED25519',
+  secp256k1: 'secp256k1',
+  bls12381: 'BLS12-381'
+};
+
+const GAP_OPTIONS = [5, 10, 20];
+
+function truncateAddress(address: string): string {
+  return address.length > 28 ? `${address.slice(0, 16)}...${address.slice(-8)}` : address;
+}
+
+// =============================================================================
+// Discovery Component
+// =============================================================================
+
+const Discovery: React.FC<DiscoveryProps> = ({ onDone, restoring }) => {
+  const [gap, setGap] = useState(5);
+  const [keyTypes, setKeyTypes] = useState<KeyType[]>(['ed25519', 'secp256k1']);
+  const [useNetwork, setUseNetwork] = useState(true);
+  const [keyBooks, setKeyBooks] = useState('');
+  const [keys, setKeys] = useState<DiscoveredKey[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [networkNote, setNetworkNote] = useState<string | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleKeyType = (type: KeyType) => {
+    setKeyTypes(keyTypes.includes(type) ? keyTypes.filter(t => t !== type) : [...keyTypes, type]);
+  };
+
+  const toggleSelected = (path: string) => {
+    const next = new Set(selected);
+    if (next.has(path)) {
+      next.delete(path);
+    } else {
+      next.add(path);
+    }
+    setSelected(next);
+  };
+
+  // ===========================================================================
+  // Scan and Import
+  // ===========================================================================
+
+  const handleScan = async () => {
+    setScanning(true);
+    setError(null);
+    setNetworkNote(null);
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'DISCOVER_KEYS',
+        gap,
+        keyTypes,
+        useNetwork,
+        keyBooks: keyBooks.split(/[\s,]+/).map(book => book.trim()).filter(Boolean)
+      });
+
+      if (response.error) {
+        setError(response.error.message || 'Scan failed');
+      } else {
+        const found: DiscoveredKey[] = response.keys;
+        setKeys(found);
+        // Preselect keys with network history that are not in the wallet yet
+        setSelected(new Set(found.filter(k => k.hasHistory && !k.existingKeyId).map(k => k.path)));
+        if (response.networkError) {
+          setNetworkNote(`Network check failed: ${response.networkError}`);
+        } else if (useNetwork && !response.networkChecked) {
+          setNetworkNote('No Accumulate node is configured for this network');
+        }
+      }
+    } catch (err) {
+      setError('Scan failed');
+    }
+
+    setScanning(false);
+  };
+
+  const handleImport = async () => {
+    if (!keys) return;
+
+    setImporting(true);
+    setError(null);
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'IMPORT_DISCOVERED_KEYS',
+        keys: keys
+          .filter(k => selected.has(k.path))
+          .map(k => ({ type: k.type, path: k.path, index: k.index, keyPageUrl: k.keyPageUrl }))
+      });
+
+      if (!response.success) {
+        setError(response.error || 'Import failed');
+        setImporting(false);
+        return;
+      }
+      onDone();
+    } catch (err) {
+      setError('Import failed');
+    }
+
+    setImporting(false);
+  };
+
+  // ===========================================================================
+  // Render
+  // ===========================================================================
+
+  const renderOptions = () => (
+    <>
+      <p className="form-hint mb-16">
+        {restoring
+          ? 'Your wallet was restored with its first keys. Scan the recovery phrase for keys you used before.'
+          : 'Scan the recovery phrase of this wallet for keys that are not in the vault yet.'
+        }
+      </p>
+
+      <div className="form-group">
+        <label className="form-label">Key Types</label>
+        {(Object.keys(KEY_TYPE_LABELS) as KeyType[]).map(type => (
+          <label key={type} className="detail-row" style={{ cursor: 'pointer' }}>
+            <span className="detail-label">{KEY_TYPE_LABELS[type]}</span>
+            <input
+              type="checkbox"
+              checked={keyTypes.includes(type)}
+              onChange={() => toggleKeyType(type)}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="form-group">
+        <label className="form-label">Gap</label>
+        <select
+          className="form-input"
+          value={gap}
+          onChange={(e) => setGap(Number(e.target.value))}
+        >
+          {GAP_OPTIONS.map(option => (
+            <option key={option} value={option}>{option} unused keys</option>
+          ))}
+        </select>
+        <p className="form-hint">The scan stops after this many unused keys in a row</p>
+      </div>
+
+      <div className="form-group">
+        <label className="detail-row" style={{ cursor: 'pointer' }}>
+          <span className="detail-label">Check the Accumulate network</span>
+          <input
+            type="checkbox"
+            checked={useNetwork}
+            onChange={() => setUseNetwork(!useNetwork)}
+          />
+        </label>
+        {useNetwork && (
+          <>
+            <textarea
+              className="form-input"
+              value={keyBooks}
+              onChange={(e) => setKeyBooks(e.target.value)}
+              placeholder="acc://my-adi.acme/book (optional)"
+              rows={2}
+              style={{ resize: 'none' }}
+            />
+            <p className="form-hint">
+              Lite identities are always checked. Add ADIs or key books to find key pages listing your keys.
+              Only public keys are sent to the node.
+            </p>
+          </>
+        )}
+      </div>
+
+      {error && <p className="form-error mb-16">{error}</p>}
+
+      <button
+        className="btn btn-primary btn-full"
+        onClick={handleScan}
+        disabled={scanning || keyTypes.length === 0}
+      >
+        {scanning ? 'Scanning...' : 'Scan'}
+      </button>
+      <button className="btn btn-secondary btn-full mt-8" onClick={onDone} disabled={scanning}>
+        {restoring ? 'Skip' : 'Cancel'}
+      </button>
+    </>
+  );
+
+  const renderResults = (found: DiscoveredKey[]) => (
+    <>
+      <p className="form-hint mb-16">
+        Found {found.length} keys, {found.filter(k => k.existingKeyId).length} already in the wallet.
+        Select the keys to add.
+      </p>
+      {networkNote && <p className="form-hint mb-16" style={{ color: '#f59e0b' }}>{networkNote}</p>}
+
+      <div className="key-list mb-16">
+        {found.map(key => (
+          <label
+            key={key.path}
+            className={`key-card ${selected.has(key.path) ? 'selected' : ''}`}
+            style={{ cursor: key.existingKeyId ? 'default' : 'pointer' }}
+          >
+            <input
+              type="checkbox"
+              checked={!!key.existingKeyId || selected.has(key.path)}
+              disabled={!!key.existingKeyId}
+              onChange={() => toggleSelected(key.path)}
+            />
+            <div className="key-info">
+              <div className="key-name">
+                {key.existingName || `${KEY_TYPE_LABELS[key.type]} #${key.index + 1}`}
+              </div>
+              <div className="key-address">{truncateAddress(key.keyPageUrl || key.address)}</div>
+              <div className="key-path">{key.path}</div>
+            </div>
+            {key.existingKeyId ? (
+              <span className="card-badge secondary">In wallet</span>
+            ) : key.hasHistory ? (
+              <span className="card-badge success">{key.keyPageUrl ? 'Key page' : 'Used'}</span>
+            ) : key.hasHistory === false ? (
+              <span className="card-badge secondary">Unused</span>
+            ) : null}
+          </label>
+        ))}
+      </div>
+
+      {error && <p className="form-error mb-16">{error}</p>}
+
+      <button
+        className="btn btn-primary btn-full"
+        onClick={handleImport}
+        disabled={importing || selected.size === 0}
+      >
+        {importing ? 'Adding...' : `Add ${selected.size} Key${selected.size === 1 ? '' : 's'}`}
+      </button>
+      <button
+        className="btn btn-secondary btn-full mt-8"
+        onClick={() => setKeys(null)}
+        disabled={importing}
+      >
+        Scan Again
+      </button>
+      <button className="btn btn-secondary btn-full mt-8" onClick={onDone} disabled={importing}>
+        Done
+      </button>
+    </>
+  );
+
+  return (
+    <div className="app-container">
+      <header className="header">
+        <div className="header-title">
+          <span>🔍</span>
+          <h1>Find Keys</h1>
+        </div>
+        {!restoring && (
+          <div className="header-actions">
+            <button className="btn-icon" onClick={onDone} title="Back">
+              ✕
+            </button>
+          </div>
+        )}
+      </header>
+
+      <div className="content">
+        {keys ? renderResults(keys) : renderOptions()}
+      </div>
+
+      <footer className="footer">
+        Certen Protocol v1.0.0
+      </footer>
+    </div>
+  );
+};
+
+export default Discovery;
@@ -5,7 +5,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { StoredKey } from '../../shared/types';
+import { StoredKey, WalletInfo } from '../../shared/types';
 
 // =============================================================================
 // Types
@@ -18,24 +18,80 @@ interface KeyListProps {
     hasMnemonic: boolean;
     keyCount: number;
     network: string;
+    walletName?: string;
   };
   onLock: () => void;
   onRefresh: () => void;
+  onOpenSites: () => void;
+  pendingCount: number;
+  onOpenInbox: () => void;
+  onOpenActivity: () => void;
+  onOpenSettings: () => void;
+  onOpenDiscovery: () => void;
+  showMultiChainAddresses: boolean;
 }
 
+// Default HD path per key type, shown as a hint for custom paths
+const DEFAULT_PATHS: Record<'ed25519' | 'secp256k1' | 'bls12381', string> = {
+  ed25519: "m/44'/540'/0'/0'/0'",
+  secp256k1: "m/44'/60'/0'/0/0",
+  bls12381: 'm/12381/60/0/0/0'
+};
+
+type ExportFormat = 'hex' | 'keystore-v3' | 'pkcs8-pem' | 'solana-keypair' | 'eip2335';
+
+// Export formats per key type; keystores are encrypted with an export password
+const EXPORT_FORMATS: Record<'ed25519' | 'secp256k1' | 'bls12381', { value: ExportFormat; label: string }[]> = {
+  ed25519: [
+    { value: 'hex', label: 'Hex (show)' },
+    { value: 'pkcs8-pem', label: 'PKCS#8 PEM file' },
+    { value: 'solana-keypair', label: 'Solana keypair file (id.json)' }
+  ],
+  secp256k1: [
+    { value: 'hex', label: 'Hex (show)' },
+    { value: 'keystore-v3', label: 'Ethereum keystore V3 file' },
+    { value: 'pkcs8-pem', label: 'PKCS#8 PEM file' }
+  ],
+  bls12381: [
+    { value: 'hex', label: 'Hex (show)' },
+    { value: 'eip2335', label: 'EIP-2335 keystore file' }
+  ]
+};
+
+const MIN_EXPORT_PASSWORD_LENGTH = 8;
+
 // =============================================================================
 // KeyList Component
 // =============================================================================
 
-const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) => {
+const KeyList: React.FC<KeyListProps> = ({
+  vaultStatus,
+  onLock,
+  onRefresh,
+  onOpenSites,
+  pendingCount,
+  onOpenInbox,
+  onOpenActivity,
+  onOpenSettings,
+  onOpenDiscovery,
+  showMultiChainAddresses
+}) => {
   const [keys, setKeys] = useState<StoredKey[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddKey, setShowAddKey] = useState(false);
   const [newKeyName, setNewKeyName] = useState('');
   const [newKeyType, setNewKeyType] = useState<'ed25519' | 'secp256k1' | 'bls12381'>('ed25519');
-  const [addKeyMode, setAddKeyMode] = useState<'derive' | 'generate' | 'import' | 'mnemonic'>('derive');
+  const [addKeyMode, setAddKeyMode] = useState<'derive' | 'generate' | 'import' | 'mnemonic' | 'watch'>('derive');
   const [importPrivateKey, setImportPrivateKey] = useState('');
+  const [importPassword, setImportPassword] = useState('');
+  const [importNeedsPassword, setImportNeedsPassword] = useState(false);
+  const [watchPublicKey, setWatchPublicKey] = useState('');
   const [importMnemonic, setImportMnemonic] = useState('');
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [deriveTarget, setDeriveTarget] = useState<'next' | 'index' | 'path'>('next');
+  const [deriveAccount, setDeriveAccount] = useState('0');
+  const [deriveIndex, setDeriveIndex] = useState('');
+  const [derivePath, setDerivePath] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
   const [expandedKeyId, setExpandedKeyId] = useState<string | null>(null);
@@ -47,20 +103,46 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
   const [resetConfirmPassword, setResetConfirmPassword] = useState('');
   const [resetLoading, setResetLoading] = useState(false);
 
+  // Wallet branch state
+  const [wallets, setWallets] = useState<WalletInfo[]>([]);
+  const [showWallets, setShowWallets] = useState(false);
+  const [newWalletName, setNewWalletName] = useState('');
+  const [newWalletPassphrase, setNewWalletPassphrase] = useState('');
+  const [confirmWalletPassphrase, setConfirmWalletPassphrase] = useState('');
+  const [walletLoading, setWalletLoading] = useState(false);
+
   // Secret reveal state
   const [showMnemonic, setShowMnemonic] = useState(false);
   const [revealedMnemonic, setRevealedMnemonic] = useState<string | null>(null);
   const [mnemonicLoading, setMnemonicLoading] = useState(false);
+  const [mnemonicPassword, setMnemonicPassword] = useState('');
   const [showPrivateKeySection, setShowPrivateKeySection] = useState(false);
   const [selectedKeyForExport, setSelectedKeyForExport] = useState<string | null>(null);
   const [revealedPrivateKey, setRevealedPrivateKey] = useState<string | null>(null);
   const [privateKeyLoading, setPrivateKeyLoading] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('hex');
+  const [exportVaultPassword, setExportVaultPassword] = useState('');
+  const [exportFilePassword, setExportFilePassword] = useState('');
+  const [exportFileConfirm, setExportFileConfirm] = useState('');
+  const [exportedFilename, setExportedFilename] = useState<string | null>(null);
 
-  // Load keys on mount
+  // Load keys and wallets on mount
   useEffect(() => {
     loadKeys();
+    loadWallets();
   }, []);
 
+  const loadWallets = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_WALLETS' });
+      if (response.wallets) {
+        setWallets(response.wallets);
+      }
+    } catch (err) {
+      console.error('Failed to load wallets:', err);
+    }
+  };
+
   const loadKeys = async () => {
     setLoading(true);
     try {
@@ -92,7 +174,10 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
         response = await chrome.runtime.sendMessage({
           type: 'DERIVE_KEY',
           keyType: newKeyType,
-          name: newKeyName || `${defaultName} Key`
+          name: newKeyName || `${defaultName} Key`,
+          account: deriveTarget === 'index' ? Number(deriveAccount) : undefined,
+          index: deriveTarget === 'index' && deriveIndex !== '' ? Number(deriveIndex) : undefined,
+          path: deriveTarget === 'path' ? derivePath.trim() : undefined
         });
       } else if (addKeyMode === 'generate') {
         response = await chrome.runtime.sendMessage({
@@ -101,16 +186,29 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
           name: newKeyName || `${defaultName} Key`
         });
       } else if (addKeyMode === 'import') {
+        // The background detects the format; the key type only applies to hex keys
+        response = await chrome.runtime.sendMessage({
+          type: 'IMPORT_KEY_DATA',
+          data: importPrivateKey.trim(),
+          password: importNeedsPassword ? importPassword : undefined,
+          keyType: newKeyType,
+          name: newKeyName || undefined
+        });
+        if (response?.needsPassword) {
+          setImportNeedsPassword(true);
+        }
+      } else if (addKeyMode === 'watch') {
         response = await chrome.runtime.sendMessage({
-          type: 'IMPORT_KEY',
+          type: 'ADD_WATCH_ONLY_KEY',
           keyType: newKeyType,
-          privateKey: importPrivateKey.trim(),
-          name: newKeyName || `Imported ${defaultName} Key`
+          publicKey: watchPublicKey.trim(),
+          name: newKeyName || `Watched ${defaultName} Key`
         });
       } else if (addKeyMode === 'mnemonic') {
         response = await chrome.runtime.sendMessage({
           type: 'IMPORT_MNEMONIC',
           mnemonic: importMnemonic.trim(),
+          passphrase: importPassphrase,
           keyType: newKeyType,
           name: newKeyName || `${defaultName} Key`
         });
@@ -121,7 +219,14 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
         setShowAddKey(false);
         setNewKeyName('');
         setImportPrivateKey('');
+        setImportPassword('');
+        setImportNeedsPassword(false);
+        setWatchPublicKey('');
         setImportMnemonic('');
+        setImportPassphrase('');
+        setDeriveTarget('next');
+        setDeriveIndex('');
+        setDerivePath('');
         loadKeys();
       } else {
         const errorMsg = response?.error?.message || response?.error || 'Failed to add key';
@@ -144,6 +249,18 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
     setActionLoading(false);
   };
 
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      setImportPrivateKey(await file.text());
+      setImportPassword('');
+      setImportNeedsPassword(false);
+    } catch (err) {
+      setError('Could not read the file');
+    }
+  };
+
   const handleRemoveKey = async (keyId: string) => {
     if (!confirm('Are you sure you want to remove this key? This cannot be undone.')) {
       return;
@@ -177,6 +294,85 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
     }
   };
 
+  // ===========================================================================
+  // Wallet Branches
+  // ===========================================================================
+
+  const handleSwitchWallet = async (walletId: string) => {
+    setError(null);
+    setWalletLoading(true);
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'SWITCH_WALLET', walletId });
+      if (response.success) {
+        setShowWallets(false);
+        setExpandedKeyId(null);
+        loadKeys();
+        loadWallets();
+        onRefresh();
+      } else {
+        setError(response.error || 'Failed to switch wallet');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to switch wallet');
+    }
+    setWalletLoading(false);
+  };
+
+  const handleAddWallet = async () => {
+    setError(null);
+
+    if (!newWalletPassphrase) {
+      setError('Enter a passphrase');
+      return;
+    }
+    if (newWalletPassphrase !== confirmWalletPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setWalletLoading(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'ADD_WALLET',
+        name: newWalletName.trim(),
+        passphrase: newWalletPassphrase
+      });
+      if (response.success) {
+        setNewWalletName('');
+        setNewWalletPassphrase('');
+        setConfirmWalletPassphrase('');
+        setShowWallets(false);
+        setExpandedKeyId(null);
+        loadKeys();
+        loadWallets();
+        onRefresh();
+      } else {
+        setError(response.error || 'Failed to add wallet');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add wallet');
+    }
+    setWalletLoading(false);
+  };
+
+  const handleRemoveWallet = async (wallet: WalletInfo) => {
+    if (!confirm(`Remove "${wallet.name}" and its ${wallet.keyCount} key(s)? Keys derived from the recovery phrase can be restored with the same passphrase.`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'REMOVE_WALLET', walletId: wallet.id });
+      if (response.success) {
+        loadWallets();
+      } else {
+        setError(response.error || 'Failed to remove wallet');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove wallet');
+    }
+  };
+
   const handleResetAndRecover = async () => {
     setError(null);
 
@@ -238,7 +434,8 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
     setMnemonicLoading(true);
     setError(null);
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GET_MNEMONIC' });
+      const response = await chrome.runtime.sendMessage({ type: 'GET_MNEMONIC', password: mnemonicPassword });
+      setMnemonicPassword('');
       if (response.mnemonic) {
         setRevealedMnemonic(response.mnemonic);
         setShowMnemonic(true);
@@ -256,35 +453,72 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
     setRevealedMnemonic(null);
   };
 
-  const handleRevealPrivateKey = async (keyId: string) => {
+  const exportNeedsFilePassword = exportFormat === 'keystore-v3' || exportFormat === 'eip2335';
+
+  const handleExportPrivateKey = async (keyId: string) => {
+    if (exportNeedsFilePassword) {
+      if (exportFilePassword.length < MIN_EXPORT_PASSWORD_LENGTH) {
+        setError(`Export password must be at least ${MIN_EXPORT_PASSWORD_LENGTH} characters`);
+        return;
+      }
+      if (exportFilePassword !== exportFileConfirm) {
+        setError('Export passwords do not match');
+        return;
+      }
+    }
+
     setPrivateKeyLoading(true);
     setError(null);
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GET_KEY_WITH_PRIVATE', keyId });
-      if (response.key) {
-        setRevealedPrivateKey(response.key.privateKey);
-        setSelectedKeyForExport(keyId);
+      const response = await chrome.runtime.sendMessage({
+        type: 'EXPORT_KEY',
+        keyId,
+        format: exportFormat,
+        password: exportVaultPassword,
+        exportPassword: exportNeedsFilePassword ? exportFilePassword : undefined
+      });
+      if (response.error) {
+        setError(response.error.message || 'Failed to export private key');
+      } else if (exportFormat === 'hex') {
+        setRevealedPrivateKey(response.content);
       } else {
-        setError(response.error?.message || 'Failed to retrieve private key');
+        const url = URL.createObjectURL(new Blob([response.content], { type: response.mimeType }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = response.filename;
+        link.click();
+        URL.revokeObjectURL(url);
+        setExportedFilename(response.filename);
       }
+      setExportVaultPassword('');
+      setExportFilePassword('');
+      setExportFileConfirm('');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to retrieve private key');
+      setError(err instanceof Error ? err.message : 'Failed to export private key');
     }
     setPrivateKeyLoading(false);
   };
 
   const handleHidePrivateKey = () => {
     setRevealedPrivateKey(null);
+    setExportedFilename(null);
     setSelectedKeyForExport(null);
+    setExportFormat('hex');
   };
 
   const resetSettingsState = () => {
     setShowResetConfirm(false);
     setShowMnemonic(false);
     setRevealedMnemonic(null);
+    setMnemonicPassword('');
     setShowPrivateKeySection(false);
     setSelectedKeyForExport(null);
     setRevealedPrivateKey(null);
+    setExportedFilename(null);
+    setExportFormat('hex');
+    setExportVaultPassword('');
+    setExportFilePassword('');
+    setExportFileConfirm('');
     setError(null);
   };
 
@@ -423,24 +657,129 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
           >
             Mnemonic
           </button>
+          <button
+            className={`btn btn-small ${addKeyMode === 'watch' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setAddKeyMode('watch')}
+          >
+            Watch-only
+          </button>
         </div>
         <p className="form-hint mt-8">
           {addKeyMode === 'derive' && 'Derive from your stored recovery phrase (recommended)'}
           {addKeyMode === 'generate' && 'Generate a new random key (not recoverable from mnemonic)'}
-          {addKeyMode === 'import' && 'Import from a hex-encoded private key'}
+          {addKeyMode === 'import' && 'Import a hex key, keystore file, Solana keypair or PEM key'}
           {addKeyMode === 'mnemonic' && 'Import from a BIP-39 mnemonic phrase (12 or 24 words)'}
+          {addKeyMode === 'watch' && 'Track a key held elsewhere by its public key (cannot sign)'}
         </p>
       </div>
 
+      {addKeyMode === 'derive' && (
+        <div className="form-group">
+          <label className="form-label">Derivation</label>
+          <select
+            className="form-input"
+            value={deriveTarget}
+            onChange={(e) => setDeriveTarget(e.target.value as 'next' | 'index' | 'path')}
+          >
+            <option value="next">Next unused index</option>
+            <option value="index">Account and index</option>
+            <option value="path">Custom path</option>
+          </select>
+
+          {deriveTarget === 'index' && (
+            <div className="flex gap-8 mt-8">
+              <input
+                type="number"
+                min={0}
+                className="form-input"
+                value={deriveAccount}
+                onChange={(e) => setDeriveAccount(e.target.value)}
+                placeholder="Account"
+              />
+              <input
+                type="number"
+                min={0}
+                className="form-input"
+                value={deriveIndex}
+                onChange={(e) => setDeriveIndex(e.target.value)}
+                placeholder="Index (next unused)"
+              />
+            </div>
+          )}
+
+          {deriveTarget === 'path' && (
+            <input
+              type="text"
+              className="form-input mt-8"
+              value={derivePath}
+              onChange={(e) => setDerivePath(e.target.value)}
+              placeholder={DEFAULT_PATHS[newKeyType]}
+              style={{ fontFamily: 'monospace' }}
+            />
+          )}
+
+          <p className="form-hint mt-8">
+            {newKeyType === 'ed25519' && 'SLIP-0010: every segment must be hardened (\')'}
+            {newKeyType === 'secp256k1' && 'BIP-32: hardened (\') and normal segments'}
+            {newKeyType === 'bls12381' && 'EIP-2333: no hardened segments'}
+          </p>
+        </div>
+      )}
+
       {addKeyMode === 'import' && (
         <div className="form-group">
-          <label className="form-label">Private Key (hex)</label>
+          <label className="form-label">Private Key</label>
+          <textarea
+            className="form-input form-textarea"
+            value={importPrivateKey}
+            onChange={(e) => {
+              setImportPrivateKey(e.target.value);
+              setImportNeedsPassword(false);
+            }}
+            placeholder="Paste a private key or keystore JSON..."
+            rows={3}
+            style={{ fontFamily: 'monospace' }}
+          />
           <input
-            type="password"
+            type="file"
+            className="form-input mt-8"
+            accept=".json,.pem,.key,.txt"
+            onChange={(e) => {
+              handleImportFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          {importNeedsPassword && (
+            <input
+              type="password"
+              className="form-input mt-8"
+              value={importPassword}
+              onChange={(e) => setImportPassword(e.target.value)}
+              placeholder="Keystore password"
+              autoFocus
+            />
+          )}
+          <p className="form-hint mt-8">
+            Ethereum keystore (V3) JSON, Solana id.json or base58 secret key, PKCS#8 or EC PEM.
+            Hex keys use the key type selected above.
+          </p>
+        </div>
+      )}
+
+      {addKeyMode === 'watch' && (
+        <div className="form-group">
+          <label className="form-label">Public Key (hex)</label>
+          <input
+            type="text"
             className="form-input"
-            value={importPrivateKey}
-            onChange={(e) => setImportPrivateKey(e.target.value)}
-            placeholder="Enter private key..."
+            value={watchPublicKey}
+            onChange={(e) => setWatchPublicKey(e.target.value)}
+            placeholder={
+              newKeyType === 'ed25519' ? '32-byte public key...'
+                : newKeyType === 'secp256k1' ? 'Compressed or uncompressed public key...'
+                : '48-byte public key...'
+            }
+            style={{ fontFamily: 'monospace' }}
           />
         </div>
       )}
@@ -455,6 +794,13 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
             placeholder="Enter 12 or 24 word recovery phrase..."
             rows={3}
           />
+          <input
+            type="password"
+            className="form-input mt-8"
+            value={importPassphrase}
+            onChange={(e) => setImportPassphrase(e.target.value)}
+            placeholder="BIP-39 passphrase (optional)"
+          />
         </div>
       )}
 
@@ -463,13 +809,109 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
       <button
         className="btn btn-primary btn-full"
         onClick={handleAddKey}
-        disabled={actionLoading || (addKeyMode === 'import' && !importPrivateKey) || (addKeyMode === 'mnemonic' && !importMnemonic)}
+        disabled={
+          actionLoading ||
+          (addKeyMode === 'import' && (!importPrivateKey.trim() || (importNeedsPassword && !importPassword))) ||
+          (addKeyMode === 'mnemonic' && !importMnemonic) ||
+          (addKeyMode === 'watch' && !watchPublicKey.trim()) ||
+          (addKeyMode === 'derive' && deriveTarget === 'path' && !derivePath.trim())
+        }
       >
         {actionLoading ? 'Adding...' : 'Add Key'}
       </button>
     </div>
   );
 
+  // ===========================================================================
+  // Render Wallets Modal
+  // ===========================================================================
+
+  const renderWalletsModal = () => (
+    <div className="card">
+      <div className="card-header">
+        <span className="card-title">Wallets</span>
+        <button className="btn-icon" onClick={() => { setShowWallets(false); setError(null); }}>
+          ✕
+        </button>
+      </div>
+
+      <p className="form-hint mb-16">
+        Each BIP-39 passphrase opens a separate wallet with its own keys. Only the active wallet is shown to you and to connected sites.
+      </p>
+
+      {wallets.map(wallet => (
+        <div key={wallet.id} className="detail-row">
+          <span>
+            <span className="detail-label">{wallet.name}</span>
+            <p className="form-hint">
+              {wallet.keyCount} key{wallet.keyCount !== 1 ? 's' : ''} · {wallet.hasPassphrase ? 'Passphrase' : 'No passphrase'}
+            </p>
+          </span>
+          {wallet.active ? (
+            <span className="card-badge success">Active</span>
+          ) : (
+            <div className="flex gap-8">
+              <button
+                className="btn btn-secondary btn-small"
+                onClick={() => handleSwitchWallet(wallet.id)}
+                disabled={walletLoading}
+              >
+                Switch
+              </button>
+              <button
+                className="btn-icon-small"
+                onClick={() => handleRemoveWallet(wallet)}
+                title="Remove wallet"
+              >
+                🗑
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {error && <p className="form-error mt-8">{error}</p>}
+
+      {vaultStatus.hasMnemonic && (
+        <div className="form-group mt-16">
+          <label className="form-label">Open Passphrase Wallet</label>
+          <input
+            type="text"
+            className="form-input mb-8"
+            value={newWalletName}
+            onChange={(e) => setNewWalletName(e.target.value)}
+            placeholder="Name (optional)"
+          />
+          <input
+            type="password"
+            className="form-input mb-8"
+            value={newWalletPassphrase}
+            onChange={(e) => setNewWalletPassphrase(e.target.value)}
+            placeholder="Passphrase"
+          />
+          <input
+            type="password"
+            className="form-input mb-8"
+            value={confirmWalletPassphrase}
+            onChange={(e) => setConfirmWalletPassphrase(e.target.value)}
+            placeholder="Confirm passphrase"
+          />
+          <p className="form-hint mb-8">
+            A mistyped passphrase opens a different, empty wallet. Check the addresses against your other wallet app.
+          </p>
+
+          <button
+            className="btn btn-primary btn-full"
+            onClick={handleAddWallet}
+            disabled={walletLoading || !newWalletPassphrase}
+          >
+            {walletLoading ? 'Deriving keys...' : 'Add Wallet'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
   // ===========================================================================
   // Render Settings Modal
   // ===========================================================================
@@ -485,6 +927,30 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
 
       {!showResetConfirm ? (
         <>
+          {/* Preferences */}
+          <div className="form-group" style={{ borderBottom: '1px solid #333', paddingBottom: '16px', marginBottom: '16px' }}>
+            <p className="form-label">Preferences</p>
+            <p className="form-hint" style={{ marginBottom: '12px' }}>
+              Network, auto-lock, signing policy and default keys.
+            </p>
+            <button className="btn btn-secondary btn-full" onClick={onOpenSettings}>
+              Open Preferences
+            </button>
+          </div>
+
+          {/* Key Discovery */}
+          {vaultStatus.hasMnemonic && (
+            <div className="form-group" style={{ borderBottom: '1px solid #333', paddingBottom: '16px', marginBottom: '16px' }}>
+              <p className="form-label">Find Keys</p>
+              <p className="form-hint" style={{ marginBottom: '12px' }}>
+                Scan the recovery phrase for keys used before this vault was restored.
+              </p>
+              <button className="btn btn-secondary btn-full" onClick={onOpenDiscovery}>
+                Scan for Keys
+              </button>
+            </div>
+          )}
+
           {/* Recovery Phrase Section */}
           {vaultStatus.hasMnemonic && (
             <div className="form-group" style={{ borderBottom: '1px solid #333', paddingBottom: '16px', marginBottom: '16px' }}>
@@ -494,10 +960,18 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
                   <p className="form-hint" style={{ marginBottom: '12px' }}>
                     Reveal your 12/24 word recovery phrase. Keep it safe and never share it.
                   </p>
+                  <input
+                    type="password"
+                    className="form-input"
+                    style={{ marginBottom: '12px' }}
+                    value={mnemonicPassword}
+                    onChange={(e) => setMnemonicPassword(e.target.value)}
+                    placeholder="Vault password"
+                  />
                   <button
                     className="btn btn-secondary btn-full"
                     onClick={handleRevealMnemonic}
-                    disabled={mnemonicLoading}
+                    disabled={mnemonicLoading || !mnemonicPassword}
                   >
                     {mnemonicLoading ? 'Loading...' : 'Show Recovery Phrase'}
                   </button>
@@ -546,19 +1020,28 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
             {!showPrivateKeySection ? (
               <>
                 <p className="form-hint" style={{ marginBottom: '12px' }}>
-                  Export a key's private key for use in another wallet.
+                  Export a key's private key for use in another wallet. Exports are recorded in Activity.
                 </p>
                 <button
                   className="btn btn-secondary btn-full"
                   onClick={() => setShowPrivateKeySection(true)}
-                  disabled={keys.length === 0}
+                  disabled={!keys.some(k => !k.watchOnly)}
                 >
-                  {keys.length === 0 ? 'No Keys Available' : 'Export Private Key'}
+                  {!keys.some(k => !k.watchOnly) ? 'No Keys Available' : 'Export Private Key'}
                 </button>
               </>
             ) : (
               <>
-                {!revealedPrivateKey ? (
+                {exportedFilename ? (
+                  <>
+                    <p className="form-hint" style={{ marginBottom: '12px' }}>
+                      Saved {exportedFilename}. Keep the file and its password safe.
+                    </p>
+                    <button className="btn btn-secondary btn-full" onClick={handleHidePrivateKey}>
+                      Done
+                    </button>
+                  </>
+                ) : !revealedPrivateKey ? (
                   <>
                     <p className="form-hint" style={{ marginBottom: '12px' }}>
                       Select a key to export:
@@ -567,15 +1050,58 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
                       className="form-input"
                       style={{ marginBottom: '12px' }}
                       value={selectedKeyForExport || ''}
-                      onChange={(e) => setSelectedKeyForExport(e.target.value || null)}
+                      onChange={(e) => {
+                        setSelectedKeyForExport(e.target.value || null);
+                        setExportFormat('hex');
+                      }}
                     >
                       <option value="">-- Select a key --</option>
-                      {keys.map((key) => (
+                      {keys.filter(key => !key.watchOnly).map((key) => (
                         <option key={key.id} value={key.id}>
                           {key.name} ({key.type})
                         </option>
                       ))}
                     </select>
+                    {selectedKeyForExport && (
+                      <select
+                        className="form-input"
+                        style={{ marginBottom: '12px' }}
+                        value={exportFormat}
+                        onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                      >
+                        {EXPORT_FORMATS[keys.find(k => k.id === selectedKeyForExport)?.type || 'ed25519'].map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    )}
+                    {exportNeedsFilePassword && (
+                      <>
+                        <input
+                          type="password"
+                          className="form-input"
+                          style={{ marginBottom: '8px' }}
+                          value={exportFilePassword}
+                          onChange={(e) => setExportFilePassword(e.target.value)}
+                          placeholder="New password for the keystore file"
+                        />
+                        <input
+                          type="password"
+                          className="form-input"
+                          style={{ marginBottom: '12px' }}
+                          value={exportFileConfirm}
+                          onChange={(e) => setExportFileConfirm(e.target.value)}
+                          placeholder="Confirm keystore password"
+                        />
+                      </>
+                    )}
+                    <input
+                      type="password"
+                      className="form-input"
+                      style={{ marginBottom: '12px' }}
+                      value={exportVaultPassword}
+                      onChange={(e) => setExportVaultPassword(e.target.value)}
+                      placeholder="Vault password"
+                    />
                     <div style={{ display: 'flex', gap: '8px' }}>
                       <button
                         className="btn btn-secondary"
@@ -587,10 +1113,10 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
                       <button
                         className="btn btn-primary"
                         style={{ flex: 1 }}
-                        onClick={() => selectedKeyForExport && handleRevealPrivateKey(selectedKeyForExport)}
-                        disabled={!selectedKeyForExport || privateKeyLoading}
+                        onClick={() => selectedKeyForExport && handleExportPrivateKey(selectedKeyForExport)}
+                        disabled={!selectedKeyForExport || !exportVaultPassword || privateKeyLoading}
                       >
-                        {privateKeyLoading ? 'Loading...' : 'Reveal'}
+                        {privateKeyLoading ? 'Exporting...' : exportFormat === 'hex' ? 'Reveal' : 'Export'}
                       </button>
                     </div>
                   </>
@@ -742,6 +1268,17 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
           <button className="btn-icon" onClick={onRefresh} title="Refresh">
             ↻
           </button>
+          {pendingCount > 0 && (
+            <button className="btn-icon" onClick={onOpenInbox} title="Pending Requests">
+              📥 {pendingCount}
+            </button>
+          )}
+          <button className="btn-icon" onClick={onOpenActivity} title="Activity">
+            📜
+          </button>
+          <button className="btn-icon" onClick={onOpenSites} title="Connected Sites">
+            🔗
+          </button>
           <button className="btn-icon" onClick={() => setShowSettings(true)} title="Settings">
             ⚙
           </button>
@@ -754,17 +1291,32 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
       <div className="content">
         {/* Network Badge */}
         <div className="flex justify-between items-center mb-16">
-          <span className="card-badge">{vaultStatus.network}</span>
+          <div className="flex gap-8">
+            <span className="card-badge">{vaultStatus.network}</span>
+            {vaultStatus.walletName && (
+              <button
+                className="card-badge"
+                onClick={() => setShowWallets(!showWallets)}
+                title="Switch wallet"
+                style={{ cursor: 'pointer', border: 'none' }}
+              >
+                {vaultStatus.walletName} ▾
+              </button>
+            )}
+          </div>
           <span className="text-secondary" style={{ fontSize: '12px' }}>
             {keys.length} key{keys.length !== 1 ? 's' : ''}
           </span>
         </div>
 
+        {/* Wallets Modal */}
+        {showWallets && !showSettings && renderWalletsModal()}
+
         {/* Settings Modal */}
         {showSettings && renderSettingsModal()}
 
         {/* Add Key Section */}
-        {!showSettings && (showAddKey ? (
+        {!showSettings && !showWallets && (showAddKey ? (
           renderAddKeyModal()
         ) : (
           <button
@@ -802,10 +1354,16 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
                       {key.type === 'ed25519' ? '🌐' : key.type === 'secp256k1' ? '💎' : '🔐'}
                     </div>
                     <div className="key-info">
-                      <div className="key-name">{key.name}</div>
+                      <div className="key-name">
+                        {key.name}
+                        {key.watchOnly && <span className="card-badge secondary">Watch-only</span>}
+                      </div>
                       <div className="key-address">
                         {truncateAddress(primaryAddress)}
                       </div>
+                      {key.derivationPath && (
+                        <div className="key-path">{key.derivationPath}</div>
+                      )}
                     </div>
                     <span className="key-type">
                       {key.type === 'ed25519' ? 'ACC' : key.type === 'secp256k1' ? 'ETH' : 'BLS'}
@@ -898,7 +1456,7 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
                       )}
 
                       {/* Additional addresses for multi-chain keys */}
-                      {key.metadata.solanaAddress && (
+                      {showMultiChainAddresses && key.metadata.solanaAddress && (
                         <div className="detail-row">
                           <span className="detail-label">Solana</span>
                           <div className="detail-value-row">
@@ -916,7 +1474,7 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
                         </div>
                       )}
 
-                      {key.metadata.aptosAddress && (
+                      {showMultiChainAddresses && key.metadata.aptosAddress && (
                         <div className="detail-row">
                           <span className="detail-label">Aptos</span>
                           <div className="detail-value-row">
@@ -934,7 +1492,7 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
                         </div>
                       )}
 
-                      {key.metadata.suiAddress && (
+                      {showMultiChainAddresses && key.metadata.suiAddress && (
                         <div className="detail-row">
                           <span className="detail-label">Sui</span>
                           <div className="detail-value-row">
@@ -952,7 +1510,7 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
                         </div>
                       )}
 
-                      {key.metadata.tonAddress && (
+                      {showMultiChainAddresses && key.metadata.tonAddress && (
                         <div className="detail-row">
                           <span className="detail-label">TON</span>
                           <div className="detail-value-row">
@@ -970,7 +1528,7 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
                         </div>
                       )}
 
-                      {key.metadata.nearAddress && (
+                      {showMultiChainAddresses && key.metadata.nearAddress && (
                         <div className="detail-row">
                           <span className="detail-label">NEAR</span>
                           <div className="detail-value-row">
@@ -988,7 +1546,7 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
                         </div>
                       )}
 
-                      {key.metadata.tronAddress && (
+                      {showMultiChainAddresses && key.metadata.tronAddress && (
                         <div className="detail-row">
                           <span className="detail-label">TRON</span>
                           <div className="detail-value-row">
@@ -1006,7 +1564,7 @@ const KeyList: React.FC<KeyListProps> = ({ vaultStatus, onLock, onRefresh }) =>
                         </div>
                       )}
 
-                      {key.metadata.cosmosAddresses && Object.keys(key.metadata.cosmosAddresses).length > 0 && (
+                      {showMultiChainAddresses && key.metadata.cosmosAddresses && Object.keys(key.metadata.cosmosAddresses).length > 0 && (
                         <div className="detail-row">
                           <span className="detail-label">Cosmos Chains</span>
                           <div className="cosmos-addresses">
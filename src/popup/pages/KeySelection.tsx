@@ -12,6 +12,7 @@ import { StoredKey } from '../../shared/types';
 // =============================================================================
 
 interface KeySelectionProps {
+  requestId?: string;                 // Selection opened from the inbox (defaults to the oldest)
   onComplete: () => void;
   onCancel: () => void;
 }
@@ -21,13 +22,15 @@ interface PendingSelection {
   keyType?: string;
   purpose?: string;
   origin: string;
+  allowedKeyIds: string[];
+  defaultKeyId?: string;              // Default key for the requested type, if shared
 }
 
 // =============================================================================
 // KeySelection Component
 // =============================================================================
 
-const KeySelection: React.FC<KeySelectionProps> = ({ onComplete, onCancel }) => {
+const KeySelection: React.FC<KeySelectionProps> = ({ requestId, onComplete, onCancel }) => {
   const [keys, setKeys] = useState<StoredKey[]>([]);
   const [keyHashes, setKeyHashes] = useState<Record<string, string>>({});
   const [selection, setSelection] = useState<PendingSelection | null>(null);
@@ -45,7 +48,7 @@ const KeySelection: React.FC<KeySelectionProps> = ({ onComplete, onCancel }) =>
     setLoading(true);
     try {
       // Get pending selection request
-      const selectionResponse = await chrome.runtime.sendMessage({ type: 'GET_PENDING_KEY_SELECTION' });
+      const selectionResponse = await chrome.runtime.sendMessage({ type: 'GET_PENDING_KEY_SELECTION', requestId });
       if (!selectionResponse.selection) {
         setError('No pending key selection request');
         setLoading(false);
@@ -60,13 +63,17 @@ const KeySelection: React.FC<KeySelectionProps> = ({ onComplete, onCancel }) =>
       });
 
       if (keysResponse.keys) {
-        setKeys(keysResponse.keys);
-        // Pre-select first key
-        if (keysResponse.keys.length > 0) {
-          setSelectedKeyId(keysResponse.keys[0].id);
+        // Only offer keys shared with the requesting site
+        const allowed = new Set<string>(selectionResponse.selection.allowedKeyIds);
+        const sharedKeys = (keysResponse.keys as StoredKey[]).filter(k => allowed.has(k.id));
+        setKeys(sharedKeys);
+        // Pre-select the default key, otherwise the first key
+        const defaultKey = sharedKeys.find(k => k.id === selectionResponse.selection.defaultKeyId);
+        if (defaultKey || sharedKeys.length > 0) {
+          setSelectedKeyId((defaultKey || sharedKeys[0]).id);
         }
         // Compute hashes for all keys
-        await computeHashes(keysResponse.keys);
+        await computeHashes(sharedKeys);
       }
     } catch (err) {
       console.error('Failed to load:', err);
@@ -240,7 +247,10 @@ const KeySelection: React.FC<KeySelectionProps> = ({ onComplete, onCancel }) =>
                   {key.type === 'ed25519' ? '🌐' : key.type === 'secp256k1' ? '💎' : '🔐'}
                 </div>
                 <div className="key-info">
-                  <div className="key-name">{key.name}</div>
+                  <div className="key-name">
+                    {key.name}
+                    {key.watchOnly && <span className="card-badge secondary">Watch-only</span>}
+                  </div>
                   <div className="key-address" style={{ fontSize: '11px' }}>
                     {truncateAddress(primaryAddress)}
                   </div>
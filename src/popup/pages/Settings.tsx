@@ -0,0 +1,359 @@
+/**
+ * Certen Key Vault - Settings Page
+ *
+ * Edits the persisted settings (network, auto-lock, blind signing policy,
+ * default keys, default EVM chain and popup preferences) and the unlock
+ * wipe policy.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Settings as VaultSettings, StoredKey, KeyType, UnlockStatus, NetworkId } from '../../shared/types';
+import { NETWORKS } from '../../shared/constants';
+import { CERTEN_CONTRACTS } from '../../config/contracts';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface SettingsProps {
+  onBack: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { label: '1 minute', value: 60 * 1000 },
+  { label: '5 minutes', value: 5 * 60 * 1000 },
+  { label: '15 minutes', value: 15 * 60 * 1000 },
+  { label: '30 minutes', value: 30 * 60 * 1000 },
+  { label: '1 hour', value: 60 * 60 * 1000 },
+  { label: '4 hours', value: 4 * 60 * 60 * 1000 },
+  { label: '24 hours', value: 24 * 60 * 60 * 1000 }
+];
+
+const IDLE_LOCK_OPTIONS = [
+  { label: '1 minute', value: 60 * 1000 },
+  { label: '5 minutes', value: 5 * 60 * 1000 },
+  { label: '15 minutes', value: 15 * 60 * 1000 },
+  { label: '30 minutes', value: 30 * 60 * 1000 },
+  { label: '1 hour', value: 60 * 60 * 1000 },
+  { label: '4 hours', value: 4 * 60 * 60 * 1000 }
+];
+
+const WIPE_OPTIONS = [null, 5, 10, 20];
+
+const KEY_TYPE_LABELS: Record<KeyType, string> = {
+  ed25519: 'ED25519 (Accumulate, Solana, ...)',
+  secp256k1: 'secp256k1 (EVM)',
+  bls12381: 'BLS12-381 (Validator)'
+};
+
+/**
+ * Keeps a non-standard stored timeout selectable.
+ */
+function withCurrent(options: { label: string; value: number }[], current: number) {
+  return options.some(o => o.value === current)
+    ? options
+    : [...options, { label: `${Math.round(current / 60000)} minutes`, value: current }];
+}
+
+// =============================================================================
+// Settings Component
+// =============================================================================
+
+const Settings: React.FC<SettingsProps> = ({ onBack }) => {
+  const [settings, setSettings] = useState<VaultSettings | null>(null);
+  const [draft, setDraft] = useState<VaultSettings | null>(null);
+  const [keys, setKeys] = useState<StoredKey[]>([]);
+  const [wipeAfterFailures, setWipeAfterFailures] = useState<number | null>(null);
+  const [savedWipeAfterFailures, setSavedWipeAfterFailures] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const [settingsResponse, keysResponse, statusResponse] = await Promise.all([
+        chrome.runtime.sendMessage({ type: 'GET_SETTINGS' }),
+        chrome.runtime.sendMessage({ type: 'GET_KEYS' }),
+        chrome.runtime.sendMessage({ type: 'GET_UNLOCK_STATUS' })
+      ]);
+
+      if (settingsResponse.error) {
+        setError(settingsResponse.error.message);
+      } else {
+        setSettings(settingsResponse.settings);
+        setDraft(settingsResponse.settings);
+      }
+      setKeys(keysResponse.keys || []);
+
+      const status: UnlockStatus | undefined = statusResponse.status;
+      setWipeAfterFailures(status?.wipeAfterFailures ?? null);
+      setSavedWipeAfterFailures(status?.wipeAfterFailures ?? null);
+    } catch (err) {
+      console.error('Failed to load settings:', err);
+      setError('Failed to load settings');
+    }
+    setLoading(false);
+  };
+
+  const handleSave = async () => {
+    if (!settings || !draft) return;
+
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'UPDATE_SETTINGS', settings: draft });
+      if (!response.success) {
+        setError(response.error || 'Failed to save settings');
+        setSaving(false);
+        return;
+      }
+      setSettings(response.settings);
+      setDraft(response.settings);
+
+      if (wipeAfterFailures !== savedWipeAfterFailures) {
+        const wipeResponse = await chrome.runtime.sendMessage({ type: 'SET_WIPE_POLICY', wipeAfterFailures });
+        if (!wipeResponse.success) {
+          setError(wipeResponse.error || 'Failed to update wipe policy');
+          setSaving(false);
+          return;
+        }
+        setSavedWipeAfterFailures(wipeAfterFailures);
+      }
+
+      setSaved(true);
+    } catch (err) {
+      setError('Failed to save settings');
+    }
+
+    setSaving(false);
+  };
+
+  const update = (changes: Partial<VaultSettings>) => {
+    setDraft(draft && { ...draft, ...changes });
+    setSaved(false);
+  };
+
+  const setDefaultKey = (type: KeyType, keyId: string) => {
+    if (!draft) return;
+    const defaultKeys = { ...draft.defaultKeys };
+    if (keyId) {
+      defaultKeys[type] = keyId;
+    } else {
+      delete defaultKeys[type];
+    }
+    update({ defaultKeys });
+  };
+
+  const hasChanges = !!draft && (
+    JSON.stringify(draft) !== JSON.stringify(settings) || wipeAfterFailures !== savedWipeAfterFailures
+  );
+
+  // ===========================================================================
+  // Render
+  // ===========================================================================
+
+  return (
+    <div className="app-container">
+      <header className="header">
+        <div className="header-title">
+          <span>⚙</span>
+          <h1>Settings</h1>
+        </div>
+        <div className="header-actions">
+          <button className="btn-icon" onClick={onBack} title="Back">
+            ✕
+          </button>
+        </div>
+      </header>
+
+      <div className="content">
+        {loading ? (
+          <div className="loading">
+            <div className="spinner" />
+          </div>
+        ) : !draft ? (
+          <p className="form-error mb-16">{error || 'Settings are unavailable'}</p>
+        ) : (
+          <>
+            {/* Network */}
+            <div className="form-group">
+              <label className="form-label">Accumulate Network</label>
+              <select
+                className="form-input"
+                value={draft.network}
+                onChange={(e) => update({ network: e.target.value as NetworkId })}
+              >
+                {(Object.keys(NETWORKS) as NetworkId[]).map(id => (
+                  <option key={id} value={id}>{NETWORKS[id].name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Default EVM Chain</label>
+              <select
+                className="form-input"
+                value={draft.defaultEvmChainId}
+                onChange={(e) => update({ defaultEvmChainId: Number(e.target.value) })}
+              >
+                {Object.values(CERTEN_CONTRACTS).map(chain => (
+                  <option key={chain.chainId} value={chain.chainId}>
+                    {chain.name}{chain.isTestnet ? ' (testnet)' : ''}
+                  </option>
+                ))}
+              </select>
+              <p className="form-hint">Used by sites that have not switched chains</p>
+            </div>
+
+            {/* Security */}
+            <div className="form-group">
+              <label className="form-label">Auto-Lock After</label>
+              <select
+                className="form-input"
+                value={draft.autoLockTimeout}
+                onChange={(e) => update({ autoLockTimeout: Number(e.target.value) })}
+              >
+                {withCurrent(AUTO_LOCK_OPTIONS, draft.autoLockTimeout).map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <p className="form-hint">Time without using the popup or approving requests</p>
+              <label className="detail-row" style={{ cursor: 'pointer' }}>
+                <span className="detail-label">Lock when the screen locks or the computer is idle</span>
+                <input
+                  type="checkbox"
+                  checked={draft.lockOnIdle}
+                  onChange={() => update({ lockOnIdle: !draft.lockOnIdle })}
+                />
+              </label>
+              {draft.lockOnIdle && (
+                <select
+                  className="form-input mb-8"
+                  value={draft.idleLockTimeout}
+                  onChange={(e) => update({ idleLockTimeout: Number(e.target.value) })}
+                >
+                  {withCurrent(IDLE_LOCK_OPTIONS, draft.idleLockTimeout).map(option => (
+                    <option key={option.value} value={option.value}>Idle for {option.label}</option>
+                  ))}
+                </select>
+              )}
+              <label className="detail-row" style={{ cursor: 'pointer' }}>
+                <span className="detail-label">Lock when the last browser window closes</span>
+                <input
+                  type="checkbox"
+                  checked={draft.lockOnWindowClose}
+                  onChange={() => update({ lockOnWindowClose: !draft.lockOnWindowClose })}
+                />
+              </label>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Blind Signing</label>
+              <select
+                className="form-input"
+                value={draft.blindSigning}
+                onChange={(e) => update({ blindSigning: e.target.value as VaultSettings['blindSigning'] })}
+              >
+                <option value="warn">Warn before signing</option>
+                <option value="block">Block</option>
+              </select>
+              <p className="form-hint">Requests to sign raw hashes or transactions that cannot be decoded</p>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Erase Vault After Failed Unlocks</label>
+              <select
+                className="form-input"
+                value={wipeAfterFailures ?? ''}
+                onChange={(e) => {
+                  setWipeAfterFailures(e.target.value ? Number(e.target.value) : null);
+                  setSaved(false);
+                }}
+              >
+                {WIPE_OPTIONS.map(count => (
+                  <option key={count ?? 'off'} value={count ?? ''}>
+                    {count === null ? 'Never' : `${count} attempts`}
+                  </option>
+                ))}
+              </select>
+              {wipeAfterFailures !== null && (
+                <p className="form-hint" style={{ color: '#ef4444' }}>
+                  Make sure your recovery phrase is backed up
+                </p>
+              )}
+            </div>
+
+            {/* Default keys */}
+            <div className="form-group">
+              <label className="form-label">Default Keys</label>
+              {(Object.keys(KEY_TYPE_LABELS) as KeyType[]).map(type => {
+                const keysOfType = keys.filter(k => k.type === type);
+                return (
+                  <div key={type} className="mb-8">
+                    <p className="form-hint">{KEY_TYPE_LABELS[type]}</p>
+                    <select
+                      className="form-input"
+                      value={draft.defaultKeys[type] || ''}
+                      onChange={(e) => setDefaultKey(type, e.target.value)}
+                      disabled={keysOfType.length === 0}
+                    >
+                      <option value="">{keysOfType.length === 0 ? 'No keys' : 'Ask each time'}</option>
+                      {keysOfType.map(key => (
+                        <option key={key.id} value={key.id}>{key.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Popup */}
+            <div className="form-group">
+              <label className="form-label">Popup</label>
+              <label className="detail-row" style={{ cursor: 'pointer' }}>
+                <span className="detail-label">Open pending requests on start</span>
+                <input
+                  type="checkbox"
+                  checked={draft.ui.openInboxOnStart}
+                  onChange={() => update({ ui: { ...draft.ui, openInboxOnStart: !draft.ui.openInboxOnStart } })}
+                />
+              </label>
+              <label className="detail-row" style={{ cursor: 'pointer' }}>
+                <span className="detail-label">Show multi-chain addresses</span>
+                <input
+                  type="checkbox"
+                  checked={draft.ui.showMultiChainAddresses}
+                  onChange={() => update({ ui: { ...draft.ui, showMultiChainAddresses: !draft.ui.showMultiChainAddresses } })}
+                />
+              </label>
+            </div>
+
+            {error && <p className="form-error mb-16">{error}</p>}
+            {saved && <p className="form-hint mb-16">Settings saved</p>}
+
+            <button
+              className="btn btn-primary btn-full"
+              onClick={handleSave}
+              disabled={saving || !hasChanges}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </>
+        )}
+      </div>
+
+      <footer className="footer">
+        Certen Protocol v1.0.0
+      </footer>
+    </div>
+  );
+};
+
+export default Settings;
@@ -2,9 +2,14 @@
  * Certen Key Vault - Setup Page
  *
  * Initial vault setup with password creation and mnemonic generation.
+ * Restored wallets continue to key discovery.
+ * The key derivation function is chosen here; its parameters are tuned
+ * by a benchmark in the background so unlocking takes about a second.
  */
 
 import React, { useState } from 'react';
+import { KdfParams } from '../../shared/types';
+import Discovery from './Discovery';
 
 // =============================================================================
 // Types
@@ -14,7 +19,14 @@ interface SetupProps {
   onComplete: () => void;
 }
 
-type SetupStep = 'password' | 'mnemonic' | 'confirm';
+type SetupStep = 'password' | 'mnemonic' | 'confirm' | 'discover';
+
+type SetupKdf = 'argon2id' | 'scrypt';
+
+const KDF_OPTIONS: Record<SetupKdf, string> = {
+  argon2id: 'Argon2id (recommended)',
+  scrypt: 'scrypt'
+};
 
 // =============================================================================
 // Setup Component
@@ -28,6 +40,12 @@ const Setup: React.FC<SetupProps> = ({ onComplete }) => {
   const [importMode, setImportMode] = useState(false);
   const [importMnemonic, setImportMnemonic] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  const [usePassphrase, setUsePassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [kdfAlgorithm, setKdfAlgorithm] = useState<SetupKdf>('argon2id');
+  const [kdfParams, setKdfParams] = useState<KdfParams | null>(null);
+  const [tuning, setTuning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
@@ -49,6 +67,16 @@ const Setup: React.FC<SetupProps> = ({ onComplete }) => {
       return;
     }
 
+    if (usePassphrase && !passphrase) {
+      setError('Enter a passphrase or turn the passphrase off');
+      return;
+    }
+
+    if (usePassphrase && passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
     // Initialize vault (with or without imported mnemonic)
     initializeVault();
   };
@@ -60,10 +88,26 @@ const Setup: React.FC<SetupProps> = ({ onComplete }) => {
     try {
       const mnemonicToUse = importMode ? importMnemonic.trim() : undefined;
 
+      // Tune KDF parameters to this device
+      setTuning(true);
+      const benchmark = await chrome.runtime.sendMessage({
+        type: 'BENCHMARK_KDF',
+        algorithm: kdfAlgorithm
+      });
+      setTuning(false);
+
+      if (benchmark.error) {
+        setError(benchmark.error.message || 'Failed to tune key derivation');
+        setLoading(false);
+        return;
+      }
+
       const response = await chrome.runtime.sendMessage({
         type: 'VAULT_INITIALIZE',
         password,
-        mnemonic: mnemonicToUse
+        mnemonic: mnemonicToUse,
+        kdfParams: benchmark.kdfParams,
+        passphrase: usePassphrase ? passphrase : undefined
       });
 
       if (!response.success) {
@@ -72,22 +116,36 @@ const Setup: React.FC<SetupProps> = ({ onComplete }) => {
         return;
       }
 
+      setKdfParams(benchmark.kdfParams);
+
       if (!importMode) {
         // Show generated mnemonic
         setMnemonic(response.mnemonic.split(' '));
         setStep('mnemonic');
       } else {
-        // Import complete
-        onComplete();
+        // Import complete; offer to find the wallet's other keys
+        setStep('discover');
       }
     } catch (err) {
       setError('Failed to initialize vault');
       console.error(err);
     }
 
+    setTuning(false);
     setLoading(false);
   };
 
+  const describeKdf = (params: KdfParams): string => {
+    switch (params.algorithm) {
+      case 'argon2id':
+        return `Argon2id (${Math.round(params.m / 1024)} MiB, ${params.t} passes)`;
+      case 'scrypt':
+        return `scrypt (N=2^${Math.log2(params.N)}, r=${params.r})`;
+      default:
+        return `PBKDF2 (${params.iterations} iterations)`;
+    }
+  };
+
   // ===========================================================================
   // Render Password Step
   // ===========================================================================
@@ -158,6 +216,58 @@ const Setup: React.FC<SetupProps> = ({ onComplete }) => {
           />
         </div>
 
+        <div className="form-group text-left">
+          <label className="detail-row" style={{ cursor: 'pointer' }}>
+            <span className="detail-label">Use a BIP-39 passphrase (25th word)</span>
+            <input
+              type="checkbox"
+              checked={usePassphrase}
+              onChange={() => setUsePassphrase(!usePassphrase)}
+            />
+          </label>
+          {usePassphrase && (
+            <>
+              <input
+                type={showPassword ? 'text' : 'password'}
+                className="form-input mb-8"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+              />
+              <input
+                type={showPassword ? 'text' : 'password'}
+                className="form-input"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                placeholder="Confirm passphrase"
+              />
+              <p className="form-hint">
+                {importMode
+                  ? 'Restores the wallet the passphrase protected in your other wallet app.'
+                  : 'A different passphrase gives completely different keys. You need both the recovery phrase and the passphrase to restore them.'
+                }
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="form-group text-left">
+          <label className="form-label">Key Derivation</label>
+          <select
+            className="form-input"
+            value={kdfAlgorithm}
+            onChange={(e) => setKdfAlgorithm(e.target.value as SetupKdf)}
+            disabled={loading}
+          >
+            {(Object.keys(KDF_OPTIONS) as SetupKdf[]).map(algorithm => (
+              <option key={algorithm} value={algorithm}>{KDF_OPTIONS[algorithm]}</option>
+            ))}
+          </select>
+          <p className="form-hint">
+            Memory-hard password hashing, tuned so unlocking takes about a second on this device.
+          </p>
+        </div>
+
         {error && <p className="form-error mb-16">{error}</p>}
 
         <button
@@ -166,7 +276,7 @@ const Setup: React.FC<SetupProps> = ({ onComplete }) => {
           disabled={loading || !password || !confirmPassword || (importMode && !importMnemonic.trim())}
         >
           {loading
-            ? (importMode ? 'Importing...' : 'Creating...')
+            ? (tuning ? 'Tuning key derivation...' : importMode ? 'Importing...' : 'Creating...')
             : (importMode ? 'Import & Restore Wallet' : 'Create Vault')
           }
         </button>
@@ -282,6 +392,18 @@ const Setup: React.FC<SetupProps> = ({ onComplete }) => {
           <span className="detail-label">Recovery Phrase</span>
           <span className="detail-value">{importMode ? 'Imported' : 'Generated'}</span>
         </div>
+        {usePassphrase && (
+          <div className="detail-row">
+            <span className="detail-label">Passphrase</span>
+            <span className="detail-value">Enabled</span>
+          </div>
+        )}
+        {kdfParams && (
+          <div className="detail-row">
+            <span className="detail-label">Key Derivation</span>
+            <span className="detail-value">{describeKdf(kdfParams)}</span>
+          </div>
+        )}
       </div>
 
       <button
@@ -297,6 +419,10 @@ const Setup: React.FC<SetupProps> = ({ onComplete }) => {
   // Main Render
   // ===========================================================================
 
+  if (step === 'discover') {
+    return <Discovery restoring onDone={onComplete} />;
+  }
+
   return (
     <div className="app-container">
       <header className="header">
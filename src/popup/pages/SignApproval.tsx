@@ -5,13 +5,23 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { SignRequest, StoredKey } from '../../shared/types';
+import {
+  SignRequest,
+  StoredKey,
+  TypedData,
+  DecodedTransactionField,
+  EthSignTransactionData,
+  CertenUserOperationData,
+  DecodedCall
+} from '../../shared/types';
+import { getChainContracts } from '../../config/contracts';
 
 // =============================================================================
 // Types
 // =============================================================================
 
 interface SignApprovalProps {
+  requestId?: string;                 // Request opened from the inbox (defaults to the oldest)
   onComplete: () => void;
   onCancel: () => void;
 }
@@ -22,9 +32,10 @@ interface SignApprovalProps {
 
 type ResultState = 'none' | 'signed' | 'rejected';
 
-const SignApproval: React.FC<SignApprovalProps> = ({ onComplete, onCancel }) => {
+const SignApproval: React.FC<SignApprovalProps> = ({ requestId, onComplete, onCancel }) => {
   const [request, setRequest] = useState<SignRequest | null>(null);
   const [suggestedKeyId, setSuggestedKeyId] = useState<string | undefined>();
+  const [allowedKeyIds, setAllowedKeyIds] = useState<string[]>([]);
   const [selectedKeyId, setSelectedKeyId] = useState<string>('');
   const [keys, setKeys] = useState<StoredKey[]>([]);
   const [loading, setLoading] = useState(true);
@@ -47,10 +58,11 @@ const SignApproval: React.FC<SignApprovalProps> = ({ onComplete, onCancel }) =>
 
   const loadPendingRequest = async () => {
     try {
-      const response = await chrome.runtime.sendMessage({ type: 'GET_PENDING_SIGN_REQUEST' });
+      const response = await chrome.runtime.sendMessage({ type: 'GET_PENDING_SIGN_REQUEST', requestId });
       if (response.request) {
         setRequest(response.request);
         setSuggestedKeyId(response.suggestedKeyId);
+        setAllowedKeyIds(response.allowedKeyIds || []);
       } else {
         // No pending request
         onCancel();
@@ -75,12 +87,15 @@ const SignApproval: React.FC<SignApprovalProps> = ({ onComplete, onCancel }) =>
 
   /**
    * Shows result feedback and closes the window after a delay.
+   * Requests opened from the inbox return to it instead.
    */
   const showResultAndClose = (resultType: 'signed' | 'rejected') => {
     setResult(resultType);
     setTimeout(() => {
       // Try to close the window (works for popup windows)
-      window.close();
+      if (!requestId) {
+        window.close();
+      }
       // Fallback if window.close() doesn't work (e.g., in extension popup)
       if (resultType === 'signed') {
         onComplete();
@@ -134,32 +149,118 @@ const SignApproval: React.FC<SignApprovalProps> = ({ onComplete, onCancel }) =>
     }
   };
 
+  const sharedKeys = keys.filter(k => allowedKeyIds.includes(k.id));
+
   const truncate = (str: string, length: number = 20): string => {
     if (!str) return '';
     if (str.length <= length) return str;
     return `${str.slice(0, length / 2)}...${str.slice(-length / 2)}`;
   };
 
-  // Filter keys by type based on request
+  // Filter keys by type based on request (only keys shared with the site)
   const getFilteredKeys = (): StoredKey[] => {
-    if (!request) return keys;
+    if (!request) return sharedKeys;
 
     // For BLS requests, show BLS12-381 keys
     if (request.type.startsWith('bls_')) {
-      return keys.filter(k => k.type === 'bls12381');
+      return sharedKeys.filter(k => k.type === 'bls12381');
     }
 
     // For Accumulate requests, show ED25519 keys
-    if (request.type.startsWith('acc_') || request.type === 'certen_signIntent') {
-      return keys.filter(k => k.type === 'ed25519');
+    if (request.type.startsWith('acc_')) {
+      return sharedKeys.filter(k => k.type === 'ed25519');
+    }
+
+    // Intents can be signed with either ED25519 or secp256k1 keys
+    if (request.type === 'certen_signIntent') {
+      return sharedKeys.filter(k => k.type === 'ed25519' || k.type === 'secp256k1');
     }
 
-    // For Ethereum requests, show secp256k1 keys
-    if (request.type.startsWith('eth_')) {
-      return keys.filter(k => k.type === 'secp256k1');
+    // For Ethereum requests and UserOperations, show secp256k1 keys
+    if (request.type.startsWith('eth_') || request.type === 'certen_signUserOperation') {
+      return sharedKeys.filter(k => k.type === 'secp256k1');
     }
 
-    return keys;
+    return sharedKeys;
+  };
+
+  // Format an integer quantity with the given number of decimals
+  const formatUnits = (value: string, decimals: number): string => {
+    const padded = BigInt(value).toString().padStart(decimals + 1, '0');
+    const whole = padded.slice(0, -decimals);
+    const fraction = padded.slice(-decimals).replace(/0+$/, '');
+    return fraction ? `${whole}.${fraction}` : whole;
+  };
+
+  const getEvmTransactionDetails = (data: EthSignTransactionData): { label: string; value: string }[] => {
+    const tx = data.transaction;
+    const chain = getChainContracts(tx.chainId);
+    const details: { label: string; value: string }[] = [
+      { label: 'Chain', value: `${chain?.name || 'Unknown'} (${tx.chainId})` },
+      { label: 'Type', value: ['Legacy', 'EIP-2930', 'EIP-1559'][tx.type] },
+      { label: 'From', value: truncate(data.address, 30) },
+      { label: 'To', value: tx.to ? truncate(tx.to, 30) : 'Contract creation' },
+      { label: 'Value', value: `${formatUnits(tx.value, 18)} ETH` },
+      { label: 'Gas Limit', value: BigInt(tx.gasLimit).toString() }
+    ];
+
+    if (tx.type === 2) {
+      details.push({ label: 'Max Fee', value: `${formatUnits(tx.maxFeePerGas!, 9)} gwei` });
+      details.push({ label: 'Priority Fee', value: `${formatUnits(tx.maxPriorityFeePerGas!, 9)} gwei` });
+    } else {
+      details.push({ label: 'Gas Price', value: `${formatUnits(tx.gasPrice!, 9)} gwei` });
+    }
+
+    details.push({ label: 'Nonce', value: BigInt(tx.nonce).toString() });
+
+    if (tx.data !== '0x' && !data.decodedCall) {
+      details.push({ label: 'Data', value: `${truncate(tx.data, 24)} (${(tx.data.length - 2) / 2} bytes)` });
+    }
+
+    return details;
+  };
+
+  const getUserOperationDetails = (data: CertenUserOperationData): { label: string; value: string }[] => {
+    const op = data.userOperation;
+    const chain = getChainContracts(data.chainId);
+    const details: { label: string; value: string }[] = [
+      { label: 'Sender', value: truncate(op.sender, 30) },
+      { label: 'Owner', value: truncate(data.owner, 30) },
+      { label: 'Chain', value: `${chain?.name || 'Unknown'} (${data.chainId})` },
+      { label: 'EntryPoint', value: truncate(data.entryPoint, 30) },
+      { label: 'Nonce', value: BigInt(op.nonce).toString() },
+      { label: 'Call Gas', value: BigInt(op.callGasLimit).toString() },
+      { label: 'Verification Gas', value: BigInt(op.verificationGasLimit).toString() },
+      { label: 'Pre-Verification Gas', value: BigInt(op.preVerificationGas).toString() },
+      { label: 'Max Fee', value: `${formatUnits(op.maxFeePerGas, 9)} gwei` },
+      { label: 'Priority Fee', value: `${formatUnits(op.maxPriorityFeePerGas, 9)} gwei` },
+      {
+        label: 'Paymaster',
+        value: op.paymasterAndData.length >= 42 ? truncate(op.paymasterAndData.slice(0, 42), 30) : 'None (sender pays)'
+      }
+    ];
+
+    if (data.counterfactual) {
+      details.push({ label: 'Deploys Account', value: truncate(data.counterfactual.adiUrl, 30) });
+      if (data.counterfactual.initCodeFilled) {
+        details.push({ label: 'initCode', value: 'Filled by vault' });
+      }
+    }
+
+    if (op.callData !== '0x' && data.calls.length === 0) {
+      details.push({ label: 'Call Data', value: `${truncate(op.callData, 24)} (${(op.callData.length - 2) / 2} bytes)` });
+    }
+
+    details.push({ label: 'UserOp Hash', value: truncate(data.userOpHash, 24) });
+    return details;
+  };
+
+  // Delegation path: the key's own signer, then each delegating key page
+  const getDelegationDetails = (delegators?: string[]): { label: string; value: string }[] => {
+    return (delegators || []).map((delegator, index) => ({
+      label: index === 0 ? 'Delegated by' : '↳ then by',
+      value: truncate(delegator, 30)
+    }));
   };
 
   // Get transaction details for display
@@ -168,9 +269,31 @@ const SignApproval: React.FC<SignApprovalProps> = ({ onComplete, onCancel }) =>
 
     const details: { label: string; value: string }[] = [];
 
-    // Add human-readable info if available
     const data = request.data as any;
 
+    // EVM transactions are described from the parsed transaction only
+    if (data.kind === 'eth_transaction') {
+      return getEvmTransactionDetails(data as EthSignTransactionData);
+    }
+
+    if (data.kind === 'certen_user_operation') {
+      return getUserOperationDetails(data as CertenUserOperationData);
+    }
+
+    // Verified Accumulate transactions are described from the decoded body only
+    if (data.decoded) {
+      for (const field of data.decoded as DecodedTransactionField[]) {
+        details.push({ label: field.label, value: truncate(field.value, 30) });
+      }
+      if (data.signerUrl) {
+        details.push({ label: 'Signer', value: truncate(data.signerUrl, 30) });
+      }
+      details.push(...getDelegationDetails(data.delegators));
+      details.push({ label: 'Hash', value: truncate(data.transactionHash, 24) });
+      return details;
+    }
+
+    // Add human-readable info if available (supplied by the dApp)
     if (data.humanReadable) {
       if (data.humanReadable.action) {
         details.push({ label: 'Action', value: data.humanReadable.action });
@@ -200,6 +323,17 @@ const SignApproval: React.FC<SignApprovalProps> = ({ onComplete, onCancel }) =>
       if (data.description) {
         details.push({ label: 'Description', value: data.description });
       }
+      if (data.targetChain) {
+        details.push({ label: 'Target Chain', value: data.targetChain });
+      }
+      if (data.targetAddress) {
+        details.push({ label: 'Target Address', value: truncate(data.targetAddress, 30) });
+      }
+      if (data.amount !== '0') {
+        details.push({ label: 'Amount', value: data.amount });
+      }
+      details.push({ label: 'Nonce', value: data.nonce });
+      details.push({ label: 'Expires', value: new Date(data.expiry * 1000).toLocaleString() });
     }
 
     // Handle acc_hash (two-phase signing)
@@ -215,8 +349,16 @@ const SignApproval: React.FC<SignApprovalProps> = ({ onComplete, onCancel }) =>
       }
     }
 
+    if (data.kind === 'eth_typed_data') {
+      details.push({ label: 'Address', value: truncate(data.address, 30) });
+    }
+
+    if (data.kind === 'acc_transaction' || data.kind === 'acc_pending_transaction') {
+      details.push(...getDelegationDetails(data.delegators));
+    }
+
     // Always show hash
-    const hash = data.transactionHash || data.hash || data.intentId;
+    const hash = data.transactionHash || data.hash || data.intentHash;
     if (hash) {
       details.push({ label: 'Hash', value: truncate(hash, 24) });
     }
@@ -224,6 +366,108 @@ const SignApproval: React.FC<SignApprovalProps> = ({ onComplete, onCancel }) =>
     return details;
   };
 
+  // Render EIP-712 domain and message fields as nested rows
+  const renderTypedDataValue = (value: unknown, depth: number): React.ReactNode => {
+    if (value !== null && typeof value === 'object') {
+      const entries = Array.isArray(value)
+        ? value.map((item, i) => [`[${i}]`, item] as [string, unknown])
+        : Object.entries(value as Record<string, unknown>);
+      return (
+        <div style={{ paddingLeft: depth > 0 ? '12px' : 0 }}>
+          {entries.map(([name, item]) => (
+            item !== null && typeof item === 'object' ? (
+              <div key={name}>
+                <div className="detail-label" style={{ padding: '6px 0 2px' }}>{name}</div>
+                {renderTypedDataValue(item, depth + 1)}
+              </div>
+            ) : (
+              <div key={name} className="detail-row">
+                <span className="detail-label">{name}</span>
+                <span className="detail-value">{truncate(String(item), 40)}</span>
+              </div>
+            )
+          ))}
+        </div>
+      );
+    }
+    return <span className="detail-value">{String(value)}</span>;
+  };
+
+  // Render decoded calldata for a known Certen contract
+  const renderDecodedCall = (call: DecodedCall) => {
+    return (
+      <div className="card">
+        <div className="card-header">
+          <span className="card-title">Contract Call</span>
+          <span className="card-badge secondary">{call.contract}</span>
+        </div>
+        <div className="approval-details">
+          <div className="detail-row">
+            <span className="detail-label">Function</span>
+            <span className="detail-value">{call.functionName}</span>
+          </div>
+          {call.args.map((arg) => (
+            <div key={arg.name} className="detail-row">
+              <span className="detail-label">{arg.name}</span>
+              <span className="detail-value" title={`${arg.type}: ${arg.value}`}>{truncate(arg.value, 30)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderTypedData = (typedData: TypedData) => {
+    const chainId = typedData.domain.chainId !== undefined ? Number(typedData.domain.chainId) : undefined;
+    const chain = chainId !== undefined ? getChainContracts(chainId) : null;
+
+    return (
+      <>
+        <div className="card">
+          <div className="card-header">
+            <span className="card-title">Domain</span>
+          </div>
+          <div className="approval-details">
+            {typedData.domain.name && (
+              <div className="detail-row">
+                <span className="detail-label">Name</span>
+                <span className="detail-value">{typedData.domain.name}</span>
+              </div>
+            )}
+            {typedData.domain.version && (
+              <div className="detail-row">
+                <span className="detail-label">Version</span>
+                <span className="detail-value">{typedData.domain.version}</span>
+              </div>
+            )}
+            <div className="detail-row">
+              <span className="detail-label">Chain</span>
+              <span className="detail-value">
+                {chainId === undefined ? 'Not specified' : chain ? `${chain.name} (${chainId})` : `Unknown (${chainId})`}
+              </span>
+            </div>
+            {typedData.domain.verifyingContract && (
+              <div className="detail-row">
+                <span className="detail-label">Contract</span>
+                <span className="detail-value">{truncate(typedData.domain.verifyingContract, 30)}</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-header">
+            <span className="card-title">Message</span>
+            <span className="card-badge secondary">{typedData.primaryType}</span>
+          </div>
+          <div className="approval-details">
+            {renderTypedDataValue(typedData.message, 0)}
+          </div>
+        </div>
+      </>
+    );
+  };
+
   // ===========================================================================
   // Render
   // ===========================================================================
@@ -258,7 +502,7 @@ const SignApproval: React.FC<SignApprovalProps> = ({ onComplete, onCancel }) =>
                 ? 'Transaction has been signed successfully.'
                 : 'Request was rejected.'}
             </p>
-            <p className="result-closing">Closing...</p>
+            <p className="result-closing">{requestId ? 'Back to inbox...' : 'Closing...'}</p>
           </div>
         </div>
       </div>
@@ -288,6 +532,13 @@ const SignApproval: React.FC<SignApprovalProps> = ({ onComplete, onCancel }) =>
           <span>📝</span>
           <h1>Signature Request</h1>
         </div>
+        {requestId && (
+          <div className="header-actions">
+            <button className="btn-icon" onClick={onCancel} title="Back to inbox">
+              ✕
+            </button>
+          </div>
+        )}
       </header>
 
       <div className="content">
@@ -306,6 +557,22 @@ const SignApproval: React.FC<SignApprovalProps> = ({ onComplete, onCancel }) =>
               </span>
             </div>
 
+            {(request.data.kind === 'acc_transaction' || request.data.kind === 'acc_pending_transaction') && (
+              <div style={{ marginBottom: '8px' }}>
+                {request.data.verified ? (
+                  <span className="card-badge success">✓ Hash verified from transaction</span>
+                ) : (
+                  <span className="card-badge warning">⚠ Unverified hash - details supplied by site</span>
+                )}
+              </div>
+            )}
+
+            {request.data.kind === 'certen_user_operation' && request.data.counterfactual && (
+              <div style={{ marginBottom: '8px' }}>
+                <span className="card-badge success">✓ Sender matches predicted Certen account</span>
+              </div>
+            )}
+
             <div className="approval-details">
               {details.map((detail, index) => (
                 <div key={index} className="detail-row">
@@ -316,17 +583,28 @@ const SignApproval: React.FC<SignApprovalProps> = ({ onComplete, onCancel }) =>
             </div>
           </div>
 
+          {/* EIP-712 Typed Data */}
+          {request.data.kind === 'eth_typed_data' && renderTypedData(request.data.typedData)}
+
+          {/* Decoded Certen contract call */}
+          {request.data.kind === 'eth_transaction' && request.data.decodedCall && renderDecodedCall(request.data.decodedCall)}
+          {request.data.kind === 'certen_user_operation' && request.data.calls.map((call, index) => (
+            <React.Fragment key={index}>{renderDecodedCall(call)}</React.Fragment>
+          ))}
+
           {/* Key Selection */}
           <div className="form-group">
             <label className="form-label">Sign with:</label>
             {filteredKeys.length === 0 ? (
               <div className="empty-state" style={{ padding: '16px' }}>
-                <p>No compatible keys found</p>
+                <p>No compatible keys shared with this site</p>
                 <p className="form-hint">
                   {request.type.startsWith('bls_')
                     ? 'Add a BLS12-381 (Validator) key'
-                    : request.type.startsWith('eth_')
+                    : request.type.startsWith('eth_') || request.type === 'certen_signUserOperation'
                     ? 'Add an Ethereum (secp256k1) key'
+                    : request.type === 'certen_signIntent'
+                    ? 'Add an Accumulate (ED25519) or Ethereum (secp256k1) key'
                     : 'Add an Accumulate (ED25519) key'}
                 </p>
               </div>
@@ -1,10 +1,13 @@
 /**
  * Certen Key Vault - Unlock Page
  *
- * Password entry to unlock the vault.
+ * Password entry to unlock the vault. After repeated failures the
+ * background refuses attempts for a while; the remaining time is shown as
+ * a countdown.
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { UnlockStatus } from '../../shared/types';
 
 // =============================================================================
 // Types
@@ -23,6 +26,33 @@ const Unlock: React.FC<UnlockProps> = ({ onUnlock }) => {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<UnlockStatus | null>(null);
+  const [wiped, setWiped] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // Tick once a second while attempts are throttled
+  const remaining = status ? Math.max(status.retryAt - now, 0) : 0;
+  useEffect(() => {
+    if (remaining <= 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [remaining > 0]);
+
+  const loadStatus = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_UNLOCK_STATUS' });
+      if (response.status) {
+        setStatus(response.status);
+        setNow(Date.now());
+      }
+    } catch (err) {
+      console.error('Failed to load unlock status:', err);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,6 +69,12 @@ const Unlock: React.FC<UnlockProps> = ({ onUnlock }) => {
         onUnlock();
       } else {
         setError(response.error || 'Invalid password');
+        setWiped(!!response.wiped);
+        if (response.status) {
+          setStatus(response.status);
+          setNow(Date.now());
+        }
+        setPassword('');
       }
     } catch (err) {
       setError('Failed to unlock vault');
@@ -48,6 +84,15 @@ const Unlock: React.FC<UnlockProps> = ({ onUnlock }) => {
     setLoading(false);
   };
 
+  const formatCountdown = (ms: number): string => {
+    const seconds = Math.ceil(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+
+  const attemptsBeforeWipe = status?.wipeAfterFailures
+    ? status.wipeAfterFailures - status.failedAttempts
+    : null;
+
   return (
     <div className="app-container">
       <header className="header">
@@ -65,38 +110,63 @@ const Unlock: React.FC<UnlockProps> = ({ onUnlock }) => {
             Enter your password to unlock your vault.
           </p>
 
-          <form onSubmit={handleSubmit}>
-            <div className="form-group text-left">
-              <label className="form-label">Password</label>
-              <div className="password-input-wrapper">
-                <input
-                  type={showPassword ? 'text' : 'password'}
-                  className="form-input"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder="Enter your password"
-                  autoFocus
-                />
-                <button
-                  type="button"
-                  className="password-toggle"
-                  onClick={() => setShowPassword(!showPassword)}
-                >
-                  {showPassword ? '👁' : '👀'}
-                </button>
+          {wiped ? (
+            <>
+              <p className="form-error mb-16">{error}</p>
+              <button
+                type="button"
+                className="btn btn-primary btn-full"
+                onClick={() => window.location.reload()}
+              >
+                Set Up Vault
+              </button>
+            </>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <div className="form-group text-left">
+                <label className="form-label">Password</label>
+                <div className="password-input-wrapper">
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    className="form-input"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Enter your password"
+                    autoFocus
+                  />
+                  <button
+                    type="button"
+                    className="password-toggle"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? '👁' : '👀'}
+                  </button>
+                </div>
               </div>
-            </div>
-
-            {error && <p className="form-error mb-16">{error}</p>}
-
-            <button
-              type="submit"
-              className="btn btn-primary btn-full"
-              disabled={loading || !password}
-            >
-              {loading ? 'Unlocking...' : 'Unlock'}
-            </button>
-          </form>
+
+              {error && <p className="form-error mb-16">{error}</p>}
+
+              {remaining > 0 && (
+                <p className="form-error mb-16">
+                  Too many failed attempts. Try again in {formatCountdown(remaining)}.
+                </p>
+              )}
+
+              {attemptsBeforeWipe !== null && status!.failedAttempts > 0 && (
+                <p className="form-hint mb-16">
+                  ⚠ {attemptsBeforeWipe} more failed attempt{attemptsBeforeWipe === 1 ? '' : 's'} will erase this vault.
+                </p>
+              )}
+
+              <button
+                type="submit"
+                className="btn btn-primary btn-full"
+                disabled={loading || !password || remaining > 0}
+              >
+                {loading ? 'Unlocking...' : remaining > 0 ? `Locked (${formatCountdown(remaining)})` : 'Unlock'}
+              </button>
+            </form>
+          )}
         </div>
       </div>
 
@@ -8,10 +8,23 @@ export const VERSION = '1.0.0';
 // Storage keys
 export const STORAGE_KEY_VAULT = 'certen_vault_v1';
 export const STORAGE_KEY_SETTINGS = 'certen_settings_v1';
+export const STORAGE_KEY_PERMISSIONS = 'certen_permissions_v1';
+export const STORAGE_KEY_UNLOCK_ATTEMPTS = 'certen_unlock_attempts_v1';
+export const STORAGE_KEY_AUDIT_BUFFER = 'certen_audit_buffer_v1';
+
+// Session storage keys (chrome.storage.session - survives worker restarts, not browser restarts)
+export const SESSION_KEY_VAULT = 'certen_session_v2';
+export const SESSION_KEY_SIGN_REQUESTS = 'certen_session_sign_requests_v1';
+export const SESSION_KEY_APPROVAL_WINDOW = 'certen_session_approval_window_v1';
+
+// Wallet branch created with the vault (and for vaults from before branches)
+export const DEFAULT_WALLET_ID = 'default';
 
 // Default settings
 export const DEFAULT_AUTO_LOCK_TIMEOUT = 15 * 60 * 1000; // 15 minutes
+export const DEFAULT_IDLE_LOCK_TIMEOUT = 5 * 60 * 1000;  // 5 minutes
 export const DEFAULT_NETWORK = 'testnet';
+export const DEFAULT_EVM_CHAIN_ID = 11155111; // Ethereum Sepolia
 
 // Networks
 export const NETWORKS = {
@@ -54,6 +67,15 @@ export const RPC_METHODS = {
   SIGN_HASH: 'acc_signHash',
   ETH_SIGN_HASH: 'eth_signHash',
   CERTEN_SIGN_INTENT: 'certen_signIntent',
+  CERTEN_SIGN_USER_OPERATION: 'certen_signUserOperation',
+
+  // EIP-1193 (window.ethereum)
+  ETH_REQUEST_ACCOUNTS: 'eth_requestAccounts',
+  ETH_ACCOUNTS: 'eth_accounts',
+  ETH_CHAIN_ID: 'eth_chainId',
+  WALLET_SWITCH_ETHEREUM_CHAIN: 'wallet_switchEthereumChain',
+  PERSONAL_SIGN: 'personal_sign',
+  ETH_SIGN_TYPED_DATA_V4: 'eth_signTypedData_v4',
 
   // Operations
   SEND_TOKENS: 'acc_sendTokens',
@@ -76,6 +98,7 @@ export const ERROR_CODES = {
   UNSUPPORTED_METHOD: 4200,
   DISCONNECTED: 4900,
   CHAIN_DISCONNECTED: 4901,
+  UNRECOGNIZED_CHAIN: 4902,
   INTERNAL_ERROR: -32603,
   INVALID_PARAMS: -32602,
   METHOD_NOT_FOUND: -32601,
@@ -13,13 +13,25 @@ export interface StoredKey {
   name: string;                       // User-assigned label
   type: KeyType;
   publicKey: string;                  // Hex encoded
-  privateKey: string;                 // Hex encoded (encrypted in vault)
+  privateKey: string;                 // Hex encoded (encrypted in vault); empty for watch-only keys
+  watchOnly?: boolean;                // Public key only; cannot sign or be exported
   createdAt: number;                  // Unix timestamp
   lastUsedAt?: number;                // Unix timestamp
   derivationPath?: string;            // BIP-44 path if derived from mnemonic
+  walletId: string;                   // Wallet branch the key belongs to
   metadata: KeyMetadata;
 }
 
+/**
+ * Where to derive an HD key. `path` overrides `account` and `index`;
+ * without `index` the next unused index of the account is used.
+ */
+export interface DerivationOptions {
+  account?: number;
+  index?: number;
+  path?: string;
+}
+
 export interface KeyMetadata {
   accumulateUrl?: string;             // acc://... for ED25519 lite accounts
   keyPageUrl?: string;                // acc://adi.acme/book/1 for keypages
@@ -54,17 +66,79 @@ export interface EncryptedVaultData {
   iv: string;                         // Base64 encoded IV for AES-GCM
   encryptedPayload: string;           // Base64 encoded encrypted JSON
   kdfParams: KdfParams;
+  auditPublicKey?: string;            // Hex X25519 key that seals audit records while locked
 }
 
-export interface KdfParams {
-  algorithm: 'pbkdf2';
+export type KdfAlgorithm = 'pbkdf2' | 'scrypt' | 'argon2id';
+
+export type KdfParams = Pbkdf2KdfParams | ScryptKdfParams | Argon2idKdfParams;
+
+export interface Pbkdf2KdfParams {
+  algorithm: 'pbkdf2';                // Legacy vaults only (upgraded on unlock)
   iterations: number;                 // 600000 recommended
 }
 
+export interface ScryptKdfParams {
+  algorithm: 'scrypt';
+  N: number;                          // CPU/memory cost (power of 2)
+  r: number;                          // Block size
+  p: number;                          // Parallelism
+}
+
+export interface Argon2idKdfParams {
+  algorithm: 'argon2id';
+  t: number;                          // Iterations (passes)
+  m: number;                          // Memory in KiB
+  p: number;                          // Parallelism (lanes)
+}
+
 export interface VaultPayload {
   keys: StoredKey[];
   metadata: VaultMetadata;
   mnemonic?: string;                  // Encrypted master mnemonic (optional)
+  wallets: WalletBranch[];            // Passphrase branches of the mnemonic
+  activeWalletId: string;             // Branch whose keys are shown and used
+  auditLog?: AuditEntry[];            // Append-only signing and key export history (hash-chained)
+  auditKey?: string;                  // Hex X25519 secret key that opens records sealed while locked
+}
+
+/**
+ * A BIP-39 passphrase branch of the vault mnemonic ("hidden wallet").
+ * Each branch has its own keys; only the active branch is visible.
+ */
+export interface WalletBranch {
+  id: string;                         // DEFAULT_WALLET_ID for the wallet created with the vault
+  name: string;
+  passphrase: string;                 // BIP-39 passphrase ('' = none)
+  createdAt: number;
+}
+
+/**
+ * Wallet branch summary for the popup (never includes the passphrase).
+ */
+export interface WalletInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+  hasPassphrase: boolean;
+  keyCount: number;
+  active: boolean;
+}
+
+/**
+ * A key found by scanning the mnemonic of the active wallet (never
+ * includes the private key).
+ */
+export interface DiscoveredKey {
+  type: KeyType;
+  index: number;                      // Address index on account 0
+  path: string;
+  publicKey: string;
+  address: string;                    // Lite identity, EVM address or BLS public key
+  existingKeyId?: string;             // Already in the active wallet
+  existingName?: string;
+  hasHistory?: boolean;               // Found on the Accumulate network (undefined: not checked)
+  keyPageUrl?: string;                // Key page listing this key
 }
 
 export interface VaultMetadata {
@@ -73,6 +147,12 @@ export interface VaultMetadata {
   keyCount: number;
 }
 
+export interface UnlockStatus {
+  failedAttempts: number;             // Consecutive failed unlock attempts
+  retryAt: number;                    // Unix ms before which unlock is refused (0 = now)
+  wipeAfterFailures: number | null;   // Erase the vault after this many failures (null = never)
+}
+
 // =============================================================================
 // Sign Request Types
 // =============================================================================
@@ -84,23 +164,36 @@ export type SignRequestType =
   | 'eth_signHash'
   | 'eth_signTypedData'
   | 'eth_signPersonalMessage'
+  | 'eth_signTransaction'
   | 'certen_signIntent'
+  | 'certen_signUserOperation'
   | 'bls_signHash';
 
+/**
+ * Request lifecycle: pending -> approved (signing) -> completed | error,
+ * or pending -> rejected | expired.
+ */
 export type SignRequestStatus =
   | 'pending'
   | 'approved'
   | 'rejected'
   | 'completed'
-  | 'error';
+  | 'error'
+  | 'expired';
 
 export interface SignRequest {
   id: string;                         // UUID for tracking
   type: SignRequestType;
   origin: string;                     // Requesting website origin
+  clientRequestId?: string;           // ID the page used for the RPC call (for re-attaching)
   timestamp: number;
+  expiresAt: number;                  // Pending requests expire after this time
+  updatedAt: number;                  // Last status change
   data: SignRequestData;
   status: SignRequestStatus;
+  keyId?: string;                     // Key chosen when the request was approved
+  result?: unknown;                   // Set when completed
+  error?: string;                     // Set when rejected, errored or expired
 }
 
 export type SignRequestData =
@@ -109,7 +202,10 @@ export type SignRequestData =
   | AccSignPendingTransactionData
   | EthSignHashData
   | EthSignPersonalMessageData
+  | EthSignTypedDataData
+  | EthSignTransactionData
   | CertenIntentData
+  | CertenUserOperationData
   | BlsSignHashData;
 
 export interface AccSignTransactionData {
@@ -119,6 +215,12 @@ export interface AccSignTransactionData {
   signerVersion?: number;             // Key page version
   transactionHash: string;            // Hex-encoded hash to sign
   transactionType?: string;           // Human-readable type
+  delegators?: string[];              // Optional delegation chain
+  timestamp?: number;                 // Microseconds timestamp (generated if not provided)
+  format?: AccSignatureFormat;        // Result format (default: 'signature')
+  transaction?: AccumulateTransaction; // Full transaction, when supplied (hash recomputed locally)
+  decoded?: DecodedTransactionField[]; // Approval details built from the decoded body
+  verified?: boolean;                 // True if transactionHash was recomputed from the transaction
   humanReadable?: HumanReadableTransaction;
 }
 
@@ -137,6 +239,10 @@ export interface AccSignPendingTransactionData {
   signerVersion?: number;             // Key page version (default: 1)
   timestamp?: number;                 // Microseconds timestamp (generated if not provided)
   delegators?: string[];              // Optional delegation chain
+  format?: AccSignatureFormat;        // Result format (default: 'signature')
+  transaction?: AccumulateTransaction; // Full transaction, when supplied (hash recomputed locally)
+  decoded?: DecodedTransactionField[]; // Approval details built from the decoded body
+  verified?: boolean;                 // True if transactionHash was recomputed from the transaction
   humanReadable?: HumanReadableTransaction;
 }
 
@@ -150,19 +256,115 @@ export interface EthSignHashData {
 export interface EthSignPersonalMessageData {
   kind: 'eth_personal_message';
   message: string;                    // The message to sign (EIP-191 personal_sign)
+  isHex?: boolean;                    // Message is 0x-hex encoded bytes (EIP-1193 personal_sign)
+  address: string;                    // Ethereum address expected to sign
+  humanReadable?: HumanReadableTransaction;
+}
+
+export interface EthSignTypedDataData {
+  kind: 'eth_typed_data';
   address: string;                    // Ethereum address expected to sign
+  typedData: TypedData;               // EIP-712 v4 payload
   humanReadable?: HumanReadableTransaction;
 }
 
+export interface EthSignTransactionData {
+  kind: 'eth_transaction';
+  address: string;                    // Sender address (must match a secp256k1 key)
+  transaction: EvmTransaction;        // Normalized unsigned transaction
+  decodedCall?: DecodedCall;          // Decoded calldata for known Certen contracts
+  humanReadable?: HumanReadableTransaction;
+}
+
+export interface EvmTransaction {
+  type: 0 | 1 | 2;                    // Legacy, EIP-2930, EIP-1559
+  chainId: number;
+  nonce: string;                      // 0x-prefixed quantities
+  to?: string;                        // Omitted for contract creation
+  value: string;
+  data: string;                       // 0x-prefixed calldata
+  gasLimit: string;
+  gasPrice?: string;                  // Legacy / EIP-2930
+  maxFeePerGas?: string;              // EIP-1559
+  maxPriorityFeePerGas?: string;      // EIP-1559
+  accessList?: EvmAccessListEntry[];  // EIP-2930 / EIP-1559
+}
+
+export interface EvmAccessListEntry {
+  address: string;
+  storageKeys: string[];
+}
+
+export interface DecodedCall {
+  contract: string;                   // Contract role, e.g. 'anchor', 'accountFactory'
+  functionName: string;
+  signature: string;                  // e.g. 'createAccount(string,bytes,bytes32)'
+  args: { name: string; type: string; value: string }[];
+}
+
+export interface TypedDataField {
+  name: string;
+  type: string;                       // Solidity type, struct name or array (e.g. "Person[]")
+}
+
+export interface TypedDataDomain {
+  name?: string;
+  version?: string;
+  chainId?: number | string;
+  verifyingContract?: string;
+  salt?: string;
+  [key: string]: unknown;
+}
+
+export interface TypedData {
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  domain: TypedDataDomain;
+  message: Record<string, unknown>;
+}
+
 export interface CertenIntentData {
   kind: 'certen_intent';
-  intentId: string;
+  intentId: string;                   // dApp reference only, not signed
   adiUrl: string;
   actionType: string;
   description: string;
-  targetChain?: string;
-  targetAddress?: string;
-  amount?: string;
+  targetChain: string;
+  targetAddress: string;
+  amount: string;                     // Base units
+  nonce: string;
+  expiry: number;                     // Unix seconds
+  intentHash: string;                 // Computed locally (see vault/intent.ts)
+}
+
+export interface CertenUserOperationData {
+  kind: 'certen_user_operation';
+  owner: string;                      // EVM address of the signing secp256k1 key
+  chainId: number;
+  entryPoint: string;
+  userOperation: UserOperation;       // Normalized op (initCode filled if requested)
+  userOpHash: string;                 // Computed locally from op, entryPoint and chainId
+  calls: DecodedCall[];               // callData summary
+  counterfactual?: {                  // Present when the sender is not deployed yet
+    adiUrl: string;
+    predictedAddress: string;
+    initCodeFilled: boolean;
+  };
+  humanReadable?: HumanReadableTransaction;
+}
+
+export interface UserOperation {
+  sender: string;
+  nonce: string;                      // 0x-prefixed quantities
+  initCode: string;                   // 0x-prefixed bytes
+  callData: string;
+  callGasLimit: string;
+  verificationGasLimit: string;
+  preVerificationGas: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  paymasterAndData: string;
+  signature?: string;
 }
 
 export interface BlsSignHashData {
@@ -179,6 +381,67 @@ export interface HumanReadableTransaction {
   memo?: string;
 }
 
+// =============================================================================
+// Accumulate Transactions
+// =============================================================================
+
+export interface AccumulateTransaction {
+  header: AccumulateTransactionHeader;
+  body: AccumulateTransactionBody;
+}
+
+export interface AccumulateTransactionHeader {
+  principal: string;                  // acc://... URL
+  initiator?: string;                 // Hex-encoded 32-byte initiator hash
+  memo?: string;
+  metadata?: string;                  // Hex-encoded bytes
+  expire?: { atTime?: string };
+  holdUntil?: { minorBlock?: number };
+  authorities?: string[];
+}
+
+export interface AccumulateTransactionBody {
+  type: string;                       // e.g. 'sendTokens', 'addCredits'
+  [key: string]: unknown;
+}
+
+export interface DecodedTransactionField {
+  label: string;
+  value: string;
+}
+
+/**
+ * Result format for acc_* signing methods:
+ * - 'signature': bare signature hex (default)
+ * - 'object': ready-to-submit Accumulate signature object
+ * - 'envelope': envelope containing the signature and transaction
+ */
+export type AccSignatureFormat = 'signature' | 'object' | 'envelope';
+
+export interface AccumulateSignature {
+  type: 'ed25519';
+  publicKey: string;                  // Hex-encoded public key
+  signature: string;                  // Hex-encoded signature
+  signer: string;                     // Key page or lite identity URL
+  signerVersion: number;
+  timestamp: number;                  // Microseconds timestamp
+  transactionHash: string;            // Hex-encoded transaction hash
+}
+
+export interface AccumulateDelegatedSignature {
+  type: 'delegated';
+  signature: AccumulateSignatureObject; // Wrapped (inner) signature
+  delegator: string;                  // URL of the delegating key page
+}
+
+export type AccumulateSignatureObject = AccumulateSignature | AccumulateDelegatedSignature;
+
+export interface AccumulateEnvelope {
+  signatures: AccumulateSignatureObject[];
+  txHash?: string;                    // Set when the transaction itself is not included
+  transaction?: AccumulateTransaction[];
+}
+
 // =============================================================================
 // Message Types (Content Script <-> Background)
 // =============================================================================
@@ -216,6 +479,96 @@ export interface RPCResponse {
   error?: { code: number; message: string };
 }
 
+// =============================================================================
+// Audit Log
+// =============================================================================
+
+export type AuditOutcome = 'approved' | 'rejected' | 'error' | 'expired' | 'exported';
+
+/**
+ * One signing decision or private key export. Entries are chained: entryHash
+ * covers every field and prevHash, so editing, removing or reordering
+ * entries breaks the chain.
+ */
+export interface AuditEntry {
+  id: string;                         // UUID
+  sequence: number;                   // 0-based position in the log
+  timestamp: number;                  // When the request finished (ms)
+  outcome: AuditOutcome;
+  origin: string;
+  method: SignRequestType | 'key_export';
+  requestId: string;
+  keyId?: string;
+  keyName?: string;
+  signedHash?: string;                // Hex hash that was (or would have been) signed
+  summary: string;                    // Decoded description of the request
+  error?: string;                     // Rejection or error reason
+  prevHash: string;                   // entryHash of the previous entry
+  entryHash: string;                  // sha256 over this entry (hex)
+}
+
+export type AuditRecord = Omit<AuditEntry, 'id' | 'sequence' | 'prevHash' | 'entryHash'>;
+
+/**
+ * An audit record that finished while the vault was locked, sealed to the
+ * vault's audit public key until the next unlock.
+ */
+export interface SealedAuditRecord {
+  ephemeralPublicKey: string;         // Base64 one-time X25519 public key
+  nonce: string;                      // Base64 box nonce
+  ciphertext: string;                 // Base64 sealed JSON of the AuditRecord
+}
+
+// =============================================================================
+// Settings
+// =============================================================================
+
+export type NetworkId = 'mainnet' | 'testnet' | 'devnet';
+
+/**
+ * What to do with requests the vault cannot decode or verify: raw hashes
+ * and Accumulate transactions whose hash does not match their body.
+ */
+export type BlindSigningPolicy = 'warn' | 'block';
+
+export interface Settings {
+  network: NetworkId;
+  autoLockTimeout: number;            // Milliseconds without activity before locking
+  lockOnIdle: boolean;                // Lock when the system goes idle or the screen locks
+  idleLockTimeout: number;            // Milliseconds without system input that count as idle
+  lockOnWindowClose: boolean;         // Lock when the last browser window closes
+  blindSigning: BlindSigningPolicy;
+  defaultKeys: Partial<Record<KeyType, string>>;  // Preferred key ID per curve
+  defaultEvmChainId: number;          // EVM chain for sites that have not switched chains
+  siteChainIds: Record<string, number>;  // Active EVM chain per origin (wallet_switchEthereumChain)
+  ui: UiPreferences;
+}
+
+export interface UiPreferences {
+  openInboxOnStart: boolean;          // Show pending requests when the popup opens
+  showMultiChainAddresses: boolean;   // Show Solana/Aptos/Sui/... addresses in the key list
+}
+
+// =============================================================================
+// Site Permissions
+// =============================================================================
+
+/**
+ * Groups of RPC methods a site can be granted:
+ * - accounts: see the shared accounts (implied by any connection)
+ * - sign: request signatures with the shared keys
+ * - keys: key selection and key metadata updates
+ * - operations: token transfers, credits and bridging
+ */
+export type PermissionGroup = 'accounts' | 'sign' | 'keys' | 'operations';
+
+export interface SitePermission {
+  origin: string;
+  keyIds: string[];                   // Keys the user chose to share
+  methodGroups: PermissionGroup[];
+  grantedAt: number;                  // ms since epoch
+}
+
 // =============================================================================
 // Provider Types (window.certen)
 // =============================================================================
@@ -225,6 +578,7 @@ export interface CertenAccount {
   type: 'lite' | 'adi' | 'evm';
   publicKey: string;
   name?: string;
+  watchOnly?: boolean;                // The vault cannot sign for this account
 }
 
 export interface CertenProvider {
@@ -283,4 +637,12 @@ export interface SignatureResult {
   publicKey: string;                  // Hex encoded public key
   keyId: string;                      // Key ID used for signing
   timestamp?: number;                 // Microseconds timestamp used during signing (for pending tx)
+  accumulateSignature?: AccumulateSignatureObject; // When format is 'object'
+  envelope?: AccumulateEnvelope;      // When format is 'envelope'
+  rawTransaction?: string;            // Signed EVM transaction (eth_signTransaction)
+  transactionHash?: string;           // Hash of the signed EVM transaction
+  userOpHash?: string;                // certen_signUserOperation
+  userOperation?: UserOperation;      // Signed op (with signature and any filled initCode)
+  intentHash?: string;                // certen_signIntent: the hash that was signed
+  dataForSignature?: string;          // Accumulate signature objects: the hash that was signed
 }
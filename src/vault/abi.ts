@@ -0,0 +1,249 @@
+/**
+ * Certen Key Vault - ABI Calldata Encoding and Decoding
+ *
+ * Decodes calldata sent to known Certen contracts so the approval screen can
+ * show the function and arguments instead of raw hex, and encodes factory
+ * calls for counterfactual account deployment.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { toHex, fromHex, concatBytes } from './crypto';
+import { checksumAddress } from './create2';
+import { getChainContracts, ChainContracts } from '../config/contracts';
+import { CERTEN_ABIS, AbiFunction } from '../config/abis';
+import { DecodedCall } from '../shared/types';
+
+// =============================================================================
+// Selectors
+// =============================================================================
+
+/**
+ * Returns the canonical signature, e.g. "transfer(address,uint256)".
+ */
+export function getFunctionSignature(fn: AbiFunction): string {
+  return `${fn.name}(${fn.inputs.map(i => i.type).join(',')})`;
+}
+
+/**
+ * Computes the 4-byte function selector as 0x-prefixed hex.
+ */
+export function getFunctionSelector(fn: AbiFunction): string {
+  const hash = keccak_256(new TextEncoder().encode(getFunctionSignature(fn)));
+  return '0x' + toHex(hash.slice(0, 4));
+}
+
+// =============================================================================
+// Value Decoding
+// =============================================================================
+
+function isDynamic(type: string): boolean {
+  return type === 'bytes' || type === 'string' || type.endsWith('[]');
+}
+
+function readWord(data: Uint8Array, offset: number): Uint8Array {
+  if (offset + 32 > data.length) {
+    throw new Error('Calldata too short');
+  }
+  return data.slice(offset, offset + 32);
+}
+
+function wordToBigInt(word: Uint8Array): bigint {
+  return BigInt('0x' + toHex(word));
+}
+
+function decodeStatic(type: string, word: Uint8Array): string {
+  if (type === 'address') {
+    return checksumAddress('0x' + toHex(word.slice(12)));
+  }
+  if (type === 'bool') {
+    return wordToBigInt(word) === BigInt(0) ? 'false' : 'true';
+  }
+  const bytesMatch = type.match(/^bytes(\d+)$/);
+  if (bytesMatch) {
+    return '0x' + toHex(word.slice(0, Number(bytesMatch[1])));
+  }
+  const intMatch = type.match(/^(u?)int(\d*)$/);
+  if (intMatch) {
+    const value = wordToBigInt(word);
+    const bits = intMatch[2] ? Number(intMatch[2]) : 256;
+    if (intMatch[1] !== 'u' && value >= (BigInt(1) << BigInt(bits - 1))) {
+      return (value - (BigInt(1) << BigInt(256))).toString();
+    }
+    return value.toString();
+  }
+  throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+/**
+ * Decodes one parameter. `base` is the start of the enclosing tuple,
+ * `head` the position of the parameter's head slot.
+ */
+function decodeParameter(type: string, data: Uint8Array, base: number, head: number): string {
+  if (!isDynamic(type)) {
+    return decodeStatic(type, readWord(data, head));
+  }
+
+  const offset = base + Number(wordToBigInt(readWord(data, head)));
+  const length = Number(wordToBigInt(readWord(data, offset)));
+
+  if (type === 'bytes' || type === 'string') {
+    const start = offset + 32;
+    if (start + length > data.length) {
+      throw new Error('Calldata too short');
+    }
+    const bytes = data.slice(start, start + length);
+    return type === 'string' ? new TextDecoder().decode(bytes) : '0x' + toHex(bytes);
+  }
+
+  // Dynamic arrays: element heads start right after the length word
+  const elementType = type.slice(0, -2);
+  const items: string[] = [];
+  for (let i = 0; i < length; i++) {
+    items.push(decodeParameter(elementType, data, offset + 32, offset + 32 + i * 32));
+  }
+  return `[${items.join(', ')}]`;
+}
+
+// =============================================================================
+// Value Encoding
+// =============================================================================
+
+function encodeStatic(type: string, value: unknown): Uint8Array {
+  const word = new Uint8Array(32);
+
+  if (type === 'address') {
+    const bytes = fromHex(String(value));
+    if (bytes.length !== 20) {
+      throw new Error(`Invalid address: ${String(value)}`);
+    }
+    word.set(bytes, 12);
+    return word;
+  }
+  if (type === 'bool') {
+    word[31] = value ? 1 : 0;
+    return word;
+  }
+  const bytesMatch = type.match(/^bytes(\d+)$/);
+  if (bytesMatch) {
+    const bytes = fromHex(String(value));
+    if (bytes.length !== Number(bytesMatch[1])) {
+      throw new Error(`Invalid ${type} value`);
+    }
+    word.set(bytes, 0);
+    return word;
+  }
+  if (/^uint\d*$/.test(type)) {
+    let n = BigInt(value as string | number | bigint);
+    for (let i = 31; i >= 0; i--) {
+      word[i] = Number(n & BigInt(0xff));
+      n >>= BigInt(8);
+    }
+    return word;
+  }
+  throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+function encodeDynamic(type: string, value: unknown): Uint8Array {
+  if (type !== 'bytes' && type !== 'string') {
+    throw new Error(`Unsupported ABI type: ${type}`);
+  }
+  const bytes = type === 'string' ? new TextEncoder().encode(String(value)) : fromHex(String(value));
+  const padded = new Uint8Array(Math.ceil(bytes.length / 32) * 32);
+  padded.set(bytes, 0);
+  return concatBytes([encodeStatic('uint256', bytes.length), padded]);
+}
+
+/**
+ * ABI-encodes a function call (static types, bytes and string).
+ *
+ * @returns 0x-prefixed calldata (selector + encoded arguments)
+ */
+export function encodeFunctionData(fn: AbiFunction, values: unknown[]): string {
+  if (values.length !== fn.inputs.length) {
+    throw new Error(`${fn.name} expects ${fn.inputs.length} arguments`);
+  }
+
+  const heads: Uint8Array[] = [];
+  const tails: Uint8Array[] = [];
+  let tailOffset = fn.inputs.length * 32;
+
+  fn.inputs.forEach((input, i) => {
+    if (isDynamic(input.type)) {
+      const tail = encodeDynamic(input.type, values[i]);
+      heads.push(encodeStatic('uint256', tailOffset));
+      tails.push(tail);
+      tailOffset += tail.length;
+    } else {
+      heads.push(encodeStatic(input.type, values[i]));
+    }
+  });
+
+  return getFunctionSelector(fn) + toHex(concatBytes([...heads, ...tails]));
+}
+
+// =============================================================================
+// Calldata Decoding
+// =============================================================================
+
+/**
+ * Decodes calldata against a list of known functions.
+ *
+ * @returns Decoded call, or undefined if no selector matches
+ * @throws Error if the selector matches but the arguments are malformed
+ */
+export function decodeFunctionData(
+  data: string,
+  functions: AbiFunction[]
+): Omit<DecodedCall, 'contract'> | undefined {
+  const bytes = fromHex(data);
+  if (bytes.length < 4) {
+    return undefined;
+  }
+
+  const selector = '0x' + toHex(bytes.slice(0, 4));
+  const fn = functions.find(f => getFunctionSelector(f) === selector);
+  if (!fn) {
+    return undefined;
+  }
+
+  const args = bytes.slice(4);
+  return {
+    functionName: fn.name,
+    signature: getFunctionSignature(fn),
+    args: fn.inputs.map((input, i) => ({
+      name: input.name,
+      type: input.type,
+      value: decodeParameter(input.type, args, 0, i * 32)
+    }))
+  };
+}
+
+/**
+ * Decodes calldata sent to a Certen contract on the given chain.
+ *
+ * @param chainId - EVM chain ID
+ * @param to - Destination address
+ * @param data - 0x-prefixed calldata
+ * @returns Decoded call, or undefined if `to` is not a known Certen contract
+ *   or the function is unknown
+ */
+export function decodeCertenCall(
+  chainId: number,
+  to: string | undefined,
+  data: string | undefined
+): DecodedCall | undefined {
+  const config = getChainContracts(chainId);
+  if (!config || !to || !data || data === '0x') {
+    return undefined;
+  }
+
+  const role = (Object.keys(config.contracts) as (keyof ChainContracts)[])
+    .find(r => config.contracts[r]?.toLowerCase() === to.toLowerCase());
+  const functions = role && CERTEN_ABIS[role];
+  if (!role || !functions) {
+    return undefined;
+  }
+
+  const decoded = decodeFunctionData(data, functions);
+  return decoded && { contract: role, ...decoded };
+}
@@ -0,0 +1,791 @@
+/**
+ * Certen Key Vault - Accumulate Transaction Encoding
+ *
+ * Implements the Accumulate binary marshaling format so the vault can
+ * recompute transaction hashes and signature metadata itself instead of
+ * trusting hashes supplied by the dApp.
+ *
+ * Encoding rules (same as the Go/TS SDKs):
+ * - Each field is written as uvarint(fieldNumber) followed by its value
+ * - Fields are written in ascending order; zero values are omitted
+ * - Strings, bytes, URLs and big integers are length-prefixed
+ * - 32-byte hashes are written raw
+ * - Nested structs are marshaled and length-prefixed
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { toHex, fromHex } from './crypto';
+import {
+  AccumulateTransaction,
+  AccumulateTransactionHeader,
+  AccumulateTransactionBody,
+  DecodedTransactionField,
+  AccumulateSignatureObject,
+  AccumulateEnvelope
+} from '../shared/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type FieldKind =
+  | 'url'
+  | 'string'
+  | 'bytes'
+  | 'hash'
+  | 'uint'
+  | 'bigint'
+  | 'bool'
+  | 'time'
+  | 'enum'
+  | 'urlList'
+  | 'struct'
+  | 'structList';
+
+interface FieldSpec {
+  field: number;
+  name: string;
+  kind: FieldKind;
+  schema?: FieldSpec[];               // For struct / structList fields
+}
+
+interface BodySpec {
+  code: number;                       // TransactionType enum value
+  fields: FieldSpec[];                // Fields after the type field (1)
+}
+
+/**
+ * Result of decoding or marshaling an Accumulate transaction.
+ */
+export interface VerifiedTransaction {
+  transaction: AccumulateTransaction; // Normalized JSON form
+  hash: string;                       // Hex-encoded transaction hash (computed locally)
+  binary: string;                     // Hex-encoded marshaled transaction
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const TOKEN_RECIPIENT: FieldSpec[] = [
+  { field: 1, name: 'url', kind: 'url' },
+  { field: 2, name: 'amount', kind: 'bigint' }
+];
+
+const CREDIT_RECIPIENT: FieldSpec[] = [
+  { field: 1, name: 'url', kind: 'url' },
+  { field: 2, name: 'amount', kind: 'uint' }
+];
+
+const KEY_SPEC_PARAMS: FieldSpec[] = [
+  { field: 1, name: 'keyHash', kind: 'bytes' },
+  { field: 2, name: 'delegate', kind: 'url' }
+];
+
+const HEADER_SCHEMA: FieldSpec[] = [
+  { field: 1, name: 'principal', kind: 'url' },
+  { field: 2, name: 'initiator', kind: 'hash' },
+  { field: 3, name: 'memo', kind: 'string' },
+  { field: 4, name: 'metadata', kind: 'bytes' },
+  { field: 5, name: 'expire', kind: 'struct', schema: [{ field: 1, name: 'atTime', kind: 'time' }] },
+  { field: 6, name: 'holdUntil', kind: 'struct', schema: [{ field: 1, name: 'minorBlock', kind: 'uint' }] },
+  { field: 7, name: 'authorities', kind: 'urlList' }
+];
+
+/**
+ * Transaction bodies the vault can marshal and display.
+ * Any other body type is refused rather than signed blind.
+ */
+const BODY_SCHEMAS: Record<string, BodySpec> = {
+  createIdentity: {
+    code: 0x01,
+    fields: [
+      { field: 2, name: 'url', kind: 'url' },
+      { field: 3, name: 'keyHash', kind: 'bytes' },
+      { field: 4, name: 'keyBookUrl', kind: 'url' },
+      { field: 5, name: 'authorities', kind: 'urlList' }
+    ]
+  },
+  createTokenAccount: {
+    code: 0x02,
+    fields: [
+      { field: 2, name: 'url', kind: 'url' },
+      { field: 3, name: 'tokenUrl', kind: 'url' },
+      { field: 4, name: 'authorities', kind: 'urlList' }
+    ]
+  },
+  sendTokens: {
+    code: 0x03,
+    fields: [
+      { field: 2, name: 'hash', kind: 'hash' },
+      { field: 3, name: 'meta', kind: 'bytes' },
+      { field: 4, name: 'to', kind: 'structList', schema: TOKEN_RECIPIENT }
+    ]
+  },
+  createDataAccount: {
+    code: 0x04,
+    fields: [
+      { field: 2, name: 'url', kind: 'url' },
+      { field: 3, name: 'authorities', kind: 'urlList' }
+    ]
+  },
+  burnTokens: {
+    code: 0x0a,
+    fields: [
+      { field: 2, name: 'amount', kind: 'bigint' }
+    ]
+  },
+  createKeyPage: {
+    code: 0x0c,
+    fields: [
+      { field: 2, name: 'keys', kind: 'structList', schema: KEY_SPEC_PARAMS }
+    ]
+  },
+  createKeyBook: {
+    code: 0x0d,
+    fields: [
+      { field: 2, name: 'url', kind: 'url' },
+      { field: 3, name: 'publicKeyHash', kind: 'bytes' },
+      { field: 4, name: 'authorities', kind: 'urlList' }
+    ]
+  },
+  addCredits: {
+    code: 0x0e,
+    fields: [
+      { field: 2, name: 'recipient', kind: 'url' },
+      { field: 3, name: 'amount', kind: 'bigint' },
+      { field: 4, name: 'oracle', kind: 'uint' }
+    ]
+  },
+  burnCredits: {
+    code: 0x11,
+    fields: [
+      { field: 2, name: 'amount', kind: 'uint' }
+    ]
+  },
+  transferCredits: {
+    code: 0x12,
+    fields: [
+      { field: 2, name: 'to', kind: 'structList', schema: CREDIT_RECIPIENT }
+    ]
+  }
+};
+
+// Signature type enum values
+const SIGNATURE_TYPE_ED25519 = 0x02;
+const SIGNATURE_TYPE_DELEGATED = 0x0b;
+
+// ACME and credit amounts use 8 decimal places
+const ACME_PRECISION = 8;
+
+// =============================================================================
+// Binary Writer
+// =============================================================================
+
+class BinaryWriter {
+  private bytes: number[] = [];
+
+  uvarint(value: number | bigint): void {
+    let n = BigInt(value);
+    if (n < BigInt(0)) {
+      throw new Error('Cannot encode negative value as uvarint');
+    }
+    while (n >= BigInt(0x80)) {
+      this.bytes.push(Number(n & BigInt(0x7f)) | 0x80);
+      n >>= BigInt(7);
+    }
+    this.bytes.push(Number(n));
+  }
+
+  varint(value: number): void {
+    const n = BigInt(value);
+    this.uvarint(n >= BigInt(0) ? n << BigInt(1) : ((-n) << BigInt(1)) - BigInt(1));
+  }
+
+  raw(data: Uint8Array): void {
+    for (const b of data) this.bytes.push(b);
+  }
+
+  lengthPrefixed(data: Uint8Array): void {
+    this.uvarint(data.length);
+    this.raw(data);
+  }
+
+  field(field: number): void {
+    this.uvarint(field);
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  get length(): number {
+    return this.bytes.length;
+  }
+}
+
+// =============================================================================
+// Binary Reader
+// =============================================================================
+
+class BinaryReader {
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset >= this.data.length;
+  }
+
+  uvarint(): bigint {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    for (;;) {
+      if (this.offset >= this.data.length) {
+        throw new Error('Unexpected end of data');
+      }
+      const byte = this.data[this.offset++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) break;
+      shift += BigInt(7);
+      if (shift > BigInt(63)) {
+        throw new Error('Varint overflow');
+      }
+    }
+    return result;
+  }
+
+  varint(): bigint {
+    const n = this.uvarint();
+    return (n & BigInt(1)) ? -((n + BigInt(1)) >> BigInt(1)) : n >> BigInt(1);
+  }
+
+  raw(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Unexpected end of data');
+    }
+    const out = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return out;
+  }
+
+  lengthPrefixed(): Uint8Array {
+    return this.raw(Number(this.uvarint()));
+  }
+
+  rest(): Uint8Array {
+    return this.raw(this.data.length - this.offset);
+  }
+}
+
+// =============================================================================
+// Schema-Driven Marshaling
+// =============================================================================
+
+function isZero(value: unknown): boolean {
+  if (value === undefined || value === null || value === '' || value === false || value === 0) {
+    return true;
+  }
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'string' && /^0+$/.test(value)) return true;
+  return false;
+}
+
+function parseBigInt(value: unknown, name: string): bigint {
+  try {
+    const n = BigInt(value as string | number | bigint);
+    if (n < BigInt(0)) throw new Error();
+    return n;
+  } catch {
+    throw new Error(`Invalid amount for ${name}: ${String(value)}`);
+  }
+}
+
+function bigIntToBytes(value: bigint): Uint8Array {
+  let hex = value.toString(16);
+  if (hex.length % 2) hex = '0' + hex;
+  return fromHex(hex);
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.length === 0 ? BigInt(0) : BigInt('0x' + toHex(bytes));
+}
+
+function writeValue(writer: BinaryWriter, spec: FieldSpec, value: unknown): void {
+  const encoder = new TextEncoder();
+
+  switch (spec.kind) {
+    case 'url':
+    case 'string':
+      writer.lengthPrefixed(encoder.encode(String(value)));
+      break;
+    case 'bytes':
+      writer.lengthPrefixed(fromHex(String(value)));
+      break;
+    case 'hash': {
+      const hash = fromHex(String(value));
+      if (hash.length !== 32) {
+        throw new Error(`Field ${spec.name} must be a 32-byte hash`);
+      }
+      writer.raw(hash);
+      break;
+    }
+    case 'uint':
+    case 'enum':
+      writer.uvarint(parseBigInt(value, spec.name));
+      break;
+    case 'bigint':
+      writer.lengthPrefixed(bigIntToBytes(parseBigInt(value, spec.name)));
+      break;
+    case 'bool':
+      writer.uvarint(value ? 1 : 0);
+      break;
+    case 'time':
+      writer.varint(Math.floor(new Date(String(value)).getTime() / 1000));
+      break;
+    case 'struct':
+      writer.lengthPrefixed(marshalFields(spec.schema!, value as Record<string, unknown>));
+      break;
+    default:
+      throw new Error(`Unsupported field kind: ${spec.kind}`);
+  }
+}
+
+function writeFields(writer: BinaryWriter, schema: FieldSpec[], obj: Record<string, unknown>): void {
+  for (const spec of schema) {
+    const value = obj?.[spec.name];
+    if (isZero(value)) continue;
+
+    if (spec.kind === 'urlList') {
+      for (const item of value as unknown[]) {
+        writer.field(spec.field);
+        writeValue(writer, { ...spec, kind: 'url' }, item);
+      }
+    } else if (spec.kind === 'structList') {
+      for (const item of value as unknown[]) {
+        writer.field(spec.field);
+        writeValue(writer, { ...spec, kind: 'struct' }, item);
+      }
+    } else {
+      writer.field(spec.field);
+      writeValue(writer, spec, value);
+    }
+  }
+}
+
+function marshalFields(schema: FieldSpec[], obj: Record<string, unknown>): Uint8Array {
+  const writer = new BinaryWriter();
+  writeFields(writer, schema, obj);
+
+  // An object with no fields is encoded as the "empty object" marker
+  if (writer.length === 0) {
+    writer.raw(new Uint8Array([0x80]));
+  }
+
+  return writer.toBytes();
+}
+
+function readValue(reader: BinaryReader, spec: FieldSpec): unknown {
+  const decoder = new TextDecoder();
+
+  switch (spec.kind) {
+    case 'url':
+    case 'string':
+      return decoder.decode(reader.lengthPrefixed());
+    case 'bytes':
+      return toHex(reader.lengthPrefixed());
+    case 'hash':
+      return toHex(reader.raw(32));
+    case 'uint':
+    case 'enum':
+      return Number(reader.uvarint());
+    case 'bigint':
+      return bytesToBigInt(reader.lengthPrefixed()).toString();
+    case 'bool':
+      return reader.uvarint() !== BigInt(0);
+    case 'time':
+      return new Date(Number(reader.varint()) * 1000).toISOString();
+    case 'struct':
+      return unmarshalFields(spec.schema!, reader.lengthPrefixed());
+    default:
+      throw new Error(`Unsupported field kind: ${spec.kind}`);
+  }
+}
+
+function unmarshalFields(schema: FieldSpec[], data: Uint8Array): Record<string, unknown> {
+  const obj: Record<string, unknown> = {};
+  if (data.length === 1 && data[0] === 0x80) {
+    return obj;
+  }
+
+  const reader = new BinaryReader(data);
+  let lastField = 0;
+
+  while (!reader.done) {
+    const field = Number(reader.uvarint());
+    const spec = schema.find(s => s.field === field);
+    if (!spec) {
+      throw new Error(`Unknown field ${field}`);
+    }
+    if (field < lastField || (field === lastField && spec.kind !== 'urlList' && spec.kind !== 'structList')) {
+      throw new Error(`Field ${field} out of order`);
+    }
+    lastField = field;
+
+    if (spec.kind === 'urlList') {
+      const list = (obj[spec.name] as unknown[]) || [];
+      list.push(readValue(reader, { ...spec, kind: 'url' }));
+      obj[spec.name] = list;
+    } else if (spec.kind === 'structList') {
+      const list = (obj[spec.name] as unknown[]) || [];
+      list.push(readValue(reader, { ...spec, kind: 'struct' }));
+      obj[spec.name] = list;
+    } else {
+      obj[spec.name] = readValue(reader, spec);
+    }
+  }
+
+  return obj;
+}
+
+// =============================================================================
+// Transaction Marshaling
+// =============================================================================
+
+function getBodySpec(type: string): BodySpec {
+  const spec = BODY_SCHEMAS[type];
+  if (!spec) {
+    throw new Error(`Unsupported transaction type: ${type}`);
+  }
+  return spec;
+}
+
+function getBodyTypeName(code: number): string {
+  const entry = Object.entries(BODY_SCHEMAS).find(([, spec]) => spec.code === code);
+  if (!entry) {
+    throw new Error(`Unsupported transaction type code: ${code}`);
+  }
+  return entry[0];
+}
+
+/**
+ * Marshals a transaction header.
+ */
+export function marshalHeader(header: AccumulateTransactionHeader): Uint8Array {
+  if (!header?.principal) {
+    throw new Error('Transaction header is missing principal');
+  }
+  return marshalFields(HEADER_SCHEMA, header as unknown as Record<string, unknown>);
+}
+
+/**
+ * Marshals a transaction body. The type field (1) is always written.
+ */
+export function marshalBody(body: AccumulateTransactionBody): Uint8Array {
+  const spec = getBodySpec(body?.type);
+  const writer = new BinaryWriter();
+  writer.field(1);
+  writer.uvarint(spec.code);
+  writeFields(writer, spec.fields, body);
+  return writer.toBytes();
+}
+
+/**
+ * Marshals a full transaction (header = field 1, body = field 2).
+ */
+export function marshalTransaction(tx: AccumulateTransaction): Uint8Array {
+  const writer = new BinaryWriter();
+  writer.field(1);
+  writer.lengthPrefixed(marshalHeader(tx.header));
+  writer.field(2);
+  writer.lengthPrefixed(marshalBody(tx.body));
+  return writer.toBytes();
+}
+
+function unmarshalBody(data: Uint8Array): AccumulateTransactionBody {
+  const reader = new BinaryReader(data);
+  if (Number(reader.uvarint()) !== 1) {
+    throw new Error('Transaction body is missing type field');
+  }
+  const type = getBodyTypeName(Number(reader.uvarint()));
+  const rest = reader.rest();
+  const fields = rest.length > 0 ? unmarshalFields(getBodySpec(type).fields, rest) : {};
+  return { type, ...fields };
+}
+
+/**
+ * Unmarshals a binary transaction into its JSON form.
+ */
+export function unmarshalTransaction(data: Uint8Array): AccumulateTransaction {
+  const reader = new BinaryReader(data);
+  let header: AccumulateTransactionHeader | undefined;
+  let body: AccumulateTransactionBody | undefined;
+
+  while (!reader.done) {
+    const field = Number(reader.uvarint());
+    if (field === 1 && !header && !body) {
+      header = unmarshalFields(HEADER_SCHEMA, reader.lengthPrefixed()) as unknown as AccumulateTransactionHeader;
+    } else if (field === 2 && !body) {
+      body = unmarshalBody(reader.lengthPrefixed());
+    } else {
+      throw new Error(`Unexpected transaction field ${field}`);
+    }
+  }
+
+  if (!header || !body) {
+    throw new Error('Transaction must contain a header and a body');
+  }
+  return { header, body };
+}
+
+/**
+ * Computes the transaction hash:
+ * SHA256(SHA256(marshal(header)) ++ SHA256(marshal(body)))
+ */
+export function hashTransaction(tx: AccumulateTransaction): Uint8Array {
+  const headerHash = sha256(marshalHeader(tx.header));
+  const bodyHash = sha256(marshalBody(tx.body));
+  const combined = new Uint8Array(64);
+  combined.set(headerHash, 0);
+  combined.set(bodyHash, 32);
+  return sha256(combined);
+}
+
+/**
+ * Decodes a transaction supplied as JSON ({ header, body }) or as a
+ * hex-encoded binary envelope, and recomputes its hash.
+ * Binary input must round-trip exactly so no unparsed bytes are signed.
+ *
+ * @param input - Transaction JSON object or hex string
+ * @returns Normalized transaction, locally computed hash and binary encoding
+ * @throws Error if the transaction cannot be decoded or uses an unsupported type
+ */
+export function verifyTransaction(input: unknown): VerifiedTransaction {
+  let transaction: AccumulateTransaction;
+  let binary: Uint8Array;
+
+  if (typeof input === 'string') {
+    const raw = fromHex(input.trim());
+    transaction = unmarshalTransaction(raw);
+    binary = marshalTransaction(transaction);
+    if (toHex(binary) !== toHex(raw)) {
+      throw new Error('Transaction binary is not canonically encoded');
+    }
+  } else if (input && typeof input === 'object') {
+    const tx = input as AccumulateTransaction;
+    binary = marshalTransaction(tx);
+    // Normalize through a round trip so the display matches what is hashed
+    transaction = unmarshalTransaction(binary);
+  } else {
+    throw new Error('Transaction must be a JSON object or hex-encoded binary');
+  }
+
+  return {
+    transaction,
+    hash: toHex(hashTransaction(transaction)),
+    binary: toHex(binary)
+  };
+}
+
+// =============================================================================
+// Signature Metadata
+// =============================================================================
+
+/**
+ * Signer information included in an Accumulate signature.
+ */
+export interface SignatureMetadata {
+  publicKey: string;                  // Hex-encoded ED25519 public key
+  signer: string;                     // Key page or lite identity URL
+  signerVersion: number;              // Key page version
+  timestamp: number;                  // Microseconds timestamp (nonce)
+  delegators?: string[];              // Delegation chain, innermost first
+}
+
+/**
+ * Marshals the metadata of an ED25519 signature
+ * (the signature with its signature bytes and transaction hash removed).
+ */
+export function marshalED25519SignatureMetadata(meta: SignatureMetadata): Uint8Array {
+  const writer = new BinaryWriter();
+  const encoder = new TextEncoder();
+
+  writer.field(1);
+  writer.uvarint(SIGNATURE_TYPE_ED25519);
+  writer.field(2);
+  writer.lengthPrefixed(fromHex(meta.publicKey));
+  writer.field(4);
+  writer.lengthPrefixed(encoder.encode(meta.signer));
+  if (meta.signerVersion) {
+    writer.field(5);
+    writer.uvarint(meta.signerVersion);
+  }
+  if (meta.timestamp) {
+    writer.field(6);
+    writer.uvarint(meta.timestamp);
+  }
+
+  return writer.toBytes();
+}
+
+/**
+ * Marshals the full signature metadata, wrapping the ED25519 metadata in one
+ * DelegatedSignature per delegator (first delegator innermost):
+ * DelegatedSignature { 1: type, 2: signature (nested), 3: delegator }
+ */
+export function marshalSignatureMetadata(meta: SignatureMetadata): Uint8Array {
+  const encoder = new TextEncoder();
+  let inner = marshalED25519SignatureMetadata(meta);
+
+  for (const delegator of meta.delegators || []) {
+    const writer = new BinaryWriter();
+    writer.field(1);
+    writer.uvarint(SIGNATURE_TYPE_DELEGATED);
+    writer.field(2);
+    writer.lengthPrefixed(inner);
+    writer.field(3);
+    writer.lengthPrefixed(encoder.encode(delegator));
+    inner = writer.toBytes();
+  }
+
+  return inner;
+}
+
+/**
+ * Computes the data an ED25519 key signs for an Accumulate transaction:
+ * dataForSignature = SHA256(SHA256(marshal(signatureMetadata)) ++ transactionHash)
+ * where the metadata is the outermost delegated signature when delegators are set.
+ *
+ * @param transactionHash - Hex-encoded 32-byte transaction hash
+ * @param meta - Signer information for the signature
+ * @returns Hex-encoded 32-byte hash to sign
+ */
+export function computeDataForSignature(
+  transactionHash: string,
+  meta: SignatureMetadata
+): string {
+  const txHash = fromHex(transactionHash);
+  if (txHash.length !== 32) {
+    throw new Error('Transaction hash must be 32 bytes');
+  }
+
+  const metadataHash = sha256(marshalSignatureMetadata(meta));
+  const combined = new Uint8Array(64);
+  combined.set(metadataHash, 0);
+  combined.set(txHash, 32);
+  return toHex(sha256(combined));
+}
+
+/**
+ * Builds the JSON form of a signed ED25519 signature, as accepted by the
+ * Accumulate API. With delegators, the key signature is nested inside one
+ * delegated signature per delegator.
+ */
+export function buildED25519Signature(
+  meta: SignatureMetadata,
+  signature: string,
+  transactionHash: string
+): AccumulateSignatureObject {
+  let result: AccumulateSignatureObject = {
+    type: 'ed25519',
+    publicKey: meta.publicKey.replace(/^0x/, ''),
+    signature: signature.replace(/^0x/, ''),
+    signer: meta.signer,
+    signerVersion: meta.signerVersion,
+    timestamp: meta.timestamp,
+    transactionHash: transactionHash.replace(/^0x/, '')
+  };
+
+  for (const delegator of meta.delegators || []) {
+    result = { type: 'delegated', signature: result, delegator };
+  }
+
+  return result;
+}
+
+/**
+ * Wraps signatures in an envelope. Includes the transaction when it is known,
+ * otherwise references it by hash (e.g. for pending transactions).
+ */
+export function buildEnvelope(
+  signatures: AccumulateSignatureObject[],
+  transactionHash: string,
+  transaction?: AccumulateTransaction
+): AccumulateEnvelope {
+  if (transaction) {
+    return { signatures, transaction: [transaction] };
+  }
+  return { signatures, txHash: transactionHash.replace(/^0x/, '') };
+}
+
+// =============================================================================
+// Display
+// =============================================================================
+
+function formatFixed(amount: string, precision: number): string {
+  const padded = amount.padStart(precision + 1, '0');
+  const whole = padded.slice(0, -precision);
+  const fraction = padded.slice(-precision).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Builds the approval details for a decoded transaction.
+ * Everything shown here comes from the bytes being hashed, not from
+ * dApp-supplied descriptions.
+ */
+export function describeTransaction(tx: AccumulateTransaction): DecodedTransactionField[] {
+  const { header, body } = tx;
+  const fields: DecodedTransactionField[] = [
+    { label: 'Type', value: body.type },
+    { label: 'Principal', value: header.principal }
+  ];
+
+  switch (body.type) {
+    case 'sendTokens':
+      for (const recipient of (body.to as { url: string; amount: string }[]) || []) {
+        fields.push({ label: 'To', value: recipient.url });
+        fields.push({ label: 'Amount', value: `${recipient.amount} (base units)` });
+      }
+      break;
+    case 'addCredits':
+      fields.push({ label: 'Recipient', value: String(body.recipient || '') });
+      fields.push({ label: 'Amount', value: `${formatFixed(String(body.amount || '0'), ACME_PRECISION)} ACME` });
+      if (body.oracle) {
+        fields.push({ label: 'Oracle', value: String(body.oracle) });
+      }
+      break;
+    case 'burnTokens':
+      fields.push({ label: 'Amount', value: `${body.amount} (base units)` });
+      break;
+    case 'burnCredits':
+      fields.push({ label: 'Credits', value: String(body.amount) });
+      break;
+    case 'transferCredits':
+      for (const recipient of (body.to as { url: string; amount: number }[]) || []) {
+        fields.push({ label: 'To', value: recipient.url });
+        fields.push({ label: 'Credits', value: String(recipient.amount) });
+      }
+      break;
+    case 'createKeyPage':
+      for (const key of (body.keys as { keyHash?: string; delegate?: string }[]) || []) {
+        fields.push({ label: 'Key', value: key.keyHash || key.delegate || '' });
+      }
+      break;
+    default:
+      for (const name of ['url', 'tokenUrl', 'keyBookUrl', 'keyHash', 'publicKeyHash']) {
+        if (body[name]) {
+          fields.push({ label: name, value: String(body[name]) });
+        }
+      }
+      for (const authority of (body.authorities as string[]) || []) {
+        fields.push({ label: 'Authority', value: authority });
+      }
+  }
+
+  if (header.memo) {
+    fields.push({ label: 'Memo', value: header.memo });
+  }
+
+  return fields;
+}
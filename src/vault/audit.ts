@@ -0,0 +1,191 @@
+/**
+ * Certen Key Vault - Signing Audit Log
+ *
+ * Hash-chained, append-only record of signing decisions. The log is stored
+ * inside the encrypted vault payload; the chain makes edits, removals and
+ * reordering detectable when the log is verified or exported.
+ *
+ * entryHash = sha256(JSON.stringify([
+ *   id, sequence, timestamp, outcome, origin, method, requestId,
+ *   keyId, keyName, signedHash, summary, error, prevHash
+ * ]))
+ *
+ * Absent optional fields are encoded as empty strings. The first entry's
+ * prevHash is AUDIT_GENESIS_HASH.
+ *
+ * Records that finish while the vault is locked are sealed to the vault's
+ * audit public key (NaCl box from a one-time key pair) and appended with
+ * the audit secret key, kept in the payload, on the next unlock.
+ */
+
+import * as nacl from 'tweetnacl';
+import { sha256 } from '@noble/hashes/sha256';
+import { AuditEntry, AuditRecord, SealedAuditRecord } from '../shared/types';
+import { toHex, fromHex, toBase64, fromBase64, generateUUID } from './crypto';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'sequence',
+  'timestamp',
+  'outcome',
+  'origin',
+  'method',
+  'keyId',
+  'keyName',
+  'signedHash',
+  'summary',
+  'error',
+  'requestId',
+  'id',
+  'prevHash',
+  'entryHash'
+];
+
+// =============================================================================
+// Hash Chain
+// =============================================================================
+
+/**
+ * Computes an entry's hash from its fields and prevHash.
+ */
+export function hashAuditEntry(entry: Omit<AuditEntry, 'entryHash'>): string {
+  const fields = [
+    entry.id,
+    entry.sequence,
+    entry.timestamp,
+    entry.outcome,
+    entry.origin,
+    entry.method,
+    entry.requestId,
+    entry.keyId ?? '',
+    entry.keyName ?? '',
+    entry.signedHash ?? '',
+    entry.summary,
+    entry.error ?? '',
+    entry.prevHash
+  ];
+  return toHex(sha256(new TextEncoder().encode(JSON.stringify(fields))));
+}
+
+/**
+ * Creates the entry that follows `log`, chained to its last entry.
+ */
+export function createAuditEntry(log: AuditEntry[], record: AuditRecord): AuditEntry {
+  const previous = log[log.length - 1];
+  const entry: Omit<AuditEntry, 'entryHash'> = {
+    id: generateUUID(),
+    sequence: log.length,
+    ...record,
+    prevHash: previous ? previous.entryHash : AUDIT_GENESIS_HASH
+  };
+  return { ...entry, entryHash: hashAuditEntry(entry) };
+}
+
+/**
+ * Verifies sequence numbers, links and hashes of the whole log.
+ *
+ * @returns valid, or the sequence of the first entry that does not verify
+ */
+export function verifyAuditLog(log: AuditEntry[]): { valid: boolean; brokenAt?: number } {
+  let prevHash = AUDIT_GENESIS_HASH;
+
+  for (let i = 0; i < log.length; i++) {
+    const { entryHash, ...entry } = log[i];
+    if (entry.sequence !== i || entry.prevHash !== prevHash || hashAuditEntry(entry) !== entryHash) {
+      return { valid: false, brokenAt: i };
+    }
+    prevHash = entryHash;
+  }
+
+  return { valid: true };
+}
+
+// =============================================================================
+// Sealed Records
+// =============================================================================
+
+/**
+ * Generates an audit secret key (hex X25519 key).
+ */
+export function generateAuditKey(): string {
+  return toHex(nacl.box.keyPair().secretKey);
+}
+
+/**
+ * Gets the public key that seals records for `secretKey`.
+ */
+export function getAuditPublicKey(secretKey: string): string {
+  return toHex(nacl.box.keyPair.fromSecretKey(fromHex(secretKey)).publicKey);
+}
+
+/**
+ * Seals a record so only the holder of the audit secret key can read it.
+ */
+export function sealAuditRecord(record: AuditRecord, publicKey: string): SealedAuditRecord {
+  const ephemeral = nacl.box.keyPair();
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const plaintext = new TextEncoder().encode(JSON.stringify(record));
+  const ciphertext = nacl.box(plaintext, nonce, fromHex(publicKey), ephemeral.secretKey);
+
+  return {
+    ephemeralPublicKey: toBase64(ephemeral.publicKey),
+    nonce: toBase64(nonce),
+    ciphertext: toBase64(ciphertext)
+  };
+}
+
+/**
+ * Opens a sealed record.
+ *
+ * @throws Error if the record was not sealed to this key or was modified
+ */
+export function openAuditRecord(sealed: SealedAuditRecord, secretKey: string): AuditRecord {
+  const plaintext = nacl.box.open(
+    fromBase64(sealed.ciphertext),
+    fromBase64(sealed.nonce),
+    fromBase64(sealed.ephemeralPublicKey),
+    fromHex(secretKey)
+  );
+  if (!plaintext) {
+    throw new Error('Sealed audit record cannot be opened');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Formats the log as JSON, with its verification result.
+ */
+export function auditLogToJson(log: AuditEntry[]): string {
+  return JSON.stringify({
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    genesisHash: AUDIT_GENESIS_HASH,
+    verification: verifyAuditLog(log),
+    entries: log
+  }, null, 2);
+}
+
+/**
+ * Formats the log as CSV (RFC 4180 quoting, ISO timestamps).
+ */
+export function auditLogToCsv(log: AuditEntry[]): string {
+  const escape = (value: unknown): string => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = log.map(entry => CSV_COLUMNS.map(column => (
+    column === 'timestamp' ? new Date(entry.timestamp).toISOString() : escape(entry[column])
+  )).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
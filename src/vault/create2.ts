@@ -7,7 +7,7 @@
 
 import { keccak_256 } from '@noble/hashes/sha3';
 import { toHex, fromHex } from './crypto';
-import { CERTEN_CONTRACTS, getContracts, isChainDeployed } from '../config/contracts';
+import { CERTEN_CONTRACTS, getContracts } from '../config/contracts';
 
 // =============================================================================
 // Types
@@ -2,10 +2,21 @@
  * Certen Key Vault - Cryptographic Utilities
  *
  * Uses Web Crypto API for secure key derivation and encryption.
- * - PBKDF2 with SHA-512 for key derivation (600K iterations - OWASP 2023)
+ * - Argon2id or scrypt for key derivation (@noble/hashes, pure TS), with
+ *   parameters recorded per vault; PBKDF2-SHA512 for legacy vaults
  * - AES-256-GCM for authenticated encryption
  */
 
+import { argon2idAsync } from '@noble/hashes/argon2';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import {
+  KdfAlgorithm,
+  KdfParams,
+  Pbkdf2KdfParams,
+  ScryptKdfParams,
+  Argon2idKdfParams
+} from '../shared/types';
+
 // =============================================================================
 // Constants
 // =============================================================================
@@ -15,23 +26,104 @@ export const SALT_LENGTH = 32;            // 256 bits
 export const IV_LENGTH = 12;              // 96 bits (GCM standard)
 export const KEY_LENGTH = 32;             // 256 bits for AES-256
 
+/**
+ * Minimum parameters per algorithm (OWASP 2023). Vaults below these, and
+ * all PBKDF2 vaults, are re-encrypted on unlock.
+ */
+export const RECOMMENDED_KDF_PARAMS: {
+  pbkdf2: Pbkdf2KdfParams;
+  scrypt: ScryptKdfParams;
+  argon2id: Argon2idKdfParams;
+} = {
+  pbkdf2: { algorithm: 'pbkdf2', iterations: PBKDF2_ITERATIONS },
+  scrypt: { algorithm: 'scrypt', N: 2 ** 17, r: 8, p: 1 },      // 128 MiB
+  argon2id: { algorithm: 'argon2id', t: 2, m: 19456, p: 1 }     // 19 MiB
+};
+
+export const DEFAULT_KDF_PARAMS: KdfParams = RECOMMENDED_KDF_PARAMS.argon2id;
+export const KDF_TARGET_UNLOCK_MS = 1000;
+
+const KDF_MAX_MEMORY_KIB = 256 * 1024;    // Keep derivation within extension memory
+const PBKDF2_MAX_ITERATIONS = 10000000;
+const ARGON2ID_MAX_BENCHMARK_MEMORY_KIB = 64 * 1024;
+const ARGON2ID_MAX_PASSES = 10;
+
 // =============================================================================
 // Key Derivation
 // =============================================================================
 
 /**
- * Derives an AES-256 encryption key from a password using PBKDF2.
+ * Derives an AES-256 encryption key from a password.
  *
  * @param password - User password
  * @param salt - Random salt (32 bytes)
- * @param iterations - PBKDF2 iterations (default: 600000)
+ * @param kdfParams - KDF algorithm and parameters (default: Argon2id)
  * @returns CryptoKey for AES-GCM encryption/decryption
  */
 export async function deriveKey(
   password: string,
   salt: Uint8Array,
-  iterations: number = PBKDF2_ITERATIONS
+  kdfParams: KdfParams = DEFAULT_KDF_PARAMS
 ): Promise<CryptoKey> {
+  const keyBytes = await deriveKeyBytes(password, salt, kdfParams);
+  try {
+    return await importEncryptionKey(keyBytes);
+  } finally {
+    secureWipe(keyBytes);
+  }
+}
+
+/**
+ * Derives the raw 256-bit vault key with the vault's KDF.
+ * Same key material as deriveKey(), for callers that need to wrap it.
+ *
+ * @returns 32-byte key (caller should secureWipe() it when done)
+ * @throws Error if the algorithm is not supported
+ */
+export async function deriveKeyBytes(
+  password: string,
+  salt: Uint8Array,
+  kdfParams: KdfParams = DEFAULT_KDF_PARAMS
+): Promise<Uint8Array> {
+  if (kdfParams.algorithm === 'pbkdf2') {
+    return derivePbkdf2(password, salt, kdfParams.iterations);
+  }
+
+  const passwordBytes = new TextEncoder().encode(password);
+  try {
+    switch (kdfParams.algorithm) {
+      case 'scrypt':
+        return await scryptAsync(passwordBytes, salt, {
+          N: kdfParams.N,
+          r: kdfParams.r,
+          p: kdfParams.p,
+          dkLen: KEY_LENGTH
+        });
+
+      case 'argon2id':
+        return await argon2idAsync(passwordBytes, salt, {
+          t: kdfParams.t,
+          m: kdfParams.m,
+          p: kdfParams.p,
+          dkLen: KEY_LENGTH
+        });
+
+      default:
+        throw new Error(`Unsupported KDF algorithm: ${(kdfParams as KdfParams).algorithm}`);
+    }
+  } finally {
+    secureWipe(passwordBytes);
+  }
+}
+
+/**
+ * PBKDF2-SHA512 via Web Crypto.
+ */
+async function derivePbkdf2(
+  password: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<Uint8Array> {
   const encoder = new TextEncoder();
 
   // Import password as raw key material
@@ -40,11 +132,10 @@ export async function deriveKey(
     encoder.encode(password),
     'PBKDF2',
     false,
-    ['deriveKey']
+    ['deriveBits']
   );
 
-  // Derive AES-256 key using PBKDF2-SHA512
-  return crypto.subtle.deriveKey(
+  const bits = await crypto.subtle.deriveBits(
     {
       name: 'PBKDF2',
       salt: salt.buffer as ArrayBuffer,
@@ -52,6 +143,174 @@ export async function deriveKey(
       hash: 'SHA-512'
     },
     passwordKey,
+    KEY_LENGTH * 8
+  );
+
+  return new Uint8Array(bits);
+}
+
+// =============================================================================
+// KDF Parameters
+// =============================================================================
+
+/**
+ * Checks that KDF parameters are well-formed, at least the recommended
+ * minimum and small enough to derive inside the extension.
+ *
+ * @param options.allowOutdated - Skip the minimum checks, for parameters read
+ *        from a stored vault that is upgraded after unlocking (the upper
+ *        bounds still apply)
+ * @throws Error describing the first problem found
+ */
+export function validateKdfParams(kdfParams: KdfParams, options: { allowOutdated?: boolean } = {}): void {
+  const checkMinimum = !options.allowOutdated;
+  const isInt = (value: unknown, min: number, max: number): boolean =>
+    Number.isSafeInteger(value) && (value as number) >= min && (value as number) <= max;
+
+  switch (kdfParams?.algorithm) {
+    case 'pbkdf2':
+      if (!isInt(kdfParams.iterations, checkMinimum ? PBKDF2_ITERATIONS : 1, PBKDF2_MAX_ITERATIONS)) {
+        throw new Error(`PBKDF2 iterations must be between ${PBKDF2_ITERATIONS} and ${PBKDF2_MAX_ITERATIONS}`);
+      }
+      return;
+
+    case 'scrypt': {
+      const { N, r, p } = kdfParams;
+      if (!isInt(N, 2, 2 ** 30) || (N & (N - 1)) !== 0) {
+        throw new Error('scrypt N must be a power of 2');
+      }
+      if (!isInt(r, 1, 32) || !isInt(p, 1, 16)) {
+        throw new Error('scrypt r must be 1-32 and p must be 1-16');
+      }
+      if (checkMinimum && N * r < RECOMMENDED_KDF_PARAMS.scrypt.N * RECOMMENDED_KDF_PARAMS.scrypt.r) {
+        throw new Error('scrypt parameters are below the recommended minimum (N=2^17, r=8)');
+      }
+      if ((128 * N * r) / 1024 > KDF_MAX_MEMORY_KIB) {
+        throw new Error(`scrypt parameters need more than ${KDF_MAX_MEMORY_KIB / 1024} MiB`);
+      }
+      return;
+    }
+
+    case 'argon2id': {
+      const { t, m, p } = kdfParams;
+      if (!isInt(p, 1, 16) || !isInt(t, 1, 64) || !isInt(m, 8 * p, KDF_MAX_MEMORY_KIB)) {
+        throw new Error(`Argon2id needs t 1-64, p 1-16 and at most ${KDF_MAX_MEMORY_KIB / 1024} MiB`);
+      }
+      if (checkMinimum && m * t < RECOMMENDED_KDF_PARAMS.argon2id.m * RECOMMENDED_KDF_PARAMS.argon2id.t) {
+        throw new Error('Argon2id parameters are below the recommended minimum (19 MiB, 2 passes)');
+      }
+      return;
+    }
+
+    default:
+      throw new Error('Unsupported KDF algorithm');
+  }
+}
+
+/**
+ * Checks whether a vault's KDF should be replaced on the next unlock:
+ * PBKDF2 (superseded by memory-hard KDFs) or parameters below the minimum.
+ */
+export function isKdfOutdated(kdfParams: KdfParams): boolean {
+  if (kdfParams.algorithm === 'pbkdf2') {
+    return true;
+  }
+
+  try {
+    validateKdfParams(kdfParams);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Parameters an outdated vault is re-encrypted with. Memory-hard vaults
+ * keep their algorithm; PBKDF2 vaults move to the default (Argon2id).
+ */
+export function getUpgradedKdfParams(kdfParams: KdfParams): KdfParams {
+  return kdfParams.algorithm === 'pbkdf2'
+    ? DEFAULT_KDF_PARAMS
+    : RECOMMENDED_KDF_PARAMS[kdfParams.algorithm];
+}
+
+/**
+ * Picks parameters for `algorithm` that take about `targetMs` to derive
+ * on this device, never below the recommended minimum.
+ *
+ * Times a cheap probe derivation (best of two, the first run includes
+ * warm-up) and scales the cost linearly.
+ *
+ * @returns the parameters and their estimated derivation time
+ */
+export async function benchmarkKdf(
+  algorithm: KdfAlgorithm,
+  targetMs: number = KDF_TARGET_UNLOCK_MS
+): Promise<{ kdfParams: KdfParams; estimatedMs: number }> {
+  const probes: Record<KdfAlgorithm, KdfParams> = {
+    pbkdf2: { algorithm: 'pbkdf2', iterations: 100000 },
+    scrypt: { algorithm: 'scrypt', N: 2 ** 14, r: 8, p: 1 },
+    argon2id: { algorithm: 'argon2id', t: 1, m: RECOMMENDED_KDF_PARAMS.argon2id.m, p: 1 }
+  };
+  const probe = probes[algorithm];
+  if (!probe) {
+    throw new Error('Unsupported KDF algorithm');
+  }
+
+  const salt = generateSalt();
+  let elapsed = Infinity;
+  for (let run = 0; run < 2; run++) {
+    const start = performance.now();
+    secureWipe(await deriveKeyBytes('certen-kdf-benchmark', salt, probe));
+    elapsed = Math.min(elapsed, Math.max(performance.now() - start, 1));
+  }
+
+  const scale = targetMs / elapsed;
+  let kdfParams: KdfParams;
+  let cost: number;
+
+  switch (probe.algorithm) {
+    case 'pbkdf2': {
+      const iterations = Math.round((probe.iterations * scale) / 10000) * 10000;
+      kdfParams = {
+        algorithm: 'pbkdf2',
+        iterations: Math.min(Math.max(iterations, PBKDF2_ITERATIONS), PBKDF2_MAX_ITERATIONS)
+      };
+      cost = kdfParams.iterations / probe.iterations;
+      break;
+    }
+
+    case 'scrypt': {
+      const maxN = (KDF_MAX_MEMORY_KIB * 1024) / (128 * probe.r);
+      const N = 2 ** Math.floor(Math.log2(probe.N * scale));
+      kdfParams = { ...probe, N: Math.min(Math.max(N, RECOMMENDED_KDF_PARAMS.scrypt.N), maxN) };
+      cost = kdfParams.N / probe.N;
+      break;
+    }
+
+    default: {
+      // Spend the budget on memory first (up to 64 MiB), then on passes
+      const budget = probe.m * scale;
+      const m = Math.min(
+        Math.max(Math.floor(budget / 2 / 1024) * 1024, RECOMMENDED_KDF_PARAMS.argon2id.m),
+        ARGON2ID_MAX_BENCHMARK_MEMORY_KIB
+      );
+      const t = Math.min(Math.max(Math.floor(budget / m), RECOMMENDED_KDF_PARAMS.argon2id.t), ARGON2ID_MAX_PASSES);
+      kdfParams = { algorithm: 'argon2id', t, m, p: 1 };
+      cost = (m * t) / probe.m;
+    }
+  }
+
+  return { kdfParams, estimatedMs: Math.round(elapsed * cost) };
+}
+
+/**
+ * Imports raw key bytes as a non-extractable AES-256-GCM key.
+ */
+export async function importEncryptionKey(keyBytes: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    keyBytes.buffer.slice(keyBytes.byteOffset, keyBytes.byteOffset + keyBytes.byteLength) as ArrayBuffer,
     { name: 'AES-GCM', length: 256 },
     false,  // Not extractable
     ['encrypt', 'decrypt']
@@ -180,6 +439,20 @@ export function fromHex(hex: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * Concatenates byte arrays.
+ */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
 /**
  * Converts Uint8Array to base64 string.
  */
@@ -6,6 +6,7 @@
  */
 
 import * as nacl from 'tweetnacl';
+import { ed25519 } from '@noble/curves/ed25519';
 import { toHex, fromHex } from './crypto';
 
 // =============================================================================
@@ -126,6 +127,24 @@ export function verifyED25519(
   return nacl.sign.detached.verify(message, signature, publicKey);
 }
 
+/**
+ * Validates that a public key is a 32-byte point on the ED25519 curve.
+ *
+ * @param publicKey - Public key to validate
+ * @returns true if the public key is valid
+ */
+export function isValidED25519PublicKey(publicKey: Uint8Array): boolean {
+  if (publicKey.length !== 32) {
+    return false;
+  }
+  try {
+    ed25519.ExtendedPoint.fromHex(publicKey);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 // =============================================================================
 // Accumulate-Specific Functions
 // =============================================================================
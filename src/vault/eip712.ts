@@ -0,0 +1,338 @@
+/**
+ * Certen Key Vault - EIP-712 Typed Data Hashing
+ *
+ * Implements EIP-712 v4 structured data hashing (including arrays and nested
+ * structs) and signing with secp256k1 keys.
+ * https://eips.ethereum.org/EIPS/eip-712
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { signSecp256k1 } from './secp256k1';
+import { fromHex, concatBytes } from './crypto';
+import { TypedData, TypedDataField } from '../shared/types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Field order mandated by EIP-712 for the EIP712Domain struct
+const DOMAIN_FIELD_ORDER: TypedDataField[] = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' },
+  { name: 'salt', type: 'bytes32' }
+];
+
+const UINT256_MAX = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+// =============================================================================
+// Type Encoding
+// =============================================================================
+
+/**
+ * Strips array suffixes from a type name (e.g. "Person[][2]" -> "Person").
+ */
+function baseType(type: string): string {
+  const index = type.indexOf('[');
+  return index === -1 ? type : type.slice(0, index);
+}
+
+/**
+ * Collects a struct type and all struct types it references, recursively.
+ */
+function findTypeDependencies(
+  primaryType: string,
+  types: Record<string, TypedDataField[]>,
+  found: Set<string> = new Set()
+): Set<string> {
+  const name = baseType(primaryType);
+  if (found.has(name) || !types[name]) {
+    return found;
+  }
+
+  found.add(name);
+  for (const field of types[name]) {
+    findTypeDependencies(field.type, types, found);
+  }
+  return found;
+}
+
+/**
+ * Encodes a struct type as "Name(type1 name1,...)" followed by its
+ * dependencies sorted by name.
+ */
+export function encodeType(primaryType: string, types: Record<string, TypedDataField[]>): string {
+  const dependencies = findTypeDependencies(primaryType, types);
+  dependencies.delete(primaryType);
+
+  const ordered = [primaryType, ...Array.from(dependencies).sort()];
+  return ordered
+    .map(name => `${name}(${types[name].map(f => `${f.type} ${f.name}`).join(',')})`)
+    .join('');
+}
+
+/**
+ * Computes typeHash = keccak256(encodeType(primaryType)).
+ */
+export function hashType(primaryType: string, types: Record<string, TypedDataField[]>): Uint8Array {
+  return keccak_256(new TextEncoder().encode(encodeType(primaryType, types)));
+}
+
+// =============================================================================
+// Value Encoding
+// =============================================================================
+
+/**
+ * Parses a numeric value (number, bigint, decimal or 0x-hex string).
+ */
+function toBigInt(value: unknown): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Unsafe integer value: ${value}`);
+    }
+    return BigInt(value);
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('-')) {
+      return -BigInt(trimmed.slice(1));
+    }
+    return BigInt(trimmed);
+  }
+  throw new Error(`Invalid numeric value: ${String(value)}`);
+}
+
+/**
+ * Encodes a bigint as a 32-byte big-endian word (two's complement for negatives).
+ */
+function encodeWord(value: bigint): Uint8Array {
+  let n = value < BigInt(0) ? (UINT256_MAX + value + BigInt(1)) : value;
+  const word = new Uint8Array(32);
+  for (let i = 31; i >= 0; i--) {
+    word[i] = Number(n & BigInt(0xff));
+    n >>= BigInt(8);
+  }
+  return word;
+}
+
+/**
+ * Converts a value of type `bytes`/`bytesN` to raw bytes.
+ */
+function toBytes(value: unknown): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if (typeof value === 'string') {
+    if (!/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+      throw new Error(`Invalid hex bytes value: ${value}`);
+    }
+    return fromHex(value);
+  }
+  throw new Error('Invalid bytes value');
+}
+
+/**
+ * Encodes a single value according to its EIP-712 type into a 32-byte word.
+ */
+function encodeValue(
+  type: string,
+  value: unknown,
+  types: Record<string, TypedDataField[]>
+): Uint8Array {
+  // Arrays: keccak256 of the concatenated encoded elements
+  if (type.endsWith(']')) {
+    if (!Array.isArray(value)) {
+      throw new Error(`Expected array for type ${type}`);
+    }
+    const elementType = type.slice(0, type.lastIndexOf('['));
+    const fixedLength = type.slice(type.lastIndexOf('[') + 1, -1);
+    if (fixedLength && Number(fixedLength) !== value.length) {
+      throw new Error(`Expected ${fixedLength} elements for type ${type}`);
+    }
+    return keccak_256(concatBytes(value.map(item => encodeValue(elementType, item, types))));
+  }
+
+  // Nested structs: hashStruct of the value
+  if (types[type]) {
+    return hashStruct(type, value as Record<string, unknown>, types);
+  }
+
+  if (type === 'string') {
+    return keccak_256(new TextEncoder().encode(String(value)));
+  }
+
+  if (type === 'bytes') {
+    return keccak_256(toBytes(value));
+  }
+
+  if (type === 'bool') {
+    const flag = value === true || value === 'true' || value === 1 || value === '1';
+    return encodeWord(flag ? BigInt(1) : BigInt(0));
+  }
+
+  if (type === 'address') {
+    const bytes = toBytes(value);
+    if (bytes.length !== 20) {
+      throw new Error(`Invalid address: ${String(value)}`);
+    }
+    const word = new Uint8Array(32);
+    word.set(bytes, 12);
+    return word;
+  }
+
+  const bytesMatch = type.match(/^bytes(\d+)$/);
+  if (bytesMatch) {
+    const size = Number(bytesMatch[1]);
+    const bytes = toBytes(value);
+    if (size < 1 || size > 32 || bytes.length !== size) {
+      throw new Error(`Invalid ${type} value`);
+    }
+    const word = new Uint8Array(32);
+    word.set(bytes, 0);
+    return word;
+  }
+
+  const intMatch = type.match(/^(u?)int(\d*)$/);
+  if (intMatch) {
+    const unsigned = intMatch[1] === 'u';
+    const bits = intMatch[2] ? Number(intMatch[2]) : 256;
+    const n = toBigInt(value);
+    const limit = BigInt(1) << BigInt(unsigned ? bits : bits - 1);
+    if (unsigned ? (n < BigInt(0) || n >= limit) : (n < -limit || n >= limit)) {
+      throw new Error(`Value out of range for ${type}`);
+    }
+    return encodeWord(n);
+  }
+
+  throw new Error(`Unsupported EIP-712 type: ${type}`);
+}
+
+/**
+ * Encodes struct data as typeHash followed by the encoded member values.
+ */
+export function encodeData(
+  primaryType: string,
+  data: Record<string, unknown>,
+  types: Record<string, TypedDataField[]>
+): Uint8Array {
+  if (!types[primaryType]) {
+    throw new Error(`Unknown struct type: ${primaryType}`);
+  }
+  if (!data || typeof data !== 'object') {
+    throw new Error(`Expected object for struct ${primaryType}`);
+  }
+
+  const encoded: Uint8Array[] = [hashType(primaryType, types)];
+  for (const field of types[primaryType]) {
+    if (data[field.name] === undefined || data[field.name] === null) {
+      throw new Error(`Missing value for ${primaryType}.${field.name}`);
+    }
+    encoded.push(encodeValue(field.type, data[field.name], types));
+  }
+  return concatBytes(encoded);
+}
+
+/**
+ * Computes hashStruct = keccak256(encodeData(primaryType, data)).
+ */
+export function hashStruct(
+  primaryType: string,
+  data: Record<string, unknown>,
+  types: Record<string, TypedDataField[]>
+): Uint8Array {
+  return keccak_256(encodeData(primaryType, data, types));
+}
+
+// =============================================================================
+// Typed Data Hashing
+// =============================================================================
+
+/**
+ * Computes the EIP-712 domain separator.
+ * Uses the EIP712Domain definition from `types` if present, otherwise infers
+ * it from the fields set on the domain.
+ */
+export function hashDomain(typedData: TypedData): Uint8Array {
+  const domain = typedData.domain as Record<string, unknown>;
+  const domainFields = typedData.types.EIP712Domain
+    || DOMAIN_FIELD_ORDER.filter(f => domain[f.name] !== undefined);
+
+  return hashStruct('EIP712Domain', domain, { ...typedData.types, EIP712Domain: domainFields });
+}
+
+/**
+ * Computes the EIP-712 signing hash:
+ * keccak256("\x19\x01" ++ domainSeparator ++ hashStruct(message))
+ *
+ * @param typedData - Full typed data payload (types, primaryType, domain, message)
+ * @returns 32-byte digest ready for signing
+ */
+export function hashTypedData(typedData: TypedData): Uint8Array {
+  validateTypedData(typedData);
+
+  const parts: Uint8Array[] = [new Uint8Array([0x19, 0x01]), hashDomain(typedData)];
+
+  // When the primary type is the domain itself, the message hash is omitted
+  if (typedData.primaryType !== 'EIP712Domain') {
+    parts.push(hashStruct(typedData.primaryType, typedData.message, typedData.types));
+  }
+
+  return keccak_256(concatBytes(parts));
+}
+
+/**
+ * Signs EIP-712 typed data with a secp256k1 private key.
+ *
+ * @param typedData - Full typed data payload
+ * @param privateKey - 32-byte private key
+ * @returns 65-byte signature (r + s + v)
+ */
+export async function signTypedData(
+  typedData: TypedData,
+  privateKey: Uint8Array
+): Promise<Uint8Array> {
+  return signSecp256k1(hashTypedData(typedData), privateKey);
+}
+
+/**
+ * Parses typed data supplied as a JSON string or object and checks its shape.
+ *
+ * @throws Error if the payload is not valid EIP-712 typed data
+ */
+export function parseTypedData(input: unknown): TypedData {
+  const typedData = (typeof input === 'string' ? JSON.parse(input) : input) as TypedData;
+  validateTypedData(typedData);
+  return typedData;
+}
+
+/**
+ * Validates the top-level structure of an EIP-712 payload.
+ */
+function validateTypedData(typedData: TypedData): void {
+  if (!typedData || typeof typedData !== 'object') {
+    throw new Error('Typed data must be an object');
+  }
+  if (!typedData.types || typeof typedData.types !== 'object') {
+    throw new Error('Typed data is missing types');
+  }
+  if (!typedData.primaryType || (typedData.primaryType !== 'EIP712Domain' && !typedData.types[typedData.primaryType])) {
+    throw new Error(`Primary type not defined: ${typedData.primaryType}`);
+  }
+  if (!typedData.domain || typeof typedData.domain !== 'object') {
+    throw new Error('Typed data is missing domain');
+  }
+  if (!typedData.message || typeof typedData.message !== 'object') {
+    throw new Error('Typed data is missing message');
+  }
+}
+
+/**
+ * Returns the domain chainId as a number, or undefined if not set.
+ */
+export function getTypedDataChainId(typedData: TypedData): number | undefined {
+  const chainId = typedData.domain.chainId;
+  if (chainId === undefined || chainId === null) {
+    return undefined;
+  }
+  return Number(toBigInt(chainId));
+}
@@ -0,0 +1,302 @@
+/**
+ * Certen Key Vault - EVM Transaction Signing
+ *
+ * RLP-encodes and signs legacy (EIP-155), EIP-2930 and EIP-1559 transactions.
+ * https://eips.ethereum.org/EIPS/eip-155
+ * https://eips.ethereum.org/EIPS/eip-2930
+ * https://eips.ethereum.org/EIPS/eip-1559
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { signSecp256k1 } from './secp256k1';
+import { toHex, fromHex, concatBytes } from './crypto';
+import { EvmTransaction, EvmAccessListEntry } from '../shared/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type RlpInput = Uint8Array | RlpInput[];
+
+/**
+ * Result of signing an EVM transaction.
+ */
+export interface SignedEvmTransaction {
+  rawTransaction: string;             // 0x-prefixed signed, serialized transaction
+  transactionHash: string;            // 0x-prefixed keccak256 of rawTransaction
+  signature: string;                  // 0x-prefixed r + s + v (65 bytes)
+}
+
+// =============================================================================
+// RLP Encoding
+// =============================================================================
+
+function encodeLength(length: number, offset: number): Uint8Array {
+  if (length < 56) {
+    return new Uint8Array([offset + length]);
+  }
+  const lengthBytes = quantityToBytes(BigInt(length));
+  return new Uint8Array([offset + 55 + lengthBytes.length, ...lengthBytes]);
+}
+
+/**
+ * RLP-encodes a byte string or a nested list of byte strings.
+ */
+export function rlpEncode(input: RlpInput): Uint8Array {
+  if (input instanceof Uint8Array) {
+    if (input.length === 1 && input[0] < 0x80) {
+      return input;
+    }
+    return concatBytes([encodeLength(input.length, 0x80), input]);
+  }
+
+  const payload = concatBytes(input.map(rlpEncode));
+  return concatBytes([encodeLength(payload.length, 0xc0), payload]);
+}
+
+// =============================================================================
+// Field Parsing
+// =============================================================================
+
+/**
+ * Minimal big-endian encoding of an integer (zero encodes as empty bytes).
+ */
+function quantityToBytes(value: bigint): Uint8Array {
+  if (value === BigInt(0)) {
+    return new Uint8Array(0);
+  }
+  let hex = value.toString(16);
+  if (hex.length % 2) hex = '0' + hex;
+  return fromHex(hex);
+}
+
+function parseQuantity(value: unknown, name: string): bigint {
+  if (value === undefined || value === null || value === '') {
+    return BigInt(0);
+  }
+  try {
+    const n = BigInt(value as string | number | bigint);
+    if (n < BigInt(0)) throw new Error();
+    return n;
+  } catch {
+    throw new Error(`Invalid ${name}: ${String(value)}`);
+  }
+}
+
+function toQuantityHex(value: bigint): string {
+  return '0x' + value.toString(16);
+}
+
+function parseAddress(value: unknown, name: string): string {
+  if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+    throw new Error(`Invalid ${name} address: ${String(value)}`);
+  }
+  return value;
+}
+
+function parseData(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '0x';
+  }
+  if (typeof value !== 'string' || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+    throw new Error('Invalid data: must be 0x-prefixed hex');
+  }
+  return value.toLowerCase();
+}
+
+function parseAccessList(value: unknown): EvmAccessListEntry[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('Invalid accessList');
+  }
+  return value.map(entry => ({
+    address: parseAddress(entry?.address, 'accessList'),
+    storageKeys: (entry?.storageKeys || []).map((key: unknown) => {
+      if (typeof key !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(key)) {
+        throw new Error(`Invalid accessList storage key: ${String(key)}`);
+      }
+      return key;
+    })
+  }));
+}
+
+/**
+ * Normalizes an unsigned transaction request (JSON-RPC style fields).
+ * The type is taken from `type`, or inferred: maxFeePerGas -> EIP-1559,
+ * accessList -> EIP-2930, otherwise legacy.
+ *
+ * @param value - Transaction request ({ to, value, data, gas, nonce, chainId, ... })
+ * @param defaultChainId - Chain to bind to when the request has no chainId
+ * @throws Error if a field is malformed or required fields are missing
+ */
+export function parseEvmTransaction(value: unknown, defaultChainId?: number): EvmTransaction {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Transaction must be an object');
+  }
+  const input = value as Record<string, unknown>;
+
+  let type: 0 | 1 | 2;
+  if (input.type !== undefined && input.type !== null) {
+    const parsed = Number(parseQuantity(input.type, 'type'));
+    if (parsed !== 0 && parsed !== 1 && parsed !== 2) {
+      throw new Error(`Unsupported transaction type: ${input.type}`);
+    }
+    type = parsed;
+  } else if (input.maxFeePerGas !== undefined || input.maxPriorityFeePerGas !== undefined) {
+    type = 2;
+  } else if (input.accessList !== undefined) {
+    type = 1;
+  } else {
+    type = 0;
+  }
+
+  const chainId = input.chainId !== undefined && input.chainId !== null
+    ? Number(parseQuantity(input.chainId, 'chainId'))
+    : defaultChainId;
+  if (!chainId) {
+    throw new Error('Transaction chainId is required');
+  }
+
+  if (input.nonce === undefined || input.nonce === null) {
+    throw new Error('Transaction nonce is required');
+  }
+  const gasLimit = input.gas ?? input.gasLimit;
+  if (gasLimit === undefined || gasLimit === null) {
+    throw new Error('Transaction gas limit is required');
+  }
+
+  const tx: EvmTransaction = {
+    type,
+    chainId,
+    nonce: toQuantityHex(parseQuantity(input.nonce, 'nonce')),
+    to: input.to ? parseAddress(input.to, 'to') : undefined,
+    value: toQuantityHex(parseQuantity(input.value, 'value')),
+    data: parseData(input.data ?? input.input),
+    gasLimit: toQuantityHex(parseQuantity(gasLimit, 'gas'))
+  };
+
+  if (type === 2) {
+    if (input.maxFeePerGas === undefined || input.maxPriorityFeePerGas === undefined) {
+      throw new Error('EIP-1559 transactions require maxFeePerGas and maxPriorityFeePerGas');
+    }
+    tx.maxFeePerGas = toQuantityHex(parseQuantity(input.maxFeePerGas, 'maxFeePerGas'));
+    tx.maxPriorityFeePerGas = toQuantityHex(parseQuantity(input.maxPriorityFeePerGas, 'maxPriorityFeePerGas'));
+  } else {
+    if (input.gasPrice === undefined) {
+      throw new Error('Legacy and EIP-2930 transactions require gasPrice');
+    }
+    tx.gasPrice = toQuantityHex(parseQuantity(input.gasPrice, 'gasPrice'));
+  }
+
+  if (type !== 0) {
+    tx.accessList = parseAccessList(input.accessList);
+  }
+
+  return tx;
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+function q(value: string | undefined): Uint8Array {
+  return quantityToBytes(BigInt(value || '0x0'));
+}
+
+function encodeAccessList(accessList: EvmAccessListEntry[] = []): RlpInput[] {
+  return accessList.map(entry => [
+    fromHex(entry.address),
+    entry.storageKeys.map(key => fromHex(key))
+  ]);
+}
+
+/**
+ * Returns the transaction fields in RLP order, without signature values.
+ */
+function getFields(tx: EvmTransaction): RlpInput[] {
+  const to = tx.to ? fromHex(tx.to) : new Uint8Array(0);
+  const data = fromHex(tx.data);
+
+  switch (tx.type) {
+    case 0:
+      return [q(tx.nonce), q(tx.gasPrice), q(tx.gasLimit), to, q(tx.value), data];
+    case 1:
+      return [
+        quantityToBytes(BigInt(tx.chainId)), q(tx.nonce), q(tx.gasPrice), q(tx.gasLimit),
+        to, q(tx.value), data, encodeAccessList(tx.accessList)
+      ];
+    case 2:
+      return [
+        quantityToBytes(BigInt(tx.chainId)), q(tx.nonce), q(tx.maxPriorityFeePerGas),
+        q(tx.maxFeePerGas), q(tx.gasLimit), to, q(tx.value), data, encodeAccessList(tx.accessList)
+      ];
+  }
+}
+
+function withTypePrefix(type: number, payload: Uint8Array): Uint8Array {
+  return type === 0 ? payload : concatBytes([new Uint8Array([type]), payload]);
+}
+
+/**
+ * Serializes the unsigned transaction. Legacy transactions include
+ * (chainId, 0, 0) per EIP-155.
+ */
+export function serializeUnsignedTransaction(tx: EvmTransaction): Uint8Array {
+  const fields = getFields(tx);
+  if (tx.type === 0) {
+    fields.push(quantityToBytes(BigInt(tx.chainId)), new Uint8Array(0), new Uint8Array(0));
+  }
+  return withTypePrefix(tx.type, rlpEncode(fields));
+}
+
+/**
+ * Computes the hash signed for the transaction.
+ */
+export function getTransactionSigningHash(tx: EvmTransaction): Uint8Array {
+  return keccak_256(serializeUnsignedTransaction(tx));
+}
+
+/**
+ * Signs an EVM transaction with a secp256k1 private key.
+ *
+ * @param tx - Normalized transaction (see parseEvmTransaction)
+ * @param privateKey - 32-byte private key
+ * @returns Raw signed transaction, its hash and the signature
+ */
+export async function signEvmTransaction(
+  tx: EvmTransaction,
+  privateKey: Uint8Array
+): Promise<SignedEvmTransaction> {
+  const signature = await signSecp256k1(getTransactionSigningHash(tx), privateKey);
+  const r = stripLeadingZeros(signature.slice(0, 32));
+  const s = stripLeadingZeros(signature.slice(32, 64));
+  const recovery = signature[64] - 27;
+
+  const fields = getFields(tx);
+  if (tx.type === 0) {
+    // EIP-155: v = chainId * 2 + 35 + recovery
+    const v = BigInt(tx.chainId) * BigInt(2) + BigInt(35 + recovery);
+    fields.push(quantityToBytes(v), r, s);
+  } else {
+    fields.push(quantityToBytes(BigInt(recovery)), r, s);
+  }
+
+  const raw = withTypePrefix(tx.type, rlpEncode(fields));
+  return {
+    rawTransaction: '0x' + toHex(raw),
+    transactionHash: '0x' + toHex(keccak_256(raw)),
+    signature: '0x' + toHex(signature)
+  };
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+function stripLeadingZeros(bytes: Uint8Array): Uint8Array {
+  let i = 0;
+  while (i < bytes.length && bytes[i] === 0) i++;
+  return bytes.slice(i);
+}
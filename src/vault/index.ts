@@ -5,6 +5,8 @@
 // Crypto utilities
 export {
   deriveKey,
+  deriveKeyBytes,
+  importEncryptionKey,
   encrypt,
   decrypt,
   generateSalt,
@@ -15,7 +17,14 @@ export {
   toBase64,
   fromBase64,
   secureWipe,
+  validateKdfParams,
+  isKdfOutdated,
+  getUpgradedKdfParams,
+  benchmarkKdf,
   PBKDF2_ITERATIONS,
+  RECOMMENDED_KDF_PARAMS,
+  DEFAULT_KDF_PARAMS,
+  KDF_TARGET_UNLOCK_MS,
   SALT_LENGTH,
   IV_LENGTH,
   KEY_LENGTH
@@ -29,6 +38,7 @@ export {
   signED25519,
   signED25519Hex,
   verifyED25519,
+  isValidED25519PublicKey,
   generateLiteAccountUrl,
   getPublicKeyHash,
   type ED25519KeyPair
@@ -39,6 +49,7 @@ export {
   generateSecp256k1Key,
   secp256k1FromPrivateKey,
   secp256k1FromPrivateKeyHex,
+  normalizeSecp256k1PublicKey,
   signSecp256k1,
   signSecp256k1Hex,
   verifySecp256k1,
@@ -49,6 +60,95 @@ export {
   type EthereumSignature
 } from './secp256k1';
 
+// EIP-712 typed data
+export {
+  encodeType,
+  hashType,
+  encodeData,
+  hashStruct,
+  hashDomain,
+  hashTypedData,
+  signTypedData,
+  parseTypedData,
+  getTypedDataChainId
+} from './eip712';
+
+// EVM transactions
+export {
+  rlpEncode,
+  parseEvmTransaction,
+  serializeUnsignedTransaction,
+  getTransactionSigningHash,
+  signEvmTransaction,
+  type SignedEvmTransaction
+} from './evmTransaction';
+
+// ABI calldata encoding and decoding
+export {
+  getFunctionSignature,
+  getFunctionSelector,
+  encodeFunctionData,
+  decodeFunctionData,
+  decodeCertenCall
+} from './abi';
+
+// Certen intents
+export {
+  CERTEN_INTENT_DOMAIN,
+  parseCertenIntent,
+  isIntentExpired,
+  encodeCertenIntent,
+  hashCertenIntent,
+  type CertenIntent
+} from './intent';
+
+// ERC-4337 UserOperations
+export {
+  parseUserOperation,
+  getUserOperationHash,
+  signUserOperationHash,
+  buildCertenInitCode,
+  summarizeUserOperationCall
+} from './userOperation';
+
+// Signing audit log
+export {
+  AUDIT_GENESIS_HASH,
+  hashAuditEntry,
+  createAuditEntry,
+  verifyAuditLog,
+  auditLogToJson,
+  auditLogToCsv
+} from './audit';
+
+// Vault schema migrations
+export {
+  VAULT_MIGRATIONS,
+  CURRENT_VAULT_VERSION,
+  getPendingMigrations,
+  migrateVaultPayload,
+  validateVaultPayload,
+  type VaultMigration
+} from './migrations';
+
+// Accumulate transaction encoding
+export {
+  marshalHeader,
+  marshalBody,
+  marshalTransaction,
+  unmarshalTransaction,
+  hashTransaction,
+  verifyTransaction,
+  marshalED25519SignatureMetadata,
+  marshalSignatureMetadata,
+  computeDataForSignature,
+  buildED25519Signature,
+  buildEnvelope,
+  describeTransaction,
+  type VerifiedTransaction,
+  type SignatureMetadata
+} from './accumulate';
+
 // BLS12-381 operations
 export {
   generateBLS12381Key,
@@ -111,7 +211,13 @@ export {
   deriveSecp256k1FromMnemonic,
   deriveBLS12381FromMnemonic,
   deriveAllKeysFromMnemonic,
+  deriveKeyAtPath,
+  parseDerivationPath,
+  formatDerivationPath,
+  normalizeDerivationPath,
+  getDefaultDerivationPath,
   getNextDerivationIndex,
+  MAX_DERIVATION_INDEX,
   ACCUMULATE_COIN_TYPE,
   ETHEREUM_COIN_TYPE,
   BLS_COIN_TYPE,
@@ -120,8 +226,31 @@ export {
   DEFAULT_BLS_PATH,
   type DerivedED25519Key,
   type DerivedSecp256k1Key,
-  type DerivedBLS12381Key
+  type DerivedBLS12381Key,
+  type DerivedKeyAtPath,
+  type PathSegment
 } from './mnemonic';
 
 // Key Store
 export { KeyStore, keyStore } from './keyStore';
+
+// Key Import Formats
+export {
+  detectKeyFormat,
+  keyImportNeedsPassword,
+  parseImportedKey,
+  KEY_IMPORT_FORMAT_NAMES,
+  type KeyImportFormat,
+  type ParsedImportKey
+} from './keyImport';
+
+// Key Export Formats
+export {
+  exportKey,
+  keyExportNeedsPassword,
+  KEY_EXPORT_FORMATS,
+  KEY_EXPORT_FORMAT_NAMES,
+  MIN_EXPORT_PASSWORD_LENGTH,
+  type KeyExportFormat,
+  type ExportedKeyFile
+} from './keyExport';
@@ -0,0 +1,155 @@
+/**
+ * Certen Key Vault - Cross-Chain Intent Hashing
+ *
+ * Canonical encoding of Certen intents. The vault computes the intent hash
+ * itself from the intent fields, so the requesting site cannot choose the
+ * bytes that get signed.
+ *
+ * Encoding (all fields in this order, each as uint32 big-endian length + bytes):
+ *   "CertenIntent/v1", adiUrl, actionType, targetChain, targetAddress,
+ *   amount, nonce, expiry
+ *
+ * Strings are UTF-8; amount, nonce and expiry are canonical base-10 integers.
+ * intentHash = sha256(encoding)
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { toHex, concatBytes } from './crypto';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Domain separation tag, prefixed to every intent encoding.
+ */
+export const CERTEN_INTENT_DOMAIN = 'CertenIntent/v1';
+
+/**
+ * Normalized intent fields covered by the hash.
+ */
+export interface CertenIntent {
+  adiUrl: string;                     // Lowercase acc:// URL
+  actionType: string;
+  targetChain: string;                // Empty if not applicable
+  targetAddress: string;              // Empty if not applicable
+  amount: string;                     // Base units, base-10 ("0" if not applicable)
+  nonce: string;                      // Base-10
+  expiry: number;                     // Unix seconds
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function parseInteger(value: unknown, name: string): bigint {
+  if (value === undefined || value === null || value === '') {
+    throw new Error(`Intent ${name} is required`);
+  }
+  if (typeof value !== 'number' && typeof value !== 'string' && typeof value !== 'bigint') {
+    throw new Error(`Invalid intent ${name}`);
+  }
+  if (typeof value === 'string' && !/^(0x[0-9a-fA-F]+|\d+)$/.test(value)) {
+    throw new Error(`Invalid intent ${name}: ${value}`);
+  }
+  try {
+    const n = BigInt(value);
+    if (n < BigInt(0)) throw new Error();
+    return n;
+  } catch {
+    throw new Error(`Invalid intent ${name}: ${String(value)}`);
+  }
+}
+
+function parseText(value: unknown, name: string, required: boolean): string {
+  if (value === undefined || value === null || value === '') {
+    if (required) {
+      throw new Error(`Intent ${name} is required`);
+    }
+    return '';
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid intent ${name}`);
+  }
+  return value.trim();
+}
+
+/**
+ * Normalizes intent fields from a request.
+ *
+ * @throws Error if a field is missing or malformed
+ */
+export function parseCertenIntent(value: unknown): CertenIntent {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Intent must be an object');
+  }
+  const input = value as Record<string, unknown>;
+
+  const adiUrl = parseText(input.adiUrl, 'adiUrl', true).toLowerCase();
+  if (!adiUrl.startsWith('acc://')) {
+    throw new Error(`Invalid intent adiUrl: ${adiUrl}`);
+  }
+
+  const expiry = parseInteger(input.expiry, 'expiry');
+  if (expiry > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error(`Invalid intent expiry: ${String(input.expiry)}`);
+  }
+
+  return {
+    adiUrl,
+    actionType: parseText(input.actionType, 'actionType', true),
+    targetChain: parseText(input.targetChain, 'targetChain', false),
+    targetAddress: parseText(input.targetAddress, 'targetAddress', false),
+    amount: input.amount === undefined || input.amount === null || input.amount === ''
+      ? '0'
+      : parseInteger(input.amount, 'amount').toString(),
+    nonce: parseInteger(input.nonce, 'nonce').toString(),
+    expiry: Number(expiry)
+  };
+}
+
+/**
+ * Checks whether the intent has expired.
+ *
+ * @param now - Current time in milliseconds (defaults to Date.now())
+ */
+export function isIntentExpired(intent: CertenIntent, now: number = Date.now()): boolean {
+  return intent.expiry * 1000 <= now;
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+function encodeField(value: string): Uint8Array {
+  const bytes = new TextEncoder().encode(value);
+  const out = new Uint8Array(4 + bytes.length);
+  new DataView(out.buffer).setUint32(0, bytes.length);
+  out.set(bytes, 4);
+  return out;
+}
+
+/**
+ * Returns the canonical, domain-separated encoding of an intent.
+ */
+export function encodeCertenIntent(intent: CertenIntent): Uint8Array {
+  return concatBytes([
+    encodeField(CERTEN_INTENT_DOMAIN),
+    encodeField(intent.adiUrl),
+    encodeField(intent.actionType),
+    encodeField(intent.targetChain),
+    encodeField(intent.targetAddress),
+    encodeField(intent.amount),
+    encodeField(intent.nonce),
+    encodeField(String(intent.expiry))
+  ]);
+}
+
+/**
+ * Computes the intent hash that is signed.
+ *
+ * @returns 32-byte hash as hex (no 0x prefix)
+ */
+export function hashCertenIntent(intent: CertenIntent): string {
+  return toHex(sha256(encodeCertenIntent(intent)));
+}
@@ -3,10 +3,13 @@
  *
  * Manages encrypted storage of keys using chrome.storage.local.
  * Features:
- * - Password-protected vault with PBKDF2 key derivation
+ * - Password-protected vault with Argon2id or scrypt key derivation
+ *   (legacy PBKDF2 vaults are re-encrypted on unlock)
  * - AES-256-GCM encryption at rest
  * - Auto-lock timeout
- * - Session management
+ * - Exponential backoff after failed unlock attempts (optional wipe)
+ * - Session management (survives service worker restarts via chrome.storage.session)
+ * - BIP-39 passphrase wallet branches; only the active branch's keys are visible
  */
 
 import {
@@ -15,11 +18,22 @@ import {
   VaultMetadata,
   StoredKey,
   KeyType,
-  KeyMetadata
+  KeyMetadata,
+  AuditEntry,
+  AuditRecord,
+  SealedAuditRecord,
+  KdfParams,
+  UnlockStatus,
+  WalletBranch,
+  WalletInfo,
+  DerivationOptions,
+  DiscoveredKey
 } from '../shared/types';
 
 import {
-  deriveKey,
+  deriveKeyBytes,
+  importEncryptionKey,
+  secureWipe,
   encrypt,
   decrypt,
   generateSalt,
@@ -28,19 +42,34 @@ import {
   fromBase64,
   toHex,
   fromHex,
-  PBKDF2_ITERATIONS
+  validateKdfParams,
+  isKdfOutdated,
+  getUpgradedKdfParams,
+  DEFAULT_KDF_PARAMS
 } from './crypto';
 
-import { generateED25519Key, ed25519FromPrivateKey, generateLiteAccountUrl, getPublicKeyHash } from './ed25519';
-import { generateSecp256k1Key, secp256k1FromPrivateKeyHex, getEthAddress } from './secp256k1';
-import { generateBLS12381Key, bls12381FromPrivateKeyHex } from './bls12381';
+import {
+  generateED25519Key,
+  ed25519FromPrivateKey,
+  generateLiteAccountUrl,
+  isValidED25519PublicKey
+} from './ed25519';
+import {
+  generateSecp256k1Key,
+  secp256k1FromPrivateKey,
+  secp256k1FromPrivateKeyHex,
+  normalizeSecp256k1PublicKey,
+  getEthAddress
+} from './secp256k1';
+import { generateBLS12381Key, bls12381FromPrivateKeyHex, isValidPublicKey as isValidBLS12381PublicKey } from './bls12381';
 import {
   generateMnemonic,
   validateMnemonic,
-  deriveED25519FromMnemonic,
-  deriveSecp256k1FromMnemonic,
-  deriveBLS12381FromMnemonic,
-  BLS_COIN_TYPE
+  deriveKeyAtPath,
+  normalizeDerivationPath,
+  getDefaultDerivationPath,
+  getNextDerivationIndex,
+  deriveAllKeysFromMnemonic
 } from './mnemonic';
 import {
   getSolanaAddress,
@@ -51,7 +80,12 @@ import {
   getCosmosAddresses,
   getTronAddress
 } from './addresses';
-import { predictCertenAccountForChain, CERTEN_FACTORIES } from './create2';
+import { predictCertenAccountForChain } from './create2';
+import { saveSession, touchSession, loadSession, clearSession } from './session';
+import { createAuditEntry, generateAuditKey, getAuditPublicKey, sealAuditRecord, openAuditRecord } from './audit';
+import { CURRENT_VAULT_VERSION, migrateVaultPayload, validateVaultPayload } from './migrations';
+import { UnlockThrottle } from './unlockThrottle';
+import { STORAGE_KEY_AUDIT_BUFFER, DEFAULT_WALLET_ID } from '../shared/constants';
 
 // =============================================================================
 // Constants
@@ -59,8 +93,39 @@ import { predictCertenAccountForChain, CERTEN_FACTORIES } from './create2';
 
 const STORAGE_KEY = 'certen_vault_v2';
 const STORAGE_KEY_V1 = 'certen_vault_v1';
+const STORAGE_KEY_BACKUP = 'certen_vault_backup';   // Pre-migration copy, kept while a migration is written
 const DEFAULT_AUTO_LOCK_TIMEOUT = 15 * 60 * 1000; // 15 minutes
 
+interface VaultBackup {
+  vault: EncryptedVaultData;          // Encrypted vault exactly as stored before migrating
+  storageKey: string;                 // Key it was stored under
+  createdAt: number;
+}
+
+/**
+ * Validates a decrypted current-version payload.
+ */
+function checkedPayload(payload: unknown): VaultPayload {
+  try {
+    validateVaultPayload(payload);
+    return payload;
+  } catch (error) {
+    throw new Error(`Vault data is corrupted: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * The wallet branch created with a new vault.
+ */
+function createDefaultWallet(passphrase: string): WalletBranch {
+  return {
+    id: DEFAULT_WALLET_ID,
+    name: passphrase ? 'Passphrase Wallet' : 'Main Wallet',
+    passphrase,
+    createdAt: Date.now()
+  };
+}
+
 // =============================================================================
 // KeyStore Class
 // =============================================================================
@@ -69,8 +134,13 @@ export class KeyStore {
   private derivedKey: CryptoKey | null = null;
   private payload: VaultPayload | null = null;
   private salt: Uint8Array | null = null;
+  private kdfParams: KdfParams | null = null;
   private unlockTimestamp: number = 0;
   private autoLockTimeout: number = DEFAULT_AUTO_LOCK_TIMEOUT;
+  private lockListeners: Array<() => void> = [];
+  private unlockThrottle = new UnlockThrottle();
+  private unlocking = false;
+  private auditBuffering: Promise<void> = Promise.resolve();
 
   // ==========================================================================
   // Initialization
@@ -86,38 +156,53 @@ export class KeyStore {
   }
 
   /**
-   * Checks if there's a v1 vault that needs migration.
+   * Checks if the stored vault uses an older schema and will be migrated
+   * on the next unlock.
    */
   async needsMigration(): Promise<boolean> {
     const result = await chrome.storage.local.get([STORAGE_KEY, STORAGE_KEY_V1]);
-    return !result[STORAGE_KEY] && !!result[STORAGE_KEY_V1];
+    const vaultData: EncryptedVaultData | undefined = result[STORAGE_KEY] || result[STORAGE_KEY_V1];
+    return !!vaultData && (vaultData.version || 1) < CURRENT_VAULT_VERSION;
   }
 
   /**
    * Initializes a new vault with the given password.
    *
    * @param password - User password for encryption
-   * @throws Error if vault is already initialized
+   * @param kdfParams - Key derivation settings (default: Argon2id minimum)
+   * @throws Error if vault is already initialized or kdfParams are invalid
    */
-  async initialize(password: string): Promise<void> {
+  async initialize(password: string, kdfParams: KdfParams = DEFAULT_KDF_PARAMS): Promise<void> {
     if (await this.isInitialized()) {
       throw new Error('Vault already initialized');
     }
 
+    validateKdfParams(kdfParams);
+    this.kdfParams = kdfParams;
     this.salt = generateSalt();
-    this.derivedKey = await deriveKey(password, this.salt);
-
-    this.payload = {
-      keys: [],
-      metadata: {
-        createdAt: Date.now(),
-        lastModified: Date.now(),
-        keyCount: 0
-      }
-    };
+    const keyBytes = await deriveKeyBytes(password, this.salt, kdfParams);
 
-    await this.persist();
-    this.unlockTimestamp = Date.now();
+    try {
+      this.derivedKey = await importEncryptionKey(keyBytes);
+
+      this.payload = {
+        keys: [],
+        metadata: {
+          createdAt: Date.now(),
+          lastModified: Date.now(),
+          keyCount: 0
+        },
+        wallets: [createDefaultWallet('')],
+        activeWalletId: DEFAULT_WALLET_ID,
+        auditKey: generateAuditKey()
+      };
+
+      await this.persist();
+      this.unlockTimestamp = Date.now();
+      await this.startSession(keyBytes);
+    } finally {
+      secureWipe(keyBytes);
+    }
   }
 
   /**
@@ -126,11 +211,15 @@ export class KeyStore {
    *
    * @param password - User password for encryption
    * @param mnemonic - BIP-39 mnemonic (generated if not provided)
+   * @param kdfParams - Key derivation settings (default: Argon2id minimum)
+   * @param passphrase - BIP-39 passphrase for the first wallet (default: none)
    * @returns The mnemonic phrase (for user backup)
    */
   async initializeWithMnemonic(
     password: string,
-    mnemonic?: string
+    mnemonic?: string,
+    kdfParams: KdfParams = DEFAULT_KDF_PARAMS,
+    passphrase: string = ''
   ): Promise<string> {
     if (await this.isInitialized()) {
       throw new Error('Vault already initialized');
@@ -143,8 +232,16 @@ export class KeyStore {
       throw new Error('Invalid mnemonic phrase');
     }
 
+    validateKdfParams(kdfParams);
+    this.kdfParams = kdfParams;
     this.salt = generateSalt();
-    this.derivedKey = await deriveKey(password, this.salt);
+    const keyBytes = await deriveKeyBytes(password, this.salt, kdfParams);
+    try {
+      this.derivedKey = await importEncryptionKey(keyBytes);
+      await this.startSession(keyBytes);
+    } finally {
+      secureWipe(keyBytes);
+    }
 
     this.payload = {
       keys: [],
@@ -153,13 +250,26 @@ export class KeyStore {
         lastModified: Date.now(),
         keyCount: 0
       },
-      mnemonic: finalMnemonic
+      mnemonic: finalMnemonic,
+      wallets: [createDefaultWallet(passphrase)],
+      activeWalletId: DEFAULT_WALLET_ID,
+      auditKey: generateAuditKey()
     };
 
     // Set unlock timestamp BEFORE deriving keys (isUnlocked() checks this)
     this.unlockTimestamp = Date.now();
 
-    // Derive initial keys from mnemonic
+    await this.deriveInitialKeys();
+    await this.persist();
+
+    return finalMnemonic;
+  }
+
+  /**
+   * Derives the first ED25519 and secp256k1 keys of the active wallet.
+   * Failures are logged; the wallet is usable without them.
+   */
+  private async deriveInitialKeys(): Promise<void> {
     try {
       await this.deriveKeyFromMnemonic('ed25519', 'Accumulate Key 1');
       console.log('[KeyStore] ED25519 key derived successfully');
@@ -173,10 +283,6 @@ export class KeyStore {
     } catch (err) {
       console.error('[KeyStore] Failed to derive secp256k1 key:', err);
     }
-
-    await this.persist();
-
-    return finalMnemonic;
   }
 
   // ==========================================================================
@@ -185,78 +291,236 @@ export class KeyStore {
 
   /**
    * Unlocks the vault with the given password.
-   * Automatically migrates v1 vaults to v2 format.
+   * Automatically migrates vaults with an older schema (see migrations.ts)
+   * and re-encrypts vaults whose KDF is outdated (see isKdfOutdated()).
+   *
+   * Failed attempts are counted across restarts; after a few, further
+   * attempts are refused until the backoff delay has passed, and the vault
+   * is erased if the wipe threshold (if set) is reached.
    *
    * @param password - User password
    * @returns true if successful
-   * @throws Error if password is incorrect or vault not initialized
+   * @throws Error if password is incorrect, attempts are throttled, vault
+   *         not initialized or the vault could not be migrated (the stored
+   *         vault is left unchanged)
    */
   async unlock(password: string): Promise<boolean> {
+    // One attempt at a time, so concurrent attempts cannot skip the backoff
+    if (this.unlocking) {
+      throw new Error('Another unlock attempt is in progress');
+    }
+
+    this.unlocking = true;
+    try {
+      return await this.unlockWithPassword(password);
+    } finally {
+      this.unlocking = false;
+    }
+  }
+
+  private async unlockWithPassword(password: string): Promise<boolean> {
     const result = await chrome.storage.local.get([STORAGE_KEY, STORAGE_KEY_V1]);
     let vaultData: EncryptedVaultData = result[STORAGE_KEY];
-    let needsMigration = false;
+    let storageKey = STORAGE_KEY;
 
     // Check for v1 vault if v2 doesn't exist
     if (!vaultData && result[STORAGE_KEY_V1]) {
       vaultData = result[STORAGE_KEY_V1];
-      needsMigration = true;
+      storageKey = STORAGE_KEY_V1;
     }
 
     if (!vaultData) {
       throw new Error('Vault not initialized');
     }
 
+    if ((vaultData.version || 1) > CURRENT_VAULT_VERSION) {
+      throw new Error('Vault was created by a newer version of Certen Key Vault. Please update the extension.');
+    }
+
+    // A corrupt or tampered record must not hang the worker in the KDF
+    try {
+      validateKdfParams(vaultData.kdfParams, { allowOutdated: true });
+    } catch (error) {
+      throw new Error(`Vault key derivation settings are invalid: ${error instanceof Error ? error.message : error}`);
+    }
+
+    // Enforce the backoff before running the KDF again
+    await this.unlockThrottle.check();
+
     this.salt = fromBase64(vaultData.salt);
-    this.derivedKey = await deriveKey(
-      password,
-      this.salt,
-      vaultData.kdfParams.iterations
-    );
+    this.kdfParams = vaultData.kdfParams;
+    const keyBytes = await deriveKeyBytes(password, this.salt, this.kdfParams);
 
+    let payload: unknown;
     try {
+      this.derivedKey = await importEncryptionKey(keyBytes);
+
       const iv = fromBase64(vaultData.iv);
       const ciphertext = fromBase64(vaultData.encryptedPayload);
 
       const decrypted = await decrypt(ciphertext, iv, this.derivedKey);
-      this.payload = JSON.parse(decrypted);
+      payload = JSON.parse(decrypted);
       this.unlockTimestamp = Date.now();
-
-      // Migrate v1 to v2 if needed
-      if (needsMigration) {
-        console.log('[KeyStore] Migrating vault from v1 to v2...');
-        await this.migrateFromV1();
-      }
-
-      return true;
     } catch (e) {
       this.derivedKey = null;
       this.salt = null;
+      this.kdfParams = null;
+      secureWipe(keyBytes);
+
+      const { wipe } = await this.unlockThrottle.recordFailure();
+      if (wipe) {
+        console.warn('[KeyStore] Wipe threshold reached, erasing vault');
+        await this.reset();
+        throw new Error('Too many failed attempts. The vault has been erased.');
+      }
       throw new Error('Invalid password');
     }
+
+    await this.unlockThrottle.recordSuccess();
+
+    try {
+      const version = vaultData.version || 1;
+      if (version < CURRENT_VAULT_VERSION || storageKey !== STORAGE_KEY) {
+        await this.migrate(vaultData, storageKey, payload);
+      } else {
+        this.payload = checkedPayload(payload);
+      }
+    } catch (error) {
+      this.derivedKey = null;
+      this.payload = null;
+      this.salt = null;
+      this.kdfParams = null;
+      this.unlockTimestamp = 0;
+      secureWipe(keyBytes);
+      throw error;
+    }
+
+    try {
+      await this.startSession(keyBytes);
+    } finally {
+      secureWipe(keyBytes);
+    }
+
+    if (isKdfOutdated(this.kdfParams)) {
+      await this.upgradeKdf(password);
+    }
+
+    await this.flushAuditBuffer();
+
+    return true;
+  }
+
+  /**
+   * Re-encrypts the vault with up-to-date KDF parameters and a new salt.
+   * Failure is logged and the vault stays unlocked; the upgrade is retried
+   * on the next unlock.
+   */
+  private async upgradeKdf(password: string): Promise<void> {
+    const previous = this.kdfParams!;
+    const upgraded = getUpgradedKdfParams(previous);
+
+    try {
+      await this.reencrypt(password, upgraded);
+      console.log(`[KeyStore] Upgraded vault KDF from ${previous.algorithm} to ${upgraded.algorithm}`);
+    } catch (error) {
+      console.error('[KeyStore] Failed to upgrade vault KDF:', error);
+    }
   }
 
   /**
-   * Migrates a v1 vault to v2 format.
+   * Migrates a decrypted payload to the current schema and persists it.
    * This is called automatically during unlock if needed.
+   *
+   * A step or validation failure throws before anything is written. The
+   * stored vault is then copied to STORAGE_KEY_BACKUP, put back if the
+   * migrated vault cannot be written and removed once it has been.
    */
-  private async migrateFromV1(): Promise<void> {
-    // Update vault version and persist to v2 key
-    await this.persist();
+  private async migrate(vaultData: EncryptedVaultData, storageKey: string, payload: unknown): Promise<void> {
+    const fromVersion = vaultData.version || 1;
+    console.log(`[KeyStore] Migrating vault from v${fromVersion} to v${CURRENT_VAULT_VERSION}...`);
 
-    // Remove old v1 key
-    await chrome.storage.local.remove(STORAGE_KEY_V1);
+    const migrated = migrateVaultPayload(payload, fromVersion);
 
-    console.log('[KeyStore] Migration from v1 to v2 complete');
+    const backup: VaultBackup = { vault: vaultData, storageKey, createdAt: Date.now() };
+    await chrome.storage.local.set({ [STORAGE_KEY_BACKUP]: backup });
+
+    this.payload = migrated;
+
+    try {
+      await this.persist();
+      if (storageKey !== STORAGE_KEY) {
+        await chrome.storage.local.remove(storageKey);
+      }
+    } catch (error) {
+      console.error('[KeyStore] Failed to save migrated vault, rolling back:', error);
+      await this.rollbackMigration(backup);
+      throw new Error('Vault migration failed and was rolled back. Your vault was not changed.');
+    }
+
+    await chrome.storage.local.remove(STORAGE_KEY_BACKUP);
+
+    console.log(`[KeyStore] Migration to v${CURRENT_VAULT_VERSION} complete`);
+  }
+
+  /**
+   * Restores the pre-migration vault from its backup.
+   */
+  private async rollbackMigration(backup: VaultBackup): Promise<void> {
+    await chrome.storage.local.set({ [backup.storageKey]: backup.vault });
+    if (backup.storageKey !== STORAGE_KEY) {
+      await chrome.storage.local.remove(STORAGE_KEY);
+    }
+  }
+
+  /**
+   * Returns the failed-attempt count, backoff deadline and wipe policy.
+   * Available while locked.
+   */
+  async getUnlockStatus(): Promise<UnlockStatus> {
+    return this.unlockThrottle.getStatus();
+  }
+
+  /**
+   * Sets how many consecutive failed unlocks erase the vault (null disables).
+   *
+   * @throws Error if the vault is locked or the count is out of range
+   */
+  async setWipeAfterFailures(count: number | null): Promise<void> {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+    await this.unlockThrottle.setWipeAfterFailures(count);
   }
 
   /**
    * Locks the vault, clearing all sensitive data from memory.
    */
   lock(): void {
+    const wasUnlocked = this.payload !== null;
+
     this.derivedKey = null;
     this.payload = null;
     this.salt = null;
+    this.kdfParams = null;
     this.unlockTimestamp = 0;
+
+    clearSession().catch(error => {
+      console.error('[KeyStore] Failed to clear session:', error);
+    });
+
+    if (wasUnlocked) {
+      for (const listener of this.lockListeners) {
+        listener();
+      }
+    }
+  }
+
+  /**
+   * Registers a listener called whenever an unlocked vault locks
+   * (manually or by auto-lock).
+   */
+  onLock(listener: () => void): void {
+    this.lockListeners.push(listener);
   }
 
   /**
@@ -283,6 +547,83 @@ export class KeyStore {
   refreshSession(): void {
     if (this.isUnlocked()) {
       this.unlockTimestamp = Date.now();
+      touchSession(this.unlockTimestamp).catch(error => {
+        console.error('[KeyStore] Failed to refresh session:', error);
+      });
+    }
+  }
+
+  /**
+   * Restores an unlocked vault after a service worker restart.
+   * The session is discarded if the auto-lock deadline has passed.
+   *
+   * @returns true if the vault was restored to the unlocked state
+   */
+  async restoreSession(): Promise<boolean> {
+    let session;
+    try {
+      session = await loadSession();
+    } catch (error) {
+      console.error('[KeyStore] Failed to load session:', error);
+      await clearSession();
+      return false;
+    }
+
+    if (!session) {
+      return false;
+    }
+
+    try {
+      if (Date.now() - session.unlockTimestamp > this.autoLockTimeout) {
+        await clearSession();
+        return false;
+      }
+
+      const result = await chrome.storage.local.get(STORAGE_KEY);
+      const vaultData: EncryptedVaultData | undefined = result[STORAGE_KEY];
+      if (!vaultData || vaultData.version !== CURRENT_VAULT_VERSION) {
+        await clearSession();
+        return false;
+      }
+      // Later password checks derive with these parameters
+      validateKdfParams(vaultData.kdfParams, { allowOutdated: true });
+
+      const derivedKey = await importEncryptionKey(session.keyBytes);
+      const decrypted = await decrypt(
+        fromBase64(vaultData.encryptedPayload),
+        fromBase64(vaultData.iv),
+        derivedKey
+      );
+
+      const payload = checkedPayload(JSON.parse(decrypted));
+
+      this.derivedKey = derivedKey;
+      this.payload = payload;
+      this.salt = fromBase64(vaultData.salt);
+      this.kdfParams = vaultData.kdfParams;
+      this.unlockTimestamp = session.unlockTimestamp;
+
+      console.log('[KeyStore] Session restored');
+      await this.flushAuditBuffer();
+      return true;
+    } catch (error) {
+      console.error('[KeyStore] Failed to restore session:', error);
+      await clearSession();
+      return false;
+    } finally {
+      secureWipe(session.keyBytes);
+    }
+  }
+
+  /**
+   * Stores the vault key in session storage so the unlocked state
+   * survives service worker restarts. Failure only costs a re-unlock.
+   */
+  private async startSession(keyBytes: Uint8Array): Promise<void> {
+    try {
+      await saveSession(keyBytes, this.unlockTimestamp || Date.now());
+    } catch (error) {
+      console.error('[KeyStore] Failed to save session:', error);
     }
   }
 
@@ -311,7 +652,7 @@ export class KeyStore {
 
     let publicKey: Uint8Array;
     let privateKey: Uint8Array;
-    let metadata: KeyMetadata = {};
+    const metadata: KeyMetadata = {};
 
     if (type === 'ed25519') {
       const keyPair = generateED25519Key();
@@ -350,6 +691,7 @@ export class KeyStore {
       publicKey: toHex(publicKey),
       privateKey: toHex(privateKey),
       createdAt: Date.now(),
+      walletId: this.payload!.activeWalletId,
       metadata
     };
 
@@ -364,14 +706,20 @@ export class KeyStore {
   }
 
   /**
-   * Derives a new key from the stored mnemonic.
+   * Derives a new key from the stored mnemonic in the active wallet.
+   *
+   * Without options the next unused index of account 0 is used. `account`
+   * and `index` select a position on the default path for the type; `path`
+   * gives the full derivation path (validated for the curve).
    *
    * @param type - Key type ('ed25519', 'secp256k1', or 'bls12381')
    * @param name - User-friendly name for the key
+   * @param options - Account, index or full path
    * @returns The created key (without private key)
+   * @throws Error if the path is invalid or the key is already in the wallet
    */
-  async deriveKeyFromMnemonic(type: KeyType, name: string): Promise<StoredKey> {
-    console.log('[KeyStore] deriveKeyFromMnemonic called:', { type, name });
+  async deriveKeyFromMnemonic(type: KeyType, name: string, options: DerivationOptions = {}): Promise<StoredKey> {
+    console.log('[KeyStore] deriveKeyFromMnemonic called:', { type, name, options });
 
     if (!this.isUnlocked()) {
       console.error('[KeyStore] Vault is locked');
@@ -383,42 +731,33 @@ export class KeyStore {
       throw new Error('No mnemonic stored in vault. Please reset the vault and try again.');
     }
 
-    console.log('[KeyStore] Mnemonic exists, proceeding with derivation');
-
-    // Find next available index for this key type
-    const existingPaths = this.payload!.keys
-      .filter(k => k.type === type && k.derivationPath)
-      .map(k => k.derivationPath!);
-
-    let pathPrefix: string;
-    if (type === 'ed25519') {
-      pathPrefix = `m/44'/540'/0'/0'`;
-    } else if (type === 'secp256k1') {
-      pathPrefix = `m/44'/60'/0'/0`;
-    } else if (type === 'bls12381') {
-      pathPrefix = `m/${BLS_COIN_TYPE}/60/0/0`;
+    let path: string;
+    if (options.path) {
+      path = normalizeDerivationPath(type, options.path);
     } else {
-      throw new Error(`Unsupported key type: ${type}`);
+      const account = options.account ?? 0;
+      // Next unused index of this account in the active wallet
+      const prefix = getDefaultDerivationPath(type, account, 0).replace(/\/[^/]+$/, '/');
+      const existingPaths = this.activeKeys()
+        .filter(k => k.type === type && k.derivationPath)
+        .map(k => k.derivationPath!);
+      path = getDefaultDerivationPath(type, account, options.index ?? getNextDerivationIndex(existingPaths, prefix));
     }
 
-    let nextIndex = 0;
-    for (const path of existingPaths) {
-      const match = path.match(/\/(\d+)'?$/);
-      if (match) {
-        nextIndex = Math.max(nextIndex, parseInt(match[1], 10) + 1);
-      }
+    const samePath = this.activeKeys().find(k => k.type === type && k.derivationPath === path);
+    if (samePath) {
+      throw new Error(`"${samePath.name}" is already derived at ${path}`);
     }
 
-    let publicKey: Uint8Array;
-    let privateKey: Uint8Array;
-    let derivationPath: string;
-    let metadata: KeyMetadata = { mnemonic: true };
+    const derived = deriveKeyAtPath(this.payload!.mnemonic, type, path, this.activeWallet().passphrase);
+    const publicKey = derived.publicKey;
+    const samePublicKey = this.activeKeys().find(k => k.publicKey === toHex(publicKey));
+    if (samePublicKey) {
+      throw new Error(`This key is already in the wallet as "${samePublicKey.name}"`);
+    }
 
+    const metadata: KeyMetadata = { mnemonic: true };
     if (type === 'ed25519') {
-      const derived = deriveED25519FromMnemonic(this.payload!.mnemonic, nextIndex);
-      publicKey = derived.publicKey;
-      privateKey = derived.privateKey;
-      derivationPath = derived.path;
       metadata.accumulateUrl = await generateLiteAccountUrl(publicKey);
       // Compute multi-chain addresses for ED25519
       metadata.solanaAddress = getSolanaAddress(publicKey);
@@ -427,24 +766,13 @@ export class KeyStore {
       metadata.tonAddress = getTonAddress(publicKey);
       metadata.nearAddress = getNearAddress(publicKey);
     } else if (type === 'secp256k1') {
-      const derived = deriveSecp256k1FromMnemonic(this.payload!.mnemonic, nextIndex);
-      publicKey = derived.publicKey;
-      privateKey = derived.privateKey;
-      derivationPath = derived.path;
       metadata.evmAddress = getEthAddress(publicKey);
       // Compute TRON address using uncompressed public key
       metadata.tronAddress = getTronAddress(publicKey);
       // Compute Cosmos addresses using compressed public key
-      const compressedDerived = deriveSecp256k1FromMnemonic(this.payload!.mnemonic, nextIndex, 0, true);
-      metadata.cosmosAddresses = getCosmosAddresses(compressedDerived.publicKey);
-    } else if (type === 'bls12381') {
-      const derived = deriveBLS12381FromMnemonic(this.payload!.mnemonic, nextIndex);
-      publicKey = derived.publicKey;
-      privateKey = derived.privateKey;
-      derivationPath = derived.path;
-      metadata.blsPublicKey = toHex(publicKey);
+      metadata.cosmosAddresses = getCosmosAddresses(secp256k1FromPrivateKey(derived.privateKey, true).publicKey);
     } else {
-      throw new Error(`Unsupported key type: ${type}`);
+      metadata.blsPublicKey = toHex(publicKey);
     }
 
     const key: StoredKey = {
@@ -452,9 +780,10 @@ export class KeyStore {
       name,
       type,
       publicKey: toHex(publicKey),
-      privateKey: toHex(privateKey),
+      privateKey: toHex(derived.privateKey),
       createdAt: Date.now(),
-      derivationPath,
+      derivationPath: path,
+      walletId: this.payload!.activeWalletId,
       metadata
     };
 
@@ -467,6 +796,68 @@ export class KeyStore {
     return { ...key, privateKey: '[REDACTED]' };
   }
 
+  /**
+   * Derives the first `counts[type]` keys of each type on account 0 of the
+   * active wallet without storing them, flagging keys already in the wallet.
+   * Used to find the keys of a restored wallet; import the chosen ones with
+   * deriveKeyFromMnemonic() and their `path`.
+   *
+   * @param counts - Number of keys to derive per key type
+   * @returns The derived keys (public data only)
+   */
+  async discoverKeys(counts: Partial<Record<KeyType, number>>): Promise<DiscoveredKey[]> {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+    if (!this.payload!.mnemonic) {
+      throw new Error('No mnemonic stored in vault');
+    }
+
+    const derived = deriveAllKeysFromMnemonic(
+      this.payload!.mnemonic,
+      counts.ed25519 ?? 0,
+      counts.secp256k1 ?? 0,
+      counts.bls12381 ?? 0,
+      this.activeWallet().passphrase
+    );
+
+    const candidates: { type: KeyType; index: number; key: { publicKey: Uint8Array; privateKey: Uint8Array; path: string } }[] = [
+      ...derived.ed25519Keys.map((key, index) => ({ type: 'ed25519' as const, index, key })),
+      ...derived.secp256k1Keys.map((key, index) => ({ type: 'secp256k1' as const, index, key })),
+      ...derived.bls12381Keys.map((key, index) => ({ type: 'bls12381' as const, index, key }))
+    ];
+
+    const discovered: DiscoveredKey[] = [];
+    for (const { type, index, key } of candidates) {
+      const publicKey = toHex(key.publicKey);
+      const existing = this.activeKeys().find(k => k.type === type && k.publicKey === publicKey);
+
+      let address: string;
+      if (type === 'ed25519') {
+        address = await generateLiteAccountUrl(key.publicKey);
+      } else if (type === 'secp256k1') {
+        address = getEthAddress(key.publicKey);
+      } else {
+        address = publicKey;
+      }
+
+      discovered.push({
+        type,
+        index,
+        path: key.path,
+        publicKey,
+        address,
+        existingKeyId: existing?.id,
+        existingName: existing?.name,
+        keyPageUrl: existing?.metadata.keyPageUrl
+      });
+      secureWipe(key.privateKey);
+    }
+    derived.ed25519Keys.forEach(key => secureWipe(key.seed));
+
+    return discovered;
+  }
+
   /**
    * Imports a key from a hex-encoded private key.
    *
@@ -474,6 +865,7 @@ export class KeyStore {
    * @param privateKeyHex - Hex-encoded private key
    * @param name - User-friendly name
    * @returns The imported key (without private key)
+   * @throws Error if the key is invalid or already in the wallet
    */
   async importKey(type: KeyType, privateKeyHex: string, name: string): Promise<StoredKey> {
     if (!this.isUnlocked()) {
@@ -482,7 +874,7 @@ export class KeyStore {
 
     let publicKey: Uint8Array;
     let privateKey: Uint8Array;
-    let metadata: KeyMetadata = {};
+    const metadata: KeyMetadata = {};
 
     if (type === 'ed25519') {
       const keyPair = ed25519FromPrivateKey(privateKeyHex);
@@ -514,6 +906,11 @@ export class KeyStore {
       throw new Error(`Unsupported key type: ${type}`);
     }
 
+    const existing = this.activeKeys().find(k => k.type === type && k.publicKey === toHex(publicKey));
+    if (existing) {
+      throw new Error(`This key is already in the wallet as "${existing.name}"`);
+    }
+
     const key: StoredKey = {
       id: generateUUID(),
       name,
@@ -521,6 +918,7 @@ export class KeyStore {
       publicKey: toHex(publicKey),
       privateKey: toHex(privateKey),
       createdAt: Date.now(),
+      walletId: this.payload!.activeWalletId,
       metadata
     };
 
@@ -533,6 +931,85 @@ export class KeyStore {
     return { ...key, privateKey: '[REDACTED]' };
   }
 
+  /**
+   * Adds a watch-only key: only the public key and the addresses derived
+   * from it are stored. Watch-only keys are listed and can be shared with
+   * sites, but cannot sign or be exported.
+   *
+   * @param type - Key type ('ed25519', 'secp256k1', or 'bls12381')
+   * @param publicKeyHex - Hex-encoded public key (secp256k1: compressed or uncompressed)
+   * @param name - User-friendly name
+   * @returns The added key
+   * @throws Error if the public key is invalid or already in the wallet
+   */
+  async addWatchOnlyKey(type: KeyType, publicKeyHex: string, name: string): Promise<StoredKey> {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+
+    const hex = publicKeyHex.trim().replace(/^0x/, '');
+    if (!/^([0-9a-fA-F]{2})+$/.test(hex)) {
+      throw new Error('Public key must be hex encoded');
+    }
+    let publicKey = fromHex(hex);
+
+    const metadata: KeyMetadata = {};
+
+    if (type === 'ed25519') {
+      if (!isValidED25519PublicKey(publicKey)) {
+        throw new Error('Invalid ED25519 public key');
+      }
+      metadata.accumulateUrl = await generateLiteAccountUrl(publicKey);
+      // Compute multi-chain addresses for ED25519
+      metadata.solanaAddress = getSolanaAddress(publicKey);
+      metadata.aptosAddress = getAptosAddress(publicKey);
+      metadata.suiAddress = getSuiAddress(publicKey);
+      metadata.tonAddress = getTonAddress(publicKey);
+      metadata.nearAddress = getNearAddress(publicKey);
+    } else if (type === 'secp256k1') {
+      // Stored uncompressed, like keys with a private key
+      const compressed = normalizeSecp256k1PublicKey(publicKey, true);
+      publicKey = normalizeSecp256k1PublicKey(publicKey, false);
+      metadata.evmAddress = getEthAddress(publicKey);
+      // Compute TRON address using uncompressed public key
+      metadata.tronAddress = getTronAddress(publicKey);
+      // Compute Cosmos addresses using compressed public key
+      metadata.cosmosAddresses = getCosmosAddresses(compressed);
+    } else if (type === 'bls12381') {
+      if (publicKey.length !== 48 || !isValidBLS12381PublicKey(publicKey)) {
+        throw new Error('Invalid BLS12-381 public key');
+      }
+      metadata.blsPublicKey = toHex(publicKey);
+    } else {
+      throw new Error(`Unsupported key type: ${type}`);
+    }
+
+    const existing = this.activeKeys().find(k => k.type === type && k.publicKey === toHex(publicKey));
+    if (existing) {
+      throw new Error(`This key is already in the wallet as "${existing.name}"`);
+    }
+
+    const key: StoredKey = {
+      id: generateUUID(),
+      name,
+      type,
+      publicKey: toHex(publicKey),
+      privateKey: '',
+      watchOnly: true,
+      createdAt: Date.now(),
+      walletId: this.payload!.activeWalletId,
+      metadata
+    };
+
+    this.payload!.keys.push(key);
+    this.payload!.metadata.keyCount = this.payload!.keys.length;
+    this.payload!.metadata.lastModified = Date.now();
+
+    await this.persist();
+
+    return key;
+  }
+
   /**
    * Removes a key from the vault.
    *
@@ -543,7 +1020,7 @@ export class KeyStore {
       throw new Error('Vault is locked');
     }
 
-    const index = this.payload!.keys.findIndex(k => k.id === keyId);
+    const index = this.payload!.keys.findIndex(k => k.id === keyId && k.walletId === this.payload!.activeWalletId);
     if (index === -1) {
       throw new Error('Key not found');
     }
@@ -569,7 +1046,7 @@ export class KeyStore {
       throw new Error('Vault is locked');
     }
 
-    const key = this.payload!.keys.find(k => k.id === keyId);
+    const key = this.activeKeys().find(k => k.id === keyId);
     if (!key) {
       throw new Error('Key not found');
     }
@@ -598,11 +1075,7 @@ export class KeyStore {
       throw new Error('Vault is locked');
     }
 
-    const key = this.payload!.keys.find(k => k.id === keyId);
-    if (key) {
-      key.lastUsedAt = Date.now();
-    }
-    return key;
+    return this.activeKeys().find(k => k.id === keyId);
   }
 
   /**
@@ -613,7 +1086,7 @@ export class KeyStore {
       throw new Error('Vault is locked');
     }
 
-    return this.payload!.keys.map(k => ({
+    return this.activeKeys().map(k => ({
       ...k,
       privateKey: '[REDACTED]'
     }));
@@ -627,7 +1100,7 @@ export class KeyStore {
       throw new Error('Vault is locked');
     }
 
-    return this.payload!.keys.find(k => k.metadata.accumulateUrl === url);
+    return this.activeKeys().find(k => k.metadata.accumulateUrl === url);
   }
 
   /**
@@ -640,7 +1113,7 @@ export class KeyStore {
     }
 
     const normalizedUrl = keyPageUrl.toLowerCase();
-    return this.payload!.keys.find(
+    return this.activeKeys().find(
       k => k.metadata.keyPageUrl?.toLowerCase() === normalizedUrl
     );
   }
@@ -655,7 +1128,7 @@ export class KeyStore {
     }
 
     const normalizedUrl = url.toLowerCase();
-    return this.payload!.keys.find(
+    return this.activeKeys().find(
       k => k.metadata.accumulateUrl?.toLowerCase() === normalizedUrl ||
            k.metadata.keyPageUrl?.toLowerCase() === normalizedUrl
     );
@@ -670,7 +1143,7 @@ export class KeyStore {
     }
 
     const normalizedAddress = address.toLowerCase();
-    return this.payload!.keys.find(
+    return this.activeKeys().find(
       k => k.metadata.evmAddress?.toLowerCase() === normalizedAddress
     );
   }
@@ -683,7 +1156,7 @@ export class KeyStore {
       throw new Error('Vault is locked');
     }
 
-    return this.payload!.keys
+    return this.activeKeys()
       .filter(k => k.type === type)
       .map(k => ({ ...k, privateKey: '[REDACTED]' }));
   }
@@ -697,7 +1170,7 @@ export class KeyStore {
     }
 
     const normalizedKey = blsPublicKey.toLowerCase().replace(/^0x/, '');
-    return this.payload!.keys.find(
+    return this.activeKeys().find(
       k => k.metadata.blsPublicKey?.toLowerCase().replace(/^0x/, '') === normalizedKey
     );
   }
@@ -710,7 +1183,7 @@ export class KeyStore {
       throw new Error('Vault is locked');
     }
 
-    return this.payload!.keys.find(k => k.metadata.tronAddress === address);
+    return this.activeKeys().find(k => k.metadata.tronAddress === address);
   }
 
   // ==========================================================================
@@ -729,7 +1202,7 @@ export class KeyStore {
       throw new Error('Vault is locked');
     }
 
-    const key = this.payload!.keys.find(k => k.id === keyId);
+    const key = this.activeKeys().find(k => k.id === keyId);
     if (!key) {
       throw new Error('Key not found');
     }
@@ -774,7 +1247,7 @@ export class KeyStore {
       throw new Error('Vault is locked');
     }
 
-    const key = this.payload!.keys.find(k => k.id === keyId);
+    const key = this.activeKeys().find(k => k.id === keyId);
     if (!key) {
       throw new Error('Key not found');
     }
@@ -836,6 +1309,214 @@ export class KeyStore {
     return this.payload!.mnemonic || null;
   }
 
+  // ==========================================================================
+  // Wallet Branches
+  // ==========================================================================
+
+  /**
+   * Lists the wallet branches (without passphrases).
+   */
+  getWallets(): WalletInfo[] {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+
+    return this.payload!.wallets.map(wallet => ({
+      id: wallet.id,
+      name: wallet.name,
+      createdAt: wallet.createdAt,
+      hasPassphrase: wallet.passphrase !== '',
+      keyCount: this.payload!.keys.filter(k => k.walletId === wallet.id).length,
+      active: wallet.id === this.payload!.activeWalletId
+    }));
+  }
+
+  /**
+   * Adds a wallet branch for `passphrase`, makes it active and derives its
+   * first ED25519 and secp256k1 keys.
+   *
+   * @throws Error if the vault has no mnemonic or a branch already uses the passphrase
+   */
+  async addWallet(name: string, passphrase: string): Promise<WalletInfo> {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+    if (!this.payload!.mnemonic) {
+      throw new Error('Wallets require a vault created from a recovery phrase');
+    }
+    if (this.payload!.wallets.some(w => w.passphrase === passphrase)) {
+      throw new Error('A wallet with this passphrase already exists');
+    }
+
+    const wallet: WalletBranch = {
+      id: generateUUID(),
+      name: name || `Wallet ${this.payload!.wallets.length + 1}`,
+      passphrase,
+      createdAt: Date.now()
+    };
+    this.payload!.wallets.push(wallet);
+    this.payload!.activeWalletId = wallet.id;
+
+    await this.deriveInitialKeys();
+    this.payload!.metadata.lastModified = Date.now();
+    await this.persist();
+
+    return this.getWallets().find(w => w.id === wallet.id)!;
+  }
+
+  /**
+   * Makes a wallet branch active. Keys of other branches are hidden from
+   * the popup and from connected sites until switched back.
+   */
+  async switchWallet(walletId: string): Promise<void> {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+    if (!this.payload!.wallets.some(w => w.id === walletId)) {
+      throw new Error('Wallet not found');
+    }
+
+    this.payload!.activeWalletId = walletId;
+    this.payload!.metadata.lastModified = Date.now();
+    await this.persist();
+  }
+
+  /**
+   * Removes an inactive wallet branch and its keys.
+   *
+   * @returns IDs of the removed keys
+   */
+  async removeWallet(walletId: string): Promise<string[]> {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+    if (walletId === this.payload!.activeWalletId) {
+      throw new Error('Switch to another wallet before removing this one');
+    }
+
+    const index = this.payload!.wallets.findIndex(w => w.id === walletId);
+    if (index === -1) {
+      throw new Error('Wallet not found');
+    }
+
+    const removedKeyIds = this.payload!.keys.filter(k => k.walletId === walletId).map(k => k.id);
+    this.payload!.wallets.splice(index, 1);
+    this.payload!.keys = this.payload!.keys.filter(k => k.walletId !== walletId);
+    this.payload!.metadata.keyCount = this.payload!.keys.length;
+    this.payload!.metadata.lastModified = Date.now();
+    await this.persist();
+
+    return removedKeyIds;
+  }
+
+  /**
+   * Keys of the active wallet branch (with private keys).
+   */
+  private activeKeys(): StoredKey[] {
+    return this.payload!.keys.filter(k => k.walletId === this.payload!.activeWalletId);
+  }
+
+  private activeWallet(): WalletBranch {
+    return this.payload!.wallets.find(w => w.id === this.payload!.activeWalletId)!;
+  }
+
+  // ==========================================================================
+  // Audit Log
+  // ==========================================================================
+
+  /**
+   * Appends a signing decision or key export to the audit log and, for approvals, updates
+   * the key's lastUsedAt. While the vault is locked the record is sealed to the
+   * vault's audit public key, kept in local storage and appended on the next unlock.
+   */
+  async recordAudit(record: AuditRecord): Promise<void> {
+    if (!this.isUnlocked()) {
+      const buffering = this.auditBuffering.then(() => this.bufferAuditRecord(record));
+      this.auditBuffering = buffering.catch(() => undefined);
+      return buffering;
+    }
+
+    this.appendAuditRecords([record]);
+    await this.persist();
+  }
+
+  /**
+   * Gets the audit log, oldest entry first.
+   */
+  getAuditLog(): AuditEntry[] {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+    return this.payload!.auditLog || [];
+  }
+
+  private appendAuditRecords(records: AuditRecord[]): void {
+    const log = this.payload!.auditLog || (this.payload!.auditLog = []);
+
+    for (const record of records) {
+      log.push(createAuditEntry(log, record));
+
+      if (record.outcome === 'approved' && record.keyId) {
+        const key = this.payload!.keys.find(k => k.id === record.keyId);
+        if (key) {
+          key.lastUsedAt = record.timestamp;
+        }
+      }
+    }
+  }
+
+  /**
+   * Seals a record and adds it to the buffer. Writes are serialized through
+   * auditBuffering so concurrent records are not lost.
+   */
+  private async bufferAuditRecord(record: AuditRecord): Promise<void> {
+    const result = await chrome.storage.local.get([STORAGE_KEY, STORAGE_KEY_AUDIT_BUFFER]);
+    const publicKey: string | undefined = result[STORAGE_KEY]?.auditPublicKey;
+    if (!publicKey) {
+      throw new Error('Vault has no audit key; unlock it once to create one');
+    }
+
+    const buffered: SealedAuditRecord[] = result[STORAGE_KEY_AUDIT_BUFFER] || [];
+    await chrome.storage.local.set({
+      [STORAGE_KEY_AUDIT_BUFFER]: [...buffered, sealAuditRecord(record, publicKey)]
+    });
+  }
+
+  /**
+   * Appends records sealed while the vault was locked. Vaults created before
+   * audit keys get one here.
+   */
+  private async flushAuditBuffer(): Promise<void> {
+    try {
+      await this.auditBuffering;
+      const result = await chrome.storage.local.get(STORAGE_KEY_AUDIT_BUFFER);
+      const sealed: SealedAuditRecord[] = result[STORAGE_KEY_AUDIT_BUFFER] || [];
+
+      if (!this.payload!.auditKey) {
+        this.payload!.auditKey = generateAuditKey();
+        await this.persist();
+      }
+      if (sealed.length === 0) {
+        return;
+      }
+
+      const records: AuditRecord[] = [];
+      for (const record of sealed) {
+        try {
+          records.push(openAuditRecord(record, this.payload!.auditKey));
+        } catch (error) {
+          console.error('[KeyStore] Dropped an audit record that cannot be opened:', error);
+        }
+      }
+
+      this.appendAuditRecords(records.sort((a, b) => a.timestamp - b.timestamp));
+      await this.persist();
+      await chrome.storage.local.remove(STORAGE_KEY_AUDIT_BUFFER);
+    } catch (error) {
+      console.error('[KeyStore] Failed to flush audit records:', error);
+    }
+  }
+
   // ==========================================================================
   // Password Management
   // ==========================================================================
@@ -850,13 +1531,93 @@ export class KeyStore {
     // Verify current password by attempting unlock
     await this.unlock(currentPassword);
 
-    // Generate new salt and derive new key
-    this.salt = generateSalt();
-    this.derivedKey = await deriveKey(newPassword, this.salt);
-
-    // Re-encrypt with new key
-    await this.persist();
+    // Re-encrypt under the new password with the vault's KDF parameters
     this.unlockTimestamp = Date.now();
+    await this.reencrypt(newPassword, this.kdfParams!);
+  }
+
+  /**
+   * Checks the vault password while the vault is unlocked, e.g. before a
+   * private key is exported. Attempts count towards the unlock throttle.
+   *
+   * @throws Error if the vault is locked, attempts are throttled or the
+   *         password is wrong
+   */
+  async verifyPassword(password: string): Promise<void> {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+
+    // Shares the unlock guard, so concurrent checks cannot skip the backoff
+    if (this.unlocking) {
+      throw new Error('Another unlock attempt is in progress');
+    }
+
+    this.unlocking = true;
+    try {
+      await this.checkPassword(password);
+    } finally {
+      this.unlocking = false;
+    }
+  }
+
+  private async checkPassword(password: string): Promise<void> {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    const vaultData: EncryptedVaultData | undefined = result[STORAGE_KEY];
+    if (!vaultData || !this.salt || !this.kdfParams) {
+      throw new Error('Vault not initialized');
+    }
+
+    await this.unlockThrottle.check();
+
+    const keyBytes = await deriveKeyBytes(password, this.salt, this.kdfParams);
+    try {
+      const key = await importEncryptionKey(keyBytes);
+      await decrypt(fromBase64(vaultData.encryptedPayload), fromBase64(vaultData.iv), key);
+    } catch (e) {
+      const { wipe } = await this.unlockThrottle.recordFailure();
+      if (wipe) {
+        console.warn('[KeyStore] Wipe threshold reached, erasing vault');
+        await this.reset();
+        throw new Error('Too many failed attempts. The vault has been erased.');
+      }
+      throw new Error('Invalid password');
+    } finally {
+      secureWipe(keyBytes);
+    }
+
+    await this.unlockThrottle.recordSuccess();
+  }
+
+  /**
+   * Derives a new key from `password` with a new salt, re-encrypts the
+   * vault with it and moves the session over. The vault must be unlocked.
+   * State is only replaced once the key has been derived.
+   */
+  private async reencrypt(password: string, kdfParams: KdfParams): Promise<void> {
+    const salt = generateSalt();
+    const keyBytes = await deriveKeyBytes(password, salt, kdfParams);
+
+    try {
+      this.derivedKey = await importEncryptionKey(keyBytes);
+      this.salt = salt;
+      this.kdfParams = kdfParams;
+
+      await this.persist();
+      await this.startSession(keyBytes);
+    } finally {
+      secureWipe(keyBytes);
+    }
+
+    // A backup left by an interrupted migration is encrypted under the old password
+    await chrome.storage.local.remove(STORAGE_KEY_BACKUP);
+  }
+
+  /**
+   * Returns the KDF parameters of the unlocked vault.
+   */
+  getKdfParams(): KdfParams | null {
+    return this.kdfParams;
   }
 
   // ==========================================================================
@@ -867,7 +1628,7 @@ export class KeyStore {
    * Persists the vault to chrome.storage.local.
    */
   private async persist(): Promise<void> {
-    if (!this.derivedKey || !this.payload || !this.salt) {
+    if (!this.derivedKey || !this.payload || !this.salt || !this.kdfParams) {
       throw new Error('Cannot persist: vault not properly initialized');
     }
 
@@ -875,14 +1636,12 @@ export class KeyStore {
     const { iv, ciphertext } = await encrypt(payloadJson, this.derivedKey);
 
     const vaultData: EncryptedVaultData = {
-      version: 2,
+      version: CURRENT_VAULT_VERSION,
       salt: toBase64(this.salt),
       iv: toBase64(iv),
       encryptedPayload: toBase64(ciphertext),
-      kdfParams: {
-        algorithm: 'pbkdf2',
-        iterations: PBKDF2_ITERATIONS
-      }
+      kdfParams: this.kdfParams,
+      auditPublicKey: this.payload.auditKey && getAuditPublicKey(this.payload.auditKey)
     };
 
     await chrome.storage.local.set({ [STORAGE_KEY]: vaultData });
@@ -907,9 +1666,12 @@ export class KeyStore {
     const vaultData: EncryptedVaultData = JSON.parse(vaultDataJson);
 
     // Validate structure
-    if (!vaultData.version || !vaultData.salt || !vaultData.iv || !vaultData.encryptedPayload) {
+    if (!vaultData.version || !vaultData.salt || !vaultData.iv || !vaultData.encryptedPayload || !vaultData.kdfParams) {
       throw new Error('Invalid vault backup format');
     }
+    if (vaultData.version > CURRENT_VAULT_VERSION) {
+      throw new Error('Vault backup was created by a newer version of Certen Key Vault');
+    }
 
     await chrome.storage.local.set({ [STORAGE_KEY]: vaultData });
     this.lock();
@@ -921,8 +1683,10 @@ export class KeyStore {
   async reset(): Promise<void> {
     // Clear all storage
     await chrome.storage.local.clear();
+    await clearSession();
     // Reset in-memory state
     this.salt = null;
+    this.kdfParams = null;
     this.derivedKey = null;
     this.payload = null;
     this.unlockTimestamp = 0;
@@ -0,0 +1,226 @@
+/**
+ * Certen Key Vault - Vault Schema Migrations
+ *
+ * Ordered registry of VaultPayload transformations. Each step upgrades the
+ * decrypted payload from the previous schema version to `version`; the
+ * KeyStore runs the pending steps on unlock, validates the result and only
+ * then re-encrypts it (keeping a backup of the pre-migration vault).
+ *
+ * To change the vault schema: append a step with the next version number,
+ * update the types in shared/types.ts and, if needed, validateVaultPayload().
+ * Steps must not have side effects and must never be edited once released.
+ */
+
+import { VaultPayload, KeyType } from '../shared/types';
+import { DEFAULT_WALLET_ID } from '../shared/constants';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A decrypted payload of any schema version; steps narrow the fields they use.
+ */
+export type RawVaultPayload = Record<string, unknown>;
+
+export interface VaultMigration {
+  version: number;                    // Schema version this step produces
+  description: string;
+  migrate: (payload: RawVaultPayload) => RawVaultPayload;  // Receives a private copy; may mutate it
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+export const VAULT_MIGRATIONS: VaultMigration[] = [
+  {
+    version: 2,
+    description: 'Move the vault to the v2 storage key',
+    migrate: (payload) => payload
+  },
+  {
+    version: 3,
+    description: 'Add the audit log, key metadata defaults and an accurate key count',
+    migrate: (payload) => {
+      const metadata = isRecord(payload.metadata) ? payload.metadata : undefined;
+      const keys = recordList(payload.keys || [], 'keys').map(key => ({
+        ...key,
+        createdAt: key.createdAt ?? metadata?.createdAt ?? Date.now(),
+        metadata: key.metadata || {}
+      }));
+      payload.keys = keys;
+      payload.auditLog = payload.auditLog || [];
+      payload.metadata = {
+        ...metadata,
+        keyCount: keys.length
+      };
+      return payload;
+    }
+  },
+  {
+    version: 4,
+    description: 'Group keys into BIP-39 passphrase wallet branches',
+    migrate: (payload) => {
+      const metadata = isRecord(payload.metadata) ? payload.metadata : undefined;
+      const wallets = payload.wallets ? recordList(payload.wallets, 'wallets') : [{
+        id: DEFAULT_WALLET_ID,
+        name: 'Main Wallet',
+        passphrase: '',
+        createdAt: metadata?.createdAt ?? 0
+      }];
+      payload.wallets = wallets;
+      payload.activeWalletId = payload.activeWalletId || wallets[0]?.id;
+      payload.keys = recordList(payload.keys, 'keys').map(key => ({
+        ...key,
+        walletId: key.walletId || DEFAULT_WALLET_ID
+      }));
+      return payload;
+    }
+  }
+];
+
+export const CURRENT_VAULT_VERSION = VAULT_MIGRATIONS[VAULT_MIGRATIONS.length - 1].version;
+
+const KEY_TYPES: KeyType[] = ['ed25519', 'secp256k1', 'bls12381'];
+
+function isRecord(value: unknown): value is RawVaultPayload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Narrows a list of objects for a migration step.
+ *
+ * @throws Error if the value is not a list of objects
+ */
+function recordList(value: unknown, name: string): RawVaultPayload[] {
+  if (!Array.isArray(value) || !value.every(isRecord)) {
+    throw new Error(`${name} is not a list of objects`);
+  }
+  return value;
+}
+
+// =============================================================================
+// Migration
+// =============================================================================
+
+/**
+ * Returns the steps needed to bring a vault at `fromVersion` up to date.
+ *
+ * @throws Error if the vault is newer than this extension
+ */
+export function getPendingMigrations(fromVersion: number): VaultMigration[] {
+  if (fromVersion > CURRENT_VAULT_VERSION) {
+    throw new Error(
+      `Vault version ${fromVersion} is newer than this extension supports (${CURRENT_VAULT_VERSION}). Please update Certen Key Vault.`
+    );
+  }
+  return VAULT_MIGRATIONS.filter(step => step.version > fromVersion);
+}
+
+/**
+ * Runs the pending migrations on a copy of `payload` and validates the
+ * result against the current schema. The input payload is never modified,
+ * so a failure leaves the caller with the original.
+ *
+ * @returns The migrated payload
+ * @throws Error naming the step that failed, or the validation problem
+ */
+export function migrateVaultPayload(payload: unknown, fromVersion: number): VaultPayload {
+  let current: unknown = JSON.parse(JSON.stringify(payload));
+  let version = fromVersion;
+
+  for (const step of getPendingMigrations(fromVersion)) {
+    if (step.version <= version) {
+      throw new Error(`Vault migrations are out of order at version ${step.version}`);
+    }
+
+    try {
+      if (!isRecord(current)) {
+        throw new Error('Payload is not an object');
+      }
+      current = step.migrate(current);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Vault migration to version ${step.version} (${step.description}) failed: ${reason}`);
+    }
+
+    version = step.version;
+  }
+
+  try {
+    validateVaultPayload(current);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Migrated vault (version ${version}) is invalid: ${reason}`);
+  }
+
+  return current;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Checks the shape of a decrypted payload.
+ *
+ * @throws Error describing the first problem found
+ */
+export function validateVaultPayload(payload: unknown): asserts payload is VaultPayload {
+  if (!isRecord(payload)) {
+    throw new Error('Payload is not an object');
+  }
+  if (!Array.isArray(payload.keys)) {
+    throw new Error('Payload has no key list');
+  }
+  if (!isRecord(payload.metadata) || typeof payload.metadata.createdAt !== 'number') {
+    throw new Error('Payload metadata is missing');
+  }
+  if (payload.mnemonic !== undefined && typeof payload.mnemonic !== 'string') {
+    throw new Error('Mnemonic is not a string');
+  }
+  if (payload.auditLog !== undefined && !Array.isArray(payload.auditLog)) {
+    throw new Error('Audit log is not a list');
+  }
+  if (payload.auditKey !== undefined && typeof payload.auditKey !== 'string') {
+    throw new Error('Audit key is not a string');
+  }
+  if (!Array.isArray(payload.wallets) || payload.wallets.length === 0) {
+    throw new Error('Payload has no wallets');
+  }
+
+  const walletIds = new Set<string>();
+  payload.wallets.forEach((wallet: unknown, index: number) => {
+    if (!isRecord(wallet) || typeof wallet.id !== 'string' || walletIds.has(wallet.id)) {
+      throw new Error(`Wallet ${index} has a missing or duplicate id`);
+    }
+    if (typeof wallet.passphrase !== 'string') {
+      throw new Error(`Wallet ${wallet.id} has no passphrase`);
+    }
+    walletIds.add(wallet.id);
+  });
+  if (typeof payload.activeWalletId !== 'string' || !walletIds.has(payload.activeWalletId)) {
+    throw new Error('Active wallet does not exist');
+  }
+
+  const ids = new Set<string>();
+  payload.keys.forEach((key: unknown, index: number) => {
+    if (!isRecord(key) || typeof key.id !== 'string' || ids.has(key.id)) {
+      throw new Error(`Key ${index} has a missing or duplicate id`);
+    }
+    if (!KEY_TYPES.includes(key.type as KeyType)) {
+      throw new Error(`Key ${key.id} has unknown type "${key.type}"`);
+    }
+    if (typeof key.privateKey !== 'string' || typeof key.publicKey !== 'string') {
+      throw new Error(`Key ${key.id} is missing key material`);
+    }
+    if (!isRecord(key.metadata)) {
+      throw new Error(`Key ${key.id} has no metadata`);
+    }
+    if (typeof key.walletId !== 'string' || !walletIds.has(key.walletId)) {
+      throw new Error(`Key ${key.id} belongs to an unknown wallet`);
+    }
+    ids.add(key.id);
+  });
+}
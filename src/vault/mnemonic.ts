@@ -17,7 +17,7 @@ import { sha256 } from '@noble/hashes/sha256';
 import { sha512 } from '@noble/hashes/sha512';
 import { hkdf } from '@noble/hashes/hkdf';
 import { bls12_381 as bls } from '@noble/curves/bls12-381';
-import { toHex } from './crypto';
+import { KeyType } from '../shared/types';
 
 // =============================================================================
 // Constants
@@ -39,6 +39,9 @@ export const DEFAULT_ETHEREUM_PATH = `m/44'/${ETHEREUM_COIN_TYPE}'/0'/0`;
 // EIP-2334 validator path: m/12381/60/0/0
 export const DEFAULT_BLS_PATH = `m/${BLS_COIN_TYPE}/60/0/0`;
 
+// Largest unhardened index (hardened indices add 2^31)
+export const MAX_DERIVATION_INDEX = 0x7fffffff;
+
 // =============================================================================
 // Mnemonic Generation
 // =============================================================================
@@ -98,18 +101,20 @@ export interface DerivedED25519Key {
  * @param mnemonic - BIP-39 mnemonic phrase
  * @param index - Address index (default: 0)
  * @param account - Account index (default: 0)
+ * @param passphrase - BIP-39 passphrase (default: empty string)
  * @returns Derived ED25519 keypair with path
  */
 export function deriveED25519FromMnemonic(
   mnemonic: string,
   index: number = 0,
-  account: number = 0
+  account: number = 0,
+  passphrase: string = ''
 ): DerivedED25519Key {
   if (!validateMnemonic(mnemonic)) {
     throw new Error('Invalid mnemonic phrase');
   }
 
-  const seed = mnemonicToSeed(mnemonic);
+  const seed = mnemonicToSeed(mnemonic, passphrase);
   const path = `m/44'/${ACCUMULATE_COIN_TYPE}'/${account}'/0'/${index}'`;
 
   // Use SLIP-0010 derivation
@@ -192,19 +197,21 @@ export interface DerivedSecp256k1Key {
  * @param index - Address index (default: 0)
  * @param account - Account index (default: 0)
  * @param compressed - Return compressed public key (default: false)
+ * @param passphrase - BIP-39 passphrase (default: empty string)
  * @returns Derived secp256k1 keypair with path
  */
 export function deriveSecp256k1FromMnemonic(
   mnemonic: string,
   index: number = 0,
   account: number = 0,
-  compressed: boolean = false
+  compressed: boolean = false,
+  passphrase: string = ''
 ): DerivedSecp256k1Key {
   if (!validateMnemonic(mnemonic)) {
     throw new Error('Invalid mnemonic phrase');
   }
 
-  const seed = mnemonicToSeed(mnemonic);
+  const seed = mnemonicToSeed(mnemonic, passphrase);
   const path = `m/44'/${ETHEREUM_COIN_TYPE}'/${account}'/0/${index}`;
 
   // Use standard BIP-32 derivation for secp256k1
@@ -228,22 +235,6 @@ export function deriveSecp256k1FromMnemonic(
 // HMAC-SHA512 Implementation
 // =============================================================================
 
-/**
- * HMAC-SHA512 implementation using Web Crypto API.
- */
-async function hmacSha512Async(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
-  const cryptoKey = await crypto.subtle.importKey(
-    'raw',
-    key.buffer as ArrayBuffer,
-    { name: 'HMAC', hash: 'SHA-512' },
-    false,
-    ['sign']
-  );
-
-  const signature = await crypto.subtle.sign('HMAC', cryptoKey, data.buffer as ArrayBuffer);
-  return new Uint8Array(signature);
-}
-
 /**
  * Synchronous HMAC-SHA512 using @noble/hashes.
  */
@@ -274,18 +265,20 @@ export interface DerivedBLS12381Key {
  * @param mnemonic - BIP-39 mnemonic phrase
  * @param index - Key index (default: 0)
  * @param account - Account index (default: 0)
+ * @param passphrase - BIP-39 passphrase (default: empty string)
  * @returns Derived BLS12-381 keypair with path
  */
 export function deriveBLS12381FromMnemonic(
   mnemonic: string,
   index: number = 0,
-  account: number = 0
+  account: number = 0,
+  passphrase: string = ''
 ): DerivedBLS12381Key {
   if (!validateMnemonic(mnemonic)) {
     throw new Error('Invalid mnemonic phrase');
   }
 
-  const seed = mnemonicToSeed(mnemonic);
+  const seed = mnemonicToSeed(mnemonic, passphrase);
   // EIP-2334 path for signing keys: m/12381/60/account/0/index
   const path = `m/${BLS_COIN_TYPE}/60/${account}/0/${index}`;
 
@@ -329,7 +322,7 @@ function eip2333DeriveMasterSK(seed: Uint8Array): Uint8Array {
   ikm[seed.length] = 0;
 
   // OKM = HKDF-Expand(HKDF-Extract(salt, IKM), "", L)
-  let okm = hkdf(sha256, ikm, salt, '', L);
+  const okm = hkdf(sha256, ikm, salt, '', L);
 
   // SK = OS2IP(OKM) mod r
   // Since we're working with bytes, we need to reduce modulo the BLS12-381 order
@@ -351,7 +344,7 @@ function eip2333DeriveChildSK(parentSK: Uint8Array, index: number): Uint8Array {
   const ikm = parentSK;
 
   const L = 48;
-  let okm = hkdf(sha256, ikm, salt, '', L);
+  const okm = hkdf(sha256, ikm, salt, '', L);
 
   return reduceModR(okm);
 }
@@ -399,6 +392,150 @@ function reduceModR(bytes: Uint8Array): Uint8Array {
   return result;
 }
 
+// =============================================================================
+// Derivation Paths
+// =============================================================================
+
+/**
+ * One segment of a BIP-32 style derivation path.
+ */
+export interface PathSegment {
+  index: number;            // 0 to MAX_DERIVATION_INDEX
+  hardened: boolean;
+}
+
+/**
+ * Result of derivation at an arbitrary path.
+ */
+export interface DerivedKeyAtPath {
+  publicKey: Uint8Array;    // ED25519: 32 bytes, secp256k1: 65 bytes (uncompressed), BLS: 48 bytes
+  privateKey: Uint8Array;   // ED25519: 64 bytes (seed + public key), otherwise 32 bytes
+  path: string;             // Normalized path
+}
+
+/**
+ * Parses a derivation path such as "m/44'/540'/0'/0'/0'". Hardened
+ * segments may be marked with ' or h.
+ *
+ * @throws Error if the path is malformed or an index is out of range
+ */
+export function parseDerivationPath(path: string): PathSegment[] {
+  const parts = path.trim().split('/');
+  if (parts[0] !== 'm' || parts.length < 2) {
+    throw new Error(`Invalid derivation path "${path}": must start with m/`);
+  }
+
+  return parts.slice(1).map(part => {
+    const match = part.match(/^(\d+)(['hH]?)$/);
+    if (!match) {
+      throw new Error(`Invalid derivation path segment "${part}"`);
+    }
+    const index = Number(match[1]);
+    if (index > MAX_DERIVATION_INDEX) {
+      throw new Error(`Derivation index ${index} is too large (max ${MAX_DERIVATION_INDEX})`);
+    }
+    return { index, hardened: match[2] !== '' };
+  });
+}
+
+/**
+ * Formats path segments, marking hardened segments with '.
+ */
+export function formatDerivationPath(segments: PathSegment[]): string {
+  return ['m', ...segments.map(s => `${s.index}${s.hardened ? "'" : ''}`)].join('/');
+}
+
+/**
+ * Checks that `path` can be derived for the key type and returns it in
+ * normalized form.
+ * - ED25519 (SLIP-0010): every segment must be hardened
+ * - secp256k1 (BIP-32): hardened and normal segments
+ * - BLS12-381 (EIP-2333): no hardened segments
+ *
+ * @throws Error describing why the path is not valid for the curve
+ */
+export function normalizeDerivationPath(type: KeyType, path: string): string {
+  if (type !== 'ed25519' && type !== 'secp256k1' && type !== 'bls12381') {
+    throw new Error(`Unsupported key type: ${type}`);
+  }
+
+  const segments = parseDerivationPath(path);
+
+  if (type === 'ed25519' && segments.some(s => !s.hardened)) {
+    throw new Error("ED25519 paths must be fully hardened (SLIP-0010), e.g. m/44'/540'/0'/0'/0'");
+  }
+  if (type === 'bls12381' && segments.some(s => s.hardened)) {
+    throw new Error('BLS12-381 paths cannot have hardened segments (EIP-2333), e.g. m/12381/60/0/0/0');
+  }
+
+  return formatDerivationPath(segments);
+}
+
+/**
+ * Returns the default path for a key type at an account and index.
+ */
+export function getDefaultDerivationPath(type: KeyType, account: number = 0, index: number = 0): string {
+  for (const value of [account, index]) {
+    if (!Number.isInteger(value) || value < 0 || value > MAX_DERIVATION_INDEX) {
+      throw new Error(`Account and index must be integers from 0 to ${MAX_DERIVATION_INDEX}`);
+    }
+  }
+
+  switch (type) {
+    case 'ed25519':
+      return `m/44'/${ACCUMULATE_COIN_TYPE}'/${account}'/0'/${index}'`;
+    case 'secp256k1':
+      return `m/44'/${ETHEREUM_COIN_TYPE}'/${account}'/0/${index}`;
+    case 'bls12381':
+      return `m/${BLS_COIN_TYPE}/60/${account}/0/${index}`;
+    default:
+      throw new Error(`Unsupported key type: ${type}`);
+  }
+}
+
+/**
+ * Derives a key of any type at an explicit path. The path is validated for
+ * the curve first (see normalizeDerivationPath()).
+ *
+ * @param mnemonic - BIP-39 mnemonic phrase
+ * @param type - Key type
+ * @param path - Derivation path
+ * @param passphrase - BIP-39 passphrase (default: empty string)
+ * @returns Derived keypair with the normalized path
+ */
+export function deriveKeyAtPath(
+  mnemonic: string,
+  type: KeyType,
+  path: string,
+  passphrase: string = ''
+): DerivedKeyAtPath {
+  if (!validateMnemonic(mnemonic)) {
+    throw new Error('Invalid mnemonic phrase');
+  }
+
+  const normalized = normalizeDerivationPath(type, path);
+  const seed = mnemonicToSeed(mnemonic, passphrase);
+
+  if (type === 'ed25519') {
+    const keyPair = nacl.sign.keyPair.fromSeed(slip0010Derive(seed, normalized));
+    return { publicKey: keyPair.publicKey, privateKey: keyPair.secretKey, path: normalized };
+  }
+
+  if (type === 'secp256k1') {
+    const derived = HDKey.fromMasterSeed(seed).derive(normalized);
+    if (!derived.privateKey) {
+      throw new Error('Failed to derive private key');
+    }
+    return { publicKey: secp256k1.getPublicKey(derived.privateKey, false), privateKey: derived.privateKey, path: normalized };
+  }
+
+  let privateKey = eip2333DeriveMasterSK(seed);
+  for (const segment of parseDerivationPath(normalized)) {
+    privateKey = eip2333DeriveChildSK(privateKey, segment.index);
+  }
+  return { publicKey: bls.getPublicKey(privateKey), privateKey, path: normalized };
+}
+
 // =============================================================================
 // Utility Functions
 // =============================================================================
@@ -410,13 +547,15 @@ function reduceModR(bytes: Uint8Array): Uint8Array {
  * @param ed25519Count - Number of ED25519 keys to derive (default: 1)
  * @param secp256k1Count - Number of secp256k1 keys to derive (default: 1)
  * @param bls12381Count - Number of BLS12-381 keys to derive (default: 0)
+ * @param passphrase - BIP-39 passphrase (default: empty string)
  * @returns Object containing derived keys
  */
 export function deriveAllKeysFromMnemonic(
   mnemonic: string,
   ed25519Count: number = 1,
   secp256k1Count: number = 1,
-  bls12381Count: number = 0
+  bls12381Count: number = 0,
+  passphrase: string = ''
 ): {
   ed25519Keys: DerivedED25519Key[];
   secp256k1Keys: DerivedSecp256k1Key[];
@@ -427,15 +566,15 @@ export function deriveAllKeysFromMnemonic(
   const bls12381Keys: DerivedBLS12381Key[] = [];
 
   for (let i = 0; i < ed25519Count; i++) {
-    ed25519Keys.push(deriveED25519FromMnemonic(mnemonic, i));
+    ed25519Keys.push(deriveED25519FromMnemonic(mnemonic, i, 0, passphrase));
   }
 
   for (let i = 0; i < secp256k1Count; i++) {
-    secp256k1Keys.push(deriveSecp256k1FromMnemonic(mnemonic, i));
+    secp256k1Keys.push(deriveSecp256k1FromMnemonic(mnemonic, i, 0, false, passphrase));
   }
 
   for (let i = 0; i < bls12381Count; i++) {
-    bls12381Keys.push(deriveBLS12381FromMnemonic(mnemonic, i));
+    bls12381Keys.push(deriveBLS12381FromMnemonic(mnemonic, i, 0, passphrase));
   }
 
   return { ed25519Keys, secp256k1Keys, bls12381Keys };
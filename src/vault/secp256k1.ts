@@ -77,6 +77,26 @@ export function secp256k1FromPrivateKeyHex(
   return secp256k1FromPrivateKey(privateKey, compressed);
 }
 
+/**
+ * Parses a public key (33-byte compressed or 65-byte uncompressed) and
+ * re-encodes it.
+ *
+ * @param publicKey - Encoded public key
+ * @param compressed - If true, return the 33-byte compressed form
+ * @returns Public key in the requested form
+ * @throws Error if the bytes are not a point on the curve
+ */
+export function normalizeSecp256k1PublicKey(
+  publicKey: Uint8Array,
+  compressed: boolean = false
+): Uint8Array {
+  try {
+    return secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(compressed);
+  } catch {
+    throw new Error('Invalid secp256k1 public key');
+  }
+}
+
 // =============================================================================
 // Signing
 // =============================================================================
@@ -0,0 +1,87 @@
+/**
+ * Certen Key Vault - Session Persistence
+ *
+ * Keeps the vault unlocked across MV3 service worker restarts by storing the
+ * vault key in chrome.storage.session. The key is stored unwrapped: any
+ * wrapping key would have to sit in the same storage area, so it would add
+ * nothing. The protection comes from the storage area itself:
+ * - restrictSessionAccess() limits it to extension pages and the service
+ *   worker, so content scripts cannot read it
+ * - it lives in memory only and is cleared when the browser exits or the
+ *   extension is reloaded
+ * - the entry is removed on lock, and the unlock timestamp is stored so
+ *   restores still honor the auto-lock deadline
+ */
+
+import { toBase64, fromBase64 } from './crypto';
+import { SESSION_KEY_VAULT } from '../shared/constants';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface StoredSession {
+  key: string;                        // base64 vault key
+  unlockTimestamp: number;            // Last activity, ms since epoch
+}
+
+export interface RestoredSession {
+  keyBytes: Uint8Array;               // Raw vault key (caller must secureWipe)
+  unlockTimestamp: number;
+}
+
+// =============================================================================
+// Session Storage
+// =============================================================================
+
+/**
+ * Restricts session storage to extension pages and the service worker.
+ */
+export async function restrictSessionAccess(): Promise<void> {
+  try {
+    await chrome.storage.session.setAccessLevel({ accessLevel: 'TRUSTED_CONTEXTS' });
+  } catch (error) {
+    console.warn('[Session] Failed to set session storage access level:', error);
+  }
+}
+
+/**
+ * Stores the vault key for the rest of the browser session.
+ */
+export async function saveSession(keyBytes: Uint8Array, unlockTimestamp: number): Promise<void> {
+  const session: StoredSession = { key: toBase64(keyBytes), unlockTimestamp };
+  await chrome.storage.session.set({ [SESSION_KEY_VAULT]: session });
+}
+
+/**
+ * Records activity so a restored session keeps the current auto-lock deadline.
+ */
+export async function touchSession(unlockTimestamp: number): Promise<void> {
+  const result = await chrome.storage.session.get(SESSION_KEY_VAULT);
+  const session: StoredSession | undefined = result[SESSION_KEY_VAULT];
+  if (session) {
+    await chrome.storage.session.set({ [SESSION_KEY_VAULT]: { ...session, unlockTimestamp } });
+  }
+}
+
+/**
+ * Loads the stored vault key.
+ *
+ * @returns The vault key and unlock timestamp, or null if there is no session
+ */
+export async function loadSession(): Promise<RestoredSession | null> {
+  const result = await chrome.storage.session.get(SESSION_KEY_VAULT);
+  const session: StoredSession | undefined = result[SESSION_KEY_VAULT];
+  if (!session || typeof session.key !== 'string') {
+    return null;
+  }
+
+  return { keyBytes: fromBase64(session.key), unlockTimestamp: session.unlockTimestamp };
+}
+
+/**
+ * Removes the stored session (on lock or reset).
+ */
+export async function clearSession(): Promise<void> {
+  await chrome.storage.session.remove(SESSION_KEY_VAULT);
+}
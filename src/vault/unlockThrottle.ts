@@ -0,0 +1,136 @@
+/**
+ * Certen Key Vault - Unlock Throttle
+ *
+ * Counts failed unlock attempts in chrome.storage.local (so restarting the
+ * service worker or the browser does not reset them) and enforces an
+ * exponential backoff before the next password is tried. Optionally the
+ * vault is erased after a configured number of consecutive failures.
+ */
+
+import { UnlockStatus } from '../shared/types';
+import { STORAGE_KEY_UNLOCK_ATTEMPTS } from '../shared/constants';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FREE_ATTEMPTS = 3;                    // Failures allowed without delay
+const BASE_DELAY = 5 * 1000;                // Delay after the first throttled failure
+const MAX_DELAY = 60 * 60 * 1000;           // 1 hour
+
+export const MIN_WIPE_AFTER_FAILURES = 5;
+export const MAX_WIPE_AFTER_FAILURES = 100;
+
+interface StoredAttempts {
+  failedAttempts: number;
+  lastFailureAt: number;
+  wipeAfterFailures: number | null;
+}
+
+// =============================================================================
+// UnlockThrottle Class
+// =============================================================================
+
+export class UnlockThrottle {
+  /**
+   * Returns the failure count, when the next attempt is allowed and the
+   * wipe policy.
+   */
+  async getStatus(): Promise<UnlockStatus> {
+    const stored = await this.load();
+    return {
+      failedAttempts: stored.failedAttempts,
+      retryAt: stored.failedAttempts >= FREE_ATTEMPTS
+        ? stored.lastFailureAt + getBackoffDelay(stored.failedAttempts)
+        : 0,
+      wipeAfterFailures: stored.wipeAfterFailures
+    };
+  }
+
+  /**
+   * Throws if an unlock attempt is not allowed yet.
+   */
+  async check(): Promise<void> {
+    const { retryAt } = await this.getStatus();
+    const wait = retryAt - Date.now();
+    if (wait > 0) {
+      throw new Error(`Too many failed attempts. Try again in ${formatWait(wait)}.`);
+    }
+  }
+
+  /**
+   * Records a failed attempt.
+   *
+   * @returns The new status and whether the wipe threshold was reached
+   */
+  async recordFailure(): Promise<{ status: UnlockStatus; wipe: boolean }> {
+    const stored = await this.load();
+    stored.failedAttempts += 1;
+    stored.lastFailureAt = Date.now();
+    await this.save(stored);
+
+    const wipe = stored.wipeAfterFailures !== null && stored.failedAttempts >= stored.wipeAfterFailures;
+    return { status: await this.getStatus(), wipe };
+  }
+
+  /**
+   * Clears the failure count after a successful unlock.
+   */
+  async recordSuccess(): Promise<void> {
+    const stored = await this.load();
+    if (stored.failedAttempts > 0) {
+      await this.save({ ...stored, failedAttempts: 0, lastFailureAt: 0 });
+    }
+  }
+
+  /**
+   * Sets how many consecutive failures erase the vault (null disables).
+   */
+  async setWipeAfterFailures(count: number | null): Promise<void> {
+    if (count !== null && (!Number.isInteger(count) || count < MIN_WIPE_AFTER_FAILURES || count > MAX_WIPE_AFTER_FAILURES)) {
+      throw new Error(`Wipe threshold must be between ${MIN_WIPE_AFTER_FAILURES} and ${MAX_WIPE_AFTER_FAILURES} attempts`);
+    }
+
+    const stored = await this.load();
+    await this.save({ ...stored, wipeAfterFailures: count });
+  }
+
+  // ===========================================================================
+  // Persistence
+  // ===========================================================================
+
+  private async load(): Promise<StoredAttempts> {
+    const result = await chrome.storage.local.get(STORAGE_KEY_UNLOCK_ATTEMPTS);
+    return {
+      failedAttempts: 0,
+      lastFailureAt: 0,
+      wipeAfterFailures: null,
+      ...result[STORAGE_KEY_UNLOCK_ATTEMPTS]
+    };
+  }
+
+  private async save(stored: StoredAttempts): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEY_UNLOCK_ATTEMPTS]: stored });
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Delay after `failedAttempts` consecutive failures: 5s after the third,
+ * doubling with each further failure, capped at one hour.
+ */
+function getBackoffDelay(failedAttempts: number): number {
+  return Math.min(BASE_DELAY * 2 ** (failedAttempts - FREE_ATTEMPTS), MAX_DELAY);
+}
+
+function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,180 @@
+/**
+ * Certen Key Vault - ERC-4337 UserOperation Signing
+ *
+ * Computes userOpHash for EntryPoint v0.6 and signs it for CertenAccountV2.
+ * https://eips.ethereum.org/EIPS/eip-4337
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { signEthPersonalMessage } from './secp256k1';
+import { toHex, fromHex, concatBytes } from './crypto';
+import { decodeFunctionData, decodeCertenCall, encodeFunctionData } from './abi';
+import { generateCertenAccountSalt, getFactoryDeployment } from './create2';
+import { CERTEN_ABIS, CERTEN_ACCOUNT_ABI } from '../config/abis';
+import { UserOperation, DecodedCall } from '../shared/types';
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const QUANTITY_FIELDS = [
+  'nonce',
+  'callGasLimit',
+  'verificationGasLimit',
+  'preVerificationGas',
+  'maxFeePerGas',
+  'maxPriorityFeePerGas'
+] as const;
+
+const BYTES_FIELDS = ['initCode', 'callData', 'paymasterAndData'] as const;
+
+/**
+ * Normalizes a v0.6 UserOperation (quantities as 0x hex, bytes as 0x hex).
+ *
+ * @throws Error if a field is missing or malformed
+ */
+export function parseUserOperation(value: unknown): UserOperation {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('UserOperation must be an object');
+  }
+  const input = value as Record<string, unknown>;
+  if (typeof input.sender !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(input.sender)) {
+    throw new Error(`Invalid sender: ${String(input.sender)}`);
+  }
+
+  const op: Record<string, string> = { sender: input.sender };
+
+  for (const field of QUANTITY_FIELDS) {
+    const quantity = input[field];
+    if (quantity === undefined || quantity === null) {
+      throw new Error(`UserOperation ${field} is required`);
+    }
+    try {
+      if (typeof quantity !== 'string' && typeof quantity !== 'number' && typeof quantity !== 'bigint') throw new Error();
+      const n = BigInt(quantity);
+      if (n < BigInt(0)) throw new Error();
+      op[field] = '0x' + n.toString(16);
+    } catch {
+      throw new Error(`Invalid ${field}: ${String(quantity)}`);
+    }
+  }
+
+  for (const field of BYTES_FIELDS) {
+    const bytes = input[field] ?? '0x';
+    if (typeof bytes !== 'string' || !/^0x([0-9a-fA-F]{2})*$/.test(bytes)) {
+      throw new Error(`Invalid ${field}: must be 0x-prefixed hex`);
+    }
+    op[field] = bytes.toLowerCase();
+  }
+
+  return op as unknown as UserOperation;
+}
+
+// =============================================================================
+// Hashing
+// =============================================================================
+
+function word(value: bigint | string): Uint8Array {
+  let n = BigInt(value);
+  const out = new Uint8Array(32);
+  for (let i = 31; i >= 0; i--) {
+    out[i] = Number(n & BigInt(0xff));
+    n >>= BigInt(8);
+  }
+  return out;
+}
+
+function hashBytes(hex: string): Uint8Array {
+  return keccak_256(fromHex(hex));
+}
+
+/**
+ * Computes the EntryPoint v0.6 userOpHash:
+ * keccak256(abi.encode(keccak256(pack(userOp)), entryPoint, chainId))
+ *
+ * @returns 0x-prefixed 32-byte hash
+ */
+export function getUserOperationHash(op: UserOperation, entryPoint: string, chainId: number): string {
+  const packed = concatBytes([
+    word(op.sender),
+    word(op.nonce),
+    hashBytes(op.initCode),
+    hashBytes(op.callData),
+    word(op.callGasLimit),
+    word(op.verificationGasLimit),
+    word(op.preVerificationGas),
+    word(op.maxFeePerGas),
+    word(op.maxPriorityFeePerGas),
+    hashBytes(op.paymasterAndData)
+  ]);
+
+  const encoded = concatBytes([keccak_256(packed), word(entryPoint), word(BigInt(chainId))]);
+  return '0x' + toHex(keccak_256(encoded));
+}
+
+/**
+ * Signs a userOpHash the way CertenAccountV2 validates it
+ * (EIP-191 personal message over the 32-byte hash).
+ *
+ * @returns 65-byte signature (r + s + v)
+ */
+export async function signUserOperationHash(
+  userOpHash: string,
+  privateKey: Uint8Array
+): Promise<Uint8Array> {
+  return signEthPersonalMessage(fromHex(userOpHash), privateKey);
+}
+
+// =============================================================================
+// Counterfactual Deployment
+// =============================================================================
+
+/**
+ * Builds initCode (factory ++ createAccount calldata) for a Certen account.
+ *
+ * @returns 0x-prefixed initCode, or null if the chain has no factory
+ */
+export function buildCertenInitCode(adiUrl: string, ownerPubKey: string, chainId: number): string | null {
+  const deployment = getFactoryDeployment(chainId);
+  const createAccount = CERTEN_ABIS.accountFactory?.find(fn => fn.name === 'createAccount');
+  if (!deployment?.factory || !createAccount) {
+    return null;
+  }
+
+  const salt = generateCertenAccountSalt(adiUrl, ownerPubKey, chainId);
+  const ownerKey = ownerPubKey.startsWith('0x') ? ownerPubKey : '0x' + ownerPubKey;
+  const calldata = encodeFunctionData(createAccount, [adiUrl, ownerKey, salt]);
+  return deployment.factory.toLowerCase() + calldata.slice(2);
+}
+
+// =============================================================================
+// Display
+// =============================================================================
+
+/**
+ * Summarizes UserOperation callData: the account call (execute/executeBatch)
+ * and, for execute, the inner call if it targets a Certen contract.
+ */
+export function summarizeUserOperationCall(op: UserOperation, chainId: number): DecodedCall[] {
+  if (op.callData === '0x') {
+    return [];
+  }
+
+  const accountCall = decodeFunctionData(op.callData, CERTEN_ACCOUNT_ABI);
+  if (!accountCall) {
+    return [];
+  }
+
+  const calls: DecodedCall[] = [{ contract: 'account', ...accountCall }];
+
+  if (accountCall.functionName === 'execute') {
+    const dest = accountCall.args.find(a => a.name === 'dest')?.value;
+    const func = accountCall.args.find(a => a.name === 'func')?.value;
+    const inner = decodeCertenCall(chainId, dest, func);
+    if (inner) {
+      calls.push(inner);
+    }
+  }
+
+  return calls;
+}
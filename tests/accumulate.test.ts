@@ -0,0 +1,180 @@
+/**
+ * Accumulate binary marshaling tests. Expected bytes are written out by hand
+ * from the field encoding rules (uvarint field number, then the value).
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import nacl from 'tweetnacl';
+import {
+  marshalHeader,
+  marshalBody,
+  marshalTransaction,
+  unmarshalTransaction,
+  hashTransaction,
+  verifyTransaction,
+  marshalED25519SignatureMetadata,
+  marshalSignatureMetadata,
+  computeDataForSignature,
+  buildED25519Signature,
+  buildEnvelope,
+  SignatureMetadata
+} from '../src/vault/accumulate';
+import { ed25519FromSeed, signED25519Hex } from '../src/vault/ed25519';
+import { AccumulateTransaction } from '../src/shared/types';
+import { toHex, fromHex } from '../src/vault/crypto';
+
+const hex = (text: string) => toHex(new TextEncoder().encode(text));
+
+const INITIATOR = '11'.repeat(32);
+
+const SEND_TOKENS: AccumulateTransaction = {
+  header: { principal: 'acc://a.acme/t', initiator: INITIATOR },
+  body: { type: 'sendTokens', to: [{ url: 'acc://b.acme/t', amount: '100000000' }] }
+};
+
+// 1: principal, 2: initiator (raw 32 bytes)
+const HEADER_HEX = '010e' + hex('acc://a.acme/t') + '02' + INITIATOR;
+// 1: type (sendTokens = 3), 4: recipient { 1: url, 2: amount (big-endian, length-prefixed) }
+const BODY_HEX = '0103' + '0416' + '010e' + hex('acc://b.acme/t') + '020405f5e100';
+
+describe('transaction marshaling', () => {
+  it('marshals the header and the body', () => {
+    expect(toHex(marshalHeader(SEND_TOKENS.header))).toBe(HEADER_HEX);
+    expect(toHex(marshalBody(SEND_TOKENS.body))).toBe(BODY_HEX);
+  });
+
+  it('length-prefixes the header and body in the transaction', () => {
+    expect(toHex(marshalTransaction(SEND_TOKENS))).toBe('0131' + HEADER_HEX + '021a' + BODY_HEX);
+  });
+
+  it('hashes SHA256(SHA256(header) ++ SHA256(body))', () => {
+    const expected = sha256(new Uint8Array([...sha256(fromHex(HEADER_HEX)), ...sha256(fromHex(BODY_HEX))]));
+    expect(toHex(hashTransaction(SEND_TOKENS))).toBe(toHex(expected));
+  });
+
+  it('writes an empty struct as the 0x80 marker', () => {
+    const body = { type: 'createKeyPage', keys: [{}] };
+    expect(toHex(marshalBody(body))).toBe('010c' + '020180');
+  });
+
+  it('round-trips through the binary form', () => {
+    expect(unmarshalTransaction(marshalTransaction(SEND_TOKENS))).toEqual(SEND_TOKENS);
+  });
+});
+
+describe('verifyTransaction', () => {
+  it('recomputes the hash for JSON and binary input alike', () => {
+    const fromJson = verifyTransaction(SEND_TOKENS);
+    const fromBinary = verifyTransaction(fromJson.binary);
+    expect(fromBinary.hash).toBe(fromJson.hash);
+    expect(fromBinary.transaction).toEqual(SEND_TOKENS);
+  });
+
+  it('rejects binary input that is not canonically encoded', () => {
+    // Amount with a leading zero byte decodes to the same value but re-encodes differently
+    const padded = '0131' + HEADER_HEX + '021b' + '0103' + '0417' + '010e' + hex('acc://b.acme/t') + '02050005f5e100';
+    expect(() => verifyTransaction(padded)).toThrow('not canonically encoded');
+  });
+
+  it('refuses body types it cannot display', () => {
+    expect(() => verifyTransaction({ ...SEND_TOKENS, body: { type: 'updateKeyPage' } }))
+      .toThrow('Unsupported transaction type');
+    expect(() => verifyTransaction('0131' + HEADER_HEX + '0202' + '0109')).toThrow('Unsupported transaction type code');
+  });
+});
+
+describe('signatures and envelopes', () => {
+  // RFC 8032 section 7.1, test 1
+  const keyPair = ed25519FromSeed(fromHex('9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60'));
+  const meta: SignatureMetadata = {
+    publicKey: toHex(keyPair.publicKey),
+    signer: 'acc://a.acme/book/1',
+    signerVersion: 1,
+    timestamp: 1700000000000000
+  };
+  const txHash = toHex(hashTransaction(SEND_TOKENS));
+
+  it('marshals the ED25519 signature metadata', () => {
+    expect(meta.publicKey).toBe('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a');
+    expect(toHex(marshalED25519SignatureMetadata(meta))).toBe(
+      '0102' + '0220' + meta.publicKey + '0413' + hex('acc://a.acme/book/1') + '0501' + '068080f9c0c1c48203'
+    );
+  });
+
+  it('signs SHA256(SHA256(metadata) ++ transactionHash)', () => {
+    const metadataHash = sha256(marshalED25519SignatureMetadata(meta));
+    const expected = toHex(sha256(new Uint8Array([...metadataHash, ...fromHex(txHash)])));
+    const data = computeDataForSignature(txHash, meta);
+    expect(data).toBe(expected);
+
+    const signature = signED25519Hex(data, toHex(keyPair.privateKey));
+    expect(nacl.sign.detached.verify(fromHex(data), fromHex(signature), keyPair.publicKey)).toBe(true);
+  });
+
+  it('rejects a transaction hash of the wrong length', () => {
+    expect(() => computeDataForSignature('abcd', meta)).toThrow('Transaction hash must be 32 bytes');
+  });
+
+  it('builds the signature object and the envelope', () => {
+    const signature = buildED25519Signature(meta, '0x' + 'ab'.repeat(64), '0x' + txHash);
+    expect(signature).toEqual({
+      type: 'ed25519',
+      publicKey: meta.publicKey,
+      signature: 'ab'.repeat(64),
+      signer: 'acc://a.acme/book/1',
+      signerVersion: 1,
+      timestamp: 1700000000000000,
+      transactionHash: txHash
+    });
+
+    expect(buildEnvelope([signature], txHash, SEND_TOKENS)).toEqual({
+      signatures: [signature],
+      transaction: [SEND_TOKENS]
+    });
+    expect(buildEnvelope([signature], '0x' + txHash)).toEqual({
+      signatures: [signature],
+      txHash
+    });
+  });
+});
+
+describe('delegated signatures', () => {
+  const meta: SignatureMetadata = {
+    publicKey: 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+    signer: 'acc://a.acme/book/1',
+    signerVersion: 1,
+    timestamp: 1700000000000000,
+    delegators: ['acc://c.acme/book/1']
+  };
+
+  it('wraps the key metadata in a delegated signature', () => {
+    const inner = toHex(marshalED25519SignatureMetadata(meta));
+    // 1: type (delegated = 0x0b), 2: nested signature, 3: delegator
+    expect(toHex(marshalSignatureMetadata(meta))).toBe(
+      '010b' + '02' + (inner.length / 2).toString(16) + inner + '0313' + hex('acc://c.acme/book/1')
+    );
+  });
+
+  it('signs over the outermost metadata', () => {
+    const txHash = toHex(hashTransaction(SEND_TOKENS));
+    const direct = computeDataForSignature(txHash, { ...meta, delegators: [] });
+    expect(computeDataForSignature(txHash, meta)).not.toBe(direct);
+  });
+
+  it('nests the key signature once per delegator, innermost first', () => {
+    const signature = buildED25519Signature(
+      { ...meta, delegators: ['acc://c.acme/book/1', 'acc://d.acme/book/1'] },
+      'ab'.repeat(64),
+      '22'.repeat(32)
+    );
+    expect(signature).toMatchObject({
+      type: 'delegated',
+      delegator: 'acc://d.acme/book/1',
+      signature: {
+        type: 'delegated',
+        delegator: 'acc://c.acme/book/1',
+        signature: { type: 'ed25519', signer: 'acc://a.acme/book/1' }
+      }
+    });
+  });
+});
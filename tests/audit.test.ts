@@ -0,0 +1,153 @@
+/**
+ * Audit log hash chain, CSV export and sealed records.
+ */
+
+import {
+  AUDIT_GENESIS_HASH,
+  createAuditEntry,
+  hashAuditEntry,
+  verifyAuditLog,
+  auditLogToCsv,
+  auditLogToJson,
+  generateAuditKey,
+  getAuditPublicKey,
+  sealAuditRecord,
+  openAuditRecord
+} from '../src/vault/audit';
+import { AuditEntry, AuditRecord } from '../src/shared/types';
+
+const RECORD: AuditRecord = {
+  timestamp: Date.UTC(2024, 0, 2, 3, 4, 5),
+  outcome: 'approved',
+  origin: 'https://dapp.example',
+  method: 'acc_signTransaction',
+  requestId: 'request-0',
+  keyId: 'key-1',
+  keyName: 'Main',
+  signedHash: 'ab'.repeat(32),
+  summary: 'Send 1 ACME'
+};
+
+function buildLog(count: number): AuditEntry[] {
+  const log: AuditEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    log.push(createAuditEntry(log, { ...RECORD, requestId: `request-${i}`, timestamp: RECORD.timestamp + i }));
+  }
+  return log;
+}
+
+describe('audit hash chain', () => {
+  it('chains entries from the genesis hash', () => {
+    const log = buildLog(3);
+
+    expect(log.map(entry => entry.sequence)).toEqual([0, 1, 2]);
+    expect(log[0].prevHash).toBe(AUDIT_GENESIS_HASH);
+    expect(log[1].prevHash).toBe(log[0].entryHash);
+    expect(log[2].prevHash).toBe(log[1].entryHash);
+
+    const { entryHash, ...fields } = log[1];
+    expect(hashAuditEntry(fields)).toBe(entryHash);
+    expect(verifyAuditLog(log)).toEqual({ valid: true });
+  });
+
+  it('accepts an empty log', () => {
+    expect(verifyAuditLog([])).toEqual({ valid: true });
+  });
+
+  it('reports an edited entry', () => {
+    const log = buildLog(3);
+    log[1] = { ...log[1], summary: 'Send 1000 ACME' };
+    expect(verifyAuditLog(log)).toEqual({ valid: false, brokenAt: 1 });
+  });
+
+  it('reports an edited entry whose hash was recomputed', () => {
+    const log = buildLog(3);
+    const edited = { ...log[1], outcome: 'rejected' as const };
+    edited.entryHash = hashAuditEntry(edited);
+    log[1] = edited;
+    expect(verifyAuditLog(log)).toEqual({ valid: false, brokenAt: 2 });
+  });
+
+  it('reports a removed entry', () => {
+    const log = buildLog(3);
+    log.splice(1, 1);
+    expect(verifyAuditLog(log)).toEqual({ valid: false, brokenAt: 1 });
+  });
+
+  it('reports reordered entries', () => {
+    const log = buildLog(3);
+    [log[1], log[2]] = [log[2], log[1]];
+    expect(verifyAuditLog(log)).toEqual({ valid: false, brokenAt: 1 });
+  });
+});
+
+describe('auditLogToCsv', () => {
+  it('writes the header and one row per entry', () => {
+    const [entry] = buildLog(1);
+    const lines = auditLogToCsv([entry]).split('\r\n');
+
+    expect(lines[0]).toBe(
+      'sequence,timestamp,outcome,origin,method,keyId,keyName,signedHash,summary,error,requestId,id,prevHash,entryHash'
+    );
+    expect(lines[1]).toBe([
+      '0',
+      '2024-01-02T03:04:05.000Z',
+      'approved',
+      'https://dapp.example',
+      'acc_signTransaction',
+      'key-1',
+      'Main',
+      'ab'.repeat(32),
+      'Send 1 ACME',
+      '',
+      'request-0',
+      entry.id,
+      AUDIT_GENESIS_HASH,
+      entry.entryHash
+    ].join(','));
+    expect(lines.slice(2)).toEqual(['']);
+  });
+
+  it('quotes commas, quotes and newlines', () => {
+    const log: AuditEntry[] = [];
+    log.push(createAuditEntry(log, {
+      ...RECORD,
+      origin: 'https://a.example,https://b.example',
+      summary: 'Memo "hi"\nsecond line'
+    }));
+
+    const row = auditLogToCsv(log).split('\r\n').slice(1).join('\r\n');
+    expect(row).toContain(',"https://a.example,https://b.example",');
+    expect(row).toContain(',"Memo ""hi""\nsecond line",');
+  });
+});
+
+describe('auditLogToJson', () => {
+  it('includes the verification result', () => {
+    const log = buildLog(2);
+    const exported = JSON.parse(auditLogToJson(log));
+
+    expect(exported.genesisHash).toBe(AUDIT_GENESIS_HASH);
+    expect(exported.verification).toEqual({ valid: true });
+    expect(exported.entries).toEqual(log);
+  });
+});
+
+describe('sealed audit records', () => {
+  it('opens a record with the audit secret key', () => {
+    const secretKey = generateAuditKey();
+    const sealed = sealAuditRecord(RECORD, getAuditPublicKey(secretKey));
+
+    expect(JSON.stringify(sealed)).not.toContain('dapp.example');
+    expect(openAuditRecord(sealed, secretKey)).toEqual(RECORD);
+  });
+
+  it('refuses another key or a modified record', () => {
+    const secretKey = generateAuditKey();
+    const sealed = sealAuditRecord(RECORD, getAuditPublicKey(secretKey));
+
+    expect(() => openAuditRecord(sealed, generateAuditKey())).toThrow('Sealed audit record cannot be opened');
+    const modified = { ...sealed, nonce: sealAuditRecord(RECORD, getAuditPublicKey(secretKey)).nonce };
+    expect(() => openAuditRecord(modified, secretKey)).toThrow('Sealed audit record cannot be opened');
+  });
+});
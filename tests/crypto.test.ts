@@ -0,0 +1,96 @@
+/**
+ * Vault KDF and encryption tests: published KDF vectors, encryption round
+ * trips and the parameter bounds.
+ */
+
+import {
+  deriveKeyBytes,
+  deriveKey,
+  importEncryptionKey,
+  encrypt,
+  decrypt,
+  validateKdfParams,
+  isKdfOutdated,
+  getUpgradedKdfParams,
+  RECOMMENDED_KDF_PARAMS,
+  DEFAULT_KDF_PARAMS,
+  toHex
+} from '../src/vault/crypto';
+import { KdfParams } from '../src/shared/types';
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+describe('deriveKeyBytes', () => {
+  it('matches the PBKDF2-HMAC-SHA512 vector (password/salt, c=1)', async () => {
+    const key = await deriveKeyBytes('password', ascii('salt'), { algorithm: 'pbkdf2', iterations: 1 });
+    expect(toHex(key)).toBe('867f70cf1ade02cff3752599a3a53dc4af34c7a669815ae5d513554e1c8cf252');
+  });
+
+  it('matches the RFC 7914 scrypt vector (password/NaCl, N=1024, r=8, p=16)', async () => {
+    const key = await deriveKeyBytes('password', ascii('NaCl'), { algorithm: 'scrypt', N: 1024, r: 8, p: 16 });
+    expect(toHex(key)).toBe('fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162');
+  });
+
+  it('derives 32-byte Argon2id keys bound to the password and salt', async () => {
+    const params: KdfParams = { algorithm: 'argon2id', t: 1, m: 64, p: 1 };
+    const key = await deriveKeyBytes('password', ascii('somesalt'), params);
+    expect(key.length).toBe(32);
+    expect(toHex(await deriveKeyBytes('password', ascii('somesalt'), params))).toBe(toHex(key));
+    expect(toHex(await deriveKeyBytes('passwore', ascii('somesalt'), params))).not.toBe(toHex(key));
+    expect(toHex(await deriveKeyBytes('password', ascii('othersalt'), params))).not.toBe(toHex(key));
+  });
+});
+
+describe('encryption round trip', () => {
+  const salt = ascii('0123456789abcdef0123456789abcdef');
+  const cheap: KdfParams[] = [
+    { algorithm: 'pbkdf2', iterations: 1000 },
+    { algorithm: 'scrypt', N: 1024, r: 8, p: 1 },
+    { algorithm: 'argon2id', t: 1, m: 64, p: 1 }
+  ];
+
+  it.each(cheap)('decrypts with the same password ($algorithm)', async (params) => {
+    const { iv, ciphertext } = await encrypt('{"keys":[]}', await deriveKey('correct horse', salt, params));
+    expect(await decrypt(ciphertext, iv, await deriveKey('correct horse', salt, params))).toBe('{"keys":[]}');
+    await expect(decrypt(ciphertext, iv, await deriveKey('wrong horse', salt, params))).rejects.toThrow();
+  });
+
+  it('accepts key bytes from deriveKeyBytes', async () => {
+    const keyBytes = await deriveKeyBytes('pw', salt, cheap[1]);
+    const { iv, ciphertext } = await encrypt('secret', await importEncryptionKey(keyBytes));
+    expect(await decrypt(ciphertext, iv, await deriveKey('pw', salt, cheap[1]))).toBe('secret');
+  });
+});
+
+describe('validateKdfParams', () => {
+  it('accepts the recommended parameters', () => {
+    for (const params of Object.values(RECOMMENDED_KDF_PARAMS)) {
+      expect(() => validateKdfParams(params)).not.toThrow();
+    }
+  });
+
+  it('rejects parameters below the minimum unless outdated values are allowed', () => {
+    const weak: KdfParams = { algorithm: 'scrypt', N: 1024, r: 8, p: 1 };
+    expect(() => validateKdfParams(weak)).toThrow('below the recommended minimum');
+    expect(() => validateKdfParams(weak, { allowOutdated: true })).not.toThrow();
+    expect(() => validateKdfParams({ algorithm: 'pbkdf2', iterations: 1000 }, { allowOutdated: true })).not.toThrow();
+  });
+
+  it('keeps the upper bounds for stored parameters', () => {
+    const options = { allowOutdated: true };
+    expect(() => validateKdfParams({ algorithm: 'scrypt', N: 2 ** 20, r: 8, p: 1 }, options)).toThrow('MiB');
+    expect(() => validateKdfParams({ algorithm: 'scrypt', N: 1024, r: 8, p: 17 }, options)).toThrow('p must be 1-16');
+    expect(() => validateKdfParams({ algorithm: 'argon2id', t: 2, m: 512 * 1024, p: 1 }, options)).toThrow('MiB');
+    expect(() => validateKdfParams({ algorithm: 'pbkdf2', iterations: 1e9 }, options)).toThrow('PBKDF2 iterations');
+    expect(() => validateKdfParams({ algorithm: 'scrypt', N: 1000, r: 8, p: 1 }, options)).toThrow('power of 2');
+    expect(() => validateKdfParams({ algorithm: 'md5' } as unknown as KdfParams, options)).toThrow('Unsupported');
+  });
+
+  it('flags outdated parameters and picks their upgrade', () => {
+    expect(isKdfOutdated(RECOMMENDED_KDF_PARAMS.pbkdf2)).toBe(true);
+    expect(isKdfOutdated({ algorithm: 'argon2id', t: 1, m: 64, p: 1 })).toBe(true);
+    expect(isKdfOutdated(DEFAULT_KDF_PARAMS)).toBe(false);
+    expect(getUpgradedKdfParams(RECOMMENDED_KDF_PARAMS.pbkdf2)).toEqual(DEFAULT_KDF_PARAMS);
+    expect(getUpgradedKdfParams({ algorithm: 'scrypt', N: 1024, r: 8, p: 1 })).toEqual(RECOMMENDED_KDF_PARAMS.scrypt);
+  });
+});
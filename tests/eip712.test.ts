@@ -0,0 +1,102 @@
+/**
+ * EIP-712 known-answer tests, using the Mail example from the EIP
+ * (https://eips.ethereum.org/EIPS/eip-712, assets/eip-712/Example.js).
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import {
+  encodeType,
+  hashType,
+  hashStruct,
+  hashDomain,
+  hashTypedData,
+  signTypedData,
+  parseTypedData,
+  getTypedDataChainId
+} from '../src/vault/eip712';
+import { secp256k1FromPrivateKey, getEthAddress } from '../src/vault/secp256k1';
+import { toHex } from '../src/vault/crypto';
+
+const MAIL = {
+  types: {
+    EIP712Domain: [
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' }
+    ],
+    Person: [
+      { name: 'name', type: 'string' },
+      { name: 'wallet', type: 'address' }
+    ],
+    Mail: [
+      { name: 'from', type: 'Person' },
+      { name: 'to', type: 'Person' },
+      { name: 'contents', type: 'string' }
+    ]
+  },
+  primaryType: 'Mail',
+  domain: {
+    name: 'Ether Mail',
+    version: '1',
+    chainId: 1,
+    verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC'
+  },
+  message: {
+    from: { name: 'Cow', wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826' },
+    to: { name: 'Bob', wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB' },
+    contents: 'Hello, Bob!'
+  }
+};
+
+// The EIP's signer is keccak256("cow")
+const COW_KEY = keccak_256(new TextEncoder().encode('cow'));
+
+describe('EIP-712 Mail example', () => {
+  const typedData = parseTypedData(JSON.stringify(MAIL));
+
+  it('encodes and hashes the struct type', () => {
+    expect(encodeType('Mail', MAIL.types)).toBe(
+      'Mail(Person from,Person to,string contents)Person(string name,address wallet)'
+    );
+    expect(toHex(hashType('Mail', MAIL.types))).toBe(
+      'a0cedeb2dc280ba39b857546d74f5549c3a1d7bdc2dd96bf881f76108e23dac2'
+    );
+  });
+
+  it('hashes the message and the domain', () => {
+    expect(toHex(hashStruct('Mail', MAIL.message, MAIL.types))).toBe(
+      'c52c0ee5d84264471806290a3f2c4cecfc5490626bf912d01f240d7a274b371e'
+    );
+    expect(toHex(hashDomain(typedData))).toBe(
+      'f2cee375fa42b42143804025fc449deafd50cc031ca257e0b194a650a912090f'
+    );
+  });
+
+  it('computes the signing digest', () => {
+    expect(toHex(hashTypedData(typedData))).toBe(
+      'be609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2'
+    );
+  });
+
+  it('produces the signature from the EIP', async () => {
+    expect(getEthAddress(secp256k1FromPrivateKey(COW_KEY).publicKey).toLowerCase()).toBe(
+      MAIL.message.from.wallet.toLowerCase()
+    );
+
+    const signature = await signTypedData(typedData, COW_KEY);
+    expect(toHex(signature)).toBe(
+      '4355c47d63924e8a72e509b65029052eb6c299d53a04e167c5775fd466751c9d' +
+      '07299936d304c153f6443dfa05f40ff007d72911b6f72307f996231605b91562' +
+      '1c'
+    );
+  });
+
+  it('reads the domain chain id', () => {
+    expect(getTypedDataChainId(typedData)).toBe(1);
+  });
+
+  it('rejects payloads without a defined primary type', () => {
+    expect(() => parseTypedData({ ...MAIL, primaryType: 'Letter' })).toThrow('Primary type not defined');
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Provider event delivery to the frames of one origin.
+ */
+
+import { sendProviderEvent } from '../src/background/events';
+
+const DAPP = 'https://dapp.example';
+
+function openTabs(frames: Record<number, string[]>): jest.SpyInstance {
+  jest.spyOn(chrome.tabs, 'query').mockImplementation((async () => (
+    Object.keys(frames).map(id => ({ id: Number(id) }))
+  )) as never);
+  jest.spyOn(chrome.webNavigation, 'getAllFrames').mockImplementation((async ({ tabId }: { tabId: number }) => (
+    frames[tabId].map((url, frameId) => ({ url, frameId }))
+  )) as never);
+  return jest.spyOn(chrome.tabs, 'sendMessage').mockImplementation((async () => undefined) as never);
+}
+
+describe('sendProviderEvent', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('delivers only to frames of the origin', async () => {
+    const sendMessage = openTabs({
+      1: [DAPP + '/app', 'https://ads.example/frame'],
+      2: ['https://other.example/'],
+      3: ['https://ads.example/', DAPP + '/embedded?x=1']
+    });
+
+    await sendProviderEvent(DAPP, 'accountsChanged', { accounts: [] });
+
+    const message = { type: 'CERTEN_EVENT', origin: DAPP, event: 'accountsChanged', data: { accounts: [] } };
+    expect(sendMessage.mock.calls).toEqual([
+      [1, message, { frameId: 0 }],
+      [3, message, { frameId: 1 }]
+    ]);
+  });
+
+  it('skips tabs and frames that cannot be reached', async () => {
+    const sendMessage = openTabs({ 1: [DAPP + '/'], 2: ['about:blank', 'not a url'] });
+    sendMessage.mockRejectedValueOnce(new Error('Could not establish connection'));
+
+    await expect(sendProviderEvent(DAPP, 'lock', {})).resolves.toBeUndefined();
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+  });
+});
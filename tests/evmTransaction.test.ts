@@ -0,0 +1,129 @@
+/**
+ * EVM transaction known-answer tests: the EIP-155 example and hand-encoded
+ * EIP-2930 / EIP-1559 payloads.
+ */
+
+import * as secp from '@noble/secp256k1';
+import {
+  rlpEncode,
+  parseEvmTransaction,
+  serializeUnsignedTransaction,
+  getTransactionSigningHash,
+  signEvmTransaction
+} from '../src/vault/evmTransaction';
+import { secp256k1FromPrivateKey } from '../src/vault/secp256k1';
+import { toHex, fromHex } from '../src/vault/crypto';
+
+const TO = '0x' + '35'.repeat(20);
+
+function recoverSigner(hash: Uint8Array, signature: string): string {
+  const bytes = fromHex(signature);
+  const point = secp.Signature.fromCompact(bytes.slice(0, 64))
+    .addRecoveryBit(bytes[64] - 27)
+    .recoverPublicKey(hash);
+  return toHex(point.toRawBytes(false));
+}
+
+describe('rlpEncode', () => {
+  it('encodes the examples from the RLP spec', () => {
+    const dog = new TextEncoder().encode('dog');
+    const cat = new TextEncoder().encode('cat');
+    expect(toHex(rlpEncode(dog))).toBe('83646f67');
+    expect(toHex(rlpEncode([cat, dog]))).toBe('c88363617483646f67');
+    expect(toHex(rlpEncode(new Uint8Array(0)))).toBe('80');
+    expect(toHex(rlpEncode([]))).toBe('c0');
+    expect(toHex(rlpEncode(new Uint8Array([0x0f])))).toBe('0f');
+    expect(toHex(rlpEncode(new Uint8Array([0x04, 0x00])))).toBe('820400');
+    expect(toHex(rlpEncode([[], [[]], [[], [[]]]]))).toBe('c7c0c1c0c3c0c1c0');
+  });
+});
+
+describe('EIP-155 legacy transaction', () => {
+  // Example from https://eips.ethereum.org/EIPS/eip-155
+  const privateKey = fromHex('46'.repeat(32));
+  const tx = parseEvmTransaction({
+    nonce: 9,
+    gasPrice: '20000000000',
+    gas: 21000,
+    to: TO,
+    value: '1000000000000000000',
+    data: '0x'
+  }, 1);
+
+  it('serializes the signing payload', () => {
+    expect(tx.type).toBe(0);
+    expect(toHex(serializeUnsignedTransaction(tx))).toBe(
+      'ec098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a764000080018080'
+    );
+    expect(toHex(getTransactionSigningHash(tx))).toBe(
+      'daf5a779ae972f972197303d7b574746c7ef83eadac0f2791ad23db92e4c8e53'
+    );
+  });
+
+  it('produces the signed transaction from the EIP', async () => {
+    const signed = await signEvmTransaction(tx, privateKey);
+    expect(signed.rawTransaction).toBe(
+      '0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a7640000' +
+      '8025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276' +
+      'a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83'
+    );
+  });
+});
+
+describe('typed transactions', () => {
+  const privateKey = fromHex('46'.repeat(32));
+  const publicKey = toHex(secp256k1FromPrivateKey(privateKey).publicKey);
+
+  it('serializes an EIP-2930 transaction with an access list', async () => {
+    const tx = parseEvmTransaction({
+      chainId: '0x1',
+      nonce: '0x0',
+      gasPrice: '0x1',
+      gas: '0x5208',
+      to: TO,
+      accessList: [{ address: TO, storageKeys: ['0x' + '00'.repeat(31) + '01'] }]
+    });
+
+    expect(tx.type).toBe(1);
+    expect(toHex(serializeUnsignedTransaction(tx))).toBe(
+      '01f857' + '018001825208' + '94' + '35'.repeat(20) + '8080' +
+      'f838' + 'f7' + '94' + '35'.repeat(20) + 'e1' + 'a0' + '00'.repeat(31) + '01'
+    );
+
+    const signed = await signEvmTransaction(tx, privateKey);
+    expect(signed.rawTransaction.startsWith('0x01')).toBe(true);
+    expect(recoverSigner(getTransactionSigningHash(tx), signed.signature)).toBe(publicKey);
+  });
+
+  it('serializes an EIP-1559 transaction', async () => {
+    const tx = parseEvmTransaction({
+      nonce: 0,
+      maxPriorityFeePerGas: 1,
+      maxFeePerGas: 2,
+      gas: 21000,
+      to: TO
+    }, 1);
+
+    expect(tx.type).toBe(2);
+    expect(toHex(serializeUnsignedTransaction(tx))).toBe(
+      '02df' + '0180010282520894' + '35'.repeat(20) + '8080c0'
+    );
+
+    const signed = await signEvmTransaction(tx, privateKey);
+    const raw = fromHex(signed.rawTransaction);
+    expect(raw[0]).toBe(2);
+    // y-parity is encoded as 0 or 1, not EIP-155 style
+    const signature = fromHex(signed.signature);
+    expect(signed.rawTransaction).toContain(
+      (signature[64] === 27 ? '80' : '01') + 'a0' + toHex(signature.slice(0, 32))
+    );
+    expect(recoverSigner(getTransactionSigningHash(tx), signed.signature)).toBe(publicKey);
+  });
+
+  it('requires a chain id and the fee fields for the type', () => {
+    expect(() => parseEvmTransaction({ nonce: 0, gas: 21000, gasPrice: 1 })).toThrow('chainId is required');
+    expect(() => parseEvmTransaction({ type: '0x2', nonce: 0, gas: 21000, maxFeePerGas: 2 }, 1))
+      .toThrow('require maxFeePerGas and maxPriorityFeePerGas');
+    expect(() => parseEvmTransaction('0x00')).toThrow('Transaction must be an object');
+  });
+});
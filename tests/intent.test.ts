@@ -0,0 +1,83 @@
+/**
+ * Certen intent parsing and hashing. The expected encoding and hash were
+ * computed independently from the length-prefixed field layout.
+ */
+
+import {
+  parseCertenIntent,
+  encodeCertenIntent,
+  hashCertenIntent,
+  isIntentExpired,
+  CertenIntent
+} from '../src/vault/intent';
+import { toHex } from '../src/vault/crypto';
+
+const INTENT: CertenIntent = {
+  adiUrl: 'acc://my-adi.acme',
+  actionType: 'bridge',
+  targetChain: '11155111',
+  targetAddress: '0x' + '35'.repeat(20),
+  amount: '100000000',
+  nonce: '7',
+  expiry: 1700000600
+};
+
+describe('encodeCertenIntent', () => {
+  it('length-prefixes each field after the domain tag', () => {
+    expect(toHex(encodeCertenIntent(INTENT))).toBe(
+      '0000000f' + '43657274656e496e74656e742f7631' +
+      '00000011' + '6163633a2f2f6d792d6164692e61636d65' +
+      '00000006' + '627269646765' +
+      '00000008' + '3131313535313131' +
+      '0000002a' + '3078' + '3335'.repeat(20) +
+      '00000009' + '313030303030303030' +
+      '00000001' + '37' +
+      '0000000a' + '31373030303030363030'
+    );
+  });
+});
+
+describe('hashCertenIntent', () => {
+  it('matches the known hash', () => {
+    expect(hashCertenIntent(INTENT)).toBe('51d2e6d4a4d827190ff2009ed31262e2ece30ea850635ebee8df19ae9285c48f');
+  });
+
+  it('hashes parsed request fields to the same value', () => {
+    const parsed = parseCertenIntent({
+      intentId: 'not-signed',
+      adiUrl: ' ACC://My-ADI.acme ',
+      actionType: 'bridge',
+      targetChain: '11155111',
+      targetAddress: '0x' + '35'.repeat(20),
+      amount: '0x5f5e100',
+      nonce: 7,
+      expiry: '1700000600'
+    });
+
+    expect(parsed).toEqual(INTENT);
+    expect(hashCertenIntent(parsed)).toBe(hashCertenIntent(INTENT));
+  });
+
+  it('changes with every field', () => {
+    const hash = hashCertenIntent(INTENT);
+    expect(hashCertenIntent({ ...INTENT, amount: '100000001' })).not.toBe(hash);
+    expect(hashCertenIntent({ ...INTENT, targetAddress: '' })).not.toBe(hash);
+    expect(hashCertenIntent({ ...INTENT, expiry: INTENT.expiry + 1 })).not.toBe(hash);
+  });
+});
+
+describe('parseCertenIntent', () => {
+  it('rejects missing and malformed fields', () => {
+    expect(() => parseCertenIntent({ ...INTENT, adiUrl: 'https://my-adi.acme' })).toThrow('Invalid intent adiUrl');
+    expect(() => parseCertenIntent({ ...INTENT, actionType: '' })).toThrow('Intent actionType is required');
+    expect(() => parseCertenIntent({ ...INTENT, nonce: '-1' })).toThrow('Invalid intent nonce');
+    expect(() => parseCertenIntent({ ...INTENT, amount: 1.5 })).toThrow('Invalid intent amount');
+  });
+});
+
+describe('isIntentExpired', () => {
+  it('compares expiry seconds with the current time', () => {
+    expect(isIntentExpired(INTENT, INTENT.expiry * 1000 - 1)).toBe(false);
+    expect(isIntentExpired(INTENT, INTENT.expiry * 1000)).toBe(true);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * KeyStore password checks against the unlock throttle, duplicate key
+ * imports, audit records that finish while locked, the migration backup,
+ * passphrase wallet branches and derivation paths. The vault uses
+ * cheap KDF parameters, so the minimum checks and the upgrade on unlock
+ * are turned off.
+ */
+
+import { KeyStore } from '../src/vault/keyStore';
+import { AuditRecord, KdfParams } from '../src/shared/types';
+import { STORAGE_KEY_AUDIT_BUFFER } from '../src/shared/constants';
+import { CURRENT_VAULT_VERSION } from '../src/vault/migrations';
+import { deriveKeyBytes, encrypt, generateSalt, importEncryptionKey, toBase64, toHex } from '../src/vault/crypto';
+import { deriveKeyAtPath } from '../src/vault/mnemonic';
+
+jest.mock('../src/vault/crypto', () => ({
+  ...jest.requireActual('../src/vault/crypto'),
+  validateKdfParams: jest.fn(),
+  isKdfOutdated: () => false
+}));
+
+const PASSWORD = 'correct horse battery';
+const CHEAP_KDF: KdfParams = { algorithm: 'argon2id', t: 1, m: 64, p: 1 };
+
+describe('KeyStore unlock throttle', () => {
+  let store: KeyStore;
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    await chrome.storage.session.clear();
+    store = new KeyStore();
+    await store.initialize(PASSWORD, CHEAP_KDF);
+    store.lock();
+  });
+
+  it('throttles unlocking after three wrong passwords', async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(store.unlock('wrong')).rejects.toThrow('Invalid password');
+    }
+    await expect(store.unlock(PASSWORD)).rejects.toThrow('Too many failed attempts');
+    expect(store.isUnlocked()).toBe(false);
+    expect((await store.getUnlockStatus()).failedAttempts).toBe(3);
+  });
+
+  it('clears the failure count after a successful unlock', async () => {
+    await expect(store.unlock('wrong')).rejects.toThrow('Invalid password');
+    await expect(store.unlock(PASSWORD)).resolves.toBe(true);
+    expect((await store.getUnlockStatus()).failedAttempts).toBe(0);
+  });
+
+  it('counts wrong passwords given to verifyPassword', async () => {
+    await store.unlock(PASSWORD);
+    await expect(store.verifyPassword('wrong')).rejects.toThrow('Invalid password');
+    await expect(store.verifyPassword(PASSWORD)).resolves.toBeUndefined();
+    expect((await store.getUnlockStatus()).failedAttempts).toBe(0);
+  });
+
+  it('runs one password check at a time', async () => {
+    await store.unlock(PASSWORD);
+    const first = store.verifyPassword('wrong');
+    await expect(store.verifyPassword('wrong')).rejects.toThrow('Another unlock attempt is in progress');
+    await expect(first).rejects.toThrow('Invalid password');
+    expect((await store.getUnlockStatus()).failedAttempts).toBe(1);
+  });
+
+  it('refuses password checks while locked', async () => {
+    await expect(store.verifyPassword(PASSWORD)).rejects.toThrow('Vault is locked');
+  });
+});
+
+describe('KeyStore.importKey', () => {
+  const privateKeyHex = '7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d';
+
+  it('rejects a key that is already in the wallet', async () => {
+    await chrome.storage.local.clear();
+    const store = new KeyStore();
+    await store.initialize(PASSWORD, CHEAP_KDF);
+
+    await store.importKey('secp256k1', privateKeyHex, 'Imported');
+    await expect(store.importKey('secp256k1', '0x' + privateKeyHex.toUpperCase(), 'Again'))
+      .rejects.toThrow('This key is already in the wallet as "Imported"');
+  });
+});
+
+describe('KeyStore audit records while locked', () => {
+  const record: AuditRecord = {
+    timestamp: 1700000000000,
+    outcome: 'expired',
+    origin: 'https://dapp.example',
+    method: 'eth_signHash',
+    requestId: 'request-1',
+    signedHash: 'ab'.repeat(32),
+    summary: 'Sign hash for https://dapp.example'
+  };
+  let store: KeyStore;
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    await chrome.storage.session.clear();
+    store = new KeyStore();
+    await store.initialize(PASSWORD, CHEAP_KDF);
+    store.lock();
+  });
+
+  it('seals records in local storage and appends them on unlock', async () => {
+    await store.recordAudit(record);
+    await store.recordAudit({ ...record, requestId: 'request-2', timestamp: record.timestamp + 1 });
+
+    const stored = JSON.stringify(await chrome.storage.local.get(null));
+    expect(stored).not.toContain('dapp.example');
+    expect(stored).not.toContain(record.signedHash);
+
+    await store.unlock(PASSWORD);
+    expect(store.getAuditLog().map(entry => entry.requestId)).toEqual(['request-1', 'request-2']);
+    expect(store.getAuditLog()[0]).toMatchObject(record);
+    expect(await chrome.storage.local.get(STORAGE_KEY_AUDIT_BUFFER)).toEqual({});
+  });
+
+  it('drops the buffer on reset', async () => {
+    await store.recordAudit(record);
+    await store.reset();
+    expect(await chrome.storage.local.get(STORAGE_KEY_AUDIT_BUFFER)).toEqual({});
+  });
+});
+
+describe('KeyStore vault migration', () => {
+  const BACKUP_KEY = 'certen_vault_backup';
+
+  async function storeVersion1Vault(): Promise<void> {
+    const payload = {
+      keys: [{ id: 'k1', name: 'Main', type: 'ed25519', privateKey: 'aa'.repeat(32), publicKey: 'bb'.repeat(32) }],
+      metadata: { createdAt: 1000, version: 1 }
+    };
+    const salt = generateSalt();
+    const keyBytes = await deriveKeyBytes(PASSWORD, salt, CHEAP_KDF);
+    const { iv, ciphertext } = await encrypt(JSON.stringify(payload), await importEncryptionKey(keyBytes));
+    await chrome.storage.local.set({
+      certen_vault_v1: {
+        version: 1,
+        salt: toBase64(salt),
+        iv: toBase64(iv),
+        encryptedPayload: toBase64(ciphertext),
+        kdfParams: CHEAP_KDF
+      }
+    });
+  }
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    await chrome.storage.session.clear();
+  });
+
+  it('removes the pre-migration backup once the migrated vault is saved', async () => {
+    await storeVersion1Vault();
+    const store = new KeyStore();
+
+    await expect(store.unlock(PASSWORD)).resolves.toBe(true);
+
+    expect(store.getAllKeys().map(key => key.id)).toEqual(['k1']);
+    const stored = await chrome.storage.local.get(null);
+    expect(stored.certen_vault_v2.version).toBe(CURRENT_VAULT_VERSION);
+    expect(stored.certen_vault_v1).toBeUndefined();
+    expect(stored[BACKUP_KEY]).toBeUndefined();
+  });
+
+  it('removes a leftover backup when the password changes', async () => {
+    const store = new KeyStore();
+    await store.initialize(PASSWORD, CHEAP_KDF);
+    await chrome.storage.local.set({ [BACKUP_KEY]: { vault: {}, storageKey: 'certen_vault_v1', createdAt: 1 } });
+
+    await store.changePassword(PASSWORD, 'new password here');
+
+    expect(await chrome.storage.local.get(BACKUP_KEY)).toEqual({});
+  });
+});
+
+describe('KeyStore passphrase wallets', () => {
+  const mnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+  let store: KeyStore;
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    await chrome.storage.session.clear();
+    store = new KeyStore();
+  });
+
+  it('derives the first keys of a restored wallet with its passphrase', async () => {
+    await store.initializeWithMnemonic(PASSWORD, mnemonic, CHEAP_KDF, 'TREZOR');
+
+    const [ed25519] = store.getKeysByType('ed25519');
+    expect(ed25519.publicKey).toBe(toHex(deriveKeyAtPath(mnemonic, 'ed25519', "m/44'/540'/0'/0'/0'", 'TREZOR').publicKey));
+    expect(ed25519.publicKey).not.toBe(toHex(deriveKeyAtPath(mnemonic, 'ed25519', "m/44'/540'/0'/0'/0'").publicKey));
+    expect(store.getWallets()).toEqual([expect.objectContaining({ hasPassphrase: true, active: true, keyCount: 2 })]);
+  });
+
+  it('keeps the keys of each wallet branch separate', async () => {
+    await store.initializeWithMnemonic(PASSWORD, mnemonic, CHEAP_KDF);
+    const mainKeys = store.getAllKeys().map(key => key.publicKey);
+    const [main] = store.getWallets();
+
+    const hidden = await store.addWallet('Hidden', 'TREZOR');
+    const hiddenKeys = store.getAllKeys().map(key => key.publicKey);
+
+    expect(hidden).toMatchObject({ name: 'Hidden', hasPassphrase: true, active: true, keyCount: 2 });
+    expect(hiddenKeys).toHaveLength(2);
+    expect(hiddenKeys.filter(publicKey => mainKeys.includes(publicKey))).toEqual([]);
+
+    await store.switchWallet(main.id);
+    expect(store.getAllKeys().map(key => key.publicKey)).toEqual(mainKeys);
+
+    store.lock();
+    await store.unlock(PASSWORD);
+    expect(store.getWallets().map(wallet => [wallet.name, wallet.active])).toEqual([['Main Wallet', true], ['Hidden', false]]);
+  });
+
+  it('refuses a second branch with the same passphrase', async () => {
+    await store.initializeWithMnemonic(PASSWORD, mnemonic, CHEAP_KDF);
+    await store.addWallet('Hidden', 'TREZOR');
+
+    await expect(store.addWallet('Again', 'TREZOR')).rejects.toThrow('A wallet with this passphrase already exists');
+  });
+
+  it('removes an inactive branch with its keys', async () => {
+    await store.initializeWithMnemonic(PASSWORD, mnemonic, CHEAP_KDF);
+    const [main] = store.getWallets();
+    const hidden = await store.addWallet('Hidden', 'TREZOR');
+    const hiddenKeyIds = store.getAllKeys().map(key => key.id);
+
+    await expect(store.removeWallet(hidden.id)).rejects.toThrow('Switch to another wallet before removing this one');
+    await store.switchWallet(main.id);
+
+    expect(await store.removeWallet(hidden.id)).toEqual(hiddenKeyIds);
+    expect(store.getWallets()).toHaveLength(1);
+  });
+});
+
+describe('KeyStore.deriveKeyFromMnemonic', () => {
+  const mnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+  let store: KeyStore;
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    await chrome.storage.session.clear();
+    store = new KeyStore();
+    await store.initializeWithMnemonic(PASSWORD, mnemonic, CHEAP_KDF);
+  });
+
+  it('derives at an explicit account, index or path', async () => {
+    const byIndex = await store.deriveKeyFromMnemonic('ed25519', 'Account 3', { account: 3, index: 7 });
+    const byPath = await store.deriveKeyFromMnemonic('secp256k1', 'Custom', { path: "m/44h/60h/1h/0/2" });
+
+    expect(byIndex.derivationPath).toBe("m/44'/540'/3'/0'/7'");
+    expect(byIndex.publicKey).toBe(toHex(deriveKeyAtPath(mnemonic, 'ed25519', "m/44'/540'/3'/0'/7'").publicKey));
+    expect(byPath.derivationPath).toBe("m/44'/60'/1'/0/2");
+  });
+
+  it('continues after the highest index of the account', async () => {
+    await store.deriveKeyFromMnemonic('ed25519', 'Far', { index: 4 });
+
+    expect((await store.deriveKeyFromMnemonic('ed25519', 'Next')).derivationPath).toBe("m/44'/540'/0'/0'/5'");
+  });
+
+  it('refuses a path that is already derived', async () => {
+    await expect(store.deriveKeyFromMnemonic('ed25519', 'Again', { path: "m/44h/540h/0h/0h/0h" }))
+      .rejects.toThrow(`"Accumulate Key 1" is already derived at m/44'/540'/0'/0'/0'`);
+  });
+
+  it('refuses an ED25519 path with unhardened segments', async () => {
+    await expect(store.deriveKeyFromMnemonic('ed25519', 'Soft', { path: "m/44'/540'/0'/0/1" }))
+      .rejects.toThrow('ED25519 paths must be fully hardened');
+    expect(store.getKeysByType('ed25519')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,595 @@
+/**
+ * MessageRouter site permissions, sign request checks and approval, the
+ * approval inbox, session activity, key discovery and watch-only keys.
+ * Each test builds a router over a fresh vault (cheap KDF parameters,
+ * minimum checks turned off), sign queue, permission store and settings
+ * store. Audit records are captured instead of written to the vault.
+ */
+
+import * as secp from '@noble/secp256k1';
+import * as nacl from 'tweetnacl';
+import { MessageRouter } from '../src/background/messageRouter';
+import { SignRequestQueue } from '../src/background/signRequestQueue';
+import { PermissionStore } from '../src/background/permissions';
+import { SettingsStore } from '../src/background/settings';
+import { KeyStore } from '../src/vault/keyStore';
+import { hashEthSignedMessage } from '../src/vault/secp256k1';
+import { CERTEN_IMPLEMENTATIONS, checksumAddress, predictCertenAccountForChain } from '../src/vault/create2';
+import { buildCertenInitCode } from '../src/vault/userOperation';
+import { computeDataForSignature } from '../src/vault/accumulate';
+import { toHex, fromHex } from '../src/vault/crypto';
+import {
+  AuditRecord,
+  KdfParams,
+  StoredKey,
+  SignRequest,
+  EthSignPersonalMessageData,
+  CertenUserOperationData,
+  AccSignPendingTransactionData,
+  DiscoveredKey,
+  KeyType
+} from '../src/shared/types';
+
+jest.mock('../src/vault/crypto', () => ({
+  ...jest.requireActual('../src/vault/crypto'),
+  validateKdfParams: jest.fn(),
+  isKdfOutdated: () => false
+}));
+
+const PASSWORD = 'correct horse battery';
+const CHEAP_KDF: KdfParams = { algorithm: 'argon2id', t: 1, m: 64, p: 1 };
+const ORIGIN = 'https://dapp.example';
+const OTHER = 'https://other.example';
+const POPUP: chrome.runtime.MessageSender = { id: 'certen-test', url: 'chrome-extension://certen-test/popup.html' };
+const PAGE: chrome.runtime.MessageSender = { tab: { id: 7 } as chrome.tabs.Tab, url: ORIGIN + '/' };
+const MESSAGE = 'Log in to dapp.example';
+const SEPOLIA = 11155111;
+const ADI_URL = 'acc://my-adi.acme';
+
+function openTabs(frames: Record<number, string>): jest.SpyInstance {
+  jest.spyOn(chrome.tabs, 'query').mockImplementation((async () => (
+    Object.keys(frames).map(id => ({ id: Number(id) }))
+  )) as never);
+  jest.spyOn(chrome.webNavigation, 'getAllFrames').mockImplementation((async ({ tabId }: { tabId: number }) => (
+    [{ url: frames[tabId], frameId: 0 }]
+  )) as never);
+  return jest.spyOn(chrome.tabs, 'sendMessage').mockImplementation((async () => undefined) as never);
+}
+
+async function until(condition: () => boolean): Promise<void> {
+  while (!condition()) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+function recoverSigner(message: string, signature: string): string {
+  const bytes = fromHex(signature);
+  const point = secp.Signature.fromCompact(bytes.slice(0, 64))
+    .addRecoveryBit(bytes[64] - 27)
+    .recoverPublicKey(hashEthSignedMessage(message));
+  return toHex(point.toRawBytes(false));
+}
+
+describe('MessageRouter', () => {
+  let store: KeyStore;
+  let queue: SignRequestQueue;
+  let permissions: PermissionStore;
+  let router: MessageRouter;
+  let alice: StoredKey;
+  let bob: StoredKey;
+  let carol: StoredKey;
+  let audited: AuditRecord[];
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ advanceTimers: true });
+    await chrome.storage.local.clear();
+    await chrome.storage.session.clear();
+
+    store = new KeyStore();
+    await store.initialize(PASSWORD, CHEAP_KDF);
+    alice = await store.generateKey('secp256k1', 'Alice');
+    bob = await store.generateKey('secp256k1', 'Bob');
+    carol = await store.generateKey('ed25519', 'Carol');
+
+    audited = [];
+    jest.spyOn(store, 'recordAudit').mockImplementation(async record => {
+      audited.push(record);
+    });
+
+    permissions = new PermissionStore();
+    await permissions.grant(ORIGIN, [alice.id, bob.id, carol.id], ['accounts', 'sign']);
+    await permissions.grant(OTHER, [bob.id], ['accounts']);
+
+    queue = new SignRequestQueue();
+    router = new MessageRouter(store, queue, permissions, new SettingsStore());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  function rpc(method: string, params: unknown[], origin = ORIGIN): Promise<any> {
+    return router.handleMessage({ type: 'CERTEN_RPC_REQUEST', method, params, origin, id: 'rpc-1' }, PAGE);
+  }
+
+  function nextPendingRequest(): Promise<SignRequest> {
+    return new Promise(resolve => {
+      queue.onChange(() => {
+        const [request] = queue.getPending();
+        if (request) {
+          resolve(request);
+        }
+      });
+    });
+  }
+
+  function queuePersonalMessage(address: string, origin = ORIGIN): string {
+    const data: EthSignPersonalMessageData = {
+      kind: 'eth_personal_message',
+      message: MESSAGE,
+      isHex: false,
+      address
+    };
+    return queue.add('eth_signPersonalMessage', data, origin);
+  }
+
+  describe('site permissions', () => {
+    it('lists only the keys shared with the site', async () => {
+      const response = await rpc('acc_getAccounts', [], OTHER);
+      expect(response.result.map((account: { publicKey: string }) => account.publicKey)).toEqual([bob.publicKey]);
+
+      expect((await rpc('eth_accounts', [], OTHER)).result).toEqual([checksumAddress(bob.metadata.evmAddress!)]);
+      expect((await rpc('acc_getAccounts', [], 'https://unknown.example')).result).toEqual([]);
+    });
+
+    it('refuses sign requests from sites without the sign group', async () => {
+      const notConnected = await rpc('personal_sign', ['0x68656c6c6f', alice.metadata.evmAddress], 'https://unknown.example');
+      expect(notConnected.error).toEqual({ code: 4100, message: 'Not connected. Please call connect() first.' });
+
+      const noSign = await rpc('personal_sign', ['0x68656c6c6f', bob.metadata.evmAddress], OTHER);
+      expect(noSign.error).toEqual({ code: 4100, message: 'This site has not been granted "sign" permission' });
+      expect(queue.getPendingCount()).toBe(0);
+    });
+
+    it('refuses to approve with a key that is not shared with the site', async () => {
+      const requestId = queuePersonalMessage(alice.metadata.evmAddress!, OTHER);
+
+      const response = await router.handleMessage({ type: 'APPROVE_SIGN_REQUEST', requestId, keyId: alice.id }, POPUP);
+
+      expect(response.error.message).toBe(`Key "Alice" is not shared with ${OTHER}`);
+      expect(queue.get(requestId)?.status).toBe('pending');
+    });
+
+    it('revokes a site', async () => {
+      expect(await router.handleMessage({ type: 'REVOKE_PERMISSION', origin: OTHER }, POPUP)).toEqual({ success: true });
+      expect(await permissions.get(OTHER)).toBeUndefined();
+      expect((await rpc('acc_getAccounts', [], OTHER)).result).toEqual([]);
+    });
+  });
+
+  describe('provider events', () => {
+    let sendMessage: jest.SpyInstance;
+
+    beforeEach(() => {
+      sendMessage = openTabs({ 1: ORIGIN + '/app', 2: OTHER + '/' });
+    });
+
+    function events(tabId: number): Array<{ event: string; data: any }> {
+      return sendMessage.mock.calls.filter(([id]) => id === tabId).map(([, message]) => message);
+    }
+
+    it('tells only the sites a removed key was shared with', async () => {
+      expect(await router.handleMessage({ type: 'REMOVE_KEY', keyId: alice.id }, POPUP)).toEqual({ success: true });
+
+      const [changed] = events(1);
+      expect(changed.event).toBe('accountsChanged');
+      expect(changed.data.accounts.map((account: { publicKey: string }) => account.publicKey))
+        .toEqual([bob.publicKey, carol.publicKey]);
+      expect(events(2)).toEqual([]);
+    });
+
+    it('sends each site its own accounts when the vault locks', async () => {
+      store.lock();
+      await until(() => sendMessage.mock.calls.length === 4);
+
+      for (const tabId of [1, 2]) {
+        expect(events(tabId)).toEqual([
+          expect.objectContaining({ event: 'lock', data: {} }),
+          expect.objectContaining({ event: 'accountsChanged', data: { accounts: [], evmAccounts: [] } })
+        ]);
+      }
+    });
+
+    it('broadcasts network changes', async () => {
+      await router.handleMessage({ type: 'SET_NETWORK', network: 'mainnet' }, POPUP);
+      await until(() => sendMessage.mock.calls.length === 2);
+
+      expect(events(1)).toEqual([expect.objectContaining({ event: 'networkChanged', data: { network: 'mainnet' } })]);
+      expect(events(2)).toEqual([expect.objectContaining({ event: 'networkChanged', origin: OTHER })]);
+    });
+  });
+
+  describe('personal_sign', () => {
+    it('signs with the key for the requested address', async () => {
+      const requestId = queuePersonalMessage(alice.metadata.evmAddress!);
+
+      const response = await router.handleMessage({ type: 'APPROVE_SIGN_REQUEST', requestId, keyId: alice.id }, POPUP);
+
+      expect(response.success).toBe(true);
+      expect(queue.get(requestId)?.status).toBe('completed');
+      expect(recoverSigner(MESSAGE, response.result.signature)).toBe(alice.publicKey);
+    });
+
+    it('rejects a selected key that does not match the requested address', async () => {
+      const requestId = queuePersonalMessage(alice.metadata.evmAddress!);
+
+      const response = await router.handleMessage({ type: 'APPROVE_SIGN_REQUEST', requestId, keyId: bob.id }, POPUP);
+
+      expect(response.error.message).toBe('Selected key does not match the personal message signer address');
+      expect(queue.get(requestId)?.status).toBe('error');
+      expect(audited.map(record => record.outcome)).toEqual(['error']);
+    });
+
+    it('rejects an address with no key in the vault', async () => {
+      const requestId = queuePersonalMessage('0x' + '11'.repeat(20));
+
+      const response = await router.handleMessage({ type: 'APPROVE_SIGN_REQUEST', requestId, keyId: alice.id }, POPUP);
+
+      expect(response.error.message).toBe('Selected key does not match the personal message signer address');
+    });
+  });
+
+  describe('session activity', () => {
+    beforeEach(() => {
+      store.setAutoLockTimeout(60 * 1000);
+    });
+
+    it('postpones auto-lock for activity in extension pages', async () => {
+      jest.advanceTimersByTime(50 * 1000);
+      expect(await router.handleMessage({ type: 'SESSION_ACTIVITY' }, POPUP)).toEqual({ isUnlocked: true });
+
+      jest.advanceTimersByTime(50 * 1000);
+      expect(store.isUnlocked()).toBe(true);
+    });
+
+    it('ignores activity messages from web pages', async () => {
+      jest.advanceTimersByTime(50 * 1000);
+      await router.handleMessage({ type: 'SESSION_ACTIVITY' }, PAGE);
+
+      jest.advanceTimersByTime(11 * 1000);
+      expect(store.isUnlocked()).toBe(false);
+    });
+
+    it('tells lock listeners once when the deadline passes', async () => {
+      const onLock = jest.fn();
+      store.onLock(onLock);
+
+      jest.advanceTimersByTime(61 * 1000);
+      expect(await router.handleMessage({ type: 'SESSION_ACTIVITY' }, POPUP)).toEqual({ isUnlocked: false });
+      expect(store.isUnlocked()).toBe(false);
+      expect(onLock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('approval inbox', () => {
+    function personalSign(address: string, origin = ORIGIN): Promise<any> {
+      const pending = queue.getPendingCount();
+      const response = rpc('personal_sign', [MESSAGE, address], origin);
+      return until(() => queue.getPendingCount() > pending).then(() => ({ response }));
+    }
+
+    beforeEach(async () => {
+      await permissions.grant(OTHER, [bob.id], ['accounts', 'sign']);
+    });
+
+    it('lists pending requests from every site, oldest first', async () => {
+      await personalSign(alice.metadata.evmAddress!);
+      jest.advanceTimersByTime(10);
+      await personalSign(bob.metadata.evmAddress!, OTHER);
+
+      const approvals = await router.handleMessage({ type: 'GET_PENDING_APPROVALS' }, POPUP);
+
+      expect(approvals.count).toBe(2);
+      expect(approvals.signRequests.map((request: SignRequest) => request.origin)).toEqual([ORIGIN, OTHER]);
+      expect(approvals.keySelections).toEqual([]);
+    });
+
+    it('rejects every request from one site', async () => {
+      const first = await personalSign(alice.metadata.evmAddress!);
+      const second = await personalSign(bob.metadata.evmAddress!);
+      await personalSign(bob.metadata.evmAddress!, OTHER);
+
+      const response = await router.handleMessage({ type: 'REJECT_ORIGIN_REQUESTS', origin: ORIGIN }, POPUP);
+
+      expect(response).toEqual({ success: true, rejected: 2 });
+      expect((await first.response).error.code).toBe(4001);
+      expect((await second.response).error.code).toBe(4001);
+      expect(queue.getPending().map(request => request.origin)).toEqual([OTHER]);
+    });
+
+    it('reuses the open approval window', async () => {
+      const create = jest.spyOn(chrome.windows, 'create');
+      const update = jest.spyOn(chrome.windows, 'update');
+
+      await personalSign(alice.metadata.evmAddress!);
+      await until(() => create.mock.calls.length === 1);
+      await personalSign(bob.metadata.evmAddress!);
+      await until(() => update.mock.calls.length === 1);
+
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(create.mock.calls[0][0]).toMatchObject({ url: 'chrome-extension://certen-test/popup.html?mode=inbox' });
+      expect(update).toHaveBeenCalledWith(1, { focused: true, drawAttention: true });
+    });
+
+    it('opens a new window when the approval window was closed', async () => {
+      const create = jest.spyOn(chrome.windows, 'create');
+      jest.spyOn(chrome.windows, 'update').mockImplementation((async () => {
+        throw new Error('No window with id: 1');
+      }) as never);
+
+      await personalSign(alice.metadata.evmAddress!);
+      await personalSign(bob.metadata.evmAddress!);
+      await until(() => create.mock.calls.length === 2);
+    });
+  });
+
+  describe('key discovery', () => {
+    const mnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+    let restored: KeyStore;
+
+    beforeEach(async () => {
+      await chrome.storage.local.clear();
+      await chrome.storage.session.clear();
+      restored = new KeyStore();
+      await restored.initializeWithMnemonic(PASSWORD, mnemonic, CHEAP_KDF);
+      router = new MessageRouter(restored, queue, permissions, new SettingsStore());
+    });
+
+    function discover(gap: number, keyTypes: KeyType[]): Promise<any> {
+      return router.handleMessage({ type: 'DISCOVER_KEYS', gap, keyTypes, useNetwork: false }, POPUP);
+    }
+
+    it('derives the gap and flags keys already in the wallet', async () => {
+      const response = await discover(3, ['ed25519', 'secp256k1']);
+
+      expect(response.networkChecked).toBe(false);
+      expect(response.keys.map((key: DiscoveredKey) => [key.type, key.index])).toEqual([
+        ['ed25519', 0], ['ed25519', 1], ['ed25519', 2], ['ed25519', 3],
+        ['secp256k1', 0], ['secp256k1', 1], ['secp256k1', 2], ['secp256k1', 3]
+      ]);
+      const [first, second] = response.keys as DiscoveredKey[];
+      expect(first).toMatchObject({ path: "m/44'/540'/0'/0'/0'", existingName: 'Accumulate Key 1' });
+      expect(first.address).toBe(restored.getKeysByType('ed25519')[0].metadata.accumulateUrl);
+      expect(second.existingKeyId).toBeUndefined();
+    });
+
+    it('extends the scan past the last used key', async () => {
+      await restored.deriveKeyFromMnemonic('ed25519', 'Third', { index: 2 });
+      await restored.deriveKeyFromMnemonic('ed25519', 'Sixth', { index: 5 });
+
+      const response = await discover(3, ['ed25519']);
+
+      expect(response.keys.map((key: DiscoveredKey) => key.index)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+      expect(response.keys.filter((key: DiscoveredKey) => key.existingKeyId).map((key: DiscoveredKey) => key.index)).toEqual([0, 2, 5]);
+    });
+
+    it('does not look past a gap of unused keys', async () => {
+      await restored.deriveKeyFromMnemonic('ed25519', 'Far', { index: 4 });
+
+      const response = await discover(2, ['ed25519']);
+
+      expect(response.keys.map((key: DiscoveredKey) => key.index)).toEqual([0, 1, 2]);
+    });
+
+    it('imports the chosen keys by path', async () => {
+      const { keys } = await discover(2, ['ed25519']);
+
+      const response = await router.handleMessage({ type: 'IMPORT_DISCOVERED_KEYS', keys: [keys[1], keys[0]] }, POPUP);
+
+      expect(response.success).toBe(false);
+      expect(response.keys.map((key: StoredKey) => [key.name, key.publicKey])).toEqual([['Accumulate Key 2', keys[1].publicKey]]);
+      expect(response.error).toMatch(/is already derived at/);
+    });
+
+    it('refuses an out-of-range gap', async () => {
+      expect((await discover(0, ['ed25519'])).error.message).toBe('Gap must be between 1 and 20');
+    });
+  });
+
+  describe('watch-only keys', () => {
+    async function addWatchOnly(keyType: KeyType, publicKey: string, name: string): Promise<any> {
+      return router.handleMessage({ type: 'ADD_WATCH_ONLY_KEY', keyType, publicKey, name }, POPUP);
+    }
+
+    it('stores only the public key and its addresses', async () => {
+      const { publicKey } = nacl.sign.keyPair();
+
+      const response = await addWatchOnly('ed25519', toHex(publicKey), 'Cold');
+
+      expect(response.success).toBe(true);
+      expect(response.key).toMatchObject({ type: 'ed25519', privateKey: '', watchOnly: true, publicKey: toHex(publicKey) });
+      expect(response.key.metadata.accumulateUrl).toMatch(/^acc:\/\/[0-9a-f]{48}$/);
+    });
+
+    it('stores secp256k1 keys uncompressed and refuses keys already in the wallet', async () => {
+      const privateKey = secp.utils.randomPrivateKey();
+
+      const response = await addWatchOnly('secp256k1', toHex(secp.getPublicKey(privateKey, true)), 'Teammate');
+      expect(response.key.publicKey).toBe(toHex(secp.getPublicKey(privateKey, false)));
+
+      const duplicate = await addWatchOnly('secp256k1', toHex(secp.ProjectivePoint.fromHex(alice.publicKey).toRawBytes(true)), 'Again');
+      expect(duplicate).toEqual({ success: false, error: 'This key is already in the wallet as "Alice"' });
+    });
+
+    it('lists watch-only keys to sites but not as EVM accounts', async () => {
+      const { key } = await addWatchOnly('secp256k1', toHex(secp.getPublicKey(secp.utils.randomPrivateKey(), false)), 'Teammate');
+      await permissions.grant(OTHER, [bob.id, key.id], ['accounts']);
+
+      const accounts = (await rpc('acc_getAccounts', [], OTHER)).result;
+      expect(accounts.map((account: { name: string; watchOnly?: boolean }) => [account.name, account.watchOnly])).toEqual([
+        ['Bob', undefined],
+        ['Teammate', true]
+      ]);
+      expect((await rpc('eth_accounts', [], OTHER)).result).toEqual([checksumAddress(bob.metadata.evmAddress!)]);
+    });
+
+    it('refuses to sign or export with a watch-only key', async () => {
+      const { key } = await addWatchOnly('secp256k1', toHex(secp.getPublicKey(secp.utils.randomPrivateKey(), false)), 'Teammate');
+      await permissions.grant(ORIGIN, [alice.id, key.id], ['accounts', 'sign']);
+      const requestId = queuePersonalMessage(key.metadata.evmAddress);
+
+      const response = await router.handleMessage({ type: 'APPROVE_SIGN_REQUEST', requestId, keyId: key.id }, POPUP);
+
+      expect(response.error.message).toBe('Key "Teammate" is watch-only and cannot sign');
+      expect(queue.get(requestId)?.status).toBe('pending');
+      expect(await router.handleMessage({ type: 'EXPORT_KEY', keyId: key.id, format: 'hex', password: PASSWORD }, POPUP))
+        .toEqual({ error: { message: 'Watch-only keys have no private key' } });
+    });
+  });
+
+  describe('certen_signUserOperation', () => {
+    const implementation = CERTEN_IMPLEMENTATIONS[SEPOLIA];
+
+    afterEach(() => {
+      CERTEN_IMPLEMENTATIONS[SEPOLIA] = implementation;
+    });
+
+    function userOperation(sender: string, initCode = '0x') {
+      return {
+        sender,
+        nonce: 0,
+        initCode,
+        callData: '0x',
+        callGasLimit: 200000,
+        verificationGasLimit: 400000,
+        preVerificationGas: 50000,
+        maxFeePerGas: '0x3b9aca00',
+        maxPriorityFeePerGas: '0x3b9aca00'
+      };
+    }
+
+    function predictedSender(): string {
+      CERTEN_IMPLEMENTATIONS[SEPOLIA] = '0x' + '42'.repeat(20);
+      return predictCertenAccountForChain(ADI_URL, alice.publicKey, SEPOLIA)!;
+    }
+
+    it('rejects initCode for a sender that is not the predicted account', async () => {
+      predictedSender();
+      const initCode = buildCertenInitCode(ADI_URL, alice.publicKey, SEPOLIA)!;
+
+      const response = await rpc('certen_signUserOperation', [{
+        userOperation: userOperation('0x' + '11'.repeat(20), initCode),
+        owner: alice.metadata.evmAddress,
+        adiUrl: ADI_URL,
+        chainId: SEPOLIA
+      }]);
+
+      expect(response.error.code).toBe(-32602);
+      expect(response.error.message).toMatch(/does not match the predicted Certen account/);
+      expect(queue.getPendingCount()).toBe(0);
+    });
+
+    it('rejects initCode when the chain has no account prediction', async () => {
+      const initCode = buildCertenInitCode(ADI_URL, alice.publicKey, SEPOLIA)!;
+
+      const response = await rpc('certen_signUserOperation', [{
+        userOperation: userOperation('0x' + '11'.repeat(20), initCode),
+        owner: alice.metadata.evmAddress,
+        adiUrl: ADI_URL,
+        chainId: SEPOLIA,
+        deployed: true
+      }]);
+
+      expect(response.error.message).toBe(`Certen account prediction is not available on chain ${SEPOLIA}`);
+      expect(queue.getPendingCount()).toBe(0);
+    });
+
+    it('rejects fillInitCode when the chain has no account prediction', async () => {
+      const response = await rpc('certen_signUserOperation', [{
+        userOperation: userOperation('0x' + '11'.repeat(20)),
+        owner: alice.metadata.evmAddress,
+        adiUrl: ADI_URL,
+        chainId: SEPOLIA,
+        fillInitCode: true
+      }]);
+
+      expect(response.error.message).toBe(`Certen account prediction is not available on chain ${SEPOLIA}`);
+    });
+
+    it('rejects fillInitCode for a sender that is not the predicted account', async () => {
+      predictedSender();
+
+      const response = await rpc('certen_signUserOperation', [{
+        userOperation: userOperation('0x' + '11'.repeat(20)),
+        owner: alice.metadata.evmAddress,
+        adiUrl: ADI_URL,
+        chainId: SEPOLIA,
+        fillInitCode: true
+      }]);
+
+      expect(response.error.message).toMatch(/does not match the predicted Certen account/);
+    });
+
+    it('fills initCode for the predicted account', async () => {
+      const sender = predictedSender();
+      const queued = nextPendingRequest();
+
+      const response = rpc('certen_signUserOperation', [{
+        userOperation: userOperation(sender),
+        owner: alice.metadata.evmAddress,
+        adiUrl: ADI_URL,
+        chainId: SEPOLIA,
+        fillInitCode: true
+      }]);
+
+      const request = await queued;
+      const data = request.data as CertenUserOperationData;
+      expect(data.userOperation.initCode).toBe(buildCertenInitCode(ADI_URL, alice.publicKey, SEPOLIA));
+      expect(data.counterfactual).toEqual({ adiUrl: ADI_URL, predictedAddress: sender, initCodeFilled: true });
+
+      await router.handleMessage({ type: 'REJECT_SIGN_REQUEST', requestId: request.id }, POPUP);
+      expect((await response).error.code).toBe(4001);
+    });
+  });
+
+  describe('acc_signPendingTransaction', () => {
+    const transactionHash = 'cd'.repeat(32);
+
+    it('returns and audits the dataForSignature that was signed', async () => {
+      const data: AccSignPendingTransactionData = {
+        kind: 'acc_pending_transaction',
+        transactionHash,
+        signerUrl: 'acc://my-adi.acme/book/1',
+        signerVersion: 2,
+        timestamp: 1700000000000000
+      };
+      const requestId = queue.add('acc_signPendingTransaction', data, ORIGIN);
+      const expected = computeDataForSignature(transactionHash, {
+        publicKey: carol.publicKey,
+        signer: 'acc://my-adi.acme/book/1',
+        signerVersion: 2,
+        timestamp: 1700000000000000
+      });
+
+      const response = await router.handleMessage({ type: 'APPROVE_SIGN_REQUEST', requestId, keyId: carol.id }, POPUP);
+
+      expect(response.result.dataForSignature).toBe(expected);
+      expect(audited).toHaveLength(1);
+      expect(audited[0]).toMatchObject({ outcome: 'approved', signedHash: expected });
+    });
+
+    it('audits the transaction hash for a rejected request', async () => {
+      const requestId = queue.add('acc_signPendingTransaction', {
+        kind: 'acc_pending_transaction',
+        transactionHash,
+        signerUrl: 'acc://my-adi.acme/book/1'
+      }, ORIGIN);
+
+      await router.handleMessage({ type: 'REJECT_SIGN_REQUEST', requestId }, POPUP);
+
+      expect(audited[0]).toMatchObject({ outcome: 'rejected', signedHash: transactionHash });
+    });
+  });
+});
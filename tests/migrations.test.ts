@@ -0,0 +1,95 @@
+/**
+ * Vault schema migration tests, from a version 1 payload to the current
+ * schema.
+ */
+
+import {
+  VAULT_MIGRATIONS,
+  CURRENT_VAULT_VERSION,
+  getPendingMigrations,
+  migrateVaultPayload,
+  validateVaultPayload
+} from '../src/vault/migrations';
+import { DEFAULT_WALLET_ID } from '../src/shared/constants';
+
+function v1Payload() {
+  return {
+    keys: [
+      { id: 'k1', name: 'Main', type: 'ed25519', privateKey: 'aa', publicKey: 'bb' },
+      { id: 'k2', name: 'EVM', type: 'secp256k1', privateKey: 'cc', publicKey: 'dd', createdAt: 5, metadata: { evmAddress: '0x1' } }
+    ],
+    metadata: { createdAt: 1000, version: 1 }
+  };
+}
+
+describe('migrateVaultPayload', () => {
+  it('brings a version 1 payload up to date', () => {
+    const migrated = migrateVaultPayload(v1Payload(), 1);
+
+    expect(migrated.keys).toEqual([
+      expect.objectContaining({ id: 'k1', createdAt: 1000, metadata: {}, walletId: DEFAULT_WALLET_ID }),
+      expect.objectContaining({ id: 'k2', createdAt: 5, metadata: { evmAddress: '0x1' }, walletId: DEFAULT_WALLET_ID })
+    ]);
+    expect(migrated.auditLog).toEqual([]);
+    expect(migrated.metadata.keyCount).toBe(2);
+    expect(migrated.wallets).toEqual([
+      { id: DEFAULT_WALLET_ID, name: 'Main Wallet', passphrase: '', createdAt: 1000 }
+    ]);
+    expect(migrated.activeWalletId).toBe(DEFAULT_WALLET_ID);
+  });
+
+  it('does not modify the input payload', () => {
+    const payload = v1Payload();
+    migrateVaultPayload(payload, 1);
+    expect(payload).toEqual(v1Payload());
+  });
+
+  it('leaves a current payload unchanged', () => {
+    const current = migrateVaultPayload(v1Payload(), 1);
+    expect(migrateVaultPayload(current, CURRENT_VAULT_VERSION)).toEqual(current);
+  });
+
+  it('names the step that failed', () => {
+    expect(() => migrateVaultPayload({ keys: 'none', metadata: { createdAt: 1 } }, 2))
+      .toThrow('Vault migration to version 3 (Add the audit log, key metadata defaults and an accurate key count) failed');
+    expect(() => migrateVaultPayload('vault', 1)).toThrow('Payload is not an object');
+  });
+
+  it('refuses vaults from a newer extension', () => {
+    expect(() => getPendingMigrations(CURRENT_VAULT_VERSION + 1)).toThrow('newer than this extension supports');
+  });
+});
+
+describe('VAULT_MIGRATIONS', () => {
+  it('has one step per version, in order', () => {
+    VAULT_MIGRATIONS.forEach((step, index) => {
+      expect(step.version).toBe(index + 2);
+    });
+    expect(CURRENT_VAULT_VERSION).toBe(VAULT_MIGRATIONS[VAULT_MIGRATIONS.length - 1].version);
+  });
+});
+
+describe('validateVaultPayload', () => {
+  const valid = () => migrateVaultPayload(v1Payload(), 1);
+
+  it('accepts a migrated payload', () => {
+    expect(() => validateVaultPayload(valid())).not.toThrow();
+  });
+
+  it('describes the first problem found', () => {
+    expect(() => validateVaultPayload(null)).toThrow('Payload is not an object');
+    expect(() => validateVaultPayload({ ...valid(), activeWalletId: 'missing' })).toThrow('Active wallet does not exist');
+
+    const duplicate = valid();
+    duplicate.keys[1].id = 'k1';
+    expect(() => validateVaultPayload(duplicate)).toThrow('Key 1 has a missing or duplicate id');
+
+    const unknownType = valid();
+    (unknownType.keys[0] as { type: string }).type = 'rsa';
+    expect(() => validateVaultPayload(unknownType)).toThrow('unknown type "rsa"');
+
+    const orphan = valid();
+    orphan.keys[0].walletId = 'other';
+    expect(() => validateVaultPayload(orphan)).toThrow('Key k1 belongs to an unknown wallet');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * BIP-39 seeds with and without a passphrase, and derivation path checks
+ * per curve.
+ */
+
+import {
+  mnemonicToSeed,
+  parseDerivationPath,
+  normalizeDerivationPath,
+  getDefaultDerivationPath,
+  deriveKeyAtPath,
+  deriveED25519FromMnemonic,
+  MAX_DERIVATION_INDEX
+} from '../src/vault/mnemonic';
+import { toHex } from '../src/vault/crypto';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('mnemonicToSeed', () => {
+  it('matches the BIP-39 test vector for a passphrase', () => {
+    expect(toHex(mnemonicToSeed(MNEMONIC, 'TREZOR'))).toBe(
+      'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04'
+    );
+  });
+
+  it('uses an empty passphrase by default', () => {
+    expect(toHex(mnemonicToSeed(MNEMONIC))).toBe(toHex(mnemonicToSeed(MNEMONIC, '')));
+    expect(toHex(mnemonicToSeed(MNEMONIC))).not.toBe(toHex(mnemonicToSeed(MNEMONIC, 'TREZOR')));
+  });
+});
+
+describe('parseDerivationPath', () => {
+  it('reads hardened and normal segments', () => {
+    expect(parseDerivationPath("m/44'/60h/0")).toEqual([
+      { index: 44, hardened: true },
+      { index: 60, hardened: true },
+      { index: 0, hardened: false }
+    ]);
+  });
+
+  it('rejects malformed paths and out-of-range indices', () => {
+    expect(() => parseDerivationPath("44'/60'")).toThrow('must start with m/');
+    expect(() => parseDerivationPath('m')).toThrow('must start with m/');
+    expect(() => parseDerivationPath("m/44'/x")).toThrow('Invalid derivation path segment "x"');
+    expect(() => parseDerivationPath(`m/${MAX_DERIVATION_INDEX + 1}`)).toThrow('is too large');
+  });
+});
+
+describe('normalizeDerivationPath', () => {
+  it('accepts only fully hardened ED25519 paths', () => {
+    expect(normalizeDerivationPath('ed25519', "m/44h/540h/0h/0h/3h")).toBe("m/44'/540'/0'/0'/3'");
+    expect(() => normalizeDerivationPath('ed25519', "m/44'/540'/0'/0'/3")).toThrow('ED25519 paths must be fully hardened');
+  });
+
+  it('accepts mixed secp256k1 paths and unhardened BLS12-381 paths', () => {
+    expect(normalizeDerivationPath('secp256k1', "m/44'/60'/0'/0/3")).toBe("m/44'/60'/0'/0/3");
+    expect(normalizeDerivationPath('bls12381', 'm/12381/60/0/0/3')).toBe('m/12381/60/0/0/3');
+    expect(() => normalizeDerivationPath('bls12381', "m/12381'/60/0/0/3")).toThrow('BLS12-381 paths cannot have hardened segments');
+  });
+});
+
+describe('getDefaultDerivationPath', () => {
+  it('places the account and index on the default path for the type', () => {
+    expect(getDefaultDerivationPath('ed25519', 2, 5)).toBe("m/44'/540'/2'/0'/5'");
+    expect(getDefaultDerivationPath('secp256k1', 2, 5)).toBe("m/44'/60'/2'/0/5");
+    expect(getDefaultDerivationPath('bls12381', 2, 5)).toBe('m/12381/60/2/0/5');
+    expect(() => getDefaultDerivationPath('ed25519', -1, 0)).toThrow('Account and index must be integers');
+  });
+});
+
+describe('deriveKeyAtPath', () => {
+  it('matches the fixed-path derivation for the same position', () => {
+    const atPath = deriveKeyAtPath(MNEMONIC, 'ed25519', getDefaultDerivationPath('ed25519', 0, 1));
+    expect(toHex(atPath.publicKey)).toBe(toHex(deriveED25519FromMnemonic(MNEMONIC, 1).publicKey));
+  });
+
+  it('validates the path before deriving', () => {
+    expect(() => deriveKeyAtPath(MNEMONIC, 'ed25519', "m/44'/540'/0'/0'/0")).toThrow('ED25519 paths must be fully hardened');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Per-origin permission store: grants, scoping, persistence and key removal.
+ */
+
+import { PermissionStore, getMethodGroup } from '../src/background/permissions';
+import { STORAGE_KEY_PERMISSIONS } from '../src/shared/constants';
+
+const DAPP = 'https://dapp.example';
+const OTHER = 'https://other.example';
+
+describe('getMethodGroup', () => {
+  it('maps RPC methods to their permission group', () => {
+    expect(getMethodGroup('eth_accounts')).toBe('accounts');
+    expect(getMethodGroup('personal_sign')).toBe('sign');
+    expect(getMethodGroup('acc_selectKey')).toBe('keys');
+    expect(getMethodGroup('acc_sendTokens')).toBe('operations');
+    expect(getMethodGroup('acc_requestAccounts')).toBeUndefined();
+  });
+});
+
+describe('PermissionStore', () => {
+  let store: PermissionStore;
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    store = new PermissionStore();
+  });
+
+  it('grants the chosen keys and groups, with accounts implied', async () => {
+    const permission = await store.grant(DAPP, ['k1', 'k2', 'k1'], ['sign']);
+
+    expect(permission).toEqual({
+      origin: DAPP,
+      keyIds: ['k1', 'k2'],
+      methodGroups: ['accounts', 'sign'],
+      grantedAt: expect.any(Number)
+    });
+    expect(await store.hasKey(DAPP, 'k2')).toBe(true);
+    expect(await store.hasKey(DAPP, 'k3')).toBe(false);
+    expect(await store.hasGroup(DAPP, 'sign')).toBe(true);
+    expect(await store.hasGroup(DAPP, 'operations')).toBe(false);
+    expect(await store.hasKey(OTHER, 'k1')).toBe(false);
+  });
+
+  it('keeps permissions across worker restarts', async () => {
+    await store.grant(DAPP, ['k1'], ['sign']);
+
+    const restarted = new PermissionStore();
+    expect(await restarted.get(DAPP)).toEqual(await store.get(DAPP));
+    expect((await chrome.storage.local.get(STORAGE_KEY_PERMISSIONS))[STORAGE_KEY_PERMISSIONS]).toHaveLength(1);
+  });
+
+  it('replaces an earlier grant', async () => {
+    await store.grant(DAPP, ['k1'], ['sign', 'keys']);
+    await store.grant(DAPP, ['k2'], []);
+
+    expect(await store.get(DAPP)).toMatchObject({ keyIds: ['k2'], methodGroups: ['accounts'] });
+  });
+
+  it('revokes an origin', async () => {
+    await store.grant(DAPP, ['k1'], ['sign']);
+
+    expect(await store.revoke(DAPP)).toBe(true);
+    expect(await store.revoke(DAPP)).toBe(false);
+    expect(await new PermissionStore().get(DAPP)).toBeUndefined();
+  });
+
+  it('removes a deleted key from every origin', async () => {
+    await store.grant(DAPP, ['k1', 'k2'], ['sign']);
+    await store.grant(OTHER, ['k2'], []);
+
+    expect(await store.removeKey('k2')).toEqual([DAPP, OTHER]);
+    expect((await store.get(DAPP))?.keyIds).toEqual(['k1']);
+    expect((await store.get(OTHER))?.keyIds).toEqual([]);
+    expect(await store.removeKey('k2')).toEqual([]);
+  });
+});
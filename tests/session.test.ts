@@ -0,0 +1,92 @@
+/**
+ * Unlocked sessions across service worker restarts. A restart is a new
+ * KeyStore over the same storage. The vault uses cheap KDF parameters, so
+ * the minimum checks are turned off.
+ */
+
+import { KeyStore } from '../src/vault/keyStore';
+import { saveSession, touchSession, loadSession, clearSession } from '../src/vault/session';
+import { KdfParams } from '../src/shared/types';
+import { SESSION_KEY_VAULT } from '../src/shared/constants';
+
+jest.mock('../src/vault/crypto', () => ({
+  ...jest.requireActual('../src/vault/crypto'),
+  validateKdfParams: jest.fn(),
+  isKdfOutdated: () => false
+}));
+
+const PASSWORD = 'correct horse battery';
+const CHEAP_KDF: KdfParams = { algorithm: 'argon2id', t: 1, m: 64, p: 1 };
+
+async function until(condition: () => Promise<boolean>): Promise<void> {
+  while (!await condition()) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('session storage', () => {
+  beforeEach(async () => {
+    await chrome.storage.session.clear();
+  });
+
+  it('stores the key with its unlock timestamp', async () => {
+    await saveSession(new Uint8Array([1, 2, 3]), 1000);
+    await touchSession(2000);
+
+    const session = await loadSession();
+    expect(Array.from(session!.keyBytes)).toEqual([1, 2, 3]);
+    expect(session!.unlockTimestamp).toBe(2000);
+
+    await clearSession();
+    expect(await loadSession()).toBeNull();
+  });
+
+  it('does not create a session on activity', async () => {
+    await touchSession(2000);
+    expect(await loadSession()).toBeNull();
+  });
+});
+
+describe('KeyStore.restoreSession', () => {
+  let store: KeyStore;
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    await chrome.storage.session.clear();
+    store = new KeyStore();
+    await store.initialize(PASSWORD, CHEAP_KDF);
+    await store.generateKey('ed25519', 'Main');
+  });
+
+  it('restores the unlocked vault in a restarted worker', async () => {
+    const restarted = new KeyStore();
+    expect(restarted.isUnlocked()).toBe(false);
+
+    await expect(restarted.restoreSession()).resolves.toBe(true);
+    expect(restarted.isUnlocked()).toBe(true);
+    expect(restarted.getAllKeys().map(key => key.name)).toEqual(['Main']);
+  });
+
+  it('does not restore after the vault was locked', async () => {
+    store.lock();
+    await until(async () => (await chrome.storage.session.get(SESSION_KEY_VAULT))[SESSION_KEY_VAULT] === undefined);
+
+    await expect(new KeyStore().restoreSession()).resolves.toBe(false);
+  });
+
+  it('honors the auto-lock deadline', async () => {
+    await touchSession(Date.now() - 16 * 60 * 1000);
+
+    const restarted = new KeyStore();
+    await expect(restarted.restoreSession()).resolves.toBe(false);
+    expect(restarted.isUnlocked()).toBe(false);
+    expect(await loadSession()).toBeNull();
+  });
+
+  it('discards a session whose key does not open the vault', async () => {
+    await saveSession(new Uint8Array(32), Date.now());
+
+    await expect(new KeyStore().restoreSession()).resolves.toBe(false);
+    expect(await loadSession()).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Settings validation, serialized updates, change listeners and recovery
+ * from invalid stored values.
+ */
+
+import {
+  SettingsStore,
+  SettingsUpdate,
+  DEFAULT_SETTINGS,
+  MAX_AUTO_LOCK_TIMEOUT
+} from '../src/background/settings';
+import { STORAGE_KEY_SETTINGS } from '../src/shared/constants';
+
+async function storedSettings(): Promise<unknown> {
+  return (await chrome.storage.local.get(STORAGE_KEY_SETTINGS))[STORAGE_KEY_SETTINGS];
+}
+
+describe('SettingsStore', () => {
+  let store: SettingsStore;
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    store = new SettingsStore();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('starts from the defaults', async () => {
+    expect(await store.get()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('persists a valid update and merges ui preferences', async () => {
+    await store.update({ autoLockTimeout: 10 * 60 * 1000, ui: { openInboxOnStart: false } });
+
+    const expected = {
+      ...DEFAULT_SETTINGS,
+      autoLockTimeout: 10 * 60 * 1000,
+      ui: { ...DEFAULT_SETTINGS.ui, openInboxOnStart: false }
+    };
+    expect(await store.get()).toEqual(expected);
+    expect(await new SettingsStore().get()).toEqual(expected);
+  });
+
+  it('rejects an unknown setting and leaves stored settings unchanged', async () => {
+    await store.update({ lockOnIdle: false });
+    const before = await storedSettings();
+
+    const update = { lockOnIdle: true, theme: 'dark' } as SettingsUpdate;
+    await expect(store.update(update)).rejects.toThrow('Unknown setting: theme');
+
+    expect(await storedSettings()).toEqual(before);
+    expect((await store.get()).lockOnIdle).toBe(false);
+  });
+
+  it('rejects an out-of-range auto-lock timeout and leaves stored settings unchanged', async () => {
+    await store.update({ autoLockTimeout: 5 * 60 * 1000 });
+    const before = await storedSettings();
+
+    await expect(store.update({ network: 'mainnet', autoLockTimeout: MAX_AUTO_LOCK_TIMEOUT + 1 }))
+      .rejects.toThrow('Auto-lock timeout must be between 1 minute and 24 hours');
+    await expect(store.update({ autoLockTimeout: 1000 })).rejects.toThrow('Auto-lock timeout');
+
+    expect(await storedSettings()).toEqual(before);
+    expect(await store.get()).toMatchObject({ network: DEFAULT_SETTINGS.network, autoLockTimeout: 5 * 60 * 1000 });
+  });
+
+  it('applies updates one at a time', async () => {
+    const addSite = (origin: string) => store.update(current => ({
+      siteChainIds: { ...current.siteChainIds, [origin]: DEFAULT_SETTINGS.defaultEvmChainId }
+    }));
+
+    await Promise.all([addSite('https://a.example'), addSite('https://b.example')]);
+
+    expect(Object.keys((await store.get()).siteChainIds)).toEqual(['https://a.example', 'https://b.example']);
+  });
+
+  it('tells listeners which settings changed', async () => {
+    const listener = jest.fn();
+    store.onChange(listener);
+
+    await store.update({ network: 'mainnet', lockOnIdle: DEFAULT_SETTINGS.lockOnIdle });
+    await store.update({ network: 'mainnet' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ network: 'mainnet' }), ['network']);
+  });
+
+  it('falls back to defaults for invalid stored values', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await chrome.storage.local.set({
+      [STORAGE_KEY_SETTINGS]: { network: 'mainnet', autoLockTimeout: -1, blindSigning: 'allow', ui: { openInboxOnStart: false } }
+    });
+
+    expect(await store.get()).toEqual({
+      ...DEFAULT_SETTINGS,
+      network: 'mainnet',
+      ui: { ...DEFAULT_SETTINGS.ui, openInboxOnStart: false }
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Minimal chrome.* stand-in for modules that persist state: in-memory
+ * storage areas with the promise-based API the extension uses. Windows,
+ * tabs and runtime messaging are no-ops with no pages open.
+ */
+
+type Items = Record<string, unknown>;
+
+function createStorageArea() {
+  let items: Items = {};
+  return {
+    async get(keys?: string | string[] | null): Promise<Items> {
+      if (keys === undefined || keys === null) {
+        return structuredClone(items);
+      }
+      const result: Items = {};
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        if (key in items) {
+          result[key] = structuredClone(items[key]);
+        }
+      }
+      return result;
+    },
+    async set(values: Items): Promise<void> {
+      items = { ...items, ...structuredClone(values) };
+    },
+    async remove(keys: string | string[]): Promise<void> {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        delete items[key];
+      }
+    },
+    async clear(): Promise<void> {
+      items = {};
+    },
+    async setAccessLevel(): Promise<void> {
+      // Session access levels have no meaning outside the browser
+    }
+  };
+}
+
+(globalThis as unknown as { chrome: unknown }).chrome = {
+  storage: {
+    local: createStorageArea(),
+    session: createStorageArea()
+  },
+  runtime: {
+    id: 'certen-test',
+    lastError: undefined,
+    getURL: (path: string) => `chrome-extension://certen-test/${path}`,
+    async sendMessage(): Promise<void> {
+      // No extension pages are listening
+    }
+  },
+  windows: {
+    async create(): Promise<{ id: number }> {
+      return { id: 1 };
+    },
+    async update(): Promise<void> {
+      // Windows have no meaning outside the browser
+    }
+  },
+  action: {
+    async openPopup(): Promise<void> {
+      // Popups have no meaning outside the browser
+    }
+  },
+  tabs: {
+    async query(): Promise<unknown[]> {
+      return [];
+    },
+    async sendMessage(): Promise<void> {
+      // No content scripts are listening
+    }
+  },
+  webNavigation: {
+    async getAllFrames(): Promise<unknown[]> {
+      return [];
+    }
+  }
+};
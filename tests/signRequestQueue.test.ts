@@ -0,0 +1,109 @@
+/**
+ * Sign request queue: session persistence, restore after a worker restart,
+ * re-attaching by request ID and expiry.
+ */
+
+import { SignRequestQueue, SIGN_REQUEST_TTL } from '../src/background/signRequestQueue';
+import { SESSION_KEY_SIGN_REQUESTS } from '../src/shared/constants';
+import { AccSignHashData, SignRequest } from '../src/shared/types';
+
+const ORIGIN = 'https://dapp.example';
+const DATA: AccSignHashData = { kind: 'acc_hash', hash: 'ab'.repeat(32) };
+
+async function storedRequests(): Promise<SignRequest[]> {
+  const result = await chrome.storage.session.get(SESSION_KEY_SIGN_REQUESTS);
+  return result[SESSION_KEY_SIGN_REQUESTS] || [];
+}
+
+describe('SignRequestQueue', () => {
+  let queue: SignRequestQueue;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    await chrome.storage.session.clear();
+    queue = new SignRequestQueue();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('mirrors requests and their status to session storage', async () => {
+    const id = queue.add('acc_signHash', DATA, ORIGIN, 'rpc-1');
+    expect(await storedRequests()).toEqual([expect.objectContaining({ id, status: 'pending', clientRequestId: 'rpc-1' })]);
+
+    queue.approve(id, 'key-1');
+    expect(await storedRequests()).toEqual([expect.objectContaining({ id, status: 'approved', keyId: 'key-1' })]);
+  });
+
+  it('restores pending requests in a new worker', async () => {
+    const first = queue.add('acc_signHash', DATA, ORIGIN, 'rpc-1');
+    jest.advanceTimersByTime(10);
+    const second = queue.add('acc_signHash', DATA, ORIGIN, 'rpc-2');
+
+    const restarted = new SignRequestQueue();
+    await restarted.restore();
+
+    expect(restarted.getPending().map(request => request.id)).toEqual([first, second]);
+    expect(restarted.get(first)).toEqual(queue.get(first));
+  });
+
+  it('errors a request that was being signed when the worker stopped', async () => {
+    const id = queue.add('acc_signHash', DATA, ORIGIN, 'rpc-1');
+    queue.approve(id, 'key-1');
+
+    const restarted = new SignRequestQueue();
+    await restarted.restore();
+
+    expect(restarted.get(id)).toMatchObject({
+      status: 'error',
+      error: 'Signing was interrupted by an extension restart'
+    });
+    expect(restarted.getPendingCount()).toBe(0);
+    expect((await storedRequests())[0].status).toBe('error');
+  });
+
+  it('lets the page re-attach to a finished request by its RPC ID', async () => {
+    const id = queue.add('acc_signHash', DATA, ORIGIN, 'rpc-1');
+    queue.complete(id, { signature: '01' });
+
+    const restarted = new SignRequestQueue();
+    await restarted.restore();
+
+    const request = restarted.findByClientId(ORIGIN, 'rpc-1');
+    expect(request?.id).toBe(id);
+    expect(restarted.findByClientId('https://other.example', 'rpc-1')).toBeUndefined();
+
+    const onComplete = jest.fn();
+    restarted.onComplete(id, onComplete);
+    expect(onComplete).toHaveBeenCalledWith({ signature: '01' }, undefined);
+  });
+
+  it('expires pending requests and tells the requester', () => {
+    const id = queue.add('acc_signHash', DATA, ORIGIN);
+    const onComplete = jest.fn();
+    const onFinish = jest.fn();
+    queue.onComplete(id, onComplete);
+    queue.onFinish(onFinish);
+
+    queue.cleanup(Date.now() + SIGN_REQUEST_TTL - 1);
+    expect(onComplete).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(SIGN_REQUEST_TTL + 1000);
+    expect(onComplete).toHaveBeenCalledWith(undefined, 'Request expired before it was approved');
+    expect(onFinish).toHaveBeenCalledWith(expect.objectContaining({ id, status: 'expired' }));
+    expect(queue.getPendingCount()).toBe(0);
+  });
+
+  it('drops finished requests once the re-attach window has passed', () => {
+    const id = queue.add('acc_signHash', DATA, ORIGIN);
+    queue.reject(id, 'User rejected');
+
+    queue.cleanup(Date.now() + 60 * 1000);
+    expect(queue.get(id)?.status).toBe('rejected');
+
+    queue.cleanup(Date.now() + 3 * 60 * 1000);
+    expect(queue.get(id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unlock throttle tests: backoff after repeated failures, persistence in
+ * storage and the wipe threshold.
+ */
+
+import { UnlockThrottle, MIN_WIPE_AFTER_FAILURES } from '../src/vault/unlockThrottle';
+
+const START = new Date('2026-01-01T00:00:00Z').getTime();
+
+async function fail(throttle: UnlockThrottle, times: number) {
+  let result;
+  for (let i = 0; i < times; i++) {
+    result = await throttle.recordFailure();
+  }
+  return result!;
+}
+
+describe('UnlockThrottle', () => {
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows three failures without delay', async () => {
+    const throttle = new UnlockThrottle();
+    await fail(throttle, 2);
+    await expect(throttle.check()).resolves.toBeUndefined();
+
+    const { status } = await fail(throttle, 1);
+    expect(status.failedAttempts).toBe(3);
+    expect(status.retryAt).toBe(START + 5000);
+    await expect(throttle.check()).rejects.toThrow('Too many failed attempts. Try again in 5 seconds.');
+  });
+
+  it('doubles the delay with each further failure, up to an hour', async () => {
+    const throttle = new UnlockThrottle();
+    expect((await fail(throttle, 4)).status.retryAt).toBe(START + 10000);
+    expect((await fail(throttle, 1)).status.retryAt).toBe(START + 20000);
+    expect((await fail(throttle, 20)).status.retryAt).toBe(START + 60 * 60 * 1000);
+    await expect(throttle.check()).rejects.toThrow('Try again in 60 minutes.');
+  });
+
+  it('allows the next attempt once the delay has passed', async () => {
+    const throttle = new UnlockThrottle();
+    await fail(throttle, 3);
+    jest.setSystemTime(START + 5000);
+    await expect(throttle.check()).resolves.toBeUndefined();
+  });
+
+  it('keeps the count across instances and clears it on success', async () => {
+    await fail(new UnlockThrottle(), 3);
+
+    const restarted = new UnlockThrottle();
+    expect((await restarted.getStatus()).failedAttempts).toBe(3);
+    await expect(restarted.check()).rejects.toThrow('Too many failed attempts');
+
+    await restarted.recordSuccess();
+    expect(await restarted.getStatus()).toEqual({ failedAttempts: 0, retryAt: 0, wipeAfterFailures: null });
+  });
+
+  it('asks for a wipe at the configured threshold', async () => {
+    const throttle = new UnlockThrottle();
+    await throttle.setWipeAfterFailures(MIN_WIPE_AFTER_FAILURES);
+
+    expect((await fail(throttle, MIN_WIPE_AFTER_FAILURES - 1)).wipe).toBe(false);
+    expect((await fail(throttle, 1)).wipe).toBe(true);
+  });
+
+  it('validates the wipe threshold', async () => {
+    const throttle = new UnlockThrottle();
+    await expect(throttle.setWipeAfterFailures(2)).rejects.toThrow('Wipe threshold must be between 5 and 100 attempts');
+    await expect(throttle.setWipeAfterFailures(1.5)).rejects.toThrow('Wipe threshold');
+    await throttle.setWipeAfterFailures(null);
+    expect((await throttle.getStatus()).wipeAfterFailures).toBeNull();
+  });
+});
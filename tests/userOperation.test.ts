@@ -0,0 +1,79 @@
+/**
+ * ERC-4337 EntryPoint v0.6 userOpHash and signing tests. The expected hash
+ * was computed independently from abi.encode of the packed fields.
+ */
+
+import * as secp from '@noble/secp256k1';
+import {
+  parseUserOperation,
+  getUserOperationHash,
+  signUserOperationHash
+} from '../src/vault/userOperation';
+import { secp256k1FromPrivateKey, hashEthSignedMessage } from '../src/vault/secp256k1';
+import { toHex, fromHex } from '../src/vault/crypto';
+
+const ENTRY_POINT_V06 = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789';
+const SEPOLIA = 11155111;
+
+const OPERATION = {
+  sender: '0x1306b01bC3e4AD202612D3843387e94737673F53',
+  nonce: 5,
+  initCode: '0x',
+  callData: '0xB61D27F6',
+  callGasLimit: '200000',
+  verificationGasLimit: '0x186a0',
+  preVerificationGas: 50000,
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '1000000000'
+};
+
+describe('parseUserOperation', () => {
+  it('normalizes quantities and bytes to lowercase hex', () => {
+    const op = parseUserOperation(OPERATION);
+    expect(op.nonce).toBe('0x5');
+    expect(op.callGasLimit).toBe('0x30d40');
+    expect(op.preVerificationGas).toBe('0xc350');
+    expect(op.maxPriorityFeePerGas).toBe('0x3b9aca00');
+    expect(op.callData).toBe('0xb61d27f6');
+    expect(op.paymasterAndData).toBe('0x');
+  });
+
+  it('rejects malformed fields', () => {
+    expect(() => parseUserOperation({ ...OPERATION, sender: '0x1234' })).toThrow('Invalid sender');
+    expect(() => parseUserOperation({ ...OPERATION, nonce: -1 })).toThrow('Invalid nonce');
+    expect(() => parseUserOperation({ ...OPERATION, nonce: {} })).toThrow('Invalid nonce');
+    expect(() => parseUserOperation({ ...OPERATION, callData: '0xabc' })).toThrow('Invalid callData');
+    expect(() => parseUserOperation([])).toThrow('UserOperation must be an object');
+  });
+});
+
+describe('getUserOperationHash', () => {
+  it('matches the EntryPoint v0.6 hash', () => {
+    const op = parseUserOperation(OPERATION);
+    expect(getUserOperationHash(op, ENTRY_POINT_V06, SEPOLIA)).toBe(
+      '0xb59fc0efb782fee81ff6293f60a7427412fe80307f0af5dd7ea266a1057c3fcd'
+    );
+  });
+
+  it('binds the chain and the entry point', () => {
+    const op = parseUserOperation(OPERATION);
+    const hash = getUserOperationHash(op, ENTRY_POINT_V06, SEPOLIA);
+    expect(getUserOperationHash(op, ENTRY_POINT_V06, 1)).not.toBe(hash);
+    expect(getUserOperationHash(op, '0x' + '00'.repeat(20), SEPOLIA)).not.toBe(hash);
+  });
+});
+
+describe('signUserOperationHash', () => {
+  it('signs the hash as an EIP-191 personal message', async () => {
+    const privateKey = fromHex('46'.repeat(32));
+    const userOpHash = getUserOperationHash(parseUserOperation(OPERATION), ENTRY_POINT_V06, SEPOLIA);
+
+    const signature = await signUserOperationHash(userOpHash, privateKey);
+    expect(signature.length).toBe(65);
+
+    const recovered = secp.Signature.fromCompact(signature.slice(0, 64))
+      .addRecoveryBit(signature[64] - 27)
+      .recoverPublicKey(hashEthSignedMessage(fromHex(userOpHash)));
+    expect(toHex(recovered.toRawBytes(false))).toBe(toHex(secp256k1FromPrivateKey(privateKey).publicKey));
+  });
+});